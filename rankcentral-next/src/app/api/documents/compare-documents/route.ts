@@ -8,14 +8,34 @@ import path from 'path';
 import { PDFProcessor } from '@/lib/comparison/pdfProcessor';
 import { CriteriaManager } from '@/lib/comparison/criteriaManager';
 import { ComparisonEngine } from '@/lib/comparison/comparisonEngine';
+import { createRankingStrategy, isRankingStrategyName } from '@/lib/comparison/rankingStrategy';
+import { isPositionBiasMode } from '@/lib/comparison/documentComparator';
+import { isEnsembleAggregation, normalizeJudges } from '@/lib/comparison/ensembleEvaluator';
+import { anonymizeDocuments, BlindReview } from '@/lib/comparison/blindReview';
+import { BudgetExceededError, BudgetTracker } from '@/lib/comparison/budgetTracker';
+import { LlmRecorder } from '@/lib/comparison/llmRecorder';
+import { EvaluationCache } from '@/lib/comparison/evaluationCache';
+import { UsageTracker } from '@/lib/comparison/usageTracker';
+import { isProgressId, ProgressTracker, releaseProgress, startProgress } from '@/lib/comparison/progressTracker';
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/comparison/promptGenerator';
+import { PromptTemplateError, promptTemplateKind, resolvePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { parseContextBudget } from '@/lib/comparison/modelContext';
+import { mergeRedactionConfigs, parseRedactionConfig, PiiRedactor, RedactionConfigError } from '@/lib/comparison/piiRedactor';
+import { getRateLimiter, RequestScheduler } from '@/lib/comparison/requestScheduler';
+import { DEFAULT_PROVIDER_MODELS, getProviderApiKey, hasUsableApiKey, isLlmProviderName, requiresApiKey, resolveProviderConfig } from '@/lib/comparison/llmProvider';
+import { CostEstimator } from '@/lib/comparison/costEstimator';
+import { WorkerPool } from '@/lib/comparison/workerPool';
+import { BlindReviewSummary, ConsistencyAnalysis, EnsembleConfig, PointwiseRanking, PromptTemplate, RedactionConfig } from '@/lib/comparison/types';
 import { getUploadDir } from '@/lib/utils/file-utils';
 import { connectToDatabase } from '@/lib/db/mongodb';
-import { getReportId } from '@/lib/utils/report-utils';
+import { createEvaluationStore, createPromptTemplateStore, getReportId, recordUserUsage, storeLlmRecords, storeReport } from '@/lib/utils/report-utils';
 import { ReportGenerator } from '@/lib/comparison/reportGenerator';
 
 const uploadDir = await getUploadDir();
 
 export async function POST(req: NextRequest): Promise<NextResponse> {
+	// Live progress of this run, readable by its owner under the ID the client chose
+	let progress: ProgressTracker | undefined;
 	try {
 		const session = await getServerSession(authOptions);
 		if (!session?.user) {
@@ -31,6 +51,21 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 		const customPrompt = data.customPrompt || '';
 		const documentsData = data.documents || [];
 		const reportName = data.reportName || '';
+		const rankingStrategyName = data.rankingStrategy || 'mergesort';
+		const positionBias = data.positionBias || 'off';
+		const resolveInconsistencies = data.resolveInconsistencies === true;
+		const hybrid = data.hybrid === true;
+		const judges = normalizeJudges(data.judges);
+		const judgeAggregation = data.judgeAggregation || 'majority';
+		const concurrency = WorkerPool.normalizeConcurrency(data.concurrency ?? process.env.COMPARISON_CONCURRENCY);
+		const budgetUsd = BudgetTracker.parseLimit(data.budgetUsd ?? process.env.COMPARISON_BUDGET_USD);
+		const budgetMode = data.budgetMode || 'degrade';
+		const contextBudget = parseContextBudget(data.contextBudget ?? process.env.COMPARISON_CONTEXT_BUDGET);
+		const providerName = data.provider || process.env.LLM_PROVIDER || 'openai';
+		const useEvaluationCache = data.useEvaluationCache !== false;
+		const blindMode = data.blindMode === true;
+		const templateName = typeof data.promptTemplate === 'string' && data.promptTemplate.trim() ? data.promptTemplate.trim() : undefined;
+		const templateVersion = Number.isInteger(data.promptTemplateVersion) ? data.promptTemplateVersion : undefined;
 
 		if (!documentsData || documentsData.length < 2) {
 			return NextResponse.json(
@@ -39,15 +74,120 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 			);
 		}
 
-		const apiKey = process.env.OPENAI_API_KEY;
-		if (!apiKey) {
-			console.error("ERROR: OpenAI API key not found in environment variables");
+		if (!isRankingStrategyName(rankingStrategyName)) {
 			return NextResponse.json(
-				{ error: 'OpenAI API key not configured' },
+				{ error: `Unknown ranking strategy: ${rankingStrategyName}` },
+				{ status: 400 }
+			);
+		}
+
+		// A shortlist size the strategy would have to replace is refused, so the run bills for the K asked for
+		if (data.topK !== undefined && data.topK !== null && !(Number.isInteger(data.topK) && data.topK >= 1)) {
+			return NextResponse.json(
+				{ error: `Shortlist size must be a whole number of at least 1: ${data.topK}` },
+				{ status: 400 }
+			);
+		}
+		const topK: number | undefined = data.topK ?? undefined;
+
+		if (!isPositionBiasMode(positionBias)) {
+			return NextResponse.json(
+				{ error: `Unknown position bias mode: ${positionBias}` },
+				{ status: 400 }
+			);
+		}
+
+		if (!isEnsembleAggregation(judgeAggregation)) {
+			return NextResponse.json(
+				{ error: `Unknown judge aggregation: ${judgeAggregation}` },
+				{ status: 400 }
+			);
+		}
+
+		if (budgetMode !== 'abort' && budgetMode !== 'degrade') {
+			return NextResponse.json(
+				{ error: `Unknown budget mode: ${budgetMode}` },
+				{ status: 400 }
+			);
+		}
+
+		if (!isLlmProviderName(providerName)) {
+			return NextResponse.json(
+				{ error: `Unknown model provider: ${providerName}` },
+				{ status: 400 }
+			);
+		}
+
+		// A panel only applies when judges are configured; otherwise one default judge is used
+		const ensemble: EnsembleConfig | undefined = judges.length > 0
+			? { judges, aggregation: judgeAggregation }
+			: undefined;
+
+		// Endpoints come from the server environment; clients only choose the provider
+		const providerConfig = resolveProviderConfig(providerName);
+		if ((providerName === 'openai-compatible' || providerName === 'azure') && !providerConfig.baseUrl) {
+			return NextResponse.json(
+				{ error: `No endpoint is configured for the ${providerName} provider` },
+				{ status: 400 }
+			);
+		}
+
+		const apiKey = getProviderApiKey(providerName) || '';
+		if (requiresApiKey(providerName) && !apiKey) {
+			console.error(`ERROR: API key for ${providerName} not found in environment variables`);
+			return NextResponse.json(
+				{ error: `API key for ${providerName} not configured` },
 				{ status: 401 }
 			);
 		}
 
+		// Runs use the template they name, or the active one of their kind, or the built-in one
+		const templateKind = promptTemplateKind(evaluationMethod);
+		let promptTemplate: PromptTemplate;
+		try {
+			promptTemplate = await resolvePromptTemplate(
+				createPromptTemplateStore((await connectToDatabase()).db),
+				templateKind,
+				templateName,
+				templateVersion
+			);
+		} catch (error) {
+			if (error instanceof PromptTemplateError) {
+				return NextResponse.json({ error: error.message }, { status: 400 });
+			}
+			if (templateName) {
+				throw error;
+			}
+			console.warn(`⚠️ Prompt template library unavailable, using the built-in template: ${error}`);
+			promptTemplate = DEFAULT_PROMPT_TEMPLATES[templateKind];
+		}
+
+		let redactionConfig: RedactionConfig | undefined;
+		try {
+			const requestedRedaction = parseRedactionConfig(data.redaction);
+			// Custom patterns run as regular expressions on the server, where a pathological
+			// one can stall it, so only admins may supply them
+			if (requestedRedaction && requestedRedaction.customPatterns.length > 0 && session.user.role !== 'admin') {
+				return NextResponse.json(
+					{ error: 'Only administrators can add custom redaction patterns' },
+					{ status: 403 }
+				);
+			}
+			// The server's setting is a minimum that a request can add to but not switch off
+			redactionConfig = mergeRedactionConfigs(parseRedactionConfig(process.env.COMPARISON_PII_REDACTION), requestedRedaction);
+		} catch (error) {
+			if (error instanceof RedactionConfigError) {
+				return NextResponse.json({ error: error.message }, { status: 400 });
+			}
+			throw error;
+		}
+
+		const modelName = typeof data.modelName === 'string' && data.modelName.trim()
+			? data.modelName.trim()
+			: DEFAULT_PROVIDER_MODELS[providerName];
+
+		progress = isProgressId(data.progressId) ? startProgress(data.progressId, userId) : undefined;
+
 		const userUploadDir = path.join(uploadDir, userId);
 		if (!fs.existsSync(userUploadDir)) {
 			fs.mkdirSync(userUploadDir, { recursive: true });
@@ -56,7 +196,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 		const pdfProcessor = new PDFProcessor();
 		const criteriaManager = new CriteriaManager();
 
-		if (evaluationMethod === 'criteria') {
+		if (evaluationMethod === 'criteria' || evaluationMethod === 'pointwise') {
 			// Validate and set criteria data
 			if (!criteriaData || criteriaData.length === 0) {
 				console.log("No criteria provided, using default criteria");
@@ -93,16 +233,171 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 			console.log(`  - ${name}: ${content.length} characters`);
 		}
 
+		// Blind runs show the model texts stripped of author details under neutral aliases;
+		// document names only come back in the analyses stored with the report
+		let documentTexts = pdfContents;
+		let blind: BlindReview | undefined;
+		let blindSummary: BlindReviewSummary | null = null;
+		if (blindMode) {
+			const anonymized = anonymizeDocuments(pdfContents);
+			documentTexts = anonymized.documents;
+			blind = BlindReview.forDocuments(Object.keys(pdfContents));
+			blindSummary = blind.summary(anonymized.redactions);
+		}
+
+		// Personal data is replaced before any text reaches the model; the stored texts keep it
+		const redactor = redactionConfig ? new PiiRedactor(redactionConfig) : undefined;
+		const promptTexts = redactor ? redactor.redactDocuments(documentTexts) : documentTexts;
+
+		const costEstimate = new CostEstimator(promptTemplate).estimate({
+			documents: promptTexts,
+			criteria: criteriaManager.criteria,
+			evaluationMethod,
+			rankingStrategy: rankingStrategyName,
+			topK,
+			swissRounds: typeof data.swissRounds === 'number' ? data.swissRounds : undefined,
+			positionBias,
+			judges,
+			hybrid,
+			modelName,
+			provider: providerName,
+			contextBudget
+		});
+
+		// In abort mode there is no point starting a run the estimate says will not fit
+		if (budgetUsd !== undefined && budgetMode === 'abort' && costEstimate.estimatedCost > budgetUsd) {
+			return NextResponse.json(
+				{
+					error: `Estimated cost $${costEstimate.estimatedCost.toFixed(4)} exceeds the budget of $${budgetUsd.toFixed(2)}`,
+					cost_estimate: costEstimate
+				},
+				{ status: 402 }
+			);
+		}
+
+		const budget = budgetUsd !== undefined ? new BudgetTracker(budgetUsd, budgetMode, providerName) : undefined;
+		// Keep every prompt and raw completion so the ranking can be replayed offline
+		const recorder = new LlmRecorder('record');
+		// Calls share rate limits with every other run on the same key; retries are counted per run
+		const scheduler = new RequestScheduler(getRateLimiter(providerName, apiKey));
+		// Tokens and cost of the calls actually made, for the report and the user's chargeback totals
+		const usageTracker = new UsageTracker(providerName);
+
+		// Criterion evaluations already paid for by earlier runs on the same documents are reused
+		let evaluationCache: EvaluationCache | undefined;
+		if (useEvaluationCache) {
+			try {
+				evaluationCache = new EvaluationCache(createEvaluationStore((await connectToDatabase()).db, userId));
+			} catch (error) {
+				console.warn(`⚠️ Evaluation cache unavailable, running without it: ${error}`);
+			}
+		}
+
 		const comparisonEngine = new ComparisonEngine(
-			pdfContents,
+			promptTexts,
 			criteriaManager.criteria,
 			apiKey,
 			pdfProcessor,
-			evaluationMethod === 'prompt'
+			evaluationMethod === 'prompt',
+			modelName,
+			{ concurrency, positionBias, ensemble, budget, recorder, provider: providerConfig, scheduler, contextBudget, evaluationCache, usageTracker, progress, promptTemplate, blind, redactor }
 		);
 
 		const docList = Object.keys(pdfContents);
-		const results = await comparisonEngine.compareWithMergesort(docList);
+		progress?.expect(costEstimate.comparisons, evaluationMethod === 'pointwise' ? docList.length : 0);
+		const swissRounds = typeof data.swissRounds === 'number' ? data.swissRounds : undefined;
+		const maxExtraComparisons = typeof data.maxExtraComparisons === 'number' ? data.maxExtraComparisons : undefined;
+		const rankingStrategy = createRankingStrategy(rankingStrategyName, {
+			swissRounds,
+			topK
+		});
+
+		// Pointwise evaluation scores each document on its own instead of running a
+		// pairwise ranking strategy; the hybrid option then refines neighbours pairwise
+		let pointwise: PointwiseRanking | undefined;
+		let results: string[];
+		let consistency: ConsistencyAnalysis;
+		try {
+			if (evaluationMethod === 'pointwise') {
+				pointwise = await comparisonEngine.rankPointwise(docList, hybrid);
+				results = pointwise.ranking;
+			} else {
+				results = await comparisonEngine.rankDocuments(docList, rankingStrategy);
+			}
+
+			// Look for preference cycles the strategy may have hidden, optionally spending
+			// a few extra comparisons to settle them
+			if (resolveInconsistencies) {
+				const resolution = await comparisonEngine.resolveInconsistencies(
+					docList,
+					results,
+					maxExtraComparisons
+				);
+				results = resolution.ranking;
+				consistency = resolution.analysis;
+			} else {
+				consistency = comparisonEngine.analyzeConsistency(docList);
+			}
+		} catch (error) {
+			if (error instanceof BudgetExceededError) {
+				console.error(`💸 ${error.message}`);
+				progress?.fail(error.message);
+				// The calls made before the budget ran out are still charged to the user
+				const tokenUsage = usageTracker.summary();
+				try {
+					const { db } = await connectToDatabase();
+					await recordUserUsage(db, userId, {
+						comparisons: comparisonEngine.comparisonResults.length,
+						documents: docList.length,
+						reports: 0,
+						usage: tokenUsage
+					});
+				} catch (e) {
+					console.error(`Error recording usage: ${e}`);
+				}
+				return NextResponse.json(
+					{ error: error.message, cost_estimate: costEstimate, budget: error.summary, token_usage: tokenUsage },
+					{ status: 402 }
+				);
+			}
+			throw error;
+		}
+
+		const budgetSummary = budget?.summary() ?? null;
+		if (budgetSummary?.exhausted) {
+			console.warn(`💸 Budget cap reached: ${budgetSummary.refusedCalls} model calls were skipped`);
+		}
+
+		const retryStats = scheduler.summary();
+		if (retryStats.retries > 0) {
+			console.warn(`⏳ ${retryStats.retries} model call retries (${retryStats.rateLimited} rate limited), ${retryStats.failedCalls} calls failed after retrying`);
+		}
+
+		const cacheStats = evaluationCache?.summary() ?? null;
+		if (cacheStats) {
+			console.log(`💾 Evaluation cache: ${cacheStats.hits} hits (${cacheStats.swappedHits} in swapped order), ${cacheStats.misses} misses, ${cacheStats.stored} stored`);
+		}
+
+		const tokenUsage = usageTracker.summary();
+		console.log(`🧾 Model usage: ${tokenUsage.calls} calls, ${tokenUsage.inputTokens} input + ${tokenUsage.outputTokens} output tokens, $${tokenUsage.costUsd.toFixed(4)}${tokenUsage.known === false ? ' (estimated: some models have no known price)' : ''}`);
+
+		// Fit Bradley–Terry strengths from every pairwise result gathered during the sort
+		const scores = comparisonEngine.estimateScores(docList);
+		const positionConsistency = comparisonEngine.measurePositionConsistency();
+
+		// In top-K mode everything after the shortlist is unranked
+		const shortlistSize = !pointwise && rankingStrategy.shortlistSize !== undefined
+			? Math.min(rankingStrategy.shortlistSize, results.length)
+			: undefined;
+
+		// Keep documents whose comparison was a tie together instead of in arbitrary order.
+		// Pointwise tiers come from equal totals, unless refinement settled them pairwise;
+		// a later resolution pass may have reordered the pointwise ranking
+		const tiers = pointwise && !resolveInconsistencies
+			? pointwise.tiers
+			: comparisonEngine.groupTies(results, shortlistSize);
+
+		progress?.setPhase('reporting');
 
 		// Generate CSV reports using ReportGenerator
 		const reportGenerator = new ReportGenerator();
@@ -110,11 +405,15 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 			docList,
 			comparisonEngine.comparisonResults,
 			reportName || "Report",
-			results // Pass the merge sort results directly to generate report
+			tiers, // Pass the ranking tiers directly to generate report
+			scores,
+			consistency,
+			shortlistSize,
+			pointwise?.scores
 		);
 		
 		// Convert the report data into CSV files - pass the sorted documents order for unified ranking
-		const csvFiles = reportGenerator.createCsvFiles(reportData, reportName || "csv_reports", results, comparisonEngine.comparisonResults);
+		const csvFiles = reportGenerator.createCsvFiles(reportData, reportName || "csv_reports", tiers, comparisonEngine.comparisonResults);
 		
 		// Format the CSV files for MongoDB storage - convert from array of objects to array of formatted objects
 		const formattedCsvFiles = csvFiles.map(csvFile => {
@@ -125,14 +424,14 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 		});
 
 		const reportId = getReportId();
+		// The exact template text is kept, so the report can be replayed and compared with other versions
+		const promptTemplateRecord = { name: promptTemplate.name, kind: promptTemplate.kind, version: promptTemplate.version, body: promptTemplate.body };
 		const timestamp = new Date().toISOString();
 		const conn = await connectToDatabase();
 
 		if (conn) {
 			try {
-				const reportsCollection = conn.db.collection('reports');
-
-				const apiKeyStatus = apiKey.length > 20
+				const apiKeyStatus = hasUsableApiKey(providerName, apiKey)
 					? "Valid API key"
 					: "Invalid or missing API key";
 
@@ -141,45 +440,106 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 					report_id: reportId,
 					timestamp: timestamp,
 					documents: docList,
-					top_ranked: results[0] || null,
+					top_ranked: tiers[0]?.join(', ') || null, // Tied leaders are listed together
 					csv_files: formattedCsvFiles,  // Store CSV files in the formatted structure
 					criteria_count: criteriaManager.criteria.length,
 					evaluation_method: evaluationMethod,
+					ranking_strategy: pointwise ? null : rankingStrategy.name,
+					position_bias: positionBias,
+					position_consistency: positionConsistency,
+					consistency_analysis: consistency,
+					shortlist_size: shortlistSize ?? null,
+					// Settings a replay needs to make the same calls in the same order
+					swiss_rounds: swissRounds ?? null,
+					resolve_inconsistencies: resolveInconsistencies,
+					max_extra_comparisons: maxExtraComparisons ?? null,
+					context_budget: contextBudget ?? null,
+					prompt_template: promptTemplateRecord,
+					blind_review: blindSummary,
+					pii_redaction: redactor?.summary() ?? null,
+					ensemble: ensemble ?? null,
+					pointwise_scores: pointwise?.scores,
+					pointwise_refinement: pointwise?.refinement ?? null,
+					cost_estimate: costEstimate,
+					budget: budgetSummary,
+					retry_stats: retryStats,
+					evaluation_cache: cacheStats,
+					token_usage: tokenUsage,
+					llm_record_count: recorder.records.length,
+					llm_provider: providerName,
 					custom_prompt: evaluationMethod === 'prompt' ? customPrompt : "",
 					report_name: reportName || `Report ${new Date().toISOString().split('T')[0]}`,
 					api_key_status: apiKeyStatus,
-					ranking: results // <-- Always store the ranking array
+					ranking: tiers, // <-- Always store the ranking, as tiers of tied documents
+					scores: scores,
+					// Everything needed to extend this report later without re-running it
+					criteria: criteriaManager.criteria,
+					model_name: comparisonEngine.modelName,
+					// Blind reports keep the stripped texts, so later versions show the model the same;
+					// personal data is kept and redacted again whenever the texts are sent
+					document_texts: documentTexts,
+					comparison_details: comparisonEngine.comparisonResults,
+					version: 1,
+					parent_report_id: null
 				};
 
-				await reportsCollection.insertOne(reportDocument);
-
-				const allReports = await reportsCollection
-					.find({ user_id: userId })
-					.sort({ timestamp: -1 })
-					.toArray();
-
-				if (allReports.length > 5) {
-					const reportsToDelete = allReports.slice(5);
-					const reportIds = reportsToDelete.map(report => report._id);
-					await reportsCollection.deleteMany({ _id: { $in: reportIds } });
-				}
+				await storeReport(conn.db, reportDocument);
+				await storeLlmRecords(conn.db, reportId, userId, recorder.records);
+				await recordUserUsage(conn.db, userId, {
+					comparisons: comparisonEngine.comparisonResults.length,
+					documents: docList.length,
+					reports: 1,
+					usage: tokenUsage
+				});
 			} catch (e) {
 				console.error(`Error storing report history: ${e}`);
 			}
 		}
 
+		progress?.complete(reportId);
+
 		return NextResponse.json({
 			success: true,
 			message: "Comparison completed successfully",
 			ranked_documents: results,
+			ranking_tiers: tiers,
+			scores: scores,
+			ranking_strategy: pointwise ? null : rankingStrategy.name,
+			position_bias: positionBias,
+			position_consistency: positionConsistency,
+			consistency_analysis: consistency,
+			shortlist_size: shortlistSize ?? null,
+			ensemble: ensemble ?? null,
+			prompt_template: promptTemplateRecord,
+			blind_review: blindSummary,
+			pii_redaction: redactor?.summary() ?? null,
+			pointwise_scores: pointwise?.scores,
+			pointwise_refinement: pointwise?.refinement ?? null,
+			cost_estimate: costEstimate,
+			budget: budgetSummary,
+			retry_stats: retryStats,
+			evaluation_cache: cacheStats,
+			token_usage: tokenUsage,
+			llm_provider: providerName,
+			model_name: comparisonEngine.modelName,
+			not_shortlisted: shortlistSize !== undefined ? results.slice(shortlistSize) : [],
 			comparison_details: comparisonEngine.comparisonResults,
 			report_id: reportId
 		});
 	} catch (error) {
 		console.error("Error in document comparison:", error);
+		progress?.fail(`Error during comparison: ${error}`);
 		return NextResponse.json(
 			{ error: `Error during comparison: ${error}` },
 			{ status: 500 }
 		);
+	} finally {
+		if (progress) {
+			// A run that returned early without finishing still has to stop showing as running
+			if (progress.status === 'running') {
+				progress.fail('Comparison stopped before completing');
+			}
+			releaseProgress(progress);
+		}
 	}
 }
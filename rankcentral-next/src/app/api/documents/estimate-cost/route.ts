@@ -0,0 +1,142 @@
+// src/app/api/documents/estimate-cost/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { PDFProcessor } from '@/lib/comparison/pdfProcessor';
+import { CriteriaManager } from '@/lib/comparison/criteriaManager';
+import { CostEstimator } from '@/lib/comparison/costEstimator';
+import { isRankingStrategyName } from '@/lib/comparison/rankingStrategy';
+import { isPositionBiasMode } from '@/lib/comparison/documentComparator';
+import { normalizeJudges } from '@/lib/comparison/ensembleEvaluator';
+import { DEFAULT_PROVIDER_MODELS, isLlmProviderName } from '@/lib/comparison/llmProvider';
+import { parseContextBudget } from '@/lib/comparison/modelContext';
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/comparison/promptGenerator';
+import { PromptTemplateError, promptTemplateKind, resolvePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { PromptTemplate } from '@/lib/comparison/types';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { createPromptTemplateStore } from '@/lib/utils/report-utils';
+
+/**
+ * Predicts the model calls, tokens and cost of a comparison without running it.
+ * Takes the same body as the compare endpoint.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+	try {
+		const session = await getServerSession(authOptions);
+		if (!session?.user) {
+			return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const data = await req.json();
+
+		const criteriaData = data.criteria || [];
+		const evaluationMethod = data.evaluationMethod || 'criteria';
+		const customPrompt = data.customPrompt || '';
+		const documentsData = data.documents || [];
+		const rankingStrategyName = data.rankingStrategy || 'mergesort';
+		const positionBias = data.positionBias || 'off';
+		const providerName: unknown = data.provider;
+		const templateName = typeof data.promptTemplate === 'string' && data.promptTemplate.trim() ? data.promptTemplate.trim() : undefined;
+		const templateVersion = Number.isInteger(data.promptTemplateVersion) ? data.promptTemplateVersion : undefined;
+
+		if (!documentsData || documentsData.length < 2) {
+			return NextResponse.json(
+				{ error: 'Provide at least two documents for comparison' },
+				{ status: 400 }
+			);
+		}
+
+		if (!isRankingStrategyName(rankingStrategyName)) {
+			return NextResponse.json(
+				{ error: `Unknown ranking strategy: ${rankingStrategyName}` },
+				{ status: 400 }
+			);
+		}
+
+		// Matches the shortlist sizes accepted by the compare-documents API
+		if (data.topK !== undefined && data.topK !== null && !(Number.isInteger(data.topK) && data.topK >= 1)) {
+			return NextResponse.json(
+				{ error: `Shortlist size must be a whole number of at least 1: ${data.topK}` },
+				{ status: 400 }
+			);
+		}
+
+		if (!isPositionBiasMode(positionBias)) {
+			return NextResponse.json(
+				{ error: `Unknown position bias mode: ${positionBias}` },
+				{ status: 400 }
+			);
+		}
+
+		// Build the same criteria the comparison would use, so prompt sizes match
+		const criteriaManager = new CriteriaManager();
+		if (evaluationMethod === 'criteria' || evaluationMethod === 'pointwise') {
+			if (criteriaData.length > 0) {
+				criteriaManager.criteria = criteriaData;
+			}
+			criteriaManager.getCriteriaFromUser();
+		} else {
+			criteriaManager.criteria = [{
+				id: "custom",
+				name: "Custom Evaluation",
+				description: customPrompt,
+				weight: 100,
+				isCustomPrompt: true
+			}];
+		}
+
+		// Measure prompts with the template the comparison would use
+		const templateKind = promptTemplateKind(evaluationMethod);
+		let promptTemplate: PromptTemplate;
+		try {
+			promptTemplate = await resolvePromptTemplate(
+				createPromptTemplateStore((await connectToDatabase()).db),
+				templateKind,
+				templateName,
+				templateVersion
+			);
+		} catch (error) {
+			if (error instanceof PromptTemplateError) {
+				return NextResponse.json({ error: error.message }, { status: 400 });
+			}
+			if (templateName) {
+				throw error;
+			}
+			console.warn(`⚠️ Prompt template library unavailable, using the built-in template: ${error}`);
+			promptTemplate = DEFAULT_PROMPT_TEMPLATES[templateKind];
+		}
+
+		const pdfProcessor = new PDFProcessor();
+		const documentInputs = documentsData.map((doc: { displayName: string; content: string }) => ({
+			displayName: doc.displayName,
+			content: doc.content
+		}));
+		const pdfContents = await pdfProcessor.processDocuments(documentInputs);
+
+		const estimate = new CostEstimator(promptTemplate).estimate({
+			documents: pdfContents,
+			criteria: criteriaManager.criteria,
+			evaluationMethod,
+			rankingStrategy: rankingStrategyName,
+			topK: data.topK ?? undefined,
+			swissRounds: typeof data.swissRounds === 'number' ? data.swissRounds : undefined,
+			positionBias,
+			judges: normalizeJudges(data.judges),
+			hybrid: data.hybrid === true,
+			modelName: typeof data.modelName === 'string' && data.modelName.trim()
+				? data.modelName.trim()
+				: isLlmProviderName(providerName) ? DEFAULT_PROVIDER_MODELS[providerName] : undefined,
+			provider: isLlmProviderName(providerName) ? providerName : undefined,
+			contextBudget: parseContextBudget(data.contextBudget ?? process.env.COMPARISON_CONTEXT_BUDGET)
+		});
+
+		return NextResponse.json({ success: true, estimate });
+	} catch (error) {
+		console.error("Error estimating comparison cost:", error);
+		return NextResponse.json(
+			{ error: `Error estimating cost: ${error}` },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,41 @@
+// src/app/api/documents/progress/[progressId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getProgress } from '@/lib/comparison/progressTracker';
+
+/**
+ * Progress of a running comparison, polled by the page that started it.
+ * `?since=` limits the events to those after the last sequence number the client saw.
+ */
+export async function GET(
+	req: NextRequest,
+	{ params }: { params: Promise<{ progressId: string }> }
+): Promise<NextResponse> {
+	try {
+		const session = await getServerSession(authOptions);
+		if (!session?.user) {
+			return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { progressId } = await params;
+		const tracker = getProgress(progressId, session.user.id);
+		if (!tracker) {
+			// Also the answer while the compare request has not reached the engine yet
+			return NextResponse.json({ error: 'No comparison in progress with this ID' }, { status: 404 });
+		}
+
+		const since = Number(req.nextUrl.searchParams.get('since'));
+		return NextResponse.json({
+			success: true,
+			progress: tracker.snapshot(Number.isFinite(since) && since > 0 ? since : 0)
+		});
+	} catch (error) {
+		console.error("Error reading comparison progress:", error);
+		return NextResponse.json(
+			{ error: `Error reading comparison progress: ${error}` },
+			{ status: 500 }
+		);
+	}
+}
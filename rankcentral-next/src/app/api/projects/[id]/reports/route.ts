@@ -5,6 +5,8 @@ import { Project } from '@/models/Project';
 import { Report } from '@/models/Report';
 import { connectMongoose } from '@/lib/db/mongoose';
 import { authOptions } from '@/lib/auth';
+import { emptyUsage, sumUsage } from '@/lib/comparison/usageTracker';
+import type { UsageSummary } from '@/lib/comparison/types';
 
 // Define an interface for the project document to ensure TypeScript knows about the reports field
 interface ProjectDocument {
@@ -15,6 +17,62 @@ interface ProjectDocument {
     [key: string]: any;
 }
 
+/**
+ * Adds the model usage of reports to the project's running total, or takes it off again.
+ * The total is kept on the project because reports are pruned from their owner's history.
+ * Projects from before the total was kept are first seeded with the reports they held.
+ * @param projectId Project to update
+ * @param previousReportIds Reports the project held before the change
+ * @param reports Reports joining (sign 1) or leaving (sign -1) the project
+ * @param sign Direction of the change
+ */
+async function adjustProjectUsage(
+	projectId: mongoose.Types.ObjectId,
+	previousReportIds: mongoose.Types.ObjectId[],
+	reports: Array<{ token_usage?: UsageSummary | null }>,
+	sign: 1 | -1
+): Promise<void> {
+	const usage = sumUsage(reports.map(report => report.token_usage ?? undefined));
+	if (!usage) {
+		return;
+	}
+
+	if (!await Project.exists({ _id: projectId, 'usage.seeded': true })) {
+		const previousReports = await Report.find({
+			_id: { $in: previousReportIds }
+		}).select('token_usage').lean() as Array<{ token_usage?: UsageSummary | null }>;
+		const seed = sumUsage(previousReports.map(report => report.token_usage ?? undefined)) ?? emptyUsage();
+
+		// The filter keeps a concurrent request from seeding the total twice
+		await Project.updateOne(
+			{ _id: projectId, 'usage.seeded': { $ne: true } },
+			{
+				$set: {
+					'usage.total_model_calls': seed.calls,
+					'usage.total_input_tokens': seed.inputTokens,
+					'usage.total_output_tokens': seed.outputTokens,
+					'usage.total_cost_usd': seed.costUsd,
+					'usage.cost_known': seed.known !== false,
+					'usage.seeded': true
+				}
+			}
+		);
+	}
+
+	await Project.updateOne(
+		{ _id: projectId },
+		{
+			$inc: {
+				'usage.total_model_calls': sign * usage.calls,
+				'usage.total_input_tokens': sign * usage.inputTokens,
+				'usage.total_output_tokens': sign * usage.outputTokens,
+				'usage.total_cost_usd': sign * usage.costUsd
+			},
+			...(sign === 1 && usage.known === false ? { $set: { 'usage.cost_known': false } } : {})
+		}
+	);
+}
+
 // GET /api/projects/[id]/reports - Get all reports for a project
 export async function GET(
 	request: Request,
@@ -130,7 +188,7 @@ export async function POST(
 		const existingReports = await Report.find({
 			_id: { $in: reportIds },
 			userId: session.user.id
-		}).select('_id');
+		}).select('_id token_usage');
 
 		if (existingReports.length === 0) {
 			return NextResponse.json(
@@ -167,6 +225,7 @@ export async function POST(
 			});
 		}
 
+		const previousReportIds = typedProject.reports;
 		typedProject.reports = [...typedProject.reports, ...newReportIds];
 		typedProject.lastUpdated = new Date();
 		await project.save();
@@ -176,6 +235,14 @@ export async function POST(
 			{ $set: { projectId: typedProject._id } }
 		);
 
+		const addedIds = new Set(newReportIds.map(reportId => reportId.toString()));
+		await adjustProjectUsage(
+			typedProject._id,
+			previousReportIds,
+			existingReports.filter(report => addedIds.has(report._id.toString())),
+			1
+		);
+
 		return NextResponse.json({
 			message: `${newReportIds.length} reports added to project`,
 			reports: typedProject.reports,
@@ -242,6 +309,8 @@ export async function DELETE(
 		// Safe type assertion after checking project exists
 		const typedProject = project as unknown as ProjectDocument;
 
+		const previousReportIds = typedProject.reports;
+
 		// Fix the typing issues
 		const reportsToRemove = new Set<string>(body.reports.map((id: string) => id.toString()));
 		const updatedReports = typedProject.reports.filter(
@@ -256,6 +325,13 @@ export async function DELETE(
 		const reportsToRemoveArray = Array.from(reportsToRemove);
 		const objectIdsToRemove = reportsToRemoveArray.map(id => new mongoose.Types.ObjectId(id.toString()));
 
+		// Reports already pruned from their owner's history stay counted
+		const removedReports = await Report.find({
+			_id: { $in: objectIdsToRemove },
+			projectId: typedProject._id
+		}).select('token_usage').lean() as Array<{ token_usage?: UsageSummary | null }>;
+		await adjustProjectUsage(typedProject._id, previousReportIds, removedReports, -1);
+
 		await Report.updateMany(
 			{ 
 				_id: { $in: objectIdsToRemove },
@@ -6,6 +6,8 @@ import { Report } from '@/models/Report';
 import { connectMongoose } from '@/lib/db/mongoose';
 import { ObjectId } from 'mongodb';
 import { authOptions } from '@/lib/auth';
+import { roundCost, sumUsage } from '@/lib/comparison/usageTracker';
+import type { TokenUsage } from '@/lib/comparison/types';
 
 // Define an interface for the project document
 interface ProjectDocument {
@@ -18,6 +20,14 @@ interface ProjectDocument {
     status: 'active' | 'completed' | 'archived';
     documents: string[];
     reports?: string[] | ObjectId[];
+    usage?: {
+        total_model_calls: number;
+        total_input_tokens: number;
+        total_output_tokens: number;
+        total_cost_usd: number;
+        cost_known?: boolean;
+        seeded?: boolean;
+    };
     __v?: number;
 }
 
@@ -72,10 +82,23 @@ export async function GET(
 			}).lean();
 		}
 
+		// The running total outlives reports pruned from the owner's history; projects whose
+		// total has not been seeded yet fall back to the reports still stored
+		const usage: TokenUsage | undefined = project.usage?.seeded
+			? {
+				calls: project.usage.total_model_calls,
+				inputTokens: project.usage.total_input_tokens,
+				outputTokens: project.usage.total_output_tokens,
+				costUsd: project.usage.total_cost_usd,
+				...(project.usage.cost_known === false ? { known: false } : {})
+			}
+			: sumUsage(reports.map(report => report.token_usage ?? undefined));
+
 		// Return the project with report details
 		return NextResponse.json({
 			...project,
-			reports
+			reports,
+			token_usage: usage ? { ...usage, costUsd: roundCost(usage.costUsd) } : null
 		});
 
 	} catch (error) {
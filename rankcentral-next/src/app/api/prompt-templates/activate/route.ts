@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { DEFAULT_PROMPT_TEMPLATE_NAME } from '@/lib/comparison/promptGenerator';
+import { isPromptTemplateKind } from '@/lib/comparison/promptTemplates';
+import { createPromptTemplateStore } from '@/lib/utils/report-utils';
+
+/**
+ * POST /api/prompt-templates/activate - Choose the template version runs of a kind use (admins only)
+ *
+ * Activating the built-in template ("default") switches stored versions of the kind off.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to edit prompt templates" },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Only admins can edit prompt templates" },
+        { status: 403 }
+      );
+    }
+
+    const { kind, name, version } = await request.json();
+
+    if (!isPromptTemplateKind(kind)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template kind: ${kind}` },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const store = createPromptTemplateStore(db);
+
+    if (name === DEFAULT_PROMPT_TEMPLATE_NAME) {
+      await store.activate(kind, null);
+      console.log(`📝 Built-in ${kind} prompt template is active again`);
+      return NextResponse.json({ success: true });
+    }
+
+    const template = typeof name === 'string' && Number.isInteger(version)
+      ? await store.find(name, version)
+      : null;
+
+    if (!template || template.kind !== kind) {
+      return NextResponse.json(
+        { error: "Prompt template version not found" },
+        { status: 404 }
+      );
+    }
+
+    await store.activate(kind, template);
+    console.log(`📝 Prompt template ${template.name} v${template.version} is now active for ${kind} evaluations`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error activating prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate prompt template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/comparison/promptGenerator';
+import { isPromptTemplateKind, PROMPT_TEMPLATE_KINDS, PROMPT_TEMPLATE_VARIABLES, REQUIRED_PROMPT_TEMPLATE_VARIABLES, validatePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { createPromptTemplateStore } from '@/lib/utils/report-utils';
+
+/**
+ * GET /api/prompt-templates - List every prompt template version, built-in ones first
+ *
+ * Any signed-in user can list templates, so runs can name the version they want.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to view prompt templates" },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const stored = await createPromptTemplateStore(db).list();
+
+    // A built-in template is active for its kind while no stored version is
+    const builtIn = PROMPT_TEMPLATE_KINDS.map(kind => ({
+      ...DEFAULT_PROMPT_TEMPLATES[kind],
+      active: !stored.some(template => template.kind === kind && template.active)
+    }));
+
+    return NextResponse.json({
+      success: true,
+      templates: [...builtIn, ...stored],
+      variables: PROMPT_TEMPLATE_VARIABLES,
+      required_variables: REQUIRED_PROMPT_TEMPLATE_VARIABLES
+    });
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompt-templates - Save the next version of a prompt template (admins only)
+ *
+ * Saved versions are never changed; editing a template saves a new version, which
+ * only becomes the one runs use once it is activated.
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to edit prompt templates" },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Only admins can edit prompt templates" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const templateBody = typeof body.body === 'string' ? body.body : '';
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+
+    if (!isPromptTemplateKind(body.kind)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template kind: ${body.kind}` },
+        { status: 400 }
+      );
+    }
+
+    const problems = validatePromptTemplate(name, body.kind, templateBody);
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: problems.join('; '), problems },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const store = createPromptTemplateStore(db);
+
+    // Every version of a template is for the same kind of evaluation
+    const latest = await store.find(name);
+    if (latest && latest.kind !== body.kind) {
+      return NextResponse.json(
+        { error: `Prompt template "${name}" is for ${latest.kind} evaluations` },
+        { status: 409 }
+      );
+    }
+
+    const template = await store.add({
+      name,
+      kind: body.kind,
+      body: templateBody,
+      description: description || undefined,
+      createdBy: session.user.email || session.user.id
+    });
+
+    if (body.activate === true) {
+      await store.activate(template.kind, template);
+      template.active = true;
+    }
+
+    console.log(`📝 Saved prompt template ${template.name} v${template.version} (${template.kind})${template.active ? ', now active' : ''}`);
+
+    return NextResponse.json({ success: true, template }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to save prompt template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,314 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { ComparisonEngine } from '@/lib/comparison/comparisonEngine';
+import { LlmRecorder } from '@/lib/comparison/llmRecorder';
+import { EvaluationCache } from '@/lib/comparison/evaluationCache';
+import { UsageTracker } from '@/lib/comparison/usageTracker';
+import { getRateLimiter, RequestScheduler } from '@/lib/comparison/requestScheduler';
+import { getProviderApiKey, isLlmProviderName, requiresApiKey, resolveProviderConfig } from '@/lib/comparison/llmProvider';
+import { isPositionBiasMode } from '@/lib/comparison/documentComparator';
+import { isEnsembleAggregation, normalizeJudges } from '@/lib/comparison/ensembleEvaluator';
+import { PDFProcessor } from '@/lib/comparison/pdfProcessor';
+import { normalizePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { anonymizeDocuments, BlindReview, normalizeBlindReview } from '@/lib/comparison/blindReview';
+import { mergeRedactionConfigs, normalizeRedactionSummary, parseRedactionConfig, PiiRedactor, RedactionConfigError } from '@/lib/comparison/piiRedactor';
+import { ReportGenerator } from '@/lib/comparison/reportGenerator';
+import { WorkerPool } from '@/lib/comparison/workerPool';
+import { ComparisonResult, Criterion, EnsembleConfig, PointwiseRanking, PointwiseScore } from '@/lib/comparison/types';
+import { flattenTiers, normalizeRankingTiers } from '@/lib/comparison/rankingTiers';
+import { createEvaluationStore, getReportId, loadLlmRecords, recordUserUsage, storeLlmRecords, storeReport } from '@/lib/utils/report-utils';
+
+// Interface for a late document submitted for insertion
+interface DocumentInput {
+  displayName: string;
+  content: string;
+}
+
+/**
+ * POST /api/reports/[reportId]/insert-documents - Insert late documents into an existing ranking
+ *
+ * Reuses the report's criteria, model and cached pairwise results, places each new
+ * document with binary-insertion comparisons and stores the result as a new report version.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to update reports" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Await params before accessing its properties (Next.js 15 requirement)
+    const { reportId } = await params;
+
+    const body = await request.json();
+    const documentsData: DocumentInput[] = Array.isArray(body.documents) ? body.documents : [];
+
+    if (documentsData.length === 0) {
+      return NextResponse.json(
+        { error: "Provide at least one document to insert" },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+
+    const report = await db.collection('reports').findOne({
+      report_id: reportId,
+      user_id: userId
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    const storedTexts: Record<string, string> = report.document_texts || {};
+    const storedCriteria: Criterion[] = report.criteria || [];
+    // Older reports store a flat ranking rather than tiers
+    const ranking = flattenTiers(normalizeRankingTiers(report.ranking));
+
+    if (ranking.length === 0 || storedCriteria.length === 0 || ranking.some(doc => !storedTexts[doc])) {
+      return NextResponse.json(
+        { error: "This report was created before incremental insertion was supported; run a new comparison instead" },
+        { status: 400 }
+      );
+    }
+
+    const duplicates = documentsData
+      .map(doc => doc.displayName)
+      .filter((name, index, names) => ranking.includes(name) || names.indexOf(name) !== index);
+
+    if (duplicates.length > 0) {
+      return NextResponse.json(
+        { error: `Documents already in the report or submitted twice: ${[...new Set(duplicates)].join(', ')}` },
+        { status: 409 }
+      );
+    }
+
+    // Extract text for the new documents only; existing texts come from the report
+    const pdfProcessor = new PDFProcessor();
+    const extractedContents = await pdfProcessor.processDocuments(documentsData);
+    const newDocuments = Object.keys(extractedContents);
+
+    // Late documents of a blind report are stripped like the others and numbered after them
+    const blindReview = normalizeBlindReview(report.blind_review);
+    let newContents = extractedContents;
+    let blind: BlindReview | undefined;
+    if (blindReview) {
+      const anonymized = anonymizeDocuments(extractedContents);
+      newContents = anonymized.documents;
+      blind = BlindReview.forDocuments([...ranking, ...newDocuments], blindReview.aliases);
+      blindReview.aliases = blind.aliases;
+      blindReview.redactions = { ...blindReview.redactions, ...anonymized.redactions };
+    }
+    const allContents = { ...storedTexts, ...newContents };
+
+    // Late documents are redacted like the report's own; the stored ones come first, so they keep their placeholders
+    let redactor: PiiRedactor | undefined;
+    try {
+      // The server's setting is a minimum here too; the report's own setting keeps its custom patterns
+      const redactionConfig = mergeRedactionConfigs(
+        parseRedactionConfig(process.env.COMPARISON_PII_REDACTION),
+        normalizeRedactionSummary(report.pii_redaction)
+      );
+      redactor = redactionConfig ? new PiiRedactor(redactionConfig) : undefined;
+    } catch (error) {
+      if (error instanceof RedactionConfigError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Further calls go to the provider the report was created with
+    const providerName = isLlmProviderName(report.llm_provider) ? report.llm_provider : 'openai';
+    const apiKey = getProviderApiKey(providerName) || '';
+    if (requiresApiKey(providerName) && !apiKey) {
+      console.error(`ERROR: API key for ${providerName} not found in environment variables`);
+      return NextResponse.json(
+        { error: `API key for ${providerName} not configured` },
+        { status: 401 }
+      );
+    }
+
+    const positionBias = isPositionBiasMode(report.position_bias) ? report.position_bias : 'off';
+    // New documents are judged by the same panel as the rest of the report
+    const storedJudges = normalizeJudges(report.ensemble?.judges);
+    const ensemble: EnsembleConfig | undefined = storedJudges.length > 0
+      ? { judges: storedJudges, aggregation: isEnsembleAggregation(report.ensemble?.aggregation) ? report.ensemble.aggregation : 'majority' }
+      : undefined;
+    const concurrency = WorkerPool.normalizeConcurrency(body.concurrency ?? process.env.COMPARISON_CONCURRENCY);
+
+    // New calls are recorded alongside the parent's, so the new version can be replayed too
+    // The same context budget and template keep prompts comparable with the earlier version's
+    const contextBudget = typeof report.context_budget === 'number' ? report.context_budget : undefined;
+    const promptTemplate = normalizePromptTemplate(report.prompt_template);
+    const recorder = new LlmRecorder('record');
+    const scheduler = new RequestScheduler(getRateLimiter(providerName, apiKey));
+    // Only the calls this version adds are counted; the parent's were counted when it was created
+    const usageTracker = new UsageTracker(providerName);
+    const evaluationCache = body.useEvaluationCache !== false ? new EvaluationCache(createEvaluationStore(db, userId)) : undefined;
+    const comparisonEngine = new ComparisonEngine(
+      redactor ? redactor.redactDocuments(allContents) : allContents,
+      storedCriteria,
+      apiKey,
+      pdfProcessor,
+      report.evaluation_method === 'prompt',
+      report.model_name || undefined,
+      { concurrency, positionBias, ensemble, recorder, provider: resolveProviderConfig(providerName), scheduler, contextBudget, evaluationCache, usageTracker, promptTemplate, blind, redactor }
+    );
+
+    const storedComparisons: ComparisonResult[] = report.comparison_details || [];
+    comparisonEngine.seedComparisons(storedComparisons);
+    const seededCount = comparisonEngine.comparisonResults.length;
+
+    // A top-K report only orders its shortlist, so new documents are placed against
+    // the shortlist alone; anything pushed below it joins the unranked remainder
+    const shortlistSize: number | undefined = typeof report.shortlist_size === 'number' ? report.shortlist_size : undefined;
+    let updatedRanking: string[];
+    let pointwise: PointwiseRanking | undefined;
+    if (report.evaluation_method === 'pointwise') {
+      // Pointwise reports score only the new documents and re-rank by weighted total,
+      // repeating the adjacent-pair refinement if the original report used it
+      const storedScores: PointwiseScore[] = Array.isArray(report.pointwise_scores) ? report.pointwise_scores : [];
+      pointwise = await comparisonEngine.rankPointwise(
+        [...ranking, ...newDocuments],
+        !!report.pointwise_refinement,
+        undefined,
+        storedScores
+      );
+      updatedRanking = pointwise.ranking;
+    } else if (shortlistSize !== undefined) {
+      const extended = await comparisonEngine.insertDocuments(ranking.slice(0, shortlistSize), newDocuments);
+      updatedRanking = [...extended, ...ranking.slice(shortlistSize)];
+    } else {
+      updatedRanking = await comparisonEngine.insertDocuments(ranking, newDocuments);
+    }
+    const docList = [...ranking, ...newDocuments];
+    const tiers = pointwise ? pointwise.tiers : comparisonEngine.groupTies(updatedRanking, shortlistSize);
+
+    const scores = comparisonEngine.estimateScores(docList);
+    const positionConsistency = comparisonEngine.measurePositionConsistency();
+    const consistency = comparisonEngine.analyzeConsistency(docList);
+
+    const version = (report.version || 1) + 1;
+    const reportName = typeof body.reportName === 'string' && body.reportName.trim()
+      ? body.reportName.trim().substring(0, 100)
+      : `${report.report_name || 'Report'} (v${version})`;
+
+    const reportGenerator = new ReportGenerator();
+    const reportData = await reportGenerator.generateReport(
+      docList,
+      comparisonEngine.comparisonResults,
+      reportName,
+      tiers,
+      scores,
+      consistency,
+      shortlistSize,
+      pointwise?.scores
+    );
+
+    const csvFiles = reportGenerator.createCsvFiles(reportData, reportName, tiers, comparisonEngine.comparisonResults);
+    const formattedCsvFiles = csvFiles.map(csvFile => {
+      const filename = Object.keys(csvFile)[0];
+      return { filename, content: csvFile[filename] };
+    });
+
+    const newReportId = getReportId();
+    const tokenUsage = usageTracker.summary();
+
+    // Loaded before storing, since storing may prune the parent report and its records
+    const llmRecords = [...await loadLlmRecords(db, reportId), ...recorder.records];
+
+    await storeReport(db, {
+      user_id: userId,
+      report_id: newReportId,
+      timestamp: new Date().toISOString(),
+      documents: docList,
+      top_ranked: tiers[0]?.join(', ') || null,
+      csv_files: formattedCsvFiles,
+      criteria_count: storedCriteria.length,
+      evaluation_method: report.evaluation_method,
+      ranking_strategy: report.ranking_strategy,
+      position_bias: positionBias,
+      position_consistency: positionConsistency,
+      consistency_analysis: consistency,
+      shortlist_size: shortlistSize ?? null,
+      swiss_rounds: report.swiss_rounds ?? null,
+      resolve_inconsistencies: report.resolve_inconsistencies ?? null,
+      max_extra_comparisons: report.max_extra_comparisons ?? null,
+      ensemble: ensemble ?? null,
+      pointwise_scores: pointwise?.scores,
+      pointwise_refinement: pointwise?.refinement ?? null,
+      custom_prompt: report.custom_prompt || "",
+      report_name: reportName,
+      api_key_status: report.api_key_status,
+      ranking: tiers,
+      scores: scores,
+      criteria: storedCriteria,
+      model_name: comparisonEngine.modelName,
+      document_texts: allContents,
+      comparison_details: comparisonEngine.comparisonResults,
+      llm_record_count: llmRecords.length,
+      llm_provider: providerName,
+      context_budget: contextBudget ?? null,
+      prompt_template: report.prompt_template ?? null,
+      blind_review: blindReview ?? null,
+      pii_redaction: redactor?.summary() ?? null,
+      retry_stats: scheduler.summary(),
+      evaluation_cache: evaluationCache?.summary() ?? null,
+      token_usage: tokenUsage,
+      version: version,
+      parent_report_id: reportId,
+      inserted_documents: newDocuments
+    });
+
+    await storeLlmRecords(db, newReportId, userId, llmRecords);
+    await recordUserUsage(db, userId, {
+      comparisons: comparisonEngine.comparisonResults.length - seededCount,
+      documents: newDocuments.length,
+      reports: 1,
+      usage: tokenUsage
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Inserted ${newDocuments.length} document(s)`,
+      report_id: newReportId,
+      parent_report_id: reportId,
+      version: version,
+      ranked_documents: updatedRanking,
+      ranking_tiers: tiers,
+      inserted_documents: newDocuments,
+      new_comparisons: comparisonEngine.comparisonResults.length - seededCount,
+      scores: scores,
+      token_usage: tokenUsage
+    });
+
+  } catch (error) {
+    console.error('Error inserting documents into report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to insert documents",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,318 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { ComparisonEngine } from '@/lib/comparison/comparisonEngine';
+import { LlmRecorder } from '@/lib/comparison/llmRecorder';
+import { EvaluationCache } from '@/lib/comparison/evaluationCache';
+import { UsageTracker } from '@/lib/comparison/usageTracker';
+import { getRateLimiter, RequestScheduler } from '@/lib/comparison/requestScheduler';
+import { getProviderApiKey, isLlmProviderName, requiresApiKey, resolveProviderConfig } from '@/lib/comparison/llmProvider';
+import { isPositionBiasMode } from '@/lib/comparison/documentComparator';
+import { isEnsembleAggregation, normalizeJudges } from '@/lib/comparison/ensembleEvaluator';
+import { PDFProcessor } from '@/lib/comparison/pdfProcessor';
+import { normalizePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { BlindReview, normalizeBlindReview } from '@/lib/comparison/blindReview';
+import { mergeRedactionConfigs, normalizeRedactionSummary, parseRedactionConfig, PiiRedactor, RedactionConfigError } from '@/lib/comparison/piiRedactor';
+import { ReportGenerator } from '@/lib/comparison/reportGenerator';
+import { createRankingStrategy, isRankingStrategyName } from '@/lib/comparison/rankingStrategy';
+import { WorkerPool } from '@/lib/comparison/workerPool';
+import { applyVerdictOverrides, parseVerdictOverride, VerdictOverrideError } from '@/lib/comparison/verdictOverrides';
+import { ComparisonResult, ConsistencyAnalysis, Criterion, EnsembleConfig, PointwiseRanking, PointwiseScore, VerdictOverride } from '@/lib/comparison/types';
+import { flattenTiers, normalizeRankingTiers } from '@/lib/comparison/rankingTiers';
+import { createEvaluationStore, getReportId, loadLlmRecords, recordUserUsage, storeLlmRecords, storeReport } from '@/lib/utils/report-utils';
+
+/**
+ * POST /api/reports/[reportId]/override-verdicts - Override pairwise verdicts and re-rank
+ *
+ * Replaces the winners of the given comparisons with the reviewer's verdicts, re-runs
+ * the report's ranking over the cached comparisons and stores the result as a new
+ * report version. Only pairs the original run never compared reach the model.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to update reports" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Await params before accessing its properties (Next.js 15 requirement)
+    const { reportId } = await params;
+
+    const body = await request.json();
+    const rawOverrides: unknown[] = Array.isArray(body.overrides) ? body.overrides : [];
+
+    if (rawOverrides.length === 0) {
+      return NextResponse.json(
+        { error: "Provide at least one verdict to override" },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+
+    const report = await db.collection('reports').findOne({
+      report_id: reportId,
+      user_id: userId
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    const storedTexts: Record<string, string> = report.document_texts || {};
+    const storedCriteria: Criterion[] = report.criteria || [];
+    const storedComparisons: ComparisonResult[] = report.comparison_details || [];
+    // Older reports store a flat ranking rather than tiers
+    const ranking = flattenTiers(normalizeRankingTiers(report.ranking));
+
+    if (ranking.length === 0 || storedCriteria.length === 0 || ranking.some(doc => !storedTexts[doc])) {
+      return NextResponse.json(
+        { error: "This report was created before re-ranking was supported; run a new comparison instead" },
+        { status: 400 }
+      );
+    }
+
+    // Reject the whole batch if any override is malformed or does not match a comparison
+    let correctedComparisons: ComparisonResult[];
+    let overrides: VerdictOverride[];
+    try {
+      const requests = rawOverrides.map(parseVerdictOverride);
+      ({ results: correctedComparisons, overrides } = applyVerdictOverrides(storedComparisons, requests, userId));
+    } catch (error) {
+      if (error instanceof VerdictOverrideError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Further calls go to the provider the report was created with
+    const providerName = isLlmProviderName(report.llm_provider) ? report.llm_provider : 'openai';
+    const apiKey = getProviderApiKey(providerName) || '';
+    if (requiresApiKey(providerName) && !apiKey) {
+      console.error(`ERROR: API key for ${providerName} not found in environment variables`);
+      return NextResponse.json(
+        { error: `API key for ${providerName} not configured` },
+        { status: 401 }
+      );
+    }
+
+    const positionBias = isPositionBiasMode(report.position_bias) ? report.position_bias : 'off';
+    // Any comparison that still has to be made is judged by the report's own panel
+    const storedJudges = normalizeJudges(report.ensemble?.judges);
+    const ensemble: EnsembleConfig | undefined = storedJudges.length > 0
+      ? { judges: storedJudges, aggregation: isEnsembleAggregation(report.ensemble?.aggregation) ? report.ensemble.aggregation : 'majority' }
+      : undefined;
+    const concurrency = WorkerPool.normalizeConcurrency(body.concurrency ?? process.env.COMPARISON_CONCURRENCY);
+
+    // New calls are recorded alongside the parent's, so the new version can be replayed too
+    // The same context budget and template keep prompts comparable with the earlier version's
+    const contextBudget = typeof report.context_budget === 'number' ? report.context_budget : undefined;
+    const promptTemplate = normalizePromptTemplate(report.prompt_template);
+    // A blind report stays blind: the model sees the same aliases as before
+    const blindReview = normalizeBlindReview(report.blind_review);
+    const blind = blindReview ? new BlindReview(blindReview.aliases) : undefined;
+    // Personal data the report redacted is redacted again before any text is sent
+    let redactor: PiiRedactor | undefined;
+    try {
+      // The server's setting is a minimum here too; the report's own setting keeps its custom patterns
+      const redactionConfig = mergeRedactionConfigs(
+        parseRedactionConfig(process.env.COMPARISON_PII_REDACTION),
+        normalizeRedactionSummary(report.pii_redaction)
+      );
+      redactor = redactionConfig ? new PiiRedactor(redactionConfig) : undefined;
+    } catch (error) {
+      if (error instanceof RedactionConfigError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    const recorder = new LlmRecorder('record');
+    const scheduler = new RequestScheduler(getRateLimiter(providerName, apiKey));
+    // Only the calls this version adds are counted; the parent's were counted when it was created
+    const usageTracker = new UsageTracker(providerName);
+    const evaluationCache = body.useEvaluationCache !== false ? new EvaluationCache(createEvaluationStore(db, userId)) : undefined;
+    const comparisonEngine = new ComparisonEngine(
+      redactor ? redactor.redactDocuments(storedTexts) : storedTexts,
+      storedCriteria,
+      apiKey,
+      new PDFProcessor(),
+      report.evaluation_method === 'prompt',
+      report.model_name || undefined,
+      { concurrency, positionBias, ensemble, recorder, provider: resolveProviderConfig(providerName), scheduler, contextBudget, evaluationCache, usageTracker, promptTemplate, blind, redactor }
+    );
+
+    comparisonEngine.seedComparisons(correctedComparisons);
+    const seededCount = comparisonEngine.comparisonResults.length;
+
+    // Replay the ranking in the original input order, so every comparison up to the
+    // first overridden pair is answered from the cache exactly as before
+    const docList: string[] = Array.isArray(report.documents) && report.documents.length === ranking.length
+      ? report.documents
+      : ranking;
+    const shortlistSize: number | undefined = typeof report.shortlist_size === 'number' ? report.shortlist_size : undefined;
+    let updatedRanking: string[];
+    let pointwise: PointwiseRanking | undefined;
+    if (report.evaluation_method === 'pointwise') {
+      // Rubric scores are kept; only the pairwise refinement sees the overridden verdicts
+      const storedScores: PointwiseScore[] = Array.isArray(report.pointwise_scores) ? report.pointwise_scores : [];
+      pointwise = await comparisonEngine.rankPointwise(docList, !!report.pointwise_refinement, undefined, storedScores);
+      updatedRanking = pointwise.ranking;
+    } else {
+      const strategyName = isRankingStrategyName(report.ranking_strategy) ? report.ranking_strategy : 'mergesort';
+      updatedRanking = await comparisonEngine.rankDocuments(docList, createRankingStrategy(strategyName, {
+        topK: shortlistSize,
+        swissRounds: typeof report.swiss_rounds === 'number' ? report.swiss_rounds : undefined
+      }));
+    }
+
+    // Repeat the cycle-resolution pass if the original report ran one
+    const resolved = typeof report.resolve_inconsistencies === 'boolean'
+      ? report.resolve_inconsistencies
+      : (report.consistency_analysis?.extraComparisons ?? 0) > 0;
+    let consistency: ConsistencyAnalysis;
+    if (resolved) {
+      const resolution = await comparisonEngine.resolveInconsistencies(
+        docList,
+        updatedRanking,
+        typeof report.max_extra_comparisons === 'number' ? report.max_extra_comparisons : undefined
+      );
+      updatedRanking = resolution.ranking;
+      consistency = resolution.analysis;
+    } else {
+      consistency = comparisonEngine.analyzeConsistency(docList);
+    }
+
+    const tiers = pointwise && !resolved
+      ? pointwise.tiers
+      : comparisonEngine.groupTies(updatedRanking, shortlistSize);
+    const scores = comparisonEngine.estimateScores(docList);
+    const positionConsistency = comparisonEngine.measurePositionConsistency();
+    const newComparisons = comparisonEngine.comparisonResults.length - seededCount;
+
+    const version = (report.version || 1) + 1;
+    const reportName = typeof body.reportName === 'string' && body.reportName.trim()
+      ? body.reportName.trim().substring(0, 100)
+      : `${report.report_name || 'Report'} (v${version}, reviewed)`;
+
+    const reportGenerator = new ReportGenerator();
+    const reportData = await reportGenerator.generateReport(
+      docList,
+      comparisonEngine.comparisonResults,
+      reportName,
+      tiers,
+      scores,
+      consistency,
+      shortlistSize,
+      pointwise?.scores
+    );
+
+    const csvFiles = reportGenerator.createCsvFiles(reportData, reportName, tiers, comparisonEngine.comparisonResults);
+    const formattedCsvFiles = csvFiles.map(csvFile => {
+      const filename = Object.keys(csvFile)[0];
+      return { filename, content: csvFile[filename] };
+    });
+
+    // Overrides accumulate across versions so the full review history stays with the report
+    const verdictOverrides: VerdictOverride[] = [...(report.verdict_overrides || []), ...overrides];
+    const newReportId = getReportId();
+    const tokenUsage = usageTracker.summary();
+
+    // Loaded before storing, since storing may prune the parent report and its records
+    const llmRecords = [...await loadLlmRecords(db, reportId), ...recorder.records];
+
+    await storeReport(db, {
+      user_id: userId,
+      report_id: newReportId,
+      timestamp: new Date().toISOString(),
+      documents: docList,
+      top_ranked: tiers[0]?.join(', ') || null,
+      csv_files: formattedCsvFiles,
+      criteria_count: storedCriteria.length,
+      evaluation_method: report.evaluation_method,
+      ranking_strategy: report.ranking_strategy,
+      position_bias: positionBias,
+      position_consistency: positionConsistency,
+      consistency_analysis: consistency,
+      shortlist_size: shortlistSize ?? null,
+      swiss_rounds: report.swiss_rounds ?? null,
+      resolve_inconsistencies: resolved,
+      max_extra_comparisons: report.max_extra_comparisons ?? null,
+      ensemble: ensemble ?? null,
+      pointwise_scores: pointwise?.scores,
+      pointwise_refinement: pointwise?.refinement ?? null,
+      custom_prompt: report.custom_prompt || "",
+      report_name: reportName,
+      api_key_status: report.api_key_status,
+      ranking: tiers,
+      scores: scores,
+      criteria: storedCriteria,
+      model_name: comparisonEngine.modelName,
+      document_texts: storedTexts,
+      comparison_details: comparisonEngine.comparisonResults,
+      llm_record_count: llmRecords.length,
+      llm_provider: providerName,
+      context_budget: contextBudget ?? null,
+      prompt_template: report.prompt_template ?? null,
+      blind_review: blindReview ?? null,
+      pii_redaction: redactor?.summary() ?? null,
+      retry_stats: scheduler.summary(),
+      evaluation_cache: evaluationCache?.summary() ?? null,
+      token_usage: tokenUsage,
+      verdict_overrides: verdictOverrides,
+      version: version,
+      parent_report_id: reportId
+    });
+
+    await storeLlmRecords(db, newReportId, userId, llmRecords);
+    await recordUserUsage(db, userId, {
+      comparisons: newComparisons,
+      documents: 0,
+      reports: 1,
+      usage: tokenUsage
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Applied ${overrides.length} override(s)`,
+      report_id: newReportId,
+      parent_report_id: reportId,
+      version: version,
+      ranked_documents: updatedRanking,
+      ranking_tiers: tiers,
+      verdict_overrides: verdictOverrides,
+      new_comparisons: newComparisons,
+      scores: scores,
+      token_usage: tokenUsage
+    });
+
+  } catch (error) {
+    console.error('Error overriding verdicts:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to override verdicts",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db/mongodb';
 import { ObjectId } from 'mongodb';
-import { ComparisonResult } from '@/lib/comparison/types';
+import { ComparisonResult, VerdictOverride } from '@/lib/comparison/types';
 
 // Interface for raw comparison data stored in database
 interface RawComparisonData {
@@ -18,6 +18,7 @@ interface RawComparisonData {
   evaluation_details?: {
     explanation?: string;
   };
+  override?: VerdictOverride;
 }
 
 // Interface for processed pairwise result
@@ -26,6 +27,10 @@ interface PairwiseResult {
   doc2: string;
   winner: string;
   reasoning: string;
+  // Full names, needed to address the pair when overriding its verdict
+  documentA: string;
+  documentB: string;
+  override?: VerdictOverride;
 }
 
 /**
@@ -78,7 +83,10 @@ export async function GET(
           doc1: comparison.documentA || comparison.document_a || '',
           doc2: comparison.documentB || comparison.document_b || '',
           winner: comparison.winner,
-          reasoning: comparison.evaluationDetails?.explanation || comparison.evaluation_details?.explanation || "No explanation provided"
+          reasoning: comparison.evaluationDetails?.explanation || comparison.evaluation_details?.explanation || "No explanation provided",
+          documentA: comparison.documentA || comparison.document_a || '',
+          documentB: comparison.documentB || comparison.document_b || '',
+          override: comparison.override
         }));
       } 
       // If comparison_details is already an object
@@ -87,7 +95,10 @@ export async function GET(
           doc1: comparison.documentA || comparison.document_a || '',
           doc2: comparison.documentB || comparison.document_b || '',
           winner: comparison.winner,
-          reasoning: comparison.evaluationDetails?.explanation || comparison.evaluation_details?.explanation || "No explanation provided"
+          reasoning: comparison.evaluationDetails?.explanation || comparison.evaluation_details?.explanation || "No explanation provided",
+          documentA: comparison.documentA || comparison.document_a || '',
+          documentB: comparison.documentB || comparison.document_b || '',
+          override: comparison.override
         }));
       }
     } catch (error) {
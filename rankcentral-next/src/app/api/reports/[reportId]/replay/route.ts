@@ -0,0 +1,205 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db/mongodb';
+import { ComparisonEngine } from '@/lib/comparison/comparisonEngine';
+import { isPositionBiasMode } from '@/lib/comparison/documentComparator';
+import { isEnsembleAggregation, normalizeJudges } from '@/lib/comparison/ensembleEvaluator';
+import { LlmRecorder } from '@/lib/comparison/llmRecorder';
+import { EvaluationCache } from '@/lib/comparison/evaluationCache';
+import { isLlmProviderName } from '@/lib/comparison/llmProvider';
+import { PDFProcessor } from '@/lib/comparison/pdfProcessor';
+import { normalizePromptTemplate } from '@/lib/comparison/promptTemplates';
+import { BlindReview, normalizeBlindReview } from '@/lib/comparison/blindReview';
+import { normalizeRedactionSummary, PiiRedactor } from '@/lib/comparison/piiRedactor';
+import { createRankingStrategy, isRankingStrategyName } from '@/lib/comparison/rankingStrategy';
+import { ComparisonResult, ConsistencyAnalysis, Criterion, EnsembleConfig, PointwiseRanking } from '@/lib/comparison/types';
+import { flattenTiers, normalizeRankingTiers } from '@/lib/comparison/rankingTiers';
+import { createEvaluationStore, loadLlmRecords } from '@/lib/utils/report-utils';
+
+// Unordered pair key, so A vs B and B vs A refer to the same comparison
+const pairKey = (a: string, b: string) => [a, b].sort().join('\u0000');
+
+/**
+ * POST /api/reports/[reportId]/replay - Rebuild a report's ranking from its recorded model calls
+ *
+ * Runs the report's ranking again with every model call answered from the stored
+ * prompts and raw completions, so no API key is needed and nothing is spent. The
+ * replay is compared with the stored ranking but not saved. A report that added
+ * documents to an earlier version replays the insertion against that version's order.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be logged in to replay reports" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Await params before accessing its properties (Next.js 15 requirement)
+    const { reportId } = await params;
+
+    const { db } = await connectToDatabase();
+
+    const report = await db.collection('reports').findOne({
+      report_id: reportId,
+      user_id: userId
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    const storedTexts: Record<string, string> = report.document_texts || {};
+    const storedCriteria: Criterion[] = report.criteria || [];
+    const storedComparisons: ComparisonResult[] = report.comparison_details || [];
+    const ranking = flattenTiers(normalizeRankingTiers(report.ranking));
+    const records = await loadLlmRecords(db, reportId);
+
+    // Evaluations the run took from the evaluation cache were never recorded, so such a run is replayed through the cache
+    const usedEvaluationCache = !!report.evaluation_cache;
+
+    if ((records.length === 0 && !usedEvaluationCache) || storedCriteria.length === 0 || ranking.some(doc => !storedTexts[doc])) {
+      return NextResponse.json(
+        { error: "This report has no recorded model calls to replay" },
+        { status: 400 }
+      );
+    }
+
+    const positionBias = isPositionBiasMode(report.position_bias) ? report.position_bias : 'off';
+    const storedJudges = normalizeJudges(report.ensemble?.judges);
+    const ensemble: EnsembleConfig | undefined = storedJudges.length > 0
+      ? { judges: storedJudges, aggregation: isEnsembleAggregation(report.ensemble?.aggregation) ? report.ensemble.aggregation : 'majority' }
+      : undefined;
+
+    // Prompts are only rebuilt identically with the same context budget and template
+    const contextBudget = typeof report.context_budget === 'number' ? report.context_budget : undefined;
+    const promptTemplate = normalizePromptTemplate(report.prompt_template);
+    // Blind reports showed the model aliases, so the replayed prompts must too
+    const blindReview = normalizeBlindReview(report.blind_review);
+    const blind = blindReview ? new BlindReview(blindReview.aliases) : undefined;
+    // Texts are redacted again in their stored order, which gives the placeholders the recorded prompts used
+    const redactionSummary = normalizeRedactionSummary(report.pii_redaction);
+    const redactor = redactionSummary ? new PiiRedactor(redactionSummary) : undefined;
+    const recorder = new LlmRecorder('replay', records);
+    const evaluationCache = usedEvaluationCache ? new EvaluationCache(createEvaluationStore(db, userId)) : undefined;
+    // Cached evaluations are keyed by provider, so the report's provider is named even though nothing is sent to it
+    const providerName = isLlmProviderName(report.llm_provider) ? report.llm_provider : 'openai';
+    const comparisonEngine = new ComparisonEngine(
+      redactor ? redactor.redactDocuments(storedTexts) : storedTexts,
+      storedCriteria,
+      '',
+      new PDFProcessor(),
+      report.evaluation_method === 'prompt',
+      report.model_name || undefined,
+      { positionBias, ensemble, recorder, provider: { provider: providerName }, contextBudget, evaluationCache, promptTemplate, blind, redactor }
+    );
+
+    // Reviewer verdicts are not model calls, so they are applied as they were stored
+    comparisonEngine.seedComparisons(storedComparisons.filter(result => result.override));
+
+    const docList: string[] = Array.isArray(report.documents) && report.documents.length === ranking.length
+      ? report.documents
+      : ranking;
+    const insertedDocuments: string[] = Array.isArray(report.inserted_documents) ? report.inserted_documents : [];
+    const shortlistSize: number | undefined = typeof report.shortlist_size === 'number' ? report.shortlist_size : undefined;
+    let replayedRanking: string[];
+    let pointwise: PointwiseRanking | undefined;
+    if (report.evaluation_method === 'pointwise') {
+      pointwise = await comparisonEngine.rankPointwise(docList, !!report.pointwise_refinement);
+      replayedRanking = pointwise.ranking;
+    } else if (insertedDocuments.length > 0) {
+      // Insertion keeps the earlier order, so the parent's ranking is the stored one without the new documents
+      const baseRanking = ranking.filter(doc => !insertedDocuments.includes(doc));
+      if (shortlistSize !== undefined) {
+        const extended = await comparisonEngine.insertDocuments(baseRanking.slice(0, shortlistSize), insertedDocuments);
+        replayedRanking = [...extended, ...baseRanking.slice(shortlistSize)];
+      } else {
+        replayedRanking = await comparisonEngine.insertDocuments(baseRanking, insertedDocuments);
+      }
+    } else {
+      const strategyName = isRankingStrategyName(report.ranking_strategy) ? report.ranking_strategy : 'mergesort';
+      replayedRanking = await comparisonEngine.rankDocuments(docList, createRankingStrategy(strategyName, {
+        topK: shortlistSize,
+        swissRounds: typeof report.swiss_rounds === 'number' ? report.swiss_rounds : undefined
+      }));
+    }
+
+    // Repeat the cycle-resolution pass if the original run made one; insertions never do
+    const resolved = insertedDocuments.length === 0 && (typeof report.resolve_inconsistencies === 'boolean'
+      ? report.resolve_inconsistencies
+      : (report.consistency_analysis?.extraComparisons ?? 0) > 0);
+    let consistency: ConsistencyAnalysis;
+    if (resolved) {
+      const resolution = await comparisonEngine.resolveInconsistencies(
+        docList,
+        replayedRanking,
+        typeof report.max_extra_comparisons === 'number' ? report.max_extra_comparisons : undefined
+      );
+      replayedRanking = resolution.ranking;
+      consistency = resolution.analysis;
+    } else {
+      consistency = comparisonEngine.analyzeConsistency(docList);
+    }
+
+    const tiers = pointwise && !resolved
+      ? pointwise.tiers
+      : comparisonEngine.groupTies(replayedRanking, shortlistSize);
+    const scores = comparisonEngine.estimateScores(docList);
+
+    // Verdicts that differ from the stored ones point at changed ranking logic or missing records
+    const storedWinners = new Map(storedComparisons.map(result => [pairKey(result.documentA, result.documentB), result.winner]));
+    const changedVerdicts = comparisonEngine.comparisonResults
+      .filter(result => {
+        const key = pairKey(result.documentA, result.documentB);
+        return storedWinners.has(key) && storedWinners.get(key) !== result.winner;
+      })
+      .map(result => ({
+        documentA: result.documentA,
+        documentB: result.documentB,
+        storedWinner: storedWinners.get(pairKey(result.documentA, result.documentB)) ?? null,
+        replayedWinner: result.winner
+      }));
+
+    const storedTiers = normalizeRankingTiers(report.ranking);
+    const matchesOriginal = JSON.stringify(tiers) === JSON.stringify(storedTiers);
+
+    console.log(`⏪ Replayed report ${reportId}: ${matchesOriginal ? 'ranking matches' : 'ranking differs'}, ${recorder.missCount} missing record(s)`);
+
+    return NextResponse.json({
+      success: true,
+      report_id: reportId,
+      ranked_documents: replayedRanking,
+      ranking_tiers: tiers,
+      scores: scores,
+      consistency_analysis: consistency,
+      pointwise_scores: pointwise?.scores,
+      matches_original: matchesOriginal,
+      changed_verdicts: changedVerdicts,
+      missing_records: recorder.missCount,
+      evaluation_cache: evaluationCache?.summary() ?? null
+    });
+
+  } catch (error) {
+    console.error('Error replaying report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to replay report",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
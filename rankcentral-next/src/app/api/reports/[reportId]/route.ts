@@ -28,11 +28,15 @@ export async function GET(
     // Connect to the database
     const { db } = await connectToDatabase();
     
-    // Find the report using report_id (UUID string) instead of ObjectId
-    const report = await db.collection('reports').findOne({
-      report_id: reportId,
-      user_id: session.user.id
-    });
+    // Find the report using report_id (UUID string) instead of ObjectId.
+    // Stored document texts are only needed server-side, so leave them out
+    const report = await db.collection('reports').findOne(
+      {
+        report_id: reportId,
+        user_id: session.user.id
+      },
+      { projection: { document_texts: 0 } }
+    );
     
     if (!report) {
       return NextResponse.json(
@@ -43,6 +43,29 @@ export async function GET(request: Request) {
       timestamp: report.timestamp || new Date().toISOString(),
       criteriaCount: report.criteria_count || 0,
       evaluationMethod: report.evaluation_method || 'standard',
+      // Pointwise reports are ranked by rubric totals rather than a pairwise strategy
+      rankingStrategy: report.evaluation_method === 'pointwise' ? null : report.ranking_strategy || 'mergesort',
+      pointwiseRefined: !!report.pointwise_refinement,
+      shortlistSize: report.shortlist_size ?? null,
+      positionBias: report.position_bias || 'off',
+      positionConsistencyRate: report.position_consistency?.rate ?? null,
+      cycleCount: report.consistency_analysis?.cycles?.length ?? 0,
+      judgeCount: report.ensemble?.judges?.length ?? 0,
+      judgeAggregation: report.ensemble?.aggregation || null,
+      llmProvider: report.llm_provider || 'openai',
+      modelName: report.model_name || null,
+      spentUsd: report.budget?.spentUsd ?? null,
+      budgetUsd: report.budget?.limitUsd ?? null,
+      budgetExhausted: !!report.budget?.exhausted,
+      modelCalls: report.token_usage?.calls ?? null,
+      inputTokens: report.token_usage?.inputTokens ?? null,
+      outputTokens: report.token_usage?.outputTokens ?? null,
+      usageCostUsd: report.token_usage?.costUsd ?? null,
+      usageCostKnown: report.token_usage?.known !== false,
+      overrideCount: Array.isArray(report.verdict_overrides) ? report.verdict_overrides.length : 0,
+      recordedCalls: report.llm_record_count ?? 0,
+      version: report.version || 1,
+      parentReportId: report.parent_report_id || null,
     }));
 
     console.log("formatted:", formattedReports);
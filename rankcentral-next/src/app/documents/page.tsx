@@ -14,8 +14,18 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import ApiClient from '@/lib/comparison/apiClient';
 import CriteriaForm from '@/components/documents/CriteriaForm';
 import ReportNameInput from '@/components/documents/ReportNameInput';
-import { EvaluationMethod } from '@/lib/comparison';
+import RankingStrategySelect from '@/components/documents/RankingStrategySelect';
+import PositionBiasSelect from '@/components/documents/PositionBiasSelect';
+import JudgePanelSelect from '@/components/documents/JudgePanelSelect';
+import ModelProviderSelect from '@/components/documents/ModelProviderSelect';
+import CostEstimatePanel from '@/components/documents/CostEstimatePanel';
+import ComparisonProgressPanel from '@/components/documents/ComparisonProgressPanel';
+import PromptTemplateSelect from '@/components/documents/PromptTemplateSelect';
+import RedactionSettings from '@/components/documents/RedactionSettings';
+import { BudgetMode, ComparisonProgress, CostEstimate, EnsembleAggregation, EvaluationMethod, JudgeConfig, LlmProviderName, PositionBiasMode, ProgressEvent, PromptTemplate, RankingStrategyName, RedactionConfig } from '@/lib/comparison';
+import { promptTemplateKind } from '@/lib/comparison/promptTemplates';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { v4 as uuidv4 } from 'uuid';
 import { useToast } from '@/hooks/use-toast';
 import { toast } from 'sonner';
@@ -66,13 +76,35 @@ const defaultCriteria: Criterion[] = [
 const displayedToasts = new Set<string>();
 
 const Documents = () => {
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
   const [documents, setDocuments] = useState<Document[]>([]);
   const [useCustomCriteria, setUseCustomCriteria] = useState(false);
   const [criteria, setCriteria] = useState<Criterion[]>(defaultCriteria);
   const [activeTab, setActiveTab] = useState('documents');
   const [evaluationMethod, setEvaluationMethod] = useState<EvaluationMethod>('criteria');
   const [customPrompt, setCustomPrompt] = useState('');
+  const [rankingStrategy, setRankingStrategy] = useState<RankingStrategyName>('mergesort');
+  const [topK, setTopK] = useState(5);
+  const [positionBias, setPositionBias] = useState<PositionBiasMode>('off');
+  const [resolveInconsistencies, setResolveInconsistencies] = useState(false);
+  const [useEvaluationCache, setUseEvaluationCache] = useState(true);
+  const [blindMode, setBlindMode] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionConfig>({ categories: [], customPatterns: [] });
+  const [hybrid, setHybrid] = useState(false);
+  const [judges, setJudges] = useState<JudgeConfig[]>([]);
+  const [judgeAggregation, setJudgeAggregation] = useState<EnsembleAggregation>('majority');
+  const [provider, setProvider] = useState<LlmProviderName>('openai');
+  const [modelName, setModelName] = useState('');
+  const [budgetUsd, setBudgetUsd] = useState('');
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>('degrade');
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate | null>(null);
+  const [costEstimate, setCostEstimate] = useState<CostEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ComparisonProgress | null>(null);
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
   // const [backendStatus, setBackendStatus] = useState<'checking' | 'online' | 'offline'>('checking');
   const [documentNames, setDocumentNames] = useState<Record<string, string>>({});
   const [reportName, setReportName] = useState('');
@@ -92,6 +124,20 @@ const Documents = () => {
     }
   }, [projectId]);
 
+  // An estimate only describes the configuration it was made for
+  useEffect(() => {
+    setCostEstimate(null);
+  }, [documents, evaluationMethod, criteria, useCustomCriteria, customPrompt, rankingStrategy, topK, positionBias, hybrid, judges, provider, modelName, promptTemplate]);
+
+  useEffect(() => {
+    // Without the library, runs simply use the active template
+    new ApiClient('/api').getPromptTemplates()
+      .then(response => setPromptTemplates(response.templates))
+      .catch(error => console.error('Error loading prompt templates:', error));
+  }, []);
+
+  const templateKind = promptTemplateKind(evaluationMethod);
+
   const loadProjectData = async () => {
     if (!projectId) return;
     
@@ -235,6 +281,58 @@ const Documents = () => {
     }
   };
 
+  const buildComparisonOptions = () => {
+    const budget = parseFloat(budgetUsd);
+    return {
+      criteria: evaluationMethod !== 'prompt'
+        ? (useCustomCriteria ? criteria : defaultCriteria)
+        : [],
+      evaluationMethod: evaluationMethod,
+      customPrompt: evaluationMethod === 'prompt' ? customPrompt : undefined,
+      rankingStrategy: rankingStrategy,
+      topK: rankingStrategy === 'top-k' ? topK : undefined,
+      positionBias: positionBias,
+      resolveInconsistencies: resolveInconsistencies,
+      useEvaluationCache: useEvaluationCache,
+      blindMode: blindMode,
+      // Added to the server's own redaction, which always applies
+      redaction: redaction.categories.length > 0 || redaction.customPatterns.some(pattern => pattern.trim())
+        ? { categories: redaction.categories, customPatterns: isAdmin ? redaction.customPatterns.filter(pattern => pattern.trim()) : [] }
+        : undefined,
+      hybrid: evaluationMethod === 'pointwise' ? hybrid : undefined,
+      judges: judges.filter(judge => judge.modelName.trim()),
+      judgeAggregation: judgeAggregation,
+      provider: provider,
+      modelName: modelName.trim() || undefined,
+      budgetUsd: Number.isFinite(budget) && budget > 0 ? budget : undefined,
+      budgetMode: budgetMode,
+      // A version picked for the other kind of evaluation does not apply
+      promptTemplate: promptTemplate?.kind === templateKind ? promptTemplate.name : undefined,
+      promptTemplateVersion: promptTemplate?.kind === templateKind ? promptTemplate.version : undefined,
+      reportName: reportName || `Report ${new Date().toLocaleTimeString()}`  // Use provided name or generate default
+    };
+  };
+
+  const handleEstimate = async () => {
+    if (documents.length < 2) {
+      showUniqueToast('Add at least two documents to estimate the cost.');
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      const response = await apiClient.estimateCost(documents, buildComparisonOptions());
+      if (response.success) {
+        setCostEstimate(response.estimate);
+      }
+    } catch (error) {
+      console.error('Error estimating cost:', error);
+      showUniqueToast(error instanceof Error ? error.message : 'Could not estimate the cost of this comparison.');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   const handleSubmit = async () => {
     const emptyDocs = documents.filter(doc => !doc.content.trim());
     if (emptyDocs.length > 0) {
@@ -242,7 +340,7 @@ const Documents = () => {
       return;
     }
 
-    if (evaluationMethod === 'criteria' && useCustomCriteria) {
+    if (evaluationMethod !== 'prompt' && useCustomCriteria) {
       const invalidCriteria = criteria.filter(c => !c.name.trim());
       if (invalidCriteria.length > 0) {
         showUniqueToast('Please provide a name for all criteria.');
@@ -256,17 +354,34 @@ const Documents = () => {
     }
 
     setIsLoading(true);
+    setProgress(null);
+    setProgressEvents([]);
     const processingToastId = showUniqueToast('Processing documents. This may take a moment.', 'loading');
 
+    // Poll the run's progress while the comparison request is open
+    const progressId = uuidv4();
+    let lastSequence = 0;
+    let polling = false;
+    const progressTimer = setInterval(async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const response = await apiClient.getComparisonProgress(progressId, lastSequence);
+        const newEvents = response.progress.events;
+        if (newEvents.length > 0) {
+          lastSequence = newEvents[newEvents.length - 1].sequence;
+          setProgressEvents(previous => [...previous, ...newEvents].slice(-50));
+        }
+        setProgress(response.progress);
+      } catch {
+        // The run may not have started yet; try again on the next tick
+      } finally {
+        polling = false;
+      }
+    }, 1000);
+
     try {
-      const comparisonOptions = {
-        criteria: evaluationMethod === 'criteria' 
-          ? (useCustomCriteria ? criteria : defaultCriteria)
-          : [],
-        evaluationMethod: evaluationMethod,
-        customPrompt: evaluationMethod === 'prompt' ? customPrompt : undefined,
-        reportName: reportName || `Report ${new Date().toLocaleTimeString()}`  // Use provided name or generate default
-      };
+      const comparisonOptions = { ...buildComparisonOptions(), progressId };
 
       console.log('Sending comparison request:', {
         ...comparisonOptions,
@@ -299,6 +414,7 @@ const Documents = () => {
       console.error('Error comparing documents:', error);
       showUniqueToast(error.message || "There was an error analyzing your documents.");
     } finally {
+      clearInterval(progressTimer);
       setIsLoading(false);
       if (processingToastId) {
         processingToastId.dismiss();
@@ -472,9 +588,35 @@ const Documents = () => {
                       Evaluate documents using a custom prompt
                     </span>
                   </div>
+
+                  <div className="flex items-center space-x-2 border p-4 rounded-md">
+                    <RadioGroupItem value="pointwise" id="pointwise" />
+                    <Label htmlFor="pointwise" className="font-medium">
+                      Rubric Scoring
+                    </Label>
+                    <span className="text-sm text-gray-500 ml-2">
+                      Score each document on its own against the criteria; one pass per document, suited to large batches
+                    </span>
+                  </div>
                 </RadioGroup>
 
-                {evaluationMethod === 'criteria' ? (
+                {evaluationMethod === 'pointwise' && (
+                  <div className="mb-6">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="hybrid-refinement"
+                        checked={hybrid}
+                        onCheckedChange={setHybrid}
+                      />
+                      <Label htmlFor="hybrid-refinement" className="font-medium">Re-check neighbours pairwise</Label>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      After scoring, compare adjacent documents head-to-head and swap any the comparison puts the other way round
+                    </p>
+                  </div>
+                )}
+
+                {evaluationMethod !== 'prompt' ? (
                   <div>
                     {/* Only one toggle, remove any duplicate or extra toggle/label above */}
                     <div className="flex items-center space-x-2 mb-6">
@@ -512,6 +654,100 @@ const Documents = () => {
                   </div>
                 )}
                 
+                <div className="mt-8 pt-6 border-t">
+                  <CardTitle className="mb-4">Ranking</CardTitle>
+                  {evaluationMethod !== 'pointwise' && (
+                    <RankingStrategySelect
+                      rankingStrategy={rankingStrategy}
+                      setRankingStrategy={setRankingStrategy}
+                      documentCount={documents.length}
+                      topK={topK}
+                      setTopK={setTopK}
+                    />
+                  )}
+                  <div className="mt-6">
+                    <PositionBiasSelect
+                      positionBias={positionBias}
+                      setPositionBias={setPositionBias}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 mt-6">
+                    <Switch
+                      id="resolve-inconsistencies"
+                      checked={resolveInconsistencies}
+                      onCheckedChange={setResolveInconsistencies}
+                    />
+                    <Label htmlFor="resolve-inconsistencies" className="font-medium">Resolve contradictory verdicts</Label>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    When verdicts form a cycle (A beats B, B beats C, C beats A), run a few extra comparisons and reorder the documents involved
+                  </p>
+                  <div className="flex items-center space-x-2 mt-6">
+                    <Switch
+                      id="use-evaluation-cache"
+                      checked={useEvaluationCache}
+                      onCheckedChange={setUseEvaluationCache}
+                    />
+                    <Label htmlFor="use-evaluation-cache" className="font-medium">Reuse earlier evaluations</Label>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Skip model calls for document pairs and criteria already evaluated with the same model and settings in an earlier report
+                  </p>
+                  <div className="flex items-center space-x-2 mt-6">
+                    <Switch
+                      id="blind-mode"
+                      checked={blindMode}
+                      onCheckedChange={setBlindMode}
+                    />
+                    <Label htmlFor="blind-mode" className="font-medium">Blind evaluation</Label>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Show the model neutral aliases such as Submission 1 instead of file names, with author names and email addresses removed from the text. The report still lists the real names
+                  </p>
+                  <div className="mt-6">
+                    <RedactionSettings
+                      redaction={redaction}
+                      setRedaction={setRedaction}
+                      allowCustomPatterns={isAdmin}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <PromptTemplateSelect
+                      kind={templateKind}
+                      templates={promptTemplates}
+                      promptTemplate={promptTemplate}
+                      setPromptTemplate={setPromptTemplate}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <ModelProviderSelect
+                      provider={provider}
+                      setProvider={setProvider}
+                      modelName={modelName}
+                      setModelName={setModelName}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <JudgePanelSelect
+                      judges={judges}
+                      setJudges={setJudges}
+                      aggregation={judgeAggregation}
+                      setAggregation={setJudgeAggregation}
+                    />
+                  </div>
+                  <div className="mt-6">
+                    <CostEstimatePanel
+                      estimate={costEstimate}
+                      isEstimating={isEstimating}
+                      onEstimate={handleEstimate}
+                      budgetUsd={budgetUsd}
+                      setBudgetUsd={setBudgetUsd}
+                      budgetMode={budgetMode}
+                      setBudgetMode={setBudgetMode}
+                    />
+                  </div>
+                </div>
+                
                 <div className="mt-8 pt-6 border-t">
                   <CardTitle className="mb-4">Report Details</CardTitle>
                   <ReportNameInput reportName={reportName} setReportName={setReportName} />
@@ -519,6 +755,12 @@ const Documents = () => {
               </CardContent>
             </Card>
 
+            {isLoading && (
+              <div className="mb-6">
+                <ComparisonProgressPanel progress={progress} events={progressEvents} />
+              </div>
+            )}
+
             <div className="flex justify-between">
               <Button 
                 variant="outline" 
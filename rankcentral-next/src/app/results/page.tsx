@@ -21,6 +21,25 @@ type EvaluationReport = {
   reportPath: string;
   criteriaCount: number;
   evaluationMethod: string;
+  rankingStrategy?: string | null;
+  pointwiseRefined?: boolean;
+  shortlistSize?: number | null;
+  positionBias?: string;
+  positionConsistencyRate?: number | null;
+  cycleCount?: number;
+  judgeCount?: number;
+  judgeAggregation?: string | null;
+  spentUsd?: number | null;
+  budgetUsd?: number | null;
+  budgetExhausted?: boolean;
+  modelCalls?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  usageCostUsd?: number | null;
+  usageCostKnown?: boolean;
+  overrideCount?: number;
+  version?: number;
+  parentReportId?: string | null;
   customPrompt?: string;
   reportName?: string;
 };
@@ -158,7 +177,7 @@ const Results = () => {
               <p className="text-gray-600">Loading reports...</p>
             </div>
           ) : pastReports.length > 0 ? (
-            <PastReports reports={pastReports} onRenameReport={handleRenameReport}/>
+            <PastReports reports={pastReports} onRenameReport={handleRenameReport} onReportsChanged={fetchReports}/>
           ) : !backendError ? (
             <div className="text-center py-12 bg-gray-50 rounded-lg">
               <p className="text-lg text-gray-600">No comparison reports found</p>
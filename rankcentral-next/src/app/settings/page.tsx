@@ -9,13 +9,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
-import { Eye, EyeOff, User, Lock, Shield, Keyboard } from 'lucide-react';
+import { Eye, EyeOff, User, Lock, Shield, Keyboard, FileText } from 'lucide-react';
+import PromptTemplateEditor from '@/components/settings/PromptTemplateEditor';
 import { useToast } from '@/hooks/use-toast';
 
 export default function SettingsPage() {
   const { data: session } = useSession();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const isAdmin = session?.user?.role === 'admin';
   
   // Password fields
   const [currentPassword, setCurrentPassword] = useState('');
@@ -103,7 +105,7 @@ export default function SettingsPage() {
         <p className="text-gray-600 mb-6">Manage your account settings and preferences</p>
         
         <Tabs defaultValue="password" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-6">
+          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-4' : 'grid-cols-3'} mb-6`}>
             <TabsTrigger value="password" className="flex items-center">
               <Lock className="mr-2 h-4 w-4" />
               Security
@@ -116,6 +118,12 @@ export default function SettingsPage() {
               <Keyboard className="mr-2 h-4 w-4" />
               Preferences
             </TabsTrigger>
+            {isAdmin && (
+              <TabsTrigger value="prompts" className="flex items-center">
+                <FileText className="mr-2 h-4 w-4" />
+                Prompts
+              </TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="password">
@@ -262,6 +270,22 @@ export default function SettingsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="prompts">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Prompt Templates</CardTitle>
+                  <CardDescription>
+                    Edit the prompts used to compare documents. Every save is a new version, and each report records the version it used
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PromptTemplateEditor />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </Layout>
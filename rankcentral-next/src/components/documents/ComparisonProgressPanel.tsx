@@ -0,0 +1,107 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { ComparisonProgress, ProgressEvent, ProgressPhase } from '@/lib/comparison/types';
+
+interface ComparisonProgressPanelProps {
+  progress: ComparisonProgress | null;
+  events: ProgressEvent[];
+}
+
+const phaseLabels: Record<ProgressPhase, string> = {
+  preparing: 'Preparing documents',
+  scoring: 'Scoring documents',
+  ranking: 'Comparing documents',
+  resolving: 'Resolving preference cycles',
+  reporting: 'Writing the report',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatScore = (score?: number) => score === undefined ? '–' : `${score}`;
+
+const describeEvent = (event: ProgressEvent) => {
+  switch (event.type) {
+    case 'criterion-evaluated':
+      if (event.message) {
+        return `${event.criterionName} (${event.documentA} vs ${event.documentB}): ${event.message}`;
+      }
+      return `${event.criterionName}: ${event.documentA} ${formatScore(event.documentAScore)} vs ${event.documentB} ${formatScore(event.documentBScore)}`
+        + (event.winner ? ` — ${event.winner} wins` : ' — tie');
+    case 'comparison-completed':
+      return `${event.documentA} vs ${event.documentB}: ${event.winner ? `${event.winner} preferred` : 'tie'}`;
+    case 'document-scored':
+      return `${event.documentA} scored ${formatScore(event.documentAScore)}`;
+    case 'error':
+      return event.documentA
+        ? `${event.documentA} vs ${event.documentB}: ${event.message}`
+        : event.message;
+    default:
+      return `Comparing ${event.documentA} and ${event.documentB}`;
+  }
+};
+
+const ComparisonProgressPanel: React.FC<ComparisonProgressPanelProps> = ({ progress, events }) => {
+  if (!progress) {
+    return (
+      <div className="rounded-md border p-4 text-sm text-gray-500">
+        Waiting for the comparison to start...
+      </div>
+    );
+  }
+
+  const totalWork = progress.expectedComparisons + progress.expectedDocuments;
+  const doneWork = progress.completedComparisons + progress.scoredDocuments;
+  const percent = totalWork > 0 ? Math.min(100, Math.round((doneWork / totalWork) * 100)) : 0;
+  // Comparisons starting and finishing are already summed up above the list
+  const recentEvents = events
+    .filter(event => event.type !== 'comparison-started')
+    .slice(-10)
+    .reverse();
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{phaseLabels[progress.phase]}</span>
+        <span className="text-gray-500">
+          {progress.estimatedRemainingMs !== null && progress.status === 'running'
+            ? `About ${formatDuration(progress.estimatedRemainingMs)} left`
+            : 'Estimating time left...'}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+      <p className="text-sm text-gray-500">
+        {progress.completedComparisons} of ~{progress.expectedComparisons} comparisons done
+        {progress.expectedDocuments > 0 && `, ${progress.scoredDocuments} of ${progress.expectedDocuments} documents scored`}
+        {progress.failedComparisons > 0 && (
+          <span className="text-red-600">{`, ${progress.failedComparisons} failed`}</span>
+        )}
+      </p>
+
+      {progress.currentPairs.length > 0 && (
+        <div className="text-sm">
+          <span className="font-medium">Now comparing: </span>
+          {progress.currentPairs.map(([documentA, documentB]) => `${documentA} vs ${documentB}`).join('; ')}
+        </div>
+      )}
+
+      {recentEvents.length > 0 && (
+        <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+          {recentEvents.map(event => (
+            <li
+              key={event.sequence}
+              className={event.type === 'error' || event.message ? 'text-red-600' : 'text-gray-600'}
+            >
+              {describeEvent(event)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonProgressPanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { BudgetMode, CostEstimate } from '@/lib/comparison/types';
+
+interface CostEstimatePanelProps {
+  estimate: CostEstimate | null;
+  isEstimating: boolean;
+  onEstimate: () => void;
+  budgetUsd: string;
+  setBudgetUsd: (budgetUsd: string) => void;
+  budgetMode: BudgetMode;
+  setBudgetMode: (budgetMode: BudgetMode) => void;
+}
+
+const budgetModeOptions: Array<{ value: BudgetMode; label: string; description: string }> = [
+  {
+    value: 'degrade',
+    label: 'Finish With Fewer Comparisons',
+    description: 'Comparisons left over when the cap is reached count as ties, and the report is still produced',
+  },
+  {
+    value: 'abort',
+    label: 'Stop the Run',
+    description: 'The run fails as soon as the cap is reached; it will not start if the estimate is already over',
+  },
+];
+
+const formatCost = (value: number) => `$${value < 0.01 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const CostEstimatePanel: React.FC<CostEstimatePanelProps> = ({
+  estimate,
+  isEstimating,
+  onEstimate,
+  budgetUsd,
+  setBudgetUsd,
+  budgetMode,
+  setBudgetMode,
+}) => {
+  const budget = parseFloat(budgetUsd);
+  const overBudget = !!estimate && Number.isFinite(budget) && budget > 0 && estimate.estimatedCost > budget;
+
+  return (
+    <div className="space-y-2">
+      <Label>Cost and Budget</Label>
+      <div className="flex items-center space-x-2">
+        <Button variant="outline" onClick={onEstimate} disabled={isEstimating}>
+          {isEstimating ? 'Estimating...' : 'Estimate Cost'}
+        </Button>
+        {estimate && (
+          <p className={`text-sm ${overBudget ? 'text-orange-600' : 'text-gray-500'}`}>
+            ~{estimate.calls} model calls ({estimate.comparisons} comparisons{estimate.summaryCalls > 0 ? `, ${estimate.summaryCalls} to summarise long documents` : ''}),
+            {' '}~{(estimate.inputTokens + estimate.outputTokens).toLocaleString()} tokens,
+            {' '}about {formatCost(estimate.estimatedCost)} (at most {formatCost(estimate.maxCost)})
+            {!estimate.pricingKnown && ' — pricing for this model is a guess'}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 mt-4">
+        <Label htmlFor="budget-usd" className="font-medium whitespace-nowrap">Budget cap (USD)</Label>
+        <Input
+          id="budget-usd"
+          type="number"
+          min={0}
+          step={0.01}
+          value={budgetUsd}
+          onChange={(e) => setBudgetUsd(e.target.value)}
+          placeholder="No cap"
+          className="w-32"
+        />
+      </div>
+      {overBudget && (
+        <p className="text-sm text-orange-600">The estimate is above the budget cap.</p>
+      )}
+
+      {budgetUsd.trim() !== '' && (
+        <RadioGroup
+          value={budgetMode}
+          onValueChange={(value) => setBudgetMode(value as BudgetMode)}
+          className="space-y-2 mt-2"
+        >
+          {budgetModeOptions.map(option => (
+            <div key={option.value} className="flex items-start space-x-2 border p-3 rounded-md">
+              <RadioGroupItem value={option.value} id={`budget-mode-${option.value}`} className="mt-1" />
+              <div>
+                <Label htmlFor={`budget-mode-${option.value}`} className="font-medium">{option.label}</Label>
+                <p className="text-sm text-gray-500">{option.description}</p>
+              </div>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+    </div>
+  );
+};
+
+export default CostEstimatePanel;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { EnsembleAggregation, JudgeConfig } from '@/lib/comparison/types';
+
+interface JudgePanelSelectProps {
+  judges: JudgeConfig[];
+  setJudges: (judges: JudgeConfig[]) => void;
+  aggregation: EnsembleAggregation;
+  setAggregation: (aggregation: EnsembleAggregation) => void;
+}
+
+// Matches the panel size accepted by the compare-documents API
+const MAX_JUDGES = 5;
+
+const aggregationOptions: Array<{ value: EnsembleAggregation; label: string; description: string }> = [
+  {
+    value: 'majority',
+    label: 'Majority Vote',
+    description: 'Each criterion goes to the document most judges prefer; a split vote is a tie',
+  },
+  {
+    value: 'mean',
+    label: 'Mean Score',
+    description: 'Averages every judge\'s scores; the higher average wins',
+  },
+];
+
+const JudgePanelSelect: React.FC<JudgePanelSelectProps> = ({ judges, setJudges, aggregation, setAggregation }) => {
+  const updateJudge = (index: number, changes: Partial<JudgeConfig>) => {
+    setJudges(judges.map((judge, i) => (i === index ? { ...judge, ...changes } : judge)));
+  };
+
+  const addJudge = () => {
+    const previous = judges[judges.length - 1];
+    setJudges([...judges, { modelName: previous?.modelName || 'gpt-4.1-mini', temperature: previous ? 0.7 : 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Judge Panel</Label>
+      {judges.length === 0 && (
+        <p className="text-sm text-gray-500">
+          A single default model evaluates every criterion. Add judges to evaluate with several models or temperatures.
+        </p>
+      )}
+      {judges.map((judge, index) => (
+        <div key={index} className="flex items-center space-x-2 border p-3 rounded-md">
+          <Label htmlFor={`judge-model-${index}`} className="font-medium whitespace-nowrap">
+            Judge {index + 1}
+          </Label>
+          <Input
+            id={`judge-model-${index}`}
+            value={judge.modelName}
+            onChange={(e) => updateJudge(index, { modelName: e.target.value })}
+            placeholder="Model name, e.g. gpt-4.1-mini"
+          />
+          <Label htmlFor={`judge-temperature-${index}`} className="text-sm text-gray-500 whitespace-nowrap">
+            Temperature
+          </Label>
+          <Input
+            id={`judge-temperature-${index}`}
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={judge.temperature ?? 0}
+            onChange={(e) => updateJudge(index, { temperature: Math.max(0, Math.min(2, Number(e.target.value) || 0)) })}
+            className="w-24"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setJudges(judges.filter((_, i) => i !== index))}
+            aria-label={`Remove judge ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addJudge}
+        disabled={judges.length >= MAX_JUDGES}
+        className="gap-1"
+      >
+        <Plus className="h-4 w-4" />
+        Add Judge
+      </Button>
+      {judges.length > 1 && (
+        <RadioGroup
+          value={aggregation}
+          onValueChange={(value) => setAggregation(value as EnsembleAggregation)}
+          className="space-y-2 pt-2"
+        >
+          {aggregationOptions.map((option) => (
+            <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+              <RadioGroupItem value={option.value} id={`judge-aggregation-${option.value}`} />
+              <Label htmlFor={`judge-aggregation-${option.value}`} className="font-medium">
+                {option.label}
+              </Label>
+              <span className="text-sm text-gray-500 ml-2">{option.description}</span>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+      {judges.length > 1 && (
+        <p className="text-sm text-gray-500">
+          Every judge evaluates every criterion, so a panel of {judges.length} makes {judges.length}× as many model calls
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JudgePanelSelect;
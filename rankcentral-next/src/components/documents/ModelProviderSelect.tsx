@@ -0,0 +1,85 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { LlmProviderName } from '@/lib/comparison/types';
+
+interface ModelProviderSelectProps {
+  provider: LlmProviderName;
+  setProvider: (provider: LlmProviderName) => void;
+  modelName: string;
+  setModelName: (modelName: string) => void;
+}
+
+// Default models match the ones the compare-documents API falls back to
+const providerOptions: Array<{ value: LlmProviderName; label: string; description: string; defaultModel: string }> = [
+  {
+    value: 'openai',
+    label: 'OpenAI',
+    description: 'The OpenAI API',
+    defaultModel: 'gpt-4.1-mini',
+  },
+  {
+    value: 'azure',
+    label: 'Azure OpenAI',
+    description: 'Your organisation\'s Azure OpenAI resource; the model name is the deployment name',
+    defaultModel: 'gpt-4.1-mini',
+  },
+  {
+    value: 'anthropic',
+    label: 'Anthropic',
+    description: 'The Anthropic API',
+    defaultModel: 'claude-3-5-haiku-latest',
+  },
+  {
+    value: 'openai-compatible',
+    label: 'Local / OpenAI-Compatible',
+    description: 'A server configured by your administrator, such as Ollama or llama.cpp; documents stay on-premise',
+    defaultModel: 'llama3.1',
+  },
+  {
+    value: 'mock',
+    label: 'Offline Demo',
+    description: 'Built-in heuristics instead of a model; no API key or network needed, for demos and testing',
+    defaultModel: 'mock-heuristic',
+  },
+];
+
+const ModelProviderSelect: React.FC<ModelProviderSelectProps> = ({ provider, setProvider, modelName, setModelName }) => {
+  const defaultModel = providerOptions.find(option => option.value === provider)?.defaultModel;
+
+  return (
+    <div className="space-y-2">
+      <Label>Model Provider</Label>
+      <RadioGroup
+        value={provider}
+        onValueChange={(value) => setProvider(value as LlmProviderName)}
+        className="space-y-2"
+      >
+        {providerOptions.map((option) => (
+          <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+            <RadioGroupItem value={option.value} id={`provider-${option.value}`} />
+            <Label htmlFor={`provider-${option.value}`} className="font-medium">
+              {option.label}
+            </Label>
+            <span className="text-sm text-gray-500 ml-2">{option.description}</span>
+          </div>
+        ))}
+      </RadioGroup>
+      <div className="flex items-center space-x-2 mt-4">
+        <Label htmlFor="model-name" className="font-medium whitespace-nowrap">Model</Label>
+        <Input
+          id="model-name"
+          value={modelName}
+          onChange={(e) => setModelName(e.target.value)}
+          placeholder={defaultModel}
+        />
+      </div>
+      <p className="text-sm text-gray-500">
+        Leave the model empty to use {defaultModel}. Judge panel models run on the same provider.
+      </p>
+    </div>
+  );
+};
+
+export default ModelProviderSelect;
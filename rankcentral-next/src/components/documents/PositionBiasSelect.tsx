@@ -0,0 +1,56 @@
+
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { PositionBiasMode } from '@/lib/comparison/types';
+
+interface PositionBiasSelectProps {
+  positionBias: PositionBiasMode;
+  setPositionBias: (mode: PositionBiasMode) => void;
+}
+
+const modeOptions: Array<{ value: PositionBiasMode; label: string; description: string }> = [
+  {
+    value: 'off',
+    label: 'Single Order',
+    description: 'Evaluates each pair once, in upload order',
+  },
+  {
+    value: 'consensus',
+    label: 'Both Orders (Consensus)',
+    description: 'Evaluates each pair both ways; a changed verdict counts as a tie',
+  },
+  {
+    value: 'average',
+    label: 'Both Orders (Average)',
+    description: 'Evaluates each pair both ways and averages the scores',
+  },
+];
+
+const PositionBiasSelect: React.FC<PositionBiasSelectProps> = ({ positionBias, setPositionBias }) => {
+  return (
+    <div className="space-y-2">
+      <Label>Presentation Order</Label>
+      <RadioGroup
+        value={positionBias}
+        onValueChange={(value) => setPositionBias(value as PositionBiasMode)}
+        className="space-y-2"
+      >
+        {modeOptions.map((option) => (
+          <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+            <RadioGroupItem value={option.value} id={`position-bias-${option.value}`} />
+            <Label htmlFor={`position-bias-${option.value}`} className="font-medium">
+              {option.label}
+            </Label>
+            <span className="text-sm text-gray-500 ml-2">{option.description}</span>
+          </div>
+        ))}
+      </RadioGroup>
+      <p className="text-sm text-gray-500">
+        Evaluating both orders doubles the number of model calls but shows whether document order affected the result
+      </p>
+    </div>
+  );
+};
+
+export default PositionBiasSelect;
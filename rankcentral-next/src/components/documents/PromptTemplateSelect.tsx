@@ -0,0 +1,51 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PromptTemplate, PromptTemplateKind } from '@/lib/comparison/types';
+
+interface PromptTemplateSelectProps {
+  kind: PromptTemplateKind;
+  templates: PromptTemplate[];
+  promptTemplate: PromptTemplate | null;
+  setPromptTemplate: (template: PromptTemplate | null) => void;
+}
+
+// Radix select items cannot have an empty value, so the active template has its own
+const ACTIVE_VALUE = 'active';
+
+const templateValue = (template: PromptTemplate) => `${template.name}@${template.version}`;
+
+const PromptTemplateSelect: React.FC<PromptTemplateSelectProps> = ({ kind, templates, promptTemplate, setPromptTemplate }) => {
+  const options = templates.filter(template => template.kind === kind);
+  const active = options.find(template => template.active);
+  const selected = promptTemplate && promptTemplate.kind === kind ? templateValue(promptTemplate) : ACTIVE_VALUE;
+
+  return (
+    <div className="space-y-2">
+      <Label>Prompt Template</Label>
+      <Select
+        value={selected}
+        onValueChange={(value) => setPromptTemplate(options.find(template => templateValue(template) === value) ?? null)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ACTIVE_VALUE}>
+            Active template{active ? ` (${active.name} v${active.version})` : ''}
+          </SelectItem>
+          {options.map(template => (
+            <SelectItem key={templateValue(template)} value={templateValue(template)}>
+              {template.name} v{template.version}{template.description ? ` — ${template.description}` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-gray-500">
+        Pick an earlier or newer version to compare prompt wordings on the same documents. The report records the version used.
+      </p>
+    </div>
+  );
+};
+
+export default PromptTemplateSelect;
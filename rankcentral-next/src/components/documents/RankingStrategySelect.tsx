@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { RankingStrategyName } from '@/lib/comparison/types';
+import { estimateComparisonCount, recommendRankingStrategy } from '@/lib/comparison/rankingStrategy';
+
+interface RankingStrategySelectProps {
+  rankingStrategy: RankingStrategyName;
+  setRankingStrategy: (strategy: RankingStrategyName) => void;
+  documentCount: number;
+  topK: number;
+  setTopK: (topK: number) => void;
+}
+
+const strategyOptions: Array<{ value: RankingStrategyName; label: string; description: string }> = [
+  {
+    value: 'mergesort',
+    label: 'Merge Sort',
+    description: 'Orders documents with about n log n comparisons',
+  },
+  {
+    value: 'round-robin',
+    label: 'Round-Robin',
+    description: 'Compares every pair of documents; best for small batches',
+  },
+  {
+    value: 'swiss',
+    label: 'Swiss System',
+    description: 'Pairs similarly ranked documents over a few rounds; best for large batches',
+  },
+  {
+    value: 'top-k',
+    label: 'Top-K Shortlist',
+    description: 'Finds and orders only the best documents; the rest are not ranked',
+  },
+];
+
+const RankingStrategySelect: React.FC<RankingStrategySelectProps> = ({ rankingStrategy, setRankingStrategy, documentCount, topK, setTopK }) => {
+  const recommended = recommendRankingStrategy(documentCount);
+
+  return (
+    <div className="space-y-2">
+      <Label>Ranking Strategy</Label>
+      <RadioGroup
+        value={rankingStrategy}
+        onValueChange={(value) => setRankingStrategy(value as RankingStrategyName)}
+        className="space-y-2"
+      >
+        {strategyOptions.map((option) => (
+          <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+            <RadioGroupItem value={option.value} id={`strategy-${option.value}`} />
+            <Label htmlFor={`strategy-${option.value}`} className="font-medium">
+              {option.label}
+            </Label>
+            <span className="text-sm text-gray-500 ml-2">
+              {option.description}
+              {documentCount > 1 && ` (up to ~${estimateComparisonCount(option.value, documentCount, { topK })} comparisons)`}
+            </span>
+            {documentCount > 1 && option.value === recommended && (
+              <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full ml-auto">
+                Recommended
+              </span>
+            )}
+          </div>
+        ))}
+      </RadioGroup>
+      {rankingStrategy === 'top-k' && (
+        <div className="flex items-center space-x-2 pt-2">
+          <Label htmlFor="top-k-size">Shortlist size</Label>
+          <Input
+            id="top-k-size"
+            type="number"
+            min={1}
+            max={Math.max(1, documentCount)}
+            value={topK}
+            onChange={(e) => setTopK(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="w-24"
+          />
+        </div>
+      )}
+      <p className="text-sm text-gray-500">
+        Choose how pairwise comparisons are combined into the final ranking
+      </p>
+    </div>
+  );
+};
+
+export default RankingStrategySelect;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PiiCategory, RedactionConfig } from '@/lib/comparison/types';
+
+interface RedactionSettingsProps {
+  redaction: RedactionConfig;
+  setRedaction: (redaction: RedactionConfig) => void;
+  // Only admins may send custom patterns to the compare-documents API
+  allowCustomPatterns?: boolean;
+}
+
+// Matches the number of custom patterns accepted by the compare-documents API
+const MAX_CUSTOM_PATTERNS = 10;
+
+const categoryOptions: Array<{ value: PiiCategory; label: string; description: string }> = [
+  {
+    value: 'email',
+    label: 'Email addresses',
+    description: 'e.g. jane.doe@example.com',
+  },
+  {
+    value: 'phone',
+    label: 'Phone numbers',
+    description: 'e.g. +44 20 7946 0958, (555) 123-4567',
+  },
+  {
+    value: 'national_id',
+    label: 'National IDs',
+    description: 'Social security and national insurance numbers, and numbers after labels such as "Passport No:" or "Tax ID"',
+  },
+  {
+    value: 'address',
+    label: 'Addresses',
+    description: 'Street addresses and postcodes',
+  },
+];
+
+const RedactionSettings: React.FC<RedactionSettingsProps> = ({ redaction, setRedaction, allowCustomPatterns = false }) => {
+  const toggleCategory = (category: PiiCategory, checked: boolean) => {
+    setRedaction({
+      ...redaction,
+      categories: checked
+        ? [...redaction.categories, category]
+        : redaction.categories.filter(selected => selected !== category),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Personal Data Redaction</Label>
+      {categoryOptions.map((option) => (
+        <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+          <Checkbox
+            id={`redact-${option.value}`}
+            checked={redaction.categories.includes(option.value)}
+            onCheckedChange={(checked) => toggleCategory(option.value, checked === true)}
+          />
+          <Label htmlFor={`redact-${option.value}`} className="font-medium">
+            {option.label}
+          </Label>
+          <span className="text-sm text-gray-500 ml-2">{option.description}</span>
+        </div>
+      ))}
+      {allowCustomPatterns && (
+        <>
+          <Label htmlFor="redact-custom-patterns" className="text-sm">
+            Custom patterns (regular expressions, one per line, up to {MAX_CUSTOM_PATTERNS})
+          </Label>
+          <Textarea
+            id="redact-custom-patterns"
+            value={redaction.customPatterns.join('\n')}
+            onChange={(e) => setRedaction({
+              ...redaction,
+              customPatterns: e.target.value.split('\n').slice(0, MAX_CUSTOM_PATTERNS),
+            })}
+            placeholder="e.g. EMP-\d{6}"
+            rows={3}
+            className="font-mono text-xs"
+          />
+        </>
+      )}
+      <p className="text-sm text-gray-500">
+        Matches are replaced with placeholders such as [EMAIL_1] before any text is sent to the model, and put back in the stored report. Kinds the server always redacts are redacted whatever is selected here.
+      </p>
+    </div>
+  );
+};
+
+export default RedactionSettings;
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { MIN_JUSTIFICATION_LENGTH } from '@/lib/comparison/verdictOverrides';
+import { VerdictOverrideInput } from '@/lib/comparison/types';
+
+interface OverrideVerdictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentA: string;
+  documentB: string;
+  currentWinner: string | null;
+  onSave: (override: VerdictOverrideInput) => void;
+}
+
+// Radio values cannot be null, so a tie is stored under its own key
+const TIE = '__tie__';
+
+const shortName = (name: string) => name.split('/').pop() || name;
+
+export default function OverrideVerdictDialog({
+  open,
+  onOpenChange,
+  documentA,
+  documentB,
+  currentWinner,
+  onSave
+}: OverrideVerdictDialogProps) {
+  const [choice, setChoice] = useState<string>(TIE);
+  const [justification, setJustification] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      // Start from the opposite verdict, which is the most common correction
+      setChoice(currentWinner === documentA ? documentB : currentWinner === documentB ? documentA : TIE);
+      setJustification('');
+    }
+  }, [open, documentA, documentB, currentWinner]);
+
+  const winner = choice === TIE ? null : choice;
+  const trimmed = justification.trim();
+  const unchanged = winner === currentWinner;
+  const canSave = !unchanged && trimmed.length >= MIN_JUSTIFICATION_LENGTH;
+
+  const handleSave = () => {
+    onSave({ documentA, documentB, winner, justification: trimmed });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Override Verdict</DialogTitle>
+          <DialogDescription>
+            {shortName(documentA)} vs {shortName(documentB)}: currently {currentWinner ? `${shortName(currentWinner)} wins` : 'a tie'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup value={choice} onValueChange={setChoice} className="space-y-2">
+            {[documentA, documentB, TIE].map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`override-${option}`} />
+                <Label htmlFor={`override-${option}`}>
+                  {option === TIE ? 'Tie' : `${shortName(option)} wins`}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-justification">Justification</Label>
+            <Textarea
+              id="override-justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why is the model's verdict wrong?"
+              rows={4}
+            />
+            <p className="text-xs text-gray-500">
+              Required, at least {MIN_JUSTIFICATION_LENGTH} characters. Stored with the report as part of its review history.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Add Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
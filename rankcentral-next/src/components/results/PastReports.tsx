@@ -2,12 +2,13 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Calendar, Edit, Check, FolderPlus, BarChart2, X, Loader2 } from 'lucide-react';
+import { FileText, Calendar, Edit, Check, FolderPlus, BarChart2, X, Loader2, History } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 import dayjs from 'dayjs';
 import ReportVisualization from './ReportVisualization';
 import AddToProjectDialog from './AddToProjectDialog';
+import ApiClient from '@/lib/comparison/apiClient';
 
 type Report = {
   reportId: string;
@@ -16,6 +17,28 @@ type Report = {
   topRanked: string;
   criteriaCount: number;
   evaluationMethod: string;
+  rankingStrategy?: string | null;
+  pointwiseRefined?: boolean;
+  shortlistSize?: number | null;
+  positionBias?: string;
+  positionConsistencyRate?: number | null;
+  cycleCount?: number;
+  judgeCount?: number;
+  judgeAggregation?: string | null;
+  llmProvider?: string;
+  modelName?: string | null;
+  spentUsd?: number | null;
+  budgetUsd?: number | null;
+  budgetExhausted?: boolean;
+  modelCalls?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  usageCostUsd?: number | null;
+  usageCostKnown?: boolean;
+  overrideCount?: number;
+  recordedCalls?: number;
+  version?: number;
+  parentReportId?: string | null;
   customPrompt?: string;
   reportName?: string;
   reportPath?: string;
@@ -24,15 +47,17 @@ type Report = {
 type PastReportsProps = {
   reports: Report[];
   onRenameReport: (timestamp: string, newName: string) => void;
+  onReportsChanged?: () => void;
 };
 
-const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
+const PastReports = ({ reports, onRenameReport, onReportsChanged }: PastReportsProps) => {
   const [expandedReport, setExpandedReport] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string | null>(null);
   const [newName, setNewName] = useState<string>('');
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [showAddToProjectDialog, setShowAddToProjectDialog] = useState(false);
   const [selectedReport, setSelectedReport] = useState<{ id: string; name: string } | null>(null);
+  const [replayingReport, setReplayingReport] = useState<string | null>(null);
   
   const toggleExpand = (timestamp: string) => {
     if (expandedReport === timestamp) {
@@ -132,6 +157,29 @@ const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
     setShowAddToProjectDialog(true);
   };
 
+  // Rebuild the ranking from the recorded model responses and report whether it still matches
+  const handleReplay = async (reportId: string) => {
+    setReplayingReport(reportId);
+    try {
+      const result = await new ApiClient().replayReport(reportId);
+      const details = [
+        result.changed_verdicts.length > 0 && `${result.changed_verdicts.length} verdict(s) changed`,
+        result.missing_records > 0 && `${result.missing_records} call(s) had no recorded response`
+      ].filter(Boolean).join(', ');
+
+      if (result.matches_original) {
+        toast.success(`Replay reproduced the stored ranking${details ? ` (${details})` : ''}`);
+      } else {
+        toast.warning(`Replay produced a different ranking${details ? ` (${details})` : ''}`);
+      }
+    } catch (error) {
+      console.error('Error replaying report:', error);
+      toast.error(error instanceof Error ? error.message : "An error occurred while replaying the report");
+    } finally {
+      setReplayingReport(null);
+    }
+  };
+
   // Function to handle direct navigation to the export tab (if needed)
   const handleDownloadClick = (timestamp: string) => {
     // First expand the report if it's not already expanded
@@ -201,6 +249,11 @@ const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
                 ) : (
                   <CardTitle className="flex items-center gap-2">
                     {report.reportName || 'Comparison Report'}
+                    {report.version && report.version > 1 && (
+                      <span className="text-xs font-normal bg-gray-100 text-gray-700 px-2 py-1 rounded-full">
+                        v{report.version}
+                      </span>
+                    )}
                     <Button 
                       variant="ghost" 
                       size="icon" 
@@ -241,6 +294,55 @@ const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
                 <div>
                   <h3 className="text-sm font-medium text-gray-500">Evaluation Method</h3>
                   <p className="mt-1 capitalize">{report.evaluationMethod || 'Standard'}</p>
+                  {report.evaluationMethod === 'pointwise' && (
+                    <p className="text-xs text-gray-500">
+                      Ranked by rubric totals{report.pointwiseRefined && ', neighbours re-checked pairwise'}
+                    </p>
+                  )}
+                  {report.rankingStrategy && (
+                    <p className="text-xs text-gray-500 capitalize">
+                      Ranked by {report.rankingStrategy.replace('-', ' ')}
+                      {typeof report.shortlistSize === 'number' && ` (shortlist of ${report.shortlistSize})`}
+                    </p>
+                  )}
+                  {report.positionBias && report.positionBias !== 'off' && typeof report.positionConsistencyRate === 'number' && (
+                    <p className="text-xs text-gray-500">
+                      Both orders ({report.positionBias}): {Math.round(report.positionConsistencyRate * 100)}% consistent
+                    </p>
+                  )}
+                  {report.modelName && (
+                    <p className="text-xs text-gray-500">
+                      {report.modelName}{report.llmProvider && report.llmProvider !== 'openai' && ` via ${report.llmProvider === 'openai-compatible' ? 'local endpoint' : report.llmProvider === 'mock' ? 'offline demo' : report.llmProvider}`}
+                    </p>
+                  )}
+                  {!!report.judgeCount && (
+                    <p className="text-xs text-gray-500">
+                      Panel of {report.judgeCount} judge{report.judgeCount === 1 ? '' : 's'}
+                      {report.judgeAggregation && ` (${report.judgeAggregation === 'mean' ? 'mean score' : 'majority vote'})`}
+                    </p>
+                  )}
+                  {typeof report.budgetUsd === 'number' && (
+                    <p className={`text-xs ${report.budgetExhausted ? 'text-orange-600' : 'text-gray-500'}`}>
+                      Spent ${(report.spentUsd ?? 0).toFixed(4)} of ${report.budgetUsd.toFixed(2)} budget
+                      {report.budgetExhausted && ' (cap reached, some comparisons skipped)'}
+                    </p>
+                  )}
+                  {typeof report.modelCalls === 'number' && (
+                    <p className="text-xs text-gray-500">
+                      {report.modelCalls} model call{report.modelCalls === 1 ? '' : 's'}: {(report.inputTokens ?? 0).toLocaleString()} input + {(report.outputTokens ?? 0).toLocaleString()} output tokens, ${(report.usageCostUsd ?? 0).toFixed(4)}
+                      {report.usageCostKnown === false && ' (estimated: some models have no known price)'}
+                    </p>
+                  )}
+                  {!!report.cycleCount && (
+                    <p className="text-xs text-orange-600">
+                      {report.cycleCount} preference cycle{report.cycleCount === 1 ? '' : 's'} detected
+                    </p>
+                  )}
+                  {!!report.overrideCount && (
+                    <p className="text-xs text-gray-500">
+                      {report.overrideCount} verdict{report.overrideCount === 1 ? '' : 's'} overridden by a reviewer
+                    </p>
+                  )}
                 </div>
               </div>
               
@@ -264,6 +366,24 @@ const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
                   <FolderPlus className="h-4 w-4 mr-1" />
                   Add to Project
                 </Button>
+
+                {!!report.recordedCalls && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="gap-1 text-brand-primary border-brand-primary"
+                    onClick={() => handleReplay(report.reportId)}
+                    disabled={replayingReport === report.reportId}
+                    title={`Re-rank from ${report.recordedCalls} recorded model responses without calling the model`}
+                  >
+                    {replayingReport === report.reportId ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <History className="h-4 w-4 mr-1" />
+                    )}
+                    Replay
+                  </Button>
+                )}
               </div>
               
               {expandedReport === report.timestamp && (
@@ -272,6 +392,7 @@ const PastReports = ({ reports, onRenameReport }: PastReportsProps) => {
                   reportName={report.reportName}
                   documents={report.documents}
                   reportId={report.reportId}
+                  onReportUpdated={onReportsChanged}
                 />
               )}
             </div>
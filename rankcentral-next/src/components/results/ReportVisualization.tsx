@@ -2,15 +2,26 @@ import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { BarChart2, ListOrdered, Download } from "lucide-react";
+import { AlertTriangle, BarChart2, ListOrdered, Download, PenLine } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
 import { useToast } from '@/hooks/use-toast';
 import ExportTab from './ExportTab';
+import OverrideVerdictDialog from './OverrideVerdictDialog';
 import ApiClient from '@/lib/comparison/apiClient';
+import { BradleyTerryEstimator } from '@/lib/comparison/bradleyTerry';
+import type { PointwiseScore, VerdictOverride, VerdictOverrideInput } from '@/lib/comparison/types';
+import { normalizeRankingTiers, tierPositions } from '@/lib/comparison/rankingTiers';
+import { ConsistencyAnalysis, DocumentScore, PositionConsistency } from '@/lib/comparison/types';
 import { ReportData } from '@/lib/types';
 
 interface RankingData {
   name: string;
   score: number;
+  standardError?: number;
+  rank?: number;
+  rankLabel?: string;
+  rubricTotal?: number;
 }
 
 interface PairwiseComparisonData {
@@ -18,6 +29,11 @@ interface PairwiseComparisonData {
   doc2: string;
   winner: string;
   reasoning: string;
+  // Full document names and winner (null for a tie), used to address overrides
+  documentA?: string;
+  documentB?: string;
+  winnerName?: string | null;
+  override?: VerdictOverride;
 }
 
 interface ReportVisualizationProps {
@@ -25,16 +41,27 @@ interface ReportVisualizationProps {
   reportName?: string;
   documents: string[];
   reportId: string;
+  onReportUpdated?: (reportId: string) => void;
 }
 
-const ReportVisualization = ({ timestamp, reportName, documents, reportId }: ReportVisualizationProps) => {
+const samePair = (override: VerdictOverrideInput, documentA?: string, documentB?: string) =>
+  (override.documentA === documentA && override.documentB === documentB) ||
+  (override.documentA === documentB && override.documentB === documentA);
+
+const ReportVisualization = ({ timestamp, reportName, documents, reportId, onReportUpdated }: ReportVisualizationProps) => {
   // Debug: log props on mount
   console.log('[ReportVisualization] props', { timestamp, reportName, documents, reportId });
   const [isLoading, setIsLoading] = useState(false);
   const [csvData, setCsvData] = useState<RankingData[]>([]);
   const [pairwiseData, setPairwiseData] = useState<PairwiseComparisonData[]>([]);
   const [explanationText, setExplanationText] = useState<string>('');
+  const [positionConsistency, setPositionConsistency] = useState<PositionConsistency | null>(null);
+  const [consistencyAnalysis, setConsistencyAnalysis] = useState<ConsistencyAnalysis | null>(null);
+  const [shortlistSize, setShortlistSize] = useState<number | null>(null);
   const [hasLoadedData, setHasLoadedData] = useState(false);
+  const [pendingOverrides, setPendingOverrides] = useState<VerdictOverrideInput[]>([]);
+  const [overrideTarget, setOverrideTarget] = useState<PairwiseComparisonData | null>(null);
+  const [isApplyingOverrides, setIsApplyingOverrides] = useState(false);
   const { toast } = useToast();
   
   const apiClient = new ApiClient(); // Create an instance of the API client
@@ -47,6 +74,10 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
     setCsvData([]);
     setPairwiseData([]);
     setExplanationText('');
+    setPositionConsistency(null);
+    setConsistencyAnalysis(null);
+    setShortlistSize(null);
+    setPendingOverrides([]);
     setHasLoadedData(false);
     
     // Fetch new data
@@ -71,14 +102,35 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
       // Transform the report data into the format expected by the visualization component
       console.log('[fetchReportData] Processing report data:', response.report);
       
+      setPositionConsistency(response.report?.position_consistency || null);
+      setConsistencyAnalysis(response.report?.consistency_analysis || null);
+      setShortlistSize(response.report?.shortlist_size ?? null);
+
       // Prefer backend ranking array if present
-      if (response.report && Array.isArray(response.report.ranking) && response.report.ranking.length > 0) {
-        // Use the ranking array as the source of truth
-        const formattedData: RankingData[] = response.report.ranking.map((doc: string, index: number) => {
+      const rankingTiers = normalizeRankingTiers(response.report?.ranking);
+      if (response.report && rankingTiers.length > 0) {
+        // Use the ranking tiers as the source of truth, with Bradley–Terry scores when the report has them.
+        // Tied documents share a rank, shown as "=2"; legacy flat rankings become one document per tier
+        const scoresByName = new Map<string, DocumentScore>(
+          (response.report.scores || []).map((score: DocumentScore) => [score.name, score])
+        );
+        // Pointwise reports also carry each document's weighted rubric total
+        const totalsByName = new Map<string, number>(
+          (response.report.pointwise_scores || []).map((score: PointwiseScore) => [score.document, score.weightedTotal])
+        );
+        const positions = tierPositions(rankingTiers);
+        const formattedData: RankingData[] = positions.map((position, index) => {
+          const doc = position.document;
           const name = doc.split('/').pop() || doc || 'Unknown';
-          // Score is descending (higher rank = higher score)
-          const score = response.report.ranking.length - index;
-          return { name, score };
+          const rankInfo = { rank: position.rank, rankLabel: position.label, rubricTotal: totalsByName.get(doc) };
+          const estimate = scoresByName.get(doc);
+          // A document with no pairwise comparisons (pure pointwise scoring) has no strength estimate
+          if (estimate && estimate.comparisons > 0) {
+            return { name, score: estimate.score, standardError: estimate.standardError, ...rankInfo };
+          }
+          // Legacy reports without scores: descending rank index (higher rank = higher score)
+          const score = positions.length - index;
+          return { name, score, ...rankInfo };
         });
         setCsvData(formattedData);
         console.log('[fetchReportData] setCsvData (from ranking):', formattedData);
@@ -160,7 +212,16 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
                            result.evaluation_details?.explanation ||
                            'No reasoning available.');
           console.log(`[fetchReportData] Pairwise: { doc1: ${doc1}, doc2: ${doc2}, winner: ${winner}, reasoning: ${reasoning} }`);
-          return { doc1, doc2, winner, reasoning };
+          return {
+            doc1,
+            doc2,
+            winner,
+            reasoning,
+            documentA: result.documentA,
+            documentB: result.documentB,
+            winnerName: result.winner || null,
+            override: result.override
+          };
         });
         setPairwiseData(formattedPairwiseData);
         console.log('[fetchReportData] setPairwiseData:', formattedPairwiseData);
@@ -261,6 +322,43 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
     }
   };
 
+  const handleAddOverride = (override: VerdictOverrideInput) => {
+    // A second override of the same pair replaces the first
+    setPendingOverrides(current => [
+      ...current.filter(pending => !samePair(pending, override.documentA, override.documentB)),
+      override
+    ]);
+  };
+
+  const handleApplyOverrides = async () => {
+    setIsApplyingOverrides(true);
+    try {
+      const response = await apiClient.overrideVerdicts(reportId, pendingOverrides);
+      setPendingOverrides([]);
+      toast({
+        title: "Ranking updated",
+        description: response.new_comparisons > 0
+          ? `Saved as version ${response.version}. ${response.new_comparisons} pair(s) had not been compared before and were evaluated.`
+          : `Saved as version ${response.version} without any new evaluations.`,
+      });
+      onReportUpdated?.(response.report_id);
+    } catch (error) {
+      toast({
+        title: "Could not apply overrides",
+        description: error instanceof Error ? error.message : "The overrides could not be applied.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingOverrides(false);
+    }
+  };
+
+  const hasStrengthScores = csvData.some(row => row.standardError !== undefined);
+  const hasRubricTotals = csvData.some(row => row.rubricTotal !== undefined);
+  // Top-K reports only rank their shortlist
+  const isShortlisted = (index: number) => shortlistSize === null || index < shortlistSize;
+  const maxAbsScore = Math.max(...csvData.map(row => Math.abs(row.score)), 1e-6);
+
   // Debug: show csvData in UI for quick inspection
   return (
     <Card className="w-full mt-4">
@@ -303,39 +401,130 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
               <div className="space-y-6">
                 <div className="space-y-4">
                   <h3 className="font-medium text-lg">Document Rankings</h3>
+                  {positionConsistency && positionConsistency.rate !== null && (
+                    <p className="text-sm text-gray-600">
+                      Position consistency: <span className="font-medium">{Math.round(positionConsistency.rate * 100)}%</span>
+                      {' '}({positionConsistency.consistentPairs} of {positionConsistency.checkedPairs} pairs gave the same verdict with the documents presented in either order)
+                    </p>
+                  )}
+                  {consistencyAnalysis && !consistencyAnalysis.consistent && (
+                    <Alert className="border-orange-200 bg-orange-50">
+                      <AlertTriangle className="h-4 w-4 text-orange-600" />
+                      <AlertDescription className="text-sm text-orange-800 space-y-1">
+                        <p>
+                          Some verdicts contradict each other, so the order within these groups is less reliable:
+                        </p>
+                        <ul className="list-disc pl-5">
+                          {consistencyAnalysis.cycles.map((members, index) => (
+                            <li key={index}>{members.map(doc => doc.split('/').pop() || doc).join(', ')}</li>
+                          ))}
+                        </ul>
+                        {consistencyAnalysis.intransitiveTriples.length > 0 && (
+                          <p>{consistencyAnalysis.intransitiveTriples.length} intransitive triple{consistencyAnalysis.intransitiveTriples.length === 1 ? '' : 's'} found (see the Consistency Analysis export).</p>
+                        )}
+                        {consistencyAnalysis.extraComparisons > 0 && (
+                          <p>
+                            {consistencyAnalysis.extraComparisons} extra comparison{consistencyAnalysis.extraComparisons === 1 ? ' was' : 's were'} run to resolve them
+                            {consistencyAnalysis.reevaluatedComparisons ? ` (${consistencyAnalysis.reevaluatedComparisons} re-evaluating the weakest verdicts)` : ''}
+                            {consistencyAnalysis.rankingAdjusted ? ' and the ranking was adjusted.' : '; the ranking was unchanged.'}
+                          </p>
+                        )}
+                        {consistencyAnalysis.resolutionSkipped && (
+                          <p>No extra comparisons could be run to resolve them, so the ranking was left as the strategy produced it.</p>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   <div className="border rounded-lg overflow-x-auto">
                     <Table>
                       <TableHeader>
                         <TableRow>
                           <TableHead className="w-16">Rank</TableHead>
                           <TableHead>Document</TableHead>
+                          {hasRubricTotals && (
+                            <TableHead className="w-32">Rubric total</TableHead>
+                          )}
+                          {hasStrengthScores && (
+                            <>
+                              <TableHead className="w-64">Strength (± std. error)</TableHead>
+                              <TableHead className="hidden md:table-cell w-32">Beats next</TableHead>
+                            </>
+                          )}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {csvData.map((row, index) => (
-                          <TableRow key={index} className={index === 0 ? "bg-green-50" : ""}>
+                        {csvData.map((row, index) => {
+                          const rank = row.rank ?? index + 1;
+                          return (
+                          <TableRow key={index} className={rank === 1 ? "bg-green-50" : ""}>
                             <TableCell className="font-bold">
-                              <div className={`
-                                flex items-center justify-center w-8 h-8 rounded-full text-white text-sm font-bold
-                                ${index === 0 ? 'bg-green-500' : index === 1 ? 'bg-blue-500' : index === 2 ? 'bg-orange-500' : 'bg-gray-500'}
-                              `}>
-                                {index + 1}
-                              </div>
+                              {isShortlisted(index) ? (
+                                <div className={`
+                                  flex items-center justify-center w-8 h-8 rounded-full text-white text-sm font-bold
+                                  ${rank === 1 ? 'bg-green-500' : rank === 2 ? 'bg-blue-500' : rank === 3 ? 'bg-orange-500' : 'bg-gray-500'}
+                                `}>
+                                  {row.rankLabel ?? rank}
+                                </div>
+                              ) : (
+                                <span className="text-sm text-gray-400">—</span>
+                              )}
                             </TableCell>
                             <TableCell className="font-medium">
                               <div className="flex items-center gap-2">
                                 <span className="truncate max-w-xs md:max-w-md" title={row.name}>
                                   {row.name}
                                 </span>
-                                {index === 0 && (
+                                {rank === 1 && (
                                   <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full flex-shrink-0">
-                                    Top Ranked
+                                    {row.rankLabel?.startsWith('=') ? 'Joint Top' : 'Top Ranked'}
+                                  </span>
+                                )}
+                                {!isShortlisted(index) && (
+                                  <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full flex-shrink-0">
+                                    Not in shortlist
                                   </span>
                                 )}
                               </div>
                             </TableCell>
+                            {hasRubricTotals && (
+                              <TableCell className="text-sm font-medium">
+                                {row.rubricTotal !== undefined ? `${row.rubricTotal.toFixed(1)} / 100` : '—'}
+                              </TableCell>
+                            )}
+                            {hasStrengthScores && (
+                              <>
+                                <TableCell>
+                                  {row.standardError !== undefined ? (
+                                    <div className="space-y-1">
+                                      <div className="text-sm font-medium">
+                                        {row.score >= 0 ? '+' : ''}{row.score.toFixed(2)}
+                                        <span className="text-gray-500 font-normal"> ± {row.standardError.toFixed(2)}</span>
+                                      </div>
+                                      <div className="relative h-2 bg-gray-100 rounded">
+                                        <div
+                                          className={`absolute top-0 h-2 rounded ${row.score >= 0 ? 'bg-green-500' : 'bg-orange-400'}`}
+                                          style={{
+                                            left: row.score >= 0 ? '50%' : `${50 - (Math.abs(row.score) / maxAbsScore) * 50}%`,
+                                            width: `${(Math.abs(row.score) / maxAbsScore) * 50}%`
+                                          }}
+                                        />
+                                        <div className="absolute top-0 left-1/2 h-2 w-px bg-gray-400" />
+                                      </div>
+                                    </div>
+                                  ) : (
+                                    <span className="text-sm text-gray-400">—</span>
+                                  )}
+                                </TableCell>
+                                <TableCell className="hidden md:table-cell text-sm text-gray-600">
+                                  {isShortlisted(index + 1) && index < csvData.length - 1 && row.standardError !== undefined && csvData[index + 1].standardError !== undefined
+                                    ? `${Math.round(BradleyTerryEstimator.winProbability(row.score, csvData[index + 1].score) * 100)}%`
+                                    : '—'}
+                                </TableCell>
+                              </>
+                            )}
                           </TableRow>
-                        ))}
+                          );
+                        })}
                       </TableBody>
                     </Table>
                   </div>
@@ -355,6 +544,24 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
                 {/* Pairwise comparison table */}
                 <div className="space-y-4">
                   <h3 className="font-medium text-lg">Detailed Pairwise Comparisons</h3>
+                  {pendingOverrides.length > 0 && (
+                    <Alert>
+                      <PenLine className="h-4 w-4" />
+                      <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                          {pendingOverrides.length} verdict{pendingOverrides.length === 1 ? '' : 's'} to override. Applying them re-ranks the documents and saves a new report version.
+                        </span>
+                        <span className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setPendingOverrides([])} disabled={isApplyingOverrides}>
+                            Discard
+                          </Button>
+                          <Button size="sm" onClick={handleApplyOverrides} disabled={isApplyingOverrides}>
+                            {isApplyingOverrides ? 'Re-ranking...' : 'Apply and Re-rank'}
+                          </Button>
+                        </span>
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   <div className="border rounded-lg overflow-x-auto">
                     <Table>
                       <TableHeader>
@@ -363,25 +570,48 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
                           <TableHead>Document 2</TableHead>
                           <TableHead>Winner</TableHead>
                           <TableHead className="hidden md:table-cell">Reasoning</TableHead>
+                          <TableHead className="w-24">Review</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {pairwiseData.length > 0 ? (
-                          pairwiseData.map((comparison: PairwiseComparisonData, index) => (
+                          pairwiseData.map((comparison: PairwiseComparisonData, index) => {
+                            const pending = pendingOverrides.find(override => samePair(override, comparison.documentA, comparison.documentB));
+                            return (
                             <TableRow key={index}>
                               <TableCell>{comparison.doc1}</TableCell>
                               <TableCell>{comparison.doc2}</TableCell>
-                              <TableCell className="font-medium">{comparison.winner}</TableCell>
+                              <TableCell className="font-medium">
+                                {comparison.winner}
+                                {comparison.override && (
+                                  <div className="text-xs font-normal text-gray-500" title={comparison.override.justification}>
+                                    Overridden (model said {comparison.override.originalWinner?.split('/').pop() || 'Tie'})
+                                  </div>
+                                )}
+                                {pending && (
+                                  <div className="text-xs font-normal text-blue-600">
+                                    Pending: {pending.winner?.split('/').pop() || 'Tie'}
+                                  </div>
+                                )}
+                              </TableCell>
                               <TableCell className="hidden md:table-cell">
                                 <div className="max-w-md text-sm text-gray-600 whitespace-normal">
-                                  {comparison.reasoning}
+                                  {comparison.override ? `Reviewer: ${comparison.override.justification}` : comparison.reasoning}
                                 </div>
                               </TableCell>
+                              <TableCell>
+                                {comparison.documentA && comparison.documentB && (
+                                  <Button variant="ghost" size="sm" onClick={() => setOverrideTarget(comparison)}>
+                                    Override
+                                  </Button>
+                                )}
+                              </TableCell>
                             </TableRow>
-                          ))
+                            );
+                          })
                         ) : (
                           <TableRow>
-                            <TableCell colSpan={4} className="text-center py-4">
+                            <TableCell colSpan={5} className="text-center py-4">
                               No pairwise comparison data available
                             </TableCell>
                           </TableRow>
@@ -394,6 +624,17 @@ const ReportVisualization = ({ timestamp, reportName, documents, reportId }: Rep
             )}
           </TabsContent>
           
+          {overrideTarget?.documentA && overrideTarget.documentB && (
+            <OverrideVerdictDialog
+              open={!!overrideTarget}
+              onOpenChange={(open) => !open && setOverrideTarget(null)}
+              documentA={overrideTarget.documentA}
+              documentB={overrideTarget.documentB}
+              currentWinner={overrideTarget.winnerName ?? null}
+              onSave={handleAddOverride}
+            />
+          )}
+
           <TabsContent value="export" className="pt-4">
             <ExportTab 
               isLoading={isLoading} 
@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import ApiClient from '@/lib/comparison/apiClient';
+import { DEFAULT_PROMPT_TEMPLATE_NAME } from '@/lib/comparison/promptGenerator';
+import { PromptTemplate, PromptTemplateKind } from '@/lib/comparison/types';
+
+const kindOptions: Array<{ value: PromptTemplateKind; label: string; description: string }> = [
+  {
+    value: 'criterion',
+    label: 'Criteria',
+    description: 'Used to compare two documents on one criterion and its rubric',
+  },
+  {
+    value: 'custom',
+    label: 'Custom Prompt',
+    description: 'Used to compare two documents on the user\'s own instructions',
+  },
+];
+
+const apiClient = new ApiClient('/api');
+
+const PromptTemplateEditor: React.FC = () => {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<PromptTemplateKind>('criterion');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [variables, setVariables] = useState<Record<PromptTemplateKind, string[]>>({ criterion: [], custom: [] });
+  const [requiredVariables, setRequiredVariables] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [body, setBody] = useState('');
+  const [activate, setActivate] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await apiClient.getPromptTemplates();
+      setTemplates(response.templates);
+      setVariables(response.variables);
+      setRequiredVariables(response.required_variables);
+    } catch (error) {
+      toast({
+        title: "Could not load prompt templates",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const versions = templates.filter(template => template.kind === kind);
+
+  // Editing a version starts the next version of the same template; the built-in one starts a new template
+  const editVersion = (template: PromptTemplate) => {
+    setName(template.name === DEFAULT_PROMPT_TEMPLATE_NAME ? '' : template.name);
+    setDescription('');
+    setBody(template.body);
+  };
+
+  const handleActivate = async (template: PromptTemplate) => {
+    try {
+      await apiClient.activatePromptTemplate(template.kind, template.name, template.version);
+      toast({
+        title: "Template activated",
+        description: `${template.name} v${template.version} is now used for new comparisons`,
+      });
+      await loadTemplates();
+    } catch (error) {
+      toast({
+        title: "Could not activate the template",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiClient.savePromptTemplate({ name: name.trim(), kind, body, description, activate });
+      toast({
+        title: "Template saved",
+        description: `Saved ${response.template.name} v${response.template.version}${response.template.active ? ' and made it active' : ''}`,
+      });
+      setDescription('');
+      await loadTemplates();
+    } catch (error) {
+      toast({
+        title: "Could not save the template",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <RadioGroup
+        value={kind}
+        onValueChange={(value) => setKind(value as PromptTemplateKind)}
+        className="space-y-2"
+      >
+        {kindOptions.map((option) => (
+          <div key={option.value} className="flex items-center space-x-2 border p-3 rounded-md">
+            <RadioGroupItem value={option.value} id={`template-kind-${option.value}`} />
+            <Label htmlFor={`template-kind-${option.value}`} className="font-medium">
+              {option.label}
+            </Label>
+            <span className="text-sm text-gray-500 ml-2">{option.description}</span>
+          </div>
+        ))}
+      </RadioGroup>
+
+      <div className="space-y-2">
+        <Label>Versions</Label>
+        {versions.map(template => (
+          <div key={`${template.name}@${template.version}`} className="flex items-center space-x-2 border p-3 rounded-md">
+            <span className="font-medium">{template.name} v{template.version}</span>
+            {template.active && (
+              <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full">Active</span>
+            )}
+            <span className="text-sm text-gray-500 truncate">
+              {template.description}
+              {template.createdBy && ` — ${template.createdBy}`}
+              {template.createdAt && `, ${new Date(template.createdAt).toLocaleString()}`}
+            </span>
+            <div className="ml-auto flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => editVersion(template)}>
+                Edit
+              </Button>
+              {!template.active && (
+                <Button variant="outline" size="sm" onClick={() => handleActivate(template)}>
+                  Activate
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4 border-t pt-6">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. strict-rubric"
+          />
+          <p className="text-xs text-gray-500">
+            Saving under an existing name adds its next version; earlier versions stay available.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-description">What changed</Label>
+          <Input
+            id="template-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Ask for evidence before scoring"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-body">Prompt</Label>
+          <Textarea
+            id="template-body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={20}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-gray-500">
+            Variables: {variables[kind].map(variable => `{{${variable}}}`).join(', ')}.
+            {' '}Required: {requiredVariables.map(variable => `{{${variable}}}`).join(', ')}.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="template-activate" checked={activate} onCheckedChange={setActivate} />
+          <Label htmlFor="template-activate">Use for new comparisons once saved</Label>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !body.trim()}>
+            {isSaving ? "Saving..." : "Save New Version"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
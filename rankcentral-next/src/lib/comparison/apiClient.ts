@@ -4,7 +4,7 @@
  */
 
 // src/lib/comparison/apiClient.ts
-import { ComparisonOptions, ComparisonResult, Document, Criterion, Report, ReportSummary } from './types';
+import { ComparisonOptions, ComparisonProgress, ComparisonResult, CostEstimate, Document, Criterion, PromptTemplate, PromptTemplateKind, ReplayResult, Report, ReportSummary, VerdictOverrideInput } from './types';
 
 /**
  * Client for making API calls to the document comparison backend.
@@ -79,6 +79,23 @@ export default class ApiClient {
 					customPrompt: options.customPrompt,
 					reportName: options.reportName,
 					modelName: options.modelName,
+					provider: options.provider,
+					rankingStrategy: options.rankingStrategy,
+					topK: options.topK,
+					concurrency: options.concurrency,
+					positionBias: options.positionBias,
+					resolveInconsistencies: options.resolveInconsistencies,
+					useEvaluationCache: options.useEvaluationCache,
+					progressId: options.progressId,
+					promptTemplate: options.promptTemplate,
+					promptTemplateVersion: options.promptTemplateVersion,
+					blindMode: options.blindMode,
+					redaction: options.redaction,
+					judges: options.judges,
+					judgeAggregation: options.judgeAggregation,
+					hybrid: options.hybrid,
+					budgetUsd: options.budgetUsd,
+					budgetMode: options.budgetMode,
 				}),
 			});
 
@@ -94,6 +111,170 @@ export default class ApiClient {
 		}
 	}
 
+	/**
+	 * Get the live progress of a running comparison started with `options.progressId`.
+	 * @async
+	 * @param {string} progressId - Progress ID sent with the comparison
+	 * @param {number} [since=0] - Last event sequence number already received
+	 * @returns {Promise<{success: boolean, progress: ComparisonProgress}>} Progress so far, with the newer events
+	 * @throws {Error} If the comparison is not known (yet) or server returns error
+	 */
+	async getComparisonProgress(progressId: string, since = 0): Promise<{ success: boolean; progress: ComparisonProgress }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/documents/progress/${encodeURIComponent(progressId)}?since=${since}`);
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to get comparison progress');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error getting comparison progress:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Estimate the model calls, tokens and cost of a comparison without running it.
+	 * @async
+	 * @param {Document[]} documents - Documents to compare
+	 * @param {ComparisonOptions} options - Comparison configuration options
+	 * @returns {Promise<{success: boolean, estimate: CostEstimate}>} Predicted calls, tokens and cost
+	 * @throws {Error} If estimation fails or server returns error
+	 */
+	async estimateCost(
+		documents: Document[],
+		options: ComparisonOptions
+	): Promise<{ success: boolean; estimate: CostEstimate }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/documents/estimate-cost`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					documents,
+					criteria: options.criteria,
+					evaluationMethod: options.evaluationMethod,
+					customPrompt: options.customPrompt,
+					modelName: options.modelName,
+					provider: options.provider,
+					rankingStrategy: options.rankingStrategy,
+					topK: options.topK,
+					positionBias: options.positionBias,
+					judges: options.judges,
+					hybrid: options.hybrid,
+					promptTemplate: options.promptTemplate,
+					promptTemplateVersion: options.promptTemplateVersion,
+				}),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Cost estimate failed');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error estimating cost:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * List every prompt template version, built-in ones first.
+	 * @async
+	 * @returns {Promise<{success: boolean, templates: PromptTemplate[], variables: Record<PromptTemplateKind, string[]>, required_variables: string[]}>} Template versions and the variables each kind can use
+	 * @throws {Error} If request fails or server returns error
+	 */
+	async getPromptTemplates(): Promise<{
+		success: boolean;
+		templates: PromptTemplate[];
+		variables: Record<PromptTemplateKind, string[]>;
+		required_variables: string[];
+	}> {
+		try {
+			const response = await fetch(`${this.baseUrl}/prompt-templates`);
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to get prompt templates');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error getting prompt templates:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Save the next version of a prompt template (admins only).
+	 * @async
+	 * @param {{name: string, kind: PromptTemplateKind, body: string, description?: string, activate?: boolean}} template - Template to save
+	 * @returns {Promise<{success: boolean, template: PromptTemplate}>} The saved version
+	 * @throws {Error} If the template is invalid or server returns error
+	 */
+	async savePromptTemplate(template: {
+		name: string;
+		kind: PromptTemplateKind;
+		body: string;
+		description?: string;
+		activate?: boolean;
+	}): Promise<{ success: boolean; template: PromptTemplate }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/prompt-templates`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(template),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to save prompt template');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error saving prompt template:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Choose the template version runs of a kind use (admins only).
+	 * @async
+	 * @param {PromptTemplateKind} kind - Kind of evaluation
+	 * @param {string} name - Template name; "default" for the built-in template
+	 * @param {number} version - Version to activate
+	 * @returns {Promise<{success: boolean}>} Activation result
+	 * @throws {Error} If the version does not exist or server returns error
+	 */
+	async activatePromptTemplate(kind: PromptTemplateKind, name: string, version: number): Promise<{ success: boolean }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/prompt-templates/activate`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ kind, name, version }),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to activate prompt template');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error activating prompt template:', error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Get default evaluation criteria.
 	 * @async
@@ -161,6 +342,107 @@ export default class ApiClient {
 		}
 	}
 
+	/**
+	 * Insert late documents into an existing report's ranking.
+	 * The server reuses the report's criteria, model and cached comparisons and
+	 * stores the result as a new report version.
+	 * @async
+	 * @param {string} reportId - Report whose ranking should be extended
+	 * @param {Document[]} documents - Documents to insert
+	 * @param {string} [reportName] - Optional name for the new version
+	 * @returns {Promise<{success: boolean, report_id: string, version: number, ranked_documents: string[]}>} New report version
+	 * @throws {Error} If request fails or server returns error
+	 */
+	async insertDocuments(
+		reportId: string,
+		documents: Document[],
+		reportName?: string
+	): Promise<{ success: boolean; report_id: string; version: number; ranked_documents: string[] }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/reports/${encodeURIComponent(reportId)}/insert-documents`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ documents, reportName }),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to insert documents');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error inserting documents:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Override individual pairwise verdicts and re-rank the report.
+	 * The server replays the ranking over the report's cached comparisons and
+	 * stores the result as a new report version with the overrides recorded.
+	 * @async
+	 * @param {string} reportId - Report whose verdicts should change
+	 * @param {VerdictOverrideInput[]} overrides - New verdicts, each with a justification
+	 * @param {string} [reportName] - Optional name for the new version
+	 * @returns {Promise<{success: boolean, report_id: string, version: number, ranked_documents: string[], new_comparisons: number}>} New report version
+	 * @throws {Error} If request fails or server returns error
+	 */
+	async overrideVerdicts(
+		reportId: string,
+		overrides: VerdictOverrideInput[],
+		reportName?: string
+	): Promise<{ success: boolean; report_id: string; version: number; ranked_documents: string[]; new_comparisons: number }> {
+		try {
+			const response = await fetch(`${this.baseUrl}/reports/${encodeURIComponent(reportId)}/override-verdicts`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ overrides, reportName }),
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to override verdicts');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error overriding verdicts:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Rebuild a report's ranking from its recorded model calls.
+	 * No model is called and nothing is stored; the result says whether the
+	 * replayed ranking matches the one in the report.
+	 * @async
+	 * @param {string} reportId - Report to replay
+	 * @returns {Promise<ReplayResult>} Replayed ranking and how it differs from the stored one
+	 * @throws {Error} If request fails or server returns error
+	 */
+	async replayReport(reportId: string): Promise<ReplayResult> {
+		try {
+			const response = await fetch(`${this.baseUrl}/reports/${encodeURIComponent(reportId)}/replay`, {
+				method: 'POST',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to replay report');
+			}
+
+			return await response.json();
+		} catch (error) {
+			console.error('Error replaying report:', error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Download report as ZIP file.
 	 * @async
@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Blind evaluation support.
+ * The model sees each document under a neutral alias, with author names and email
+ * addresses stripped from its text, so names cannot bias the verdicts. Document names
+ * only come back when the model's analyses are stored with the report.
+ */
+
+// src/lib/comparison/blindReview.ts
+import { BlindRedactionCounts, BlindReviewSummary, CriterionEvaluation, PointwiseCriterionScore } from './types';
+
+/** @type {string} Word every alias starts with, followed by the document's number */
+export const BLIND_ALIAS_PREFIX = 'Submission';
+
+/** @type {string} Text put in place of an author name */
+export const WITHHELD_NAME = '[name withheld]';
+
+/** @type {string} Text put in place of an email address */
+export const WITHHELD_EMAIL = '[email withheld]';
+
+/** @type {RegExp} An alias as the model may write it back */
+const ALIAS_PATTERN = new RegExp(`\\b${BLIND_ALIAS_PREFIX} (\\d+)\\b`, 'g');
+
+/** @type {RegExp} Email addresses */
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+/** @type {RegExp} Lines that introduce the author, such as "Author: Jane Doe" or "Prepared by Jane Doe" */
+const AUTHOR_LINE_PATTERN = /^[ \t]*(?:(?:author|applicant|candidate|student|name)s?[ \t]*:|(?:submitted|prepared|written)[ \t]+by\b[ \t]*:?|by[ \t]*:)[ \t]*(.+)$/gim;
+
+/** @type {RegExp} Two to four capitalised words, allowing middle initials */
+const PERSON_NAME_PATTERN = /^[A-Z][A-Za-z'’-]+(?:[ \t]+(?:[A-Z]\.|[A-Z][A-Za-z'’-]+)){1,3}/;
+
+/** @type {string} Honorifics that can precede a surname on its own */
+const HONORIFIC_PATTERN = '(?:Mr|Mrs|Ms|Miss|Dr|Prof)\\.?';
+
+/** @type {number} Non-empty lines at the top of a text in which a byline is looked for */
+const HEADER_LINE_COUNT = 5;
+
+/** @type {RegExp} Contact details that tell a byline from a title: a withheld email or a phone number */
+const CONTACT_PATTERN = new RegExp(`${escapePattern(WITHHELD_EMAIL)}|\\+?\\d[\\d ()-]{6,}\\d`);
+
+/**
+ * Words common in file names that are never part of an author's name.
+ * @type {Set<string>}
+ */
+const FILE_NAME_STOPWORDS = new Set([
+	'application', 'assignment', 'copy', 'cover', 'cv', 'document', 'draft', 'essay', 'final',
+	'letter', 'new', 'paper', 'plan', 'portfolio', 'project', 'proposal', 'report', 'resume',
+	'revised', 'statement', 'submission', 'thesis', 'updated', 'version'
+]);
+
+/**
+ * Text of a document with author details stripped, and how many were stripped.
+ * @interface AnonymizedText
+ */
+export interface AnonymizedText {
+	/** @type {string} Stripped text */
+	text: string;
+	/** @type {BlindRedactionCounts} Replacements made */
+	redactions: BlindRedactionCounts;
+}
+
+/**
+ * Escapes a string for use inside a regular expression.
+ * @param {string} value - Literal text
+ * @returns {string} Escaped pattern
+ */
+function escapePattern(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pairs of adjacent words in a file name that could be its author's name,
+ * such as "Jane Doe" in "Jane_Doe_CV.pdf" or "JaneDoe-resume.pdf".
+ * @param {string} documentName - Document name
+ * @returns {string[]} Candidate names
+ */
+function fileNameCandidates(documentName: string): string[] {
+	const words = documentName
+		.replace(/\.[A-Za-z0-9]{1,5}$/, '')
+		.replace(/([a-z])([A-Z])/g, '$1 $2')
+		.split(/[\s_.\-]+/)
+		.filter(word => /^[A-Za-z][A-Za-z'’]+$/.test(word) && !FILE_NAME_STOPWORDS.has(word.toLowerCase()));
+
+	return words.slice(1).map((word, index) => `${words[index]} ${word}`);
+}
+
+/**
+ * File-name candidates the text confirms as its author's name: the name on a line of
+ * its own near the top, optionally followed by contact details. The first line counts
+ * only with contact details on it or under it, since it is usually the title. This keeps
+ * topic words such as "Climate Change" in "Climate_Change_Report.pdf" from being withheld.
+ * @param {string} documentName - Document name
+ * @param {string} text - Document text
+ * @returns {string[]} Confirmed names
+ */
+function fileNameNames(documentName: string, text: string): string[] {
+	const header = text
+		.split('\n')
+		.map(line => line.trim())
+		.filter(line => line.length > 0)
+		.slice(0, HEADER_LINE_COUNT);
+
+	return fileNameCandidates(documentName).filter(candidate => {
+		const byline = new RegExp(
+			`^${candidate.split(' ').map(escapePattern).join('\\s+')}\\s*(?:$|([,;|(–—-]|${escapePattern(WITHHELD_EMAIL)}))`,
+			'i'
+		);
+		return header.some((line, index) => {
+			const match = line.match(byline);
+			return !!match && (index > 0 || !!match[1] || CONTACT_PATTERN.test(header[1] ?? ''));
+		});
+	});
+}
+
+/**
+ * Names given on author lines of a text.
+ * @param {string} text - Document text
+ * @returns {string[]} Names found
+ */
+function authorLineNames(text: string): string[] {
+	const names: string[] = [];
+	for (const match of text.matchAll(AUTHOR_LINE_PATTERN)) {
+		for (const part of match[1].split(/\s*(?:,|;|&|\band\b)\s*/)) {
+			const name = part.trim().match(PERSON_NAME_PATTERN);
+			if (name) {
+				names.push(name[0]);
+			}
+		}
+	}
+	return names;
+}
+
+/**
+ * Strips email addresses and detectable author names from a document's text.
+ * Author names are those given on lines such as "Author: Jane Doe" and those in
+ * the document's file name that also stand as a byline near the top of the text;
+ * every capitalised occurrence is replaced, as is the surname after an honorific.
+ * Names written any other way are not detected.
+ * @param {string} text - Document text
+ * @param {string} documentName - Document name, which often contains the author's name
+ * @returns {AnonymizedText} Stripped text and replacement counts
+ */
+export function anonymizeText(text: string, documentName: string): AnonymizedText {
+	let emails = 0;
+	let stripped = text.replace(EMAIL_PATTERN, () => {
+		emails++;
+		return WITHHELD_EMAIL;
+	});
+
+	// Longer names first, so "Jane A. Doe" is replaced before "Jane A" could be
+	const names = [...new Set([...authorLineNames(stripped), ...fileNameNames(documentName, stripped)])]
+		.sort((a, b) => b.length - a.length);
+
+	let nameCount = 0;
+	for (const name of names) {
+		const words = name.split(/\s+/);
+		const surname = words[words.length - 1];
+		const pattern = new RegExp(
+			`\\b(?:${words.map(escapePattern).join('\\s+')}|${HONORIFIC_PATTERN}\\s+${escapePattern(surname)})(?![A-Za-z])`,
+			'gi'
+		);
+		stripped = stripped.replace(pattern, match => {
+			// Ordinary lowercase words that happen to spell a name are left alone
+			if (!match.split(/\s+/).every(word => /^[A-Z]/.test(word))) {
+				return match;
+			}
+			nameCount++;
+			return WITHHELD_NAME;
+		});
+	}
+
+	return { text: stripped, redactions: { names: nameCount, emails } };
+}
+
+/**
+ * Strips author details from every document.
+ * @param {Record<string, string>} documents - Map of document names to text content
+ * @returns {{documents: Record<string, string>, redactions: Record<string, BlindRedactionCounts>}} Stripped texts and counts per document
+ */
+export function anonymizeDocuments(documents: Record<string, string>): {
+	documents: Record<string, string>;
+	redactions: Record<string, BlindRedactionCounts>;
+} {
+	const anonymized: Record<string, string> = {};
+	const redactions: Record<string, BlindRedactionCounts> = {};
+
+	for (const [name, text] of Object.entries(documents)) {
+		const result = anonymizeText(text, name);
+		anonymized[name] = result.text;
+		redactions[name] = result.redactions;
+		console.log(`🕶️ ${name}: withheld ${result.redactions.names} name(s) and ${result.redactions.emails} email(s)`);
+	}
+
+	return { documents: anonymized, redactions };
+}
+
+/**
+ * Rewrites the model-written text of a criterion evaluation, such as its analyses
+ * and each judge's reasoning.
+ * @param {CriterionEvaluation} evaluation - Evaluation to rewrite
+ * @param {function(string): string} rewrite - Rewrites one piece of text
+ * @returns {CriterionEvaluation} Rewritten copy of the evaluation
+ */
+export function rewriteEvaluationText(evaluation: CriterionEvaluation, rewrite: (text: string) => string): CriterionEvaluation {
+	const rewritten: CriterionEvaluation = { ...evaluation };
+	for (const field of ['documentAAnalysis', 'documentBAnalysis', 'comparativeAnalysis', 'reasoning'] as const) {
+		const text = evaluation[field];
+		if (text !== undefined) {
+			rewritten[field] = rewrite(text);
+		}
+	}
+	if (evaluation.judgeBreakdown) {
+		rewritten.judgeBreakdown = evaluation.judgeBreakdown.map(verdict => verdict.reasoning === undefined
+			? verdict
+			: { ...verdict, reasoning: rewrite(verdict.reasoning) });
+	}
+	return rewritten;
+}
+
+/**
+ * Rewrites the model-written analysis of a rubric score.
+ * @param {PointwiseCriterionScore} score - Score to rewrite
+ * @param {function(string): string} rewrite - Rewrites one piece of text
+ * @returns {PointwiseCriterionScore} Rewritten copy of the score
+ */
+export function rewriteScoreText(score: PointwiseCriterionScore, rewrite: (text: string) => string): PointwiseCriterionScore {
+	return score.analysis === undefined ? score : { ...score, analysis: rewrite(score.analysis) };
+}
+
+/**
+ * Aliases the model sees instead of document names during a blind evaluation.
+ * @class BlindReview
+ */
+export class BlindReview {
+	/** @type {Record<string, string>} Alias of each document name */
+	aliases: Record<string, string>;
+
+	/** @type {Map<string, string>} Document name of each alias */
+	private documentNames: Map<string, string>;
+
+	/**
+	 * Creates a new BlindReview instance.
+	 * @param {Record<string, string>} aliases - Alias of each document name
+	 */
+	constructor(aliases: Record<string, string>) {
+		this.aliases = aliases;
+		this.documentNames = new Map(Object.entries(aliases).map(([name, alias]) => [alias, name]));
+	}
+
+	/**
+	 * Gives documents "Submission 1", "Submission 2", ... in order. Documents that
+	 * already have an alias keep it, so a report extended later stays consistent.
+	 * @param {string[]} documentNames - Documents of the evaluation
+	 * @param {Record<string, string>} [existing={}] - Aliases given earlier
+	 * @returns {BlindReview} Aliases for every document
+	 */
+	static forDocuments(documentNames: string[], existing: Record<string, string> = {}): BlindReview {
+		const aliases = { ...existing };
+		let next = Object.values(existing).reduce((highest, alias) => {
+			const number = Number(alias.slice(BLIND_ALIAS_PREFIX.length + 1));
+			return Number.isInteger(number) ? Math.max(highest, number) : highest;
+		}, 0) + 1;
+
+		for (const name of documentNames) {
+			if (!aliases[name]) {
+				aliases[name] = `${BLIND_ALIAS_PREFIX} ${next++}`;
+			}
+		}
+
+		return new BlindReview(aliases);
+	}
+
+	/**
+	 * Alias shown to the model for a document.
+	 * @param {string} documentName - Document name
+	 * @returns {string} Its alias
+	 * @throws {Error} When the document has no alias, rather than leaking its name
+	 */
+	alias(documentName: string): string {
+		const alias = this.aliases[documentName];
+		if (!alias) {
+			throw new Error(`No blind alias for document "${documentName}"`);
+		}
+		return alias;
+	}
+
+	/**
+	 * Puts document names back in place of aliases in model-written text.
+	 * @param {string} text - Text that may mention aliases
+	 * @returns {string} Text mentioning document names
+	 */
+	restore(text: string): string {
+		return text.replace(ALIAS_PATTERN, (alias) => this.documentNames.get(alias) ?? alias);
+	}
+
+	/**
+	 * Puts document names back in the analyses of a criterion evaluation.
+	 * @param {CriterionEvaluation} evaluation - Evaluation written about aliases
+	 * @returns {CriterionEvaluation} The evaluation, written about document names
+	 */
+	restoreEvaluation(evaluation: CriterionEvaluation): CriterionEvaluation {
+		return rewriteEvaluationText(evaluation, text => this.restore(text));
+	}
+
+	/**
+	 * Puts document names back in the analysis of a rubric score.
+	 * @param {PointwiseCriterionScore} score - Score written about an alias
+	 * @returns {PointwiseCriterionScore} The score, written about the document name
+	 */
+	restoreScore(score: PointwiseCriterionScore): PointwiseCriterionScore {
+		return rewriteScoreText(score, text => this.restore(text));
+	}
+
+	/**
+	 * Aliases and redaction counts to store with a report.
+	 * @param {Record<string, BlindRedactionCounts>} redactions - Author details stripped from each document
+	 * @returns {BlindReviewSummary} Summary for the report
+	 */
+	summary(redactions: Record<string, BlindRedactionCounts>): BlindReviewSummary {
+		return { aliases: { ...this.aliases }, redactions };
+	}
+}
+
+/**
+ * Reads the blind evaluation summary stored with a report.
+ * @param {unknown} value - Stored summary
+ * @returns {BlindReviewSummary|undefined} The summary, or undefined when the report was not blind
+ */
+export function normalizeBlindReview(value: unknown): BlindReviewSummary | undefined {
+	if (!value || typeof value !== 'object') {
+		return undefined;
+	}
+
+	const summary = value as Partial<BlindReviewSummary>;
+	if (!summary.aliases || typeof summary.aliases !== 'object'
+		|| !Object.values(summary.aliases).every(alias => typeof alias === 'string')) {
+		return undefined;
+	}
+
+	return {
+		aliases: summary.aliases,
+		redactions: summary.redactions && typeof summary.redactions === 'object' ? summary.redactions : {}
+	};
+}
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Bradley–Terry strength estimation from pairwise comparison results.
+ * Turns the win/loss/tie outcomes collected during ranking into latent strength
+ * scores with standard errors, so the distance between ranked documents can be judged.
+ */
+
+// src/lib/comparison/bradleyTerry.ts
+import { ComparisonResult, DocumentScore } from './types';
+
+/**
+ * Configuration options for the Bradley–Terry estimator.
+ * @interface BradleyTerryOptions
+ */
+export interface BradleyTerryOptions {
+	/** @type {number} [priorStrength=0.1] Precision of the zero-mean Gaussian prior on log-strengths */
+	priorStrength?: number;
+	/** @type {number} [maxIterations=100] Maximum number of Newton iterations */
+	maxIterations?: number;
+	/** @type {number} [tolerance=1e-8] Convergence threshold on the largest parameter update */
+	tolerance?: number;
+}
+
+/**
+ * Fits a Bradley–Terry model to pairwise comparison outcomes.
+ *
+ * Each document i has a log-strength θi and P(i beats j) = σ(θi − θj). Ties count as
+ * half a win for each side. A weak Gaussian prior keeps the fit finite for undefeated
+ * documents and for comparison graphs that are not fully connected; the posterior
+ * curvature provides the standard errors.
+ *
+ * @class BradleyTerryEstimator
+ */
+export class BradleyTerryEstimator {
+	/** @type {number} Precision of the Gaussian prior on log-strengths */
+	priorStrength: number;
+	/** @type {number} Maximum number of Newton iterations */
+	maxIterations: number;
+	/** @type {number} Convergence threshold on the largest parameter update */
+	tolerance: number;
+
+	/**
+	 * Creates a new BradleyTerryEstimator instance.
+	 * @param {BradleyTerryOptions} [options={}] - Estimator configuration
+	 */
+	constructor(options: BradleyTerryOptions = {}) {
+		this.priorStrength = options.priorStrength ?? 0.1;
+		this.maxIterations = options.maxIterations ?? 100;
+		this.tolerance = options.tolerance ?? 1e-8;
+	}
+
+	/**
+	 * Estimates a strength score for every document from the given comparisons.
+	 * Comparisons that errored or involve unknown documents are ignored.
+	 *
+	 * @param {string[]} documents - Names of all documents to score
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise comparison outcomes
+	 * @returns {DocumentScore[]} Scores in the same order as `documents`
+	 */
+	fit(documents: string[], comparisonResults: ComparisonResult[]): DocumentScore[] {
+		const n = documents.length;
+		const index = new Map(documents.map((name, i) => [name, i]));
+
+		// wins[i][j] holds the (possibly fractional) number of times i beat j
+		const wins = documents.map(() => new Array<number>(n).fill(0));
+		const counts = documents.map(() => new Array<number>(n).fill(0));
+		const tally = documents.map(() => ({ wins: 0, losses: 0, ties: 0 }));
+
+		for (const result of comparisonResults) {
+			if (result.error) {
+				continue;
+			}
+
+			const i = index.get(result.documentA);
+			const j = index.get(result.documentB);
+			if (i === undefined || j === undefined || i === j) {
+				continue;
+			}
+
+			counts[i][j] += 1;
+			counts[j][i] += 1;
+
+			if (result.winner === result.documentA) {
+				wins[i][j] += 1;
+				tally[i].wins += 1;
+				tally[j].losses += 1;
+			} else if (result.winner === result.documentB) {
+				wins[j][i] += 1;
+				tally[j].wins += 1;
+				tally[i].losses += 1;
+			} else {
+				wins[i][j] += 0.5;
+				wins[j][i] += 0.5;
+				tally[i].ties += 1;
+				tally[j].ties += 1;
+			}
+		}
+
+		const theta = new Array<number>(n).fill(0);
+		let covariance = this.identity(n).map(row => row.map(value => value / this.priorStrength));
+
+		for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+			const gradient = new Array<number>(n).fill(0);
+			const hessian = documents.map(() => new Array<number>(n).fill(0));
+
+			for (let i = 0; i < n; i++) {
+				gradient[i] -= this.priorStrength * theta[i];
+				hessian[i][i] += this.priorStrength;
+
+				for (let j = 0; j < n; j++) {
+					if (i === j || counts[i][j] === 0) {
+						continue;
+					}
+
+					const p = this.sigmoid(theta[i] - theta[j]);
+					const information = counts[i][j] * p * (1 - p);
+
+					gradient[i] += wins[i][j] - counts[i][j] * p;
+					hessian[i][i] += information;
+					hessian[i][j] -= information;
+				}
+			}
+
+			covariance = this.invert(hessian);
+
+			let largestStep = 0;
+			for (let i = 0; i < n; i++) {
+				const step = covariance[i].reduce((sum, value, j) => sum + value * gradient[j], 0);
+				theta[i] += step;
+				largestStep = Math.max(largestStep, Math.abs(step));
+			}
+
+			if (largestStep < this.tolerance) {
+				break;
+			}
+		}
+
+		return documents.map((name, i) => ({
+			name,
+			score: theta[i],
+			standardError: Math.sqrt(Math.max(0, covariance[i][i])),
+			wins: tally[i].wins,
+			losses: tally[i].losses,
+			ties: tally[i].ties,
+			comparisons: tally[i].wins + tally[i].losses + tally[i].ties
+		}));
+	}
+
+	/**
+	 * Probability that a document with score `scoreA` beats one with score `scoreB`.
+	 * @param {number} scoreA - Log-strength of the first document
+	 * @param {number} scoreB - Log-strength of the second document
+	 * @returns {number} Win probability between 0 and 1
+	 */
+	static winProbability(scoreA: number, scoreB: number): number {
+		return 1 / (1 + Math.exp(scoreB - scoreA));
+	}
+
+	/**
+	 * Logistic function.
+	 * @param {number} x - Input value
+	 * @returns {number} σ(x)
+	 * @private
+	 */
+	private sigmoid(x: number): number {
+		return 1 / (1 + Math.exp(-x));
+	}
+
+	/**
+	 * Builds an identity matrix.
+	 * @param {number} n - Matrix dimension
+	 * @returns {number[][]} n×n identity matrix
+	 * @private
+	 */
+	private identity(n: number): number[][] {
+		return Array.from({ length: n }, (_, i) =>
+			Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+		);
+	}
+
+	/**
+	 * Inverts a symmetric positive-definite matrix using Gauss–Jordan elimination.
+	 * @param {number[][]} matrix - Matrix to invert
+	 * @returns {number[][]} Inverse matrix
+	 * @private
+	 */
+	private invert(matrix: number[][]): number[][] {
+		const n = matrix.length;
+		const a = matrix.map(row => [...row]);
+		const inverse = this.identity(n);
+
+		for (let col = 0; col < n; col++) {
+			let pivot = col;
+			for (let row = col + 1; row < n; row++) {
+				if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+					pivot = row;
+				}
+			}
+
+			[a[col], a[pivot]] = [a[pivot], a[col]];
+			[inverse[col], inverse[pivot]] = [inverse[pivot], inverse[col]];
+
+			const pivotValue = a[col][col];
+			for (let k = 0; k < n; k++) {
+				a[col][k] /= pivotValue;
+				inverse[col][k] /= pivotValue;
+			}
+
+			for (let row = 0; row < n; row++) {
+				if (row === col) {
+					continue;
+				}
+				const factor = a[row][col];
+				if (factor === 0) {
+					continue;
+				}
+				for (let k = 0; k < n; k++) {
+					a[row][k] -= factor * a[col][k];
+					inverse[row][k] -= factor * inverse[col][k];
+				}
+			}
+		}
+
+		return inverse;
+	}
+}
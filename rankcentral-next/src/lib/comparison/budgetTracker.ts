@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Hard spending cap for a comparison run.
+ * Every model call reserves its worst-case cost before it is sent and is refused when
+ * that would take the run over the cap, so the cap holds even with calls in flight.
+ * Reservations are settled with the token usage the API reports.
+ */
+
+// src/lib/comparison/budgetTracker.ts
+import { costOf } from './modelPricing';
+import { BudgetMode, BudgetSummary, LlmProviderName } from './types';
+
+/**
+ * Thrown when a model call would take a run over its budget cap.
+ * @class BudgetExceededError
+ * @extends Error
+ */
+export class BudgetExceededError extends Error {
+	/** @type {BudgetSummary} Spend at the moment the call was refused */
+	summary: BudgetSummary;
+
+	/**
+	 * Creates a new BudgetExceededError instance.
+	 * @param {BudgetSummary} summary - Spend at the moment the call was refused
+	 */
+	constructor(summary: BudgetSummary) {
+		super(`Budget of $${summary.limitUsd.toFixed(2)} reached after $${summary.spentUsd.toFixed(4)} across ${summary.calls} model calls`);
+		this.name = 'BudgetExceededError';
+		this.summary = summary;
+	}
+}
+
+/**
+ * Cost held back for a model call that has not returned yet.
+ * @interface BudgetReservation
+ */
+export interface BudgetReservation {
+	/** @type {string} Model the call goes to */
+	modelName: string;
+	/** @type {number} Worst-case cost held back, in US dollars */
+	amountUsd: number;
+}
+
+/**
+ * Token usage as reported by the chat completions API.
+ * @interface ReportedUsage
+ */
+export interface ReportedUsage {
+	/** @type {number} Prompt tokens billed */
+	prompt_tokens: number;
+	/** @type {number} Completion tokens billed */
+	completion_tokens: number;
+}
+
+/**
+ * Tracks spend against a cap in US dollars.
+ * @class BudgetTracker
+ */
+export class BudgetTracker {
+	/** @type {number} Cap in US dollars */
+	readonly limitUsd: number;
+	/** @type {BudgetMode} What happens when the cap is reached */
+	readonly mode: BudgetMode;
+	/** @type {number} Settled spend in US dollars */
+	private spentUsd = 0;
+	/** @type {number} Worst-case cost of calls still in flight */
+	private reservedUsd = 0;
+	/** @type {number} Calls settled */
+	private calls = 0;
+	/** @type {number} Prompt tokens used */
+	private inputTokens = 0;
+	/** @type {number} Completion tokens used */
+	private outputTokens = 0;
+	/** @type {number} Calls refused because of the cap */
+	private refusedCalls = 0;
+	/** @type {LlmProviderName} [provider] Provider every call of the run goes to */
+	private provider?: LlmProviderName;
+
+	/**
+	 * Creates a new BudgetTracker instance.
+	 * @param {number} limitUsd - Cap in US dollars
+	 * @param {BudgetMode} [mode='degrade'] - What happens when the cap is reached
+	 * @param {LlmProviderName} [provider] - Provider the run calls, so models of free providers cost nothing
+	 */
+	constructor(limitUsd: number, mode: BudgetMode = 'degrade', provider?: LlmProviderName) {
+		this.limitUsd = limitUsd;
+		this.mode = mode;
+		this.provider = provider;
+	}
+
+	/**
+	 * Parses a budget cap received from a client or the environment.
+	 * @param {unknown} value - Requested cap in US dollars
+	 * @returns {number|undefined} Positive cap, or undefined when no valid cap was given
+	 */
+	static parseLimit(value: unknown): number | undefined {
+		const parsed = typeof value === 'string' ? parseFloat(value) : Number(value);
+		return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+	}
+
+	/**
+	 * Holds back the worst-case cost of a call before it is sent.
+	 * @param {string} modelName - Model the call goes to
+	 * @param {number} promptTokens - Tokens in the prompt
+	 * @param {number} maxOutputTokens - Completion token allowance
+	 * @returns {BudgetReservation} Reservation to settle when the call returns
+	 * @throws {BudgetExceededError} When the call could take the run over the cap
+	 */
+	reserve(modelName: string, promptTokens: number, maxOutputTokens: number): BudgetReservation {
+		const amountUsd = costOf(modelName, promptTokens, maxOutputTokens, this.provider);
+
+		if (this.spentUsd + this.reservedUsd + amountUsd > this.limitUsd) {
+			this.refusedCalls++;
+			throw new BudgetExceededError(this.summary());
+		}
+
+		this.reservedUsd += amountUsd;
+		return { modelName, amountUsd };
+	}
+
+	/**
+	 * Releases a reservation and records what the call actually used.
+	 * A call that failed without reported usage is released without charge.
+	 * @param {BudgetReservation} reservation - Reservation made before the call
+	 * @param {ReportedUsage|null} [usage] - Usage reported by the API
+	 */
+	settle(reservation: BudgetReservation, usage?: ReportedUsage | null): void {
+		this.reservedUsd = Math.max(0, this.reservedUsd - reservation.amountUsd);
+
+		if (!usage) {
+			return;
+		}
+
+		this.calls++;
+		this.inputTokens += usage.prompt_tokens;
+		this.outputTokens += usage.completion_tokens;
+		this.spentUsd += costOf(reservation.modelName, usage.prompt_tokens, usage.completion_tokens, this.provider);
+	}
+
+	/**
+	 * Current spend against the cap.
+	 * @returns {BudgetSummary} Snapshot of the tracker
+	 */
+	summary(): BudgetSummary {
+		return {
+			limitUsd: this.limitUsd,
+			mode: this.mode,
+			spentUsd: Math.round(this.spentUsd * 10000) / 10000,
+			calls: this.calls,
+			inputTokens: this.inputTokens,
+			outputTokens: this.outputTokens,
+			exhausted: this.refusedCalls > 0,
+			refusedCalls: this.refusedCalls
+		};
+	}
+}
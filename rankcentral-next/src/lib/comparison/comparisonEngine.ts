@@ -1,16 +1,37 @@
 /**
  * @fileoverview Document comparison engine that orchestrates document ranking using AI-powered comparisons.
- * Implements merge sort algorithm with async comparisons for scalable document ranking.
+ * Delegates ordering to a pluggable ranking strategy (merge sort by default) driven by async comparisons.
  */
 
 // src/lib/comparison/comparisonEngine.ts
+import type { BlindReview } from './blindReview';
+import { BradleyTerryEstimator } from './bradleyTerry';
+import { BudgetExceededError, BudgetTracker } from './budgetTracker';
+import { ConsistencyAnalyzer, DEFAULT_MAX_EXTRA_COMPARISONS } from './consistencyAnalyzer';
 import { DocumentComparator } from './documentComparator';
+import { describeJudge } from './ensembleEvaluator';
+import type { EvaluationCache } from './evaluationCache';
+import { hasUsableApiKey } from './llmProvider';
+import type { LlmRecorder } from './llmRecorder';
+import type { RequestScheduler } from './requestScheduler';
+import type { UsageTracker } from './usageTracker';
+import { binaryInsertWithComparator, MergesortStrategy } from './mergesortRanking';
 import { PDFProcessor } from './pdfProcessor';
-import { ComparisonResult, Criterion } from './types';
+import type { PiiRedactor } from './piiRedactor';
+import { PointwiseScorer } from './pointwiseScorer';
+import type { ProgressTracker } from './progressTracker';
+import { DEFAULT_PROMPT_TEMPLATES } from './promptGenerator';
+import { RankingStrategy } from './rankingStrategy';
+import { ComparisonEngineOptions, ComparisonResult, ConsistencyAnalysis, Criterion, DocumentScore, LlmProviderConfig, PointwiseRanking, PointwiseRefinement, PointwiseScore, PositionConsistency, RankingTiers } from './types';
+import { WorkerPool } from './workerPool';
+
+/** @type {number} Default cap on adjacent-pair refinement rounds after pointwise scoring */
+export const DEFAULT_REFINEMENT_ROUNDS = 2;
 
 /**
  * Main engine for comparing and ranking documents using AI-powered analysis.
- * Implements merge sort with asynchronous comparisons for efficient document ranking.
+ * Runs a ranking strategy over cached asynchronous pairwise comparisons,
+ * executing independent comparisons concurrently through a bounded worker pool.
  * @class ComparisonEngine
  */
 export class ComparisonEngine {
@@ -30,6 +51,30 @@ export class ComparisonEngine {
 	documentComparator: DocumentComparator;
 	/** @type {string} AI model name to use for comparisons */
 	modelName: string;
+	/** @type {WorkerPool} Limits how many comparisons call the model at once */
+	workerPool: WorkerPool;
+	/** @type {BudgetTracker|undefined} Spending cap shared by every model call of the run */
+	budget?: BudgetTracker;
+	/** @type {LlmRecorder|undefined} Records every model call of the run, or answers calls from earlier records */
+	recorder?: LlmRecorder;
+	/** @type {LlmProviderConfig|undefined} Service that answers model calls */
+	provider?: LlmProviderConfig;
+	/** @type {RequestScheduler|undefined} Rate limits and retries every model call of the run */
+	scheduler?: RequestScheduler;
+	/** @type {number|undefined} Cap on prompt tokens per call */
+	contextBudget?: number;
+	/** @type {EvaluationCache|undefined} Reuses criterion evaluations from earlier runs */
+	evaluationCache?: EvaluationCache;
+	/** @type {UsageTracker|undefined} Counts the tokens and cost of every model call of the run */
+	usageTracker?: UsageTracker;
+	/** @type {ProgressTracker|undefined} Reports comparisons, criterion results and errors as they happen */
+	progress?: ProgressTracker;
+	/** @type {BlindReview|undefined} Aliases the model sees instead of document names */
+	blind?: BlindReview;
+	/** @type {PiiRedactor|undefined} Restores redacted personal data in the model's analyses */
+	redactor?: PiiRedactor;
+	/** @type {Map<string, Promise<ComparisonResult>>} Comparisons currently in flight, keyed by unordered pair */
+	private inFlightComparisons = new Map<string, Promise<ComparisonResult>>();
 
 	/**
 	 * Creates a new ComparisonEngine instance.
@@ -39,6 +84,7 @@ export class ComparisonEngine {
 	 * @param {PDFProcessor} pdfProcessor - PDF processing utility (must be pre-configured)
 	 * @param {boolean} [useCustomPrompt=false] - Whether to use custom prompt
 	 * @param {string} [modelName='gpt-4.1-mini'] - AI model to use
+	 * @param {ComparisonEngineOptions} [options={}] - Engine tuning options such as concurrency
 	 */
 	constructor(
 		documents: Record<string, string>,
@@ -46,7 +92,8 @@ export class ComparisonEngine {
 		openaiApiKey: string,
 		pdfProcessor: PDFProcessor,
 		useCustomPrompt = false,
-		modelName = 'gpt-4.1-mini'
+		modelName = 'gpt-4.1-mini',
+		options: ComparisonEngineOptions = {}
 	) {
 		this.documents = documents;
 		this.criteria = criteria;
@@ -54,6 +101,17 @@ export class ComparisonEngine {
 		this.pdfProcessor = pdfProcessor;
 		this.useCustomPrompt = useCustomPrompt;
 		this.modelName = modelName;
+		this.workerPool = new WorkerPool(options.concurrency);
+		this.budget = options.budget;
+		this.recorder = options.recorder;
+		this.provider = options.provider;
+		this.scheduler = options.scheduler;
+		this.contextBudget = options.contextBudget;
+		this.evaluationCache = options.evaluationCache;
+		this.usageTracker = options.usageTracker;
+		this.progress = options.progress;
+		this.blind = options.blind;
+		this.redactor = options.redactor;
 
 		// Validate API key
 		this.validateApiKey();
@@ -62,6 +120,39 @@ export class ComparisonEngine {
 		console.log(`\n🔧 ComparisonEngine initialized:`);
 		console.log(`  Documents: ${Object.keys(documents).length}`);
 		console.log(`  Criteria: ${criteria.length}`);
+		console.log(`  Concurrency: ${this.workerPool.concurrency}`);
+		console.log(`  Position bias mitigation: ${options.positionBias || 'off'}`);
+		if (options.ensemble) {
+			console.log(`  Judge panel (${options.ensemble.aggregation}): ${options.ensemble.judges.map(describeJudge).join(', ')}`);
+		}
+		if (options.budget) {
+			console.log(`  Budget cap: $${options.budget.limitUsd.toFixed(2)} (${options.budget.mode})`);
+		}
+		console.log(`  Provider: ${options.provider?.provider || 'openai'}${options.provider?.baseUrl ? ` (${options.provider.baseUrl})` : ''}`);
+		if (options.recorder) {
+			console.log(`  Model calls: ${options.recorder.mode === 'replay' ? 'replayed from records' : 'recorded'}`);
+		}
+		if (options.contextBudget) {
+			console.log(`  Context budget: ${options.contextBudget} prompt tokens per call`);
+		}
+		if (options.evaluationCache) {
+			const template = options.promptTemplate ?? DEFAULT_PROMPT_TEMPLATES[useCustomPrompt ? 'custom' : 'criterion'];
+			console.log(`  Evaluation cache: on (prompt template ${template.name} v${template.version})`);
+		}
+		if (options.blind) {
+			console.log(`  Blind evaluation: ${Object.keys(options.blind.aliases).length} documents shown under aliases`);
+		}
+		if (options.redactor) {
+			const { categories, customPatterns } = options.redactor.config;
+			console.log(`  PII redaction: ${categories.join(', ') || 'no built-in kinds'}${customPatterns.length > 0 ? `, ${customPatterns.length} custom pattern(s)` : ''}`);
+		}
+		if (options.promptTemplate) {
+			console.log(`  Prompt template: ${options.promptTemplate.name} v${options.promptTemplate.version} (${options.promptTemplate.kind})`);
+		}
+		if (options.scheduler) {
+			const limits = options.scheduler.limiter.limits;
+			console.log(`  Rate limits: ${limits.maxConcurrent} concurrent, ${limits.requestsPerMinute}/min, up to ${options.scheduler.policy.maxRetries} retries`);
+		}
 		console.log(`  PDFProcessor processed texts: ${Object.keys(pdfProcessor.getAllDocumentTexts()).length} documents`);
 		
 		for (const [docName, content] of Object.entries(documents)) {
@@ -70,19 +161,18 @@ export class ComparisonEngine {
 
 		// Initialize document comparator
 		this.documentComparator = new DocumentComparator(
-			documents, criteria, openaiApiKey, pdfProcessor, useCustomPrompt, modelName
+			documents, criteria, openaiApiKey, pdfProcessor, useCustomPrompt, modelName, options.positionBias, options.ensemble,
+			options.budget, options.recorder, options.provider, options.scheduler, options.contextBudget,
+			options.evaluationCache, options.usageTracker, options.progress, options.promptTemplate, options.blind, options.redactor
 		);
 	}
 
 	/**
-	 * Validates the provided OpenAI API key format.
+	 * Validates the provided API key for the configured provider.
 	 * @returns {boolean} True if API key appears valid, false otherwise
 	 */
 	validateApiKey(): boolean {
-		const isValid = (
-			typeof this.openaiApiKey === 'string' &&
-			this.openaiApiKey.length > 20
-		);
+		const isValid = hasUsableApiKey(this.provider?.provider ?? 'openai', this.openaiApiKey);
 
 		if (!isValid) {
 			console.warn(`WARNING: API key appears invalid (length: ${this.openaiApiKey.length})`);
@@ -93,26 +183,79 @@ export class ComparisonEngine {
 
 	/**
 	 * Compares two documents and returns the comparison result.
-	 * Uses caching to avoid redundant comparisons.
+	 * Uses caching to avoid redundant comparisons, and shares a single in-flight
+	 * request when the same pair (in either order) is requested concurrently.
 	 * @async
 	 * @param {string} doc1 - Name of the first document
 	 * @param {string} doc2 - Name of the second document
 	 * @returns {Promise<ComparisonResult>} Result of the comparison
 	 */
 	async compareDocuments(doc1: string, doc2: string): Promise<ComparisonResult> {
-		console.log(`\nComparing ${doc1} vs ${doc2}...`);
+		const existingResult = this.findExistingComparison(doc1, doc2);
+		if (existingResult) {
+			console.log(`Using cached comparison for ${doc1} vs ${doc2}`);
+			return existingResult;
+		}
+
+		const pairKey = this.pairKey(doc1, doc2);
+		let pending = this.inFlightComparisons.get(pairKey);
+		if (pending) {
+			console.log(`Waiting for in-flight comparison of ${doc1} vs ${doc2}`);
+		} else {
+			pending = this.workerPool.run(() => this.runComparison(doc1, doc2));
+			this.inFlightComparisons.set(pairKey, pending);
+		}
 
+		let result: ComparisonResult;
 		try {
-			const existingResult = this.findExistingComparison(doc1, doc2);
-			if (existingResult) {
-				console.log(`Using cached comparison for ${doc1} vs ${doc2}`);
-				return existingResult;
-			}
+			result = await pending;
+		} finally {
+			// The result is cached by now, so the in-flight entry is no longer needed
+			this.inFlightComparisons.delete(pairKey);
+		}
 
-			const result = await this.documentComparator.compare(doc1, doc2);
+		return result.documentA === doc1 ? result : this.invertComparison(result);
+	}
+
+	/**
+	 * Runs a single comparison through the document comparator and caches the result.
+	 * Failures are recorded as error results. The only rejection is a budget refusal
+	 * in 'abort' mode; in 'degrade' mode a refused comparison becomes an uncached
+	 * error result, which the ranking treats as a tie.
+	 * @async
+	 * @param {string} doc1 - Name of the first document
+	 * @param {string} doc2 - Name of the second document
+	 * @param {boolean} [fresh=false] - Skip cached criterion evaluations
+	 * @returns {Promise<ComparisonResult>} Result of the comparison
+	 * @throws {BudgetExceededError} When the budget cap is reached in 'abort' mode
+	 * @private
+	 */
+	private async runComparison(doc1: string, doc2: string, fresh = false): Promise<ComparisonResult> {
+		console.log(`\nComparing ${doc1} vs ${doc2}...`);
+		this.progress?.comparisonStarted(doc1, doc2);
+
+		try {
+			const result = await this.documentComparator.compare(doc1, doc2, fresh);
 			this.comparisonResults.push(result);
+			this.progress?.comparisonFinished(result);
 			return result;
 		} catch (error) {
+			if (error instanceof BudgetExceededError) {
+				if (this.budget?.mode === 'abort') {
+					throw error;
+				}
+
+				console.warn(`💸 Budget cap reached, skipping ${doc1} vs ${doc2}`);
+				const skippedResult: ComparisonResult = {
+					documentA: doc1,
+					documentB: doc2,
+					winner: null,
+					error: `Skipped: ${error.message}`
+				};
+				this.progress?.comparisonFinished(skippedResult);
+				return skippedResult;
+			}
+
 			const typedError = error instanceof Error ? error : new Error('Unknown error');
 			const errorMsg = `Error comparing ${doc1} vs ${doc2}: ${typedError.message}`;
 			console.error(errorMsg);
@@ -125,10 +268,35 @@ export class ComparisonEngine {
 			};
 
 			this.comparisonResults.push(errorResult);
+			this.progress?.comparisonFinished(errorResult);
 			return errorResult;
 		}
 	}
 
+	/**
+	 * Evaluates an already compared pair again, bypassing every cache, and replaces the
+	 * earlier result with the new one. If the new evaluation fails or is skipped, the
+	 * earlier result is kept.
+	 * @async
+	 * @param {string} doc1 - Name of the first document
+	 * @param {string} doc2 - Name of the second document
+	 * @returns {Promise<ComparisonResult>} Result now held for the pair
+	 * @throws {BudgetExceededError} When the budget cap is reached in 'abort' mode
+	 * @private
+	 */
+	private async reevaluateComparison(doc1: string, doc2: string): Promise<ComparisonResult> {
+		const pairKey = this.pairKey(doc1, doc2);
+		const isPair = (result: ComparisonResult): boolean => this.pairKey(result.documentA, result.documentB) === pairKey;
+		const previous = this.comparisonResults.find(isPair);
+
+		console.log(`🔂 Re-evaluating ${doc1} vs ${doc2}`);
+		const result = await this.workerPool.run(() => this.runComparison(doc1, doc2, true));
+		const kept = result.error && previous ? previous : result;
+		this.comparisonResults = [...this.comparisonResults.filter(entry => !isPair(entry)), kept];
+
+		return kept;
+	}
+
 	/**
 	 * Finds an existing comparison result in the cache.
 	 * Checks both forward and reverse comparisons.
@@ -143,23 +311,60 @@ export class ComparisonEngine {
 			}
 
 			if (result.documentA === doc2 && result.documentB === doc1) {
-				const invertedResult: ComparisonResult = { ...result };
-				invertedResult.documentA = doc1;
-				invertedResult.documentB = doc2;
-
-				if (result.winner === result.documentA) {
-					invertedResult.winner = doc1;
-				} else if (result.winner === result.documentB) {
-					invertedResult.winner = doc2;
-				}
-
-				return invertedResult;
+				return this.invertComparison(result);
 			}
 		}
 
 		return null;
 	}
 
+	/**
+	 * Returns a copy of a comparison result with documentA and documentB swapped.
+	 * The winner is kept, so the verdict is unchanged.
+	 * @param {ComparisonResult} result - Result to invert
+	 * @returns {ComparisonResult} Result seen from the other document's side
+	 */
+	invertComparison(result: ComparisonResult): ComparisonResult {
+		return {
+			...result,
+			documentA: result.documentB,
+			documentB: result.documentA
+		};
+	}
+
+	/**
+	 * Builds an order-independent key for a pair of documents.
+	 * @param {string} doc1 - Name of the first document
+	 * @param {string} doc2 - Name of the second document
+	 * @returns {string} Key shared by (doc1, doc2) and (doc2, doc1)
+	 * @private
+	 */
+	private pairKey(doc1: string, doc2: string): string {
+		return JSON.stringify(doc1 < doc2 ? [doc1, doc2] : [doc2, doc1]);
+	}
+
+	/**
+	 * Sorts cached comparison results by the input order of their documents.
+	 * Concurrent comparisons finish in arbitrary order; sorting keeps reports reproducible.
+	 * @param {string[]} documents - Document names in input order
+	 * @private
+	 */
+	private sortComparisonResults(documents: string[]): void {
+		const position = new Map(documents.map((doc, index) => [doc, index]));
+		const indexOf = (doc: string): number => position.get(doc) ?? documents.length;
+		const sortKey = (result: ComparisonResult): [number, number] => {
+			const a = indexOf(result.documentA);
+			const b = indexOf(result.documentB);
+			return a <= b ? [a, b] : [b, a];
+		};
+
+		this.comparisonResults.sort((x, y) => {
+			const [x1, x2] = sortKey(x);
+			const [y1, y2] = sortKey(y);
+			return x1 - y1 || x2 - y2;
+		});
+	}
+
 	/**
 	 * Ranks documents using merge sort algorithm with async comparisons.
 	 * @async
@@ -167,8 +372,19 @@ export class ComparisonEngine {
 	 * @returns {Promise<string[]>} Array of document names in ranked order (best to worst)
 	 */
 	async compareWithMergesort(documents: string[]): Promise<string[]> {
+		return this.rankDocuments(documents, new MergesortStrategy());
+	}
+
+	/**
+	 * Ranks documents with the given strategy, using this engine's cached comparisons.
+	 * @async
+	 * @param {string[]} documents - Array of document names to rank
+	 * @param {RankingStrategy} strategy - Ranking algorithm to apply
+	 * @returns {Promise<string[]>} Array of document names in ranked order (best to worst)
+	 */
+	async rankDocuments(documents: string[], strategy: RankingStrategy): Promise<string[]> {
 		const startTime = Date.now();
-		console.log(`Starting comparison of ${documents.length} documents using merge sort...`);
+		console.log(`Starting comparison of ${documents.length} documents using ${strategy.name}...`);
 
 		if (documents.length <= 1) {
 			return documents;
@@ -176,18 +392,327 @@ export class ComparisonEngine {
 
 		const comparator = async (doc1: string, doc2: string): Promise<number> => this.comparisonFunction(doc1, doc2);
 
-		const sortedDocs = await this.mergesortWithComparator(documents, comparator);
+		this.progress?.setPhase('ranking');
+		const sortedDocs = await strategy.rank(documents, comparator);
+		this.sortComparisonResults(documents);
 
 		const endTime = Date.now();
 		const duration = (endTime - startTime) / 1000;
-		console.log(`Comparison completed in ${duration.toFixed(2)} seconds`);
+		console.log(`Comparison completed in ${duration.toFixed(2)} seconds (${this.comparisonResults.length} comparisons)`);
 		console.log(`Final ranking: ${sortedDocs}`);
 
 		return sortedDocs;
 	}
 
 	/**
-	 * Comparison function for merge sort that determines which document ranks higher.
+	 * Ranks documents by scoring each one on its own against every criterion's rubric.
+	 * With `refineAdjacent`, the pointwise order is then checked pairwise: neighbouring
+	 * documents are compared and swapped when the pairwise verdict disagrees, in
+	 * alternating even/odd passes until a round makes no swaps or `maxRounds` is reached.
+	 * @async
+	 * @param {string[]} documents - Array of document names to rank
+	 * @param {boolean} [refineAdjacent=false] - Whether to refine adjacent pairs with pairwise comparisons
+	 * @param {number} [maxRounds=DEFAULT_REFINEMENT_ROUNDS] - Maximum refinement rounds
+	 * @param {PointwiseScore[]} [knownScores=[]] - Scores from an earlier run; only the other documents are scored
+	 * @returns {Promise<PointwiseRanking>} Ranking, tiers, rubric scores and refinement summary
+	 */
+	async rankPointwise(
+		documents: string[],
+		refineAdjacent = false,
+		maxRounds = DEFAULT_REFINEMENT_ROUNDS,
+		knownScores: PointwiseScore[] = []
+	): Promise<PointwiseRanking> {
+		const startTime = Date.now();
+		console.log(`Starting pointwise scoring of ${documents.length} documents${refineAdjacent ? ' with adjacent-pair refinement' : ''}...`);
+
+		const scorer = new PointwiseScorer(this.documents, this.criteria, this.openaiApiKey, this.modelName, this.budget, this.recorder, this.provider, this.scheduler, this.contextBudget, this.usageTracker, this.progress, this.blind, this.redactor);
+		const known = new Map(knownScores.map(score => [score.document, score]));
+		this.progress?.setPhase('scoring');
+		const newScores = await scorer.scoreDocuments(documents.filter(doc => !known.has(doc)), this.workerPool);
+		newScores.forEach(score => known.set(score.document, score));
+		const scores = documents
+			.map(doc => known.get(doc))
+			.filter((score): score is PointwiseScore => score !== undefined);
+		let ranking = PointwiseScorer.rankByTotal(scores);
+		console.log(`Pointwise ranking: ${ranking}`);
+
+		let refinement: PointwiseRefinement | undefined;
+		if (refineAdjacent && ranking.length > 1) {
+			this.progress?.setPhase('ranking');
+			const refined = await this.refineAdjacentPairs(ranking, maxRounds);
+			ranking = refined.ranking;
+			refinement = { rounds: refined.rounds, comparisons: refined.comparisons, swaps: refined.swaps };
+			this.sortComparisonResults(ranking);
+		}
+
+		// After refinement the pairwise verdicts decide ties; otherwise equal totals do
+		const tiers = refinement ? this.groupTies(ranking) : PointwiseScorer.tiersByTotal(ranking, scores);
+
+		const duration = (Date.now() - startTime) / 1000;
+		console.log(`Pointwise ranking completed in ${duration.toFixed(2)} seconds`);
+		console.log(`Final ranking: ${ranking}`);
+
+		return {
+			ranking,
+			tiers,
+			scores,
+			refinement
+		};
+	}
+
+	/**
+	 * Odd-even transposition over a ranking: compares disjoint neighbouring pairs
+	 * concurrently and swaps those the pairwise verdict puts the other way round.
+	 * A tie keeps the existing order.
+	 * @async
+	 * @param {string[]} ranking - Ranking to refine, best first
+	 * @param {number} maxRounds - Maximum rounds, each one even pass and one odd pass
+	 * @returns {Promise<PointwiseRefinement & { ranking: string[] }>} Refined ranking and summary
+	 * @private
+	 */
+	private async refineAdjacentPairs(
+		ranking: string[],
+		maxRounds: number
+	): Promise<PointwiseRefinement & { ranking: string[] }> {
+		const refined = [...ranking];
+		const initialComparisons = this.comparisonResults.length;
+		let swaps = 0;
+		let rounds = 0;
+
+		while (rounds < maxRounds) {
+			rounds++;
+			let swapped = false;
+
+			for (const offset of [0, 1]) {
+				const positions: number[] = [];
+				for (let i = offset; i + 1 < refined.length; i += 2) {
+					positions.push(i);
+				}
+
+				const verdicts = await Promise.all(
+					positions.map(i => this.comparisonFunction(refined[i], refined[i + 1]))
+				);
+
+				positions.forEach((i, k) => {
+					if (verdicts[k] < 0) {
+						[refined[i], refined[i + 1]] = [refined[i + 1], refined[i]];
+						swaps++;
+						swapped = true;
+					}
+				});
+			}
+
+			if (!swapped) {
+				break;
+			}
+		}
+
+		const comparisons = this.comparisonResults.length - initialComparisons;
+		console.log(`🔧 Adjacent-pair refinement: ${rounds} round(s), ${comparisons} comparisons, ${swaps} swap(s)`);
+
+		return { ranking: refined, rounds, comparisons, swaps };
+	}
+
+	/**
+	 * Groups a ranking into tiers of tied documents.
+	 * A document joins the tier above it when its comparison with the previous document
+	 * was a tie and no comparison with another member of that tier was decisive.
+	 * Failed comparisons and pairs that were never compared do not count as ties.
+	 * @param {string[]} ranking - Ranking produced by a strategy, best first
+	 * @param {number} [orderedCount=ranking.length] - Number of leading entries that are ordered;
+	 *   later entries (outside a top-K shortlist) are left as single-document tiers
+	 * @returns {RankingTiers} Ranking tiers, best first
+	 */
+	groupTies(ranking: string[], orderedCount = ranking.length): RankingTiers {
+		const tiers: RankingTiers = [];
+
+		ranking.forEach((doc, index) => {
+			const currentTier = tiers[tiers.length - 1];
+			if (currentTier && index < orderedCount) {
+				const tiesWithPrevious = this.isTie(ranking[index - 1], doc);
+				const decisiveWithinTier = currentTier.some(member => {
+					const result = this.findExistingComparison(member, doc);
+					return !!result && !result.error && result.winner !== null;
+				});
+
+				if (tiesWithPrevious && !decisiveWithinTier) {
+					currentTier.push(doc);
+					return;
+				}
+			}
+
+			tiers.push([doc]);
+		});
+
+		const sharedTiers = tiers.filter(tier => tier.length > 1).length;
+		if (sharedTiers > 0) {
+			console.log(`Found ${sharedTiers} tier(s) of tied documents`);
+		}
+
+		return tiers;
+	}
+
+	/**
+	 * Checks whether two documents were compared successfully and tied.
+	 * @param {string} doc1 - Name of the first document
+	 * @param {string} doc2 - Name of the second document
+	 * @returns {boolean} True only for an error-free comparison without a winner
+	 * @private
+	 */
+	private isTie(doc1: string, doc2: string): boolean {
+		const result = this.findExistingComparison(doc1, doc2);
+		return !!result && !result.error && result.winner === null;
+	}
+
+	/**
+	 * Inserts new documents into an existing ranking with binary-insertion comparisons.
+	 * Comparisons already in the cache (see {@link seedComparisons}) are reused.
+	 * @async
+	 * @param {string[]} ranking - Existing ranking, best first
+	 * @param {string[]} newDocuments - Names of the documents to insert
+	 * @returns {Promise<string[]>} Ranking containing the new documents
+	 */
+	async insertDocuments(ranking: string[], newDocuments: string[]): Promise<string[]> {
+		const startTime = Date.now();
+		const initialComparisons = this.comparisonResults.length;
+		console.log(`Inserting ${newDocuments.length} document(s) into a ranking of ${ranking.length}...`);
+
+		const comparator = async (doc1: string, doc2: string): Promise<number> => this.comparisonFunction(doc1, doc2);
+
+		this.progress?.setPhase('ranking');
+		// Each insertion depends on the ranking left by the previous one, so they run in turn
+		let updated = [...ranking];
+		for (const doc of newDocuments) {
+			updated = await binaryInsertWithComparator(updated, doc, comparator);
+			console.log(`  ${doc} inserted at position ${updated.indexOf(doc) + 1}`);
+		}
+
+		this.sortComparisonResults(updated);
+
+		const duration = (Date.now() - startTime) / 1000;
+		console.log(`Insertion completed in ${duration.toFixed(2)} seconds (${this.comparisonResults.length - initialComparisons} new comparisons)`);
+
+		return updated;
+	}
+
+	/**
+	 * Loads previously stored comparison results into the cache so they are not repeated.
+	 * @param {ComparisonResult[]} results - Comparison results from an earlier run
+	 */
+	seedComparisons(results: ComparisonResult[]): void {
+		this.comparisonResults = results.filter(result => !result.error);
+		console.log(`Seeded ${this.comparisonResults.length} cached comparisons`);
+	}
+
+	/**
+	 * Estimates Bradley–Terry strength scores from every comparison made so far.
+	 * @param {string[]} documents - Names of the documents to score
+	 * @returns {DocumentScore[]} Strength estimates with standard errors, in input order
+	 */
+	estimateScores(documents: string[]): DocumentScore[] {
+		const scores = new BradleyTerryEstimator().fit(documents, this.comparisonResults);
+
+		for (const score of scores) {
+			console.log(`  ${score.name}: ${score.score.toFixed(3)} ± ${score.standardError.toFixed(3)} (${score.wins}W/${score.losses}L/${score.ties}T)`);
+		}
+
+		return scores;
+	}
+
+	/**
+	 * Checks the comparisons made so far for preference cycles and intransitive triples.
+	 * @param {string[]} documents - Names of the ranked documents
+	 * @returns {ConsistencyAnalysis} Cycles and intransitive triples found
+	 */
+	analyzeConsistency(documents: string[]): ConsistencyAnalysis {
+		const analysis = new ConsistencyAnalyzer().analyze(documents, this.comparisonResults);
+
+		if (analysis.consistent) {
+			console.log(`✅ No preference cycles across ${analysis.decisivePairs} decisive comparisons`);
+		} else {
+			console.warn(`⚠️  Found ${analysis.cycles.length} preference cycle(s) and ${analysis.intransitiveTriples.length} intransitive triple(s)`);
+		}
+
+		return analysis;
+	}
+
+	/**
+	 * Re-evaluates the weakest verdict of each preference cycle and runs targeted
+	 * comparisons between its uncompared members, then reorders cycle members by
+	 * Bradley–Terry strength using the extra evidence. Documents outside cycles keep
+	 * their positions. When cycles remain but no extra comparison can be run, the
+	 * analysis says so through `resolutionSkipped`.
+	 * @async
+	 * @param {string[]} documents - Names of the ranked documents
+	 * @param {string[]} ranking - Ranking produced by the strategy, best first
+	 * @param {number} [maxExtraComparisons=DEFAULT_MAX_EXTRA_COMPARISONS] - Cap on extra comparisons, re-evaluations included
+	 * @returns {Promise<{ ranking: string[], analysis: ConsistencyAnalysis }>} Adjusted ranking and the analysis after resolution
+	 */
+	async resolveInconsistencies(
+		documents: string[],
+		ranking: string[],
+		maxExtraComparisons = DEFAULT_MAX_EXTRA_COMPARISONS
+	): Promise<{ ranking: string[]; analysis: ConsistencyAnalysis }> {
+		const analyzer = new ConsistencyAnalyzer();
+		const before = this.analyzeConsistency(documents);
+		if (before.consistent) {
+			return { ranking, analysis: before };
+		}
+
+		const cap = Math.max(0, maxExtraComparisons);
+		const reevaluations = analyzer.weakestEdgesInCycles(before, this.comparisonResults).slice(0, cap);
+		const pairs = analyzer
+			.uncomparedPairsInCycles(before, this.comparisonResults)
+			.slice(0, cap - reevaluations.length);
+		const extraComparisons = reevaluations.length + pairs.length;
+
+		if (extraComparisons === 0) {
+			console.warn('⚠️  No extra comparisons possible to resolve preference cycles; ranking left unchanged');
+			return { ranking, analysis: { ...before, resolutionSkipped: true } };
+		}
+
+		console.log(`🔁 Running ${extraComparisons} extra comparison(s) to resolve preference cycles (${reevaluations.length} re-evaluation(s))`);
+		this.progress?.setPhase('resolving');
+		await Promise.all([
+			...reevaluations.map(([doc1, doc2]) => this.reevaluateComparison(doc1, doc2)),
+			...pairs.map(([doc1, doc2]) => this.compareDocuments(doc1, doc2))
+		]);
+		this.sortComparisonResults(documents);
+
+		const scores = new BradleyTerryEstimator().fit(documents, this.comparisonResults);
+		const adjusted = analyzer.reorderWithinCycles(ranking, before.cycles, scores);
+		const after = this.analyzeConsistency(documents);
+
+		return {
+			ranking: adjusted,
+			analysis: {
+				...after,
+				extraComparisons,
+				reevaluatedComparisons: reevaluations.length,
+				rankingAdjusted: adjusted.some((doc, index) => doc !== ranking[index])
+			}
+		};
+	}
+
+	/**
+	 * Measures how often verdicts survived swapping the presentation order.
+	 * Only comparisons evaluated in both orders are counted.
+	 * @returns {PositionConsistency} Consistency counts and rate for this run
+	 */
+	measurePositionConsistency(): PositionConsistency {
+		const checked = this.comparisonResults.filter(result => !result.error && result.positionCheck);
+		const consistentPairs = checked.filter(result => result.positionCheck?.consistent).length;
+		const rate = checked.length > 0 ? consistentPairs / checked.length : null;
+
+		if (rate !== null) {
+			console.log(`Position consistency: ${consistentPairs}/${checked.length} pairs (${(rate * 100).toFixed(1)}%)`);
+		}
+
+		return { checkedPairs: checked.length, consistentPairs, rate };
+	}
+
+	/**
+	 * Comparison function for ranking strategies that determines which document ranks higher.
 	 * @async
 	 * @param {string} doc1 - Name of the first document
 	 * @param {string} doc2 - Name of the second document
@@ -214,62 +739,13 @@ export class ComparisonEngine {
 				return -1;
 			}
 		} catch (error) {
+			// A budget abort has to stop the sort, not be read as a tie
+			if (error instanceof BudgetExceededError) {
+				throw error;
+			}
+
 			console.error(`Error during comparison: ${error}`);
 			return 0;
 		}
 	}
-
-	/**
-	 * Asynchronous merge sort implementation for document ranking.
-	 * @async
-	 * @param {string[]} items - Array of items to sort
-	 * @param {function} comparator - Async comparison function
-	 * @returns {Promise<string[]>} Sorted array
-	 */
-	async mergesortWithComparator(
-		items: string[],
-		comparator: (a: string, b: string) => Promise<number>
-	): Promise<string[]> {
-		if (items.length <= 1) {
-			return items;
-		}
-
-		const mid = Math.floor(items.length / 2);
-		const leftHalf = await this.mergesortWithComparator(items.slice(0, mid), comparator);
-		const rightHalf = await this.mergesortWithComparator(items.slice(mid), comparator);
-
-		return this.mergeWithComparator(leftHalf, rightHalf, comparator);
-	}
-
-	/**
-	 * Merges two sorted arrays using async comparator function.
-	 * @async
-	 * @param {string[]} left - Left sorted array
-	 * @param {string[]} right - Right sorted array
-	 * @param {function} comparator - Async comparison function
-	 * @returns {Promise<string[]>} Merged sorted array
-	 */
-	async mergeWithComparator(
-		left: string[],
-		right: string[],
-		comparator: (a: string, b: string) => Promise<number>
-	): Promise<string[]> {
-		const result: string[] = [];
-		let i = 0;
-		let j = 0;
-
-		while (i < left.length && j < right.length) {
-			const comparisonResult = await comparator(left[i], right[j]);
-
-			if (comparisonResult >= 0) {
-				result.push(left[i]);
-				i++;
-			} else {
-				result.push(right[j]);
-				j++;
-			}
-		}
-
-		return [...result, ...left.slice(i), ...right.slice(j)];
-	}
-}
+}
\ No newline at end of file
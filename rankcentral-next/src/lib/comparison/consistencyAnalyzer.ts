@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Consistency analysis over the pairwise comparison graph.
+ * Detects preference cycles and intransitive triples (A > B, B > C, C > A) that a
+ * ranking strategy may have papered over, and picks targeted comparisons and
+ * re-evaluations to resolve them.
+ */
+
+// src/lib/comparison/consistencyAnalyzer.ts
+import { ComparisonResult, ConsistencyAnalysis, DocumentScore } from './types';
+
+/** @type {number} Default cap on extra comparisons run to resolve cycles */
+export const DEFAULT_MAX_EXTRA_COMPARISONS = 10;
+
+/**
+ * Builds the win graph from comparison results and inspects it for contradictions.
+ * An edge winner → loser is added for every decisive, error-free comparison; ties
+ * and failed comparisons carry no direction and are ignored.
+ *
+ * @class ConsistencyAnalyzer
+ */
+export class ConsistencyAnalyzer {
+	/**
+	 * Analyses comparison results for cycles and intransitive triples.
+	 *
+	 * @param {string[]} documents - Document names, in input order
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise results to analyse
+	 * @returns {ConsistencyAnalysis} Cycles (strongly connected components) and intransitive triples
+	 */
+	analyze(documents: string[], comparisonResults: ComparisonResult[]): ConsistencyAnalysis {
+		const beats = this.buildWinGraph(documents, comparisonResults);
+		const compared = this.comparedPairs(comparisonResults);
+
+		let decisivePairs = 0;
+		for (const losers of beats.values()) {
+			decisivePairs += losers.size;
+		}
+
+		const cycles = this.findCycles(documents, beats);
+		const intransitiveTriples = this.findIntransitiveTriples(documents, beats);
+
+		return {
+			comparedPairs: compared.size,
+			decisivePairs,
+			cycles,
+			intransitiveTriples,
+			consistent: cycles.length === 0,
+			extraComparisons: 0,
+			rankingAdjusted: false
+		};
+	}
+
+	/**
+	 * Lists pairs inside each cycle that have not been compared yet.
+	 * These are the comparisons most likely to settle how the cycle should be ordered.
+	 *
+	 * @param {ConsistencyAnalysis} analysis - Result of {@link analyze}
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise results gathered so far
+	 * @returns {Array<[string, string]>} Uncompared pairs, smallest cycles first
+	 */
+	uncomparedPairsInCycles(analysis: ConsistencyAnalysis, comparisonResults: ComparisonResult[]): Array<[string, string]> {
+		const compared = this.comparedPairs(comparisonResults);
+		const pairs: Array<[string, string]> = [];
+
+		const cycles = [...analysis.cycles].sort((a, b) => a.length - b.length);
+		for (const members of cycles) {
+			for (let i = 0; i < members.length; i++) {
+				for (let j = i + 1; j < members.length; j++) {
+					if (!compared.has(this.pairKey(members[i], members[j]))) {
+						pairs.push([members[i], members[j]]);
+					}
+				}
+			}
+		}
+
+		return pairs;
+	}
+
+	/**
+	 * Picks the weakest verdict inside each cycle: the decisive comparison between two
+	 * members with the smallest score margin. Re-evaluating these is the cheapest way to
+	 * break a cycle when every pair has already been compared. Reviewer overrides are
+	 * never picked, since they are not the model's verdict.
+	 *
+	 * @param {ConsistencyAnalysis} analysis - Result of {@link analyze}
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise results gathered so far
+	 * @returns {Array<[string, string]>} One pair per cycle, smallest cycles first
+	 */
+	weakestEdgesInCycles(analysis: ConsistencyAnalysis, comparisonResults: ComparisonResult[]): Array<[string, string]> {
+		const pairs: Array<[string, string]> = [];
+
+		const cycles = [...analysis.cycles].sort((a, b) => a.length - b.length);
+		for (const members of cycles) {
+			const memberSet = new Set(members);
+			let weakest: ComparisonResult | null = null;
+
+			for (const result of comparisonResults) {
+				if (result.error || !result.winner || result.override) {
+					continue;
+				}
+				if (!memberSet.has(result.documentA) || !memberSet.has(result.documentB)) {
+					continue;
+				}
+				if (!weakest || this.scoreMargin(result) < this.scoreMargin(weakest)) {
+					weakest = result;
+				}
+			}
+
+			if (weakest) {
+				pairs.push([weakest.documentA, weakest.documentB]);
+			}
+		}
+
+		return pairs;
+	}
+
+	/**
+	 * Reorders the members of each cycle by strength score, keeping every other
+	 * document in place. Cycle members swap among the positions they already hold.
+	 *
+	 * @param {string[]} ranking - Current ranking, best first
+	 * @param {string[][]} cycles - Cycle memberships to reorder
+	 * @param {DocumentScore[]} scores - Strength estimates covering the cycle members
+	 * @returns {string[]} Adjusted ranking
+	 */
+	reorderWithinCycles(ranking: string[], cycles: string[][], scores: DocumentScore[]): string[] {
+		const scoreOf = new Map(scores.map(score => [score.name, score.score]));
+		const adjusted = [...ranking];
+
+		for (const members of cycles) {
+			const memberSet = new Set(members);
+			const positions = adjusted
+				.map((doc, index) => (memberSet.has(doc) ? index : -1))
+				.filter(index => index >= 0);
+			const ordered = positions
+				.map(index => adjusted[index])
+				.sort((a, b) => (scoreOf.get(b) ?? 0) - (scoreOf.get(a) ?? 0));
+
+			positions.forEach((position, i) => {
+				adjusted[position] = ordered[i];
+			});
+		}
+
+		return adjusted;
+	}
+
+	/**
+	 * Builds the adjacency map winner → set of documents it beat.
+	 * @param {string[]} documents - Document names
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise results
+	 * @returns {Map<string, Set<string>>} Win graph
+	 * @private
+	 */
+	private buildWinGraph(documents: string[], comparisonResults: ComparisonResult[]): Map<string, Set<string>> {
+		const beats = new Map(documents.map(doc => [doc, new Set<string>()]));
+
+		for (const result of comparisonResults) {
+			if (result.error || !result.winner) {
+				continue;
+			}
+
+			const loser = result.winner === result.documentA
+				? result.documentB
+				: result.winner === result.documentB
+					? result.documentA
+					: null;
+
+			if (loser && beats.has(result.winner) && beats.has(loser)) {
+				beats.get(result.winner)?.add(loser);
+			}
+		}
+
+		return beats;
+	}
+
+	/**
+	 * Finds strongly connected components with more than one member (Tarjan's algorithm).
+	 * Every such component contains at least one preference cycle.
+	 * @param {string[]} documents - Document names
+	 * @param {Map<string, Set<string>>} beats - Win graph
+	 * @returns {string[][]} Components, each listed in input order
+	 * @private
+	 */
+	private findCycles(documents: string[], beats: Map<string, Set<string>>): string[][] {
+		const position = new Map(documents.map((doc, index) => [doc, index]));
+		const index = new Map<string, number>();
+		const lowLink = new Map<string, number>();
+		const onStack = new Set<string>();
+		const stack: string[] = [];
+		const components: string[][] = [];
+		let counter = 0;
+
+		const visit = (doc: string): void => {
+			index.set(doc, counter);
+			lowLink.set(doc, counter);
+			counter++;
+			stack.push(doc);
+			onStack.add(doc);
+
+			for (const next of beats.get(doc) || []) {
+				if (!index.has(next)) {
+					visit(next);
+					lowLink.set(doc, Math.min(lowLink.get(doc) as number, lowLink.get(next) as number));
+				} else if (onStack.has(next)) {
+					lowLink.set(doc, Math.min(lowLink.get(doc) as number, index.get(next) as number));
+				}
+			}
+
+			if (lowLink.get(doc) === index.get(doc)) {
+				const component: string[] = [];
+				let member: string;
+				do {
+					member = stack.pop() as string;
+					onStack.delete(member);
+					component.push(member);
+				} while (member !== doc);
+
+				if (component.length > 1) {
+					components.push(component.sort((a, b) => (position.get(a) ?? 0) - (position.get(b) ?? 0)));
+				}
+			}
+		};
+
+		for (const doc of documents) {
+			if (!index.has(doc)) {
+				visit(doc);
+			}
+		}
+
+		return components.sort((a, b) => (position.get(a[0]) ?? 0) - (position.get(b[0]) ?? 0));
+	}
+
+	/**
+	 * Finds every triple of documents whose three verdicts form a cycle.
+	 * @param {string[]} documents - Document names
+	 * @param {Map<string, Set<string>>} beats - Win graph
+	 * @returns {Array<[string, string, string]>} Triples [a, b, c] meaning a > b, b > c and c > a
+	 * @private
+	 */
+	private findIntransitiveTriples(documents: string[], beats: Map<string, Set<string>>): Array<[string, string, string]> {
+		const wins = (a: string, b: string): boolean => beats.get(a)?.has(b) || false;
+		const triples: Array<[string, string, string]> = [];
+
+		for (let i = 0; i < documents.length; i++) {
+			for (let j = i + 1; j < documents.length; j++) {
+				for (let k = j + 1; k < documents.length; k++) {
+					const [a, b, c] = [documents[i], documents[j], documents[k]];
+					if (wins(a, b) && wins(b, c) && wins(c, a)) {
+						triples.push([a, b, c]);
+					} else if (wins(a, c) && wins(c, b) && wins(b, a)) {
+						triples.push([a, c, b]);
+					}
+				}
+			}
+		}
+
+		return triples;
+	}
+
+	/**
+	 * Measures how clearly a comparison was decided.
+	 * @param {ComparisonResult} result - Decisive comparison
+	 * @returns {number} Absolute difference of the two weighted scores
+	 * @private
+	 */
+	private scoreMargin(result: ComparisonResult): number {
+		const scores = result.evaluationDetails?.overallScores;
+		return scores ? Math.abs(scores.documentA - scores.documentB) : 0;
+	}
+
+	/**
+	 * Collects the unordered pairs that have an error-free comparison.
+	 * @param {ComparisonResult[]} comparisonResults - Pairwise results
+	 * @returns {Set<string>} Pair keys
+	 * @private
+	 */
+	private comparedPairs(comparisonResults: ComparisonResult[]): Set<string> {
+		return new Set(
+			comparisonResults
+				.filter(result => !result.error)
+				.map(result => this.pairKey(result.documentA, result.documentB))
+		);
+	}
+
+	/**
+	 * Builds an order-independent key for a pair of documents.
+	 * @param {string} a - First document
+	 * @param {string} b - Second document
+	 * @returns {string} Key shared by (a, b) and (b, a)
+	 * @private
+	 */
+	private pairKey(a: string, b: string): string {
+		return JSON.stringify(a < b ? [a, b] : [b, a]);
+	}
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Pre-run estimate of model calls, tokens and cost.
+ * Counts document tokens with the same tokenizer the comparator uses, multiplies
+ * the prompt size by the number of calls the chosen ranking will make and prices
+ * the result from a per-model table.
+ */
+
+// src/lib/comparison/costEstimator.ts
+import { encode } from 'gpt-tokenizer';
+import { DEFAULT_REFINEMENT_ROUNDS } from './comparisonEngine';
+import { estimateSummaryCost, MIN_RELEVANCE_COVERAGE, SummaryCost } from './evidenceSummarizer';
+import { promptTokenLimit } from './modelContext';
+import { costOf, getModelPricing } from './modelPricing';
+import { PromptGenerator } from './promptGenerator';
+import { estimateComparisonCount } from './rankingStrategy';
+import { criterionQuery, SectionRetriever } from './sectionRetriever';
+import {
+	CostEstimate,
+	Criterion,
+	EvaluationMethod,
+	JudgeConfig,
+	LlmProviderName,
+	PositionBiasMode,
+	PromptTemplate,
+	RankingStrategyName
+} from './types';
+
+/** @type {string} Model priced when no model is specified */
+const DEFAULT_MODEL = 'gpt-4.1-mini';
+
+/** @type {number} Typical completion length of a pairwise criterion evaluation */
+export const EXPECTED_PAIRWISE_OUTPUT_TOKENS = 600;
+
+/** @type {number} Completion allowance of a pairwise criterion evaluation */
+export const MAX_PAIRWISE_OUTPUT_TOKENS = 1500;
+
+/** @type {number} Typical completion length of a pointwise rubric score */
+export const EXPECTED_POINTWISE_OUTPUT_TOKENS = 300;
+
+/** @type {number} Completion allowance of a pointwise rubric score */
+export const MAX_POINTWISE_OUTPUT_TOKENS = 1000;
+
+/**
+ * Run configuration the estimate is based on.
+ * @interface CostEstimateInput
+ */
+export interface CostEstimateInput {
+	/** @type {Record<string, string>} Map of document names to extracted text */
+	documents: Record<string, string>;
+	/** @type {Criterion[]} Criteria evaluated (a single custom-prompt criterion for prompt evaluation) */
+	criteria: Criterion[];
+	/** @type {EvaluationMethod} Evaluation method */
+	evaluationMethod: EvaluationMethod;
+	/** @type {RankingStrategyName} Ranking strategy (ignored for pointwise evaluation) */
+	rankingStrategy: RankingStrategyName;
+	/** @type {number} [topK] Shortlist size for the top-K strategy */
+	topK?: number;
+	/** @type {number} [swissRounds] Rounds for the Swiss strategy */
+	swissRounds?: number;
+	/** @type {PositionBiasMode} [positionBias] Both-order evaluation mode */
+	positionBias?: PositionBiasMode;
+	/** @type {JudgeConfig[]} [judges] Judge panel for pairwise evaluations */
+	judges?: JudgeConfig[];
+	/** @type {boolean} [hybrid] Whether pointwise scores are refined pairwise */
+	hybrid?: boolean;
+	/** @type {string} [modelName] Model used when there is no judge panel */
+	modelName?: string;
+	/** @type {LlmProviderName} [provider] Provider serving the models; local servers cost nothing */
+	provider?: LlmProviderName;
+	/** @type {number} [contextBudget] Cap on prompt tokens per call; longer documents are cut to fit */
+	contextBudget?: number;
+}
+
+/**
+ * Predicts the model calls, tokens and cost of a run before it starts.
+ * @class CostEstimator
+ */
+export class CostEstimator {
+	/** @type {PromptGenerator} Used to measure the fixed part of each prompt */
+	promptGenerator: PromptGenerator;
+	/** @type {SectionRetriever} Tells which long documents would be summarised rather than trimmed */
+	private sectionRetriever = new SectionRetriever();
+
+	/**
+	 * Creates a new CostEstimator instance.
+	 * @param {PromptTemplate} [promptTemplate] - Pairwise prompt template the run will use instead of the built-in one
+	 */
+	constructor(promptTemplate?: PromptTemplate) {
+		this.promptGenerator = new PromptGenerator(promptTemplate);
+	}
+
+	/**
+	 * Estimates a run. Comparison counts are upper bounds for merge sort, and summaries
+	 * of long documents are counted at their full allowance, so the estimate errs on the
+	 * high side.
+	 * @param {CostEstimateInput} input - Run configuration
+	 * @returns {CostEstimate} Predicted comparisons, calls, tokens and cost
+	 */
+	estimate(input: CostEstimateInput): CostEstimate {
+		const modelName = input.modelName || DEFAULT_MODEL;
+		const documentTokens = Object.values(input.documents).map(text => encode(text).length);
+		const documentCount = documentTokens.length;
+		// Documents longer than the room left in a prompt are cut down to fit it
+		const averageDocumentTokens = (room: number) => documentCount > 0
+			? documentTokens.reduce((sum, tokens) => sum + Math.min(tokens, Math.max(0, room)), 0) / documentCount
+			: 0;
+
+		let calls = 0;
+		let inputTokens = 0;
+		let outputTokens = 0;
+		let estimatedCost = 0;
+		let maxCost = 0;
+		let summaryCalls = 0;
+		let pricingKnown = getModelPricing(modelName, input.provider).known;
+
+		const addSummaries = (summaries: SummaryCost, summaryModel: string) => {
+			summaryCalls += summaries.calls;
+			calls += summaries.calls;
+			inputTokens += summaries.inputTokens;
+			outputTokens += summaries.outputTokens;
+			const cost = costOf(summaryModel, summaries.inputTokens, summaries.outputTokens, input.provider);
+			estimatedCost += cost;
+			maxCost += cost;
+		};
+
+		// Pointwise scoring: one call per document and criterion
+		if (input.evaluationMethod === 'pointwise') {
+			const overheads = input.criteria.map(criterion =>
+				encode(this.promptGenerator.generatePointwisePrompt('', '', criterion)).length
+			);
+			const limit = promptTokenLimit([modelName], MAX_POINTWISE_OUTPUT_TOKENS, input.contextBudget);
+			const scoringCalls = documentCount * input.criteria.length;
+			const scoringInput = overheads.reduce(
+				(sum, overhead) => sum + documentCount * (overhead + averageDocumentTokens(limit - overhead)),
+				0
+			);
+			const scoringOutput = scoringCalls * EXPECTED_POINTWISE_OUTPUT_TOKENS;
+
+			calls += scoringCalls;
+			inputTokens += scoringInput;
+			outputTokens += scoringOutput;
+			estimatedCost += costOf(modelName, scoringInput, scoringOutput, input.provider);
+			maxCost += costOf(modelName, scoringInput, scoringCalls * MAX_POINTWISE_OUTPUT_TOKENS, input.provider);
+
+			addSummaries(this.summaryCost(input, criterion => ({
+				tokenBudget: limit - encode(this.promptGenerator.generatePointwisePrompt('', '', criterion)).length,
+				query: criterionQuery(criterion)
+			}), modelName), modelName);
+		}
+
+		const comparisons = input.evaluationMethod === 'pointwise'
+			? (input.hybrid && documentCount > 1 ? DEFAULT_REFINEMENT_ROUNDS * (documentCount - 1) : 0)
+			: estimateComparisonCount(input.rankingStrategy, documentCount, {
+				topK: input.topK,
+				swissRounds: input.swissRounds
+			});
+
+		// Pairwise comparisons: every criterion, in one or both orders, for every judge
+		if (comparisons > 0) {
+			const orders = input.positionBias && input.positionBias !== 'off' ? 2 : 1;
+			const judges: JudgeConfig[] = input.judges && input.judges.length > 0 ? input.judges : [{ modelName }];
+			const limit = promptTokenLimit(judges.map(judge => judge.modelName), MAX_PAIRWISE_OUTPUT_TOKENS, input.contextBudget);
+			const promptTokensPerComparison = input.criteria.reduce((sum, criterion) => {
+				const overhead = this.pairwiseOverhead(criterion, input.evaluationMethod);
+				return sum + overhead + 2 * averageDocumentTokens(Math.floor((limit - overhead) / 2));
+			}, 0);
+			const callsPerJudge = comparisons * orders * input.criteria.length;
+			const inputPerJudge = Math.round(comparisons * orders * promptTokensPerComparison);
+			const outputPerJudge = callsPerJudge * EXPECTED_PAIRWISE_OUTPUT_TOKENS;
+
+			for (const judge of judges) {
+				calls += callsPerJudge;
+				inputTokens += inputPerJudge;
+				outputTokens += outputPerJudge;
+				estimatedCost += costOf(judge.modelName, inputPerJudge, outputPerJudge, input.provider);
+				maxCost += costOf(judge.modelName, inputPerJudge, callsPerJudge * MAX_PAIRWISE_OUTPUT_TOKENS, input.provider);
+				pricingKnown = pricingKnown && getModelPricing(judge.modelName, input.provider).known;
+			}
+
+			// With a judge panel, the first judge writes the summaries every judge reads
+			addSummaries(this.summaryCost(input, criterion => ({
+				tokenBudget: Math.floor((limit - this.pairwiseOverhead(criterion, input.evaluationMethod)) / 2),
+				query: input.evaluationMethod === 'prompt' || criterion.isCustomPrompt ? criterion.description : criterionQuery(criterion)
+			}), judges[0].modelName), judges[0].modelName);
+		}
+
+		const estimate: CostEstimate = {
+			modelName,
+			pricingKnown,
+			comparisons,
+			calls,
+			summaryCalls,
+			inputTokens: Math.round(inputTokens),
+			outputTokens,
+			estimatedCost: Math.round(estimatedCost * 10000) / 10000,
+			maxCost: Math.round(maxCost * 10000) / 10000
+		};
+
+		console.log(`💰 Estimated ${estimate.calls} model calls (${estimate.comparisons} comparisons), ~${estimate.inputTokens + estimate.outputTokens} tokens, ~$${estimate.estimatedCost.toFixed(4)} (max $${estimate.maxCost.toFixed(4)})`);
+		return estimate;
+	}
+
+	/**
+	 * Summarisation calls for documents whose selected sections would keep less than
+	 * {@link MIN_RELEVANCE_COVERAGE} of the material relevant to a criterion. Each such
+	 * document is summarised once per criterion, however many comparisons it is in.
+	 * @param {CostEstimateInput} input - Run configuration
+	 * @param {Function} room - Token budget and retrieval query of a document for a criterion
+	 * @param {string} summaryModel - Model writing the summaries
+	 * @returns {SummaryCost} Calls and tokens of every summary
+	 * @private
+	 */
+	private summaryCost(
+		input: CostEstimateInput,
+		room: (criterion: Criterion) => { tokenBudget: number; query: string },
+		summaryModel: string
+	): SummaryCost {
+		const total: SummaryCost = { calls: 0, inputTokens: 0, outputTokens: 0 };
+
+		for (const criterion of input.criteria) {
+			const { tokenBudget, query } = room(criterion);
+			for (const [name, text] of Object.entries(input.documents)) {
+				const selection = this.sectionRetriever.selectSections(name, text, query, tokenBudget);
+				if (!selection.trimmed || selection.coverage >= MIN_RELEVANCE_COVERAGE) {
+					continue;
+				}
+
+				const summary = estimateSummaryCost(encode(text).length, tokenBudget, summaryModel, criterion, input.contextBudget);
+				total.calls += summary.calls;
+				total.inputTokens += summary.inputTokens;
+				total.outputTokens += summary.outputTokens;
+			}
+		}
+
+		return total;
+	}
+
+	/**
+	 * Tokens in a pairwise prompt for a criterion, excluding the two documents.
+	 * @param {Criterion} criterion - Criterion evaluated
+	 * @param {EvaluationMethod} evaluationMethod - Evaluation method
+	 * @returns {number} Prompt tokens without document content
+	 * @private
+	 */
+	private pairwiseOverhead(criterion: Criterion, evaluationMethod: EvaluationMethod): number {
+		const prompt = evaluationMethod === 'prompt' || criterion.isCustomPrompt
+			? this.promptGenerator.generateCustomPrompt('', '', '', '', criterion.description)
+			: this.promptGenerator.generateCriterionPrompt('', '', '', '', criterion);
+		return encode(prompt).length;
+	}
+}
@@ -1,85 +1,73 @@
 // src/lib/comparison/criterionEvaluator.ts
-import { OpenAI } from 'openai';
-import { CriterionEvaluation } from './types';
+import { encode } from 'gpt-tokenizer';
+import { BudgetExceededError, BudgetTracker } from './budgetTracker';
+import { createLlmProvider, hasUsableApiKey, LlmProvider } from './llmProvider';
+import { LlmRecorder, ReplayMissError } from './llmRecorder';
+import { getRateLimiter, RequestScheduler } from './requestScheduler';
+import {
+	buildRepairPrompt,
+	MAX_REPAIR_ATTEMPTS,
+	parseStructuredResponse,
+	POINTWISE_SCORE_SCHEMA,
+	PAIRWISE_EVALUATION_SCHEMA,
+	StructuredOutputError
+} from './structuredOutput';
+import { CriterionEvaluation, LlmCompletion, LlmProviderConfig, LlmRequest, PointwiseCriterionScore, ResponseSchema, TokenUsage } from './types';
+import { accumulateUsage, emptyUsage, usageOf, UsageTracker } from './usageTracker';
 
 export class CriterionEvaluator {
 	openaiApiKey: string;
 	modelName: string;
+	temperature: number;
+	budget?: BudgetTracker;
+	recorder?: LlmRecorder;
+	providerConfig?: LlmProviderConfig;
+	scheduler?: RequestScheduler;
+	usageTracker?: UsageTracker;
+	private provider?: LlmProvider;
 
-	constructor(openaiApiKey: string, modelName: string = "gpt-4.1-mini") {
+	constructor(
+		openaiApiKey: string,
+		modelName: string = "gpt-4.1-mini",
+		temperature: number = 0,
+		budget?: BudgetTracker,
+		recorder?: LlmRecorder,
+		providerConfig?: LlmProviderConfig,
+		scheduler?: RequestScheduler,
+		usageTracker?: UsageTracker
+	) {
 		this.openaiApiKey = openaiApiKey;
 		this.modelName = modelName;
+		this.temperature = temperature;
+		this.budget = budget;
+		this.recorder = recorder;
+		this.providerConfig = providerConfig;
+		this.scheduler = scheduler;
+		this.usageTracker = usageTracker;
 	}
 
 	async evaluate(prompt: string, maxTokens: number): Promise<CriterionEvaluation> {
-		if (!this.validateApiKey()) {
+		if (!this.isReplaying() && !this.validateApiKey()) {
 			console.error(`ERROR: Invalid or missing API key (length: ${this.openaiApiKey.length})`);
 			return this.createErrorEvaluation("Invalid or missing API key");
 		}
 
+		const usage = emptyUsage();
 		try {
-			const openai = new OpenAI({
-				apiKey: this.openaiApiKey,
-			});
-
-			console.log(`\n🤖 Sending prompt to ${this.modelName} (API key: ${this.openaiApiKey.slice(0, 4)}...${this.openaiApiKey.slice(-4)})`);
-			console.log(`📏 Prompt length: ${prompt.length} characters, Max tokens: ${maxTokens}`);
-			console.log(`📝 Prompt preview (first 500 chars):\n${prompt.substring(0, 500)}...`);
-
-			const response = await openai.chat.completions.create({
-				temperature: 0,
-				max_tokens: maxTokens,
-				model: this.modelName,
-				seed: 42, // Fixed seed for deterministic results
-				messages: [
-					{ role: "user", content: prompt }
-				]
-			});
-
-			console.log(`✅ Received response from ${this.modelName}`);
-
-			let result = response.choices[0].message.content || "";
-			result = result.trim();
-
-			console.log(`📥 Raw LLM response length: ${result.length} characters`);
-			console.log(`📥 Raw LLM response preview:\n${result.substring(0, 300)}...`);
-
-			if (result.includes("```json")) {
-				result = result.split("```json")[1].split("```")[0].trim();
-				console.log(`🔧 Extracted JSON from code block`);
-			} else if (result.includes("```")) {
-				result = result.split("```")[1].split("```")[0].trim();
-				console.log(`🔧 Extracted content from code block`);
-			}
-
-			const jsonStart = result.indexOf('{');
-			const jsonEnd = result.lastIndexOf('}') + 1;
-			if (jsonStart >= 0 && jsonEnd > jsonStart) {
-				result = result.substring(jsonStart, jsonEnd);
-				console.log(`🔧 Extracted JSON object from response`);
-			}
-
-			console.log(`📋 Final JSON to parse:\n${result}`);
-
-			const rawEval = JSON.parse(result);
-			console.log(`✅ Successfully parsed JSON response`);
-			console.log(`📊 Parsing LLM response fields:`, {
-				criterion_name: rawEval.criterion_name || rawEval.criterionName,
-				document_a_score: rawEval.document_a_score || rawEval.documentAScore,
-				document_b_score: rawEval.document_b_score || rawEval.documentBScore,
-				winner: rawEval.winner
-			});
+			const rawEval = await this.requestJson(prompt, maxTokens, PAIRWISE_EVALUATION_SCHEMA, usage);
+			console.log(`✅ Successfully parsed and validated JSON response`);
 
 			const criterionEval: CriterionEvaluation = {
-				criterionId: rawEval.criterion_id || rawEval.criterionId,
-				criterionName: rawEval.criterion_name || rawEval.criterionName,
-				documentAScore: rawEval.document_a_score || rawEval.documentAScore || 0,
-				documentBScore: rawEval.document_b_score || rawEval.documentBScore || 0,
-				documentAAnalysis: rawEval.document_a_analysis || rawEval.documentAAnalysis,
-				documentBAnalysis: rawEval.document_b_analysis || rawEval.documentBAnalysis,
-				comparativeAnalysis: rawEval.comparative_analysis || rawEval.comparativeAnalysis,
-				reasoning: rawEval.reasoning,
-				winner: this.normalizeWinner(rawEval.winner)
+				criterionId: typeof rawEval.criterion_id === 'string' ? rawEval.criterion_id : undefined,
+				criterionName: String(rawEval.criterion_name),
+				documentAScore: Number(rawEval.document_a_score),
+				documentBScore: Number(rawEval.document_b_score),
+				documentAAnalysis: String(rawEval.document_a_analysis),
+				documentBAnalysis: String(rawEval.document_b_analysis),
+				comparativeAnalysis: String(rawEval.comparative_analysis),
+				reasoning: String(rawEval.reasoning),
+				winner: this.normalizeWinner(String(rawEval.winner)),
+				usage
 			};
 
 			console.log(`📊 Final parsed evaluation:`, {
@@ -89,22 +77,161 @@ export class CriterionEvaluator {
 				winner: criterionEval.winner
 			});
 
-			this.validateCriterionEvaluation(criterionEval);
 			return criterionEval;
 
 		} catch (error) {
+			// Budget refusals and replay misses must reach the engine rather than look like a failed evaluation
+			if (error instanceof BudgetExceededError || error instanceof ReplayMissError) {
+				throw error;
+			}
+
 			console.error(`ERROR evaluating criterion: ${error instanceof Error ? error.message : 'Unknown error'}`);
 			console.error(`API key validity: ${this.validateApiKey() ? 'Valid' : 'Invalid'}`);
 
-			return this.createErrorEvaluation(`Error during evaluation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			// Failed attempts were still billed
+			return { ...this.createErrorEvaluation(`Error during evaluation: ${error instanceof Error ? error.message : 'Unknown error'}`), usage };
 		}
 	}
 
+	async scorePointwise(prompt: string, maxTokens: number): Promise<PointwiseCriterionScore> {
+		if (!this.isReplaying() && !this.validateApiKey()) {
+			console.error(`ERROR: Invalid or missing API key (length: ${this.openaiApiKey.length})`);
+			return { score: 0, analysis: "Error: Invalid or missing API key", error: true };
+		}
+
+		const usage = emptyUsage();
+		try {
+			const rawScore = await this.requestJson(prompt, maxTokens, POINTWISE_SCORE_SCHEMA, usage);
+
+			const score: PointwiseCriterionScore = {
+				criterionId: typeof rawScore.criterion_id === 'string' ? rawScore.criterion_id : undefined,
+				criterionName: String(rawScore.criterion_name),
+				score: Number(rawScore.score),
+				analysis: String(rawScore.analysis),
+				usage
+			};
+
+			console.log(`📊 Pointwise score for ${score.criterionName || 'criterion'}: ${score.score}`);
+			return score;
+
+		} catch (error) {
+			if (error instanceof BudgetExceededError || error instanceof ReplayMissError) {
+				throw error;
+			}
+
+			console.error(`ERROR scoring criterion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return {
+				score: 0,
+				analysis: `Error during scoring: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				error: true,
+				usage
+			};
+		}
+	}
+
+	/**
+	 * Asks for a JSON response and checks it against a schema. A malformed response is
+	 * re-asked with the validation errors up to MAX_REPAIR_ATTEMPTS times; every attempt
+	 * is recorded, so a replay repeats the same repairs. The usage of every attempt is added to `usage`.
+	 * @throws {StructuredOutputError} When no attempt produced a valid response
+	 */
+	private async requestJson(prompt: string, maxTokens: number, responseSchema: ResponseSchema, usage: TokenUsage): Promise<Record<string, unknown>> {
+		let attemptPrompt = prompt;
+		let errors: string[] = [];
+
+		for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+			const result = await this.send({ modelName: this.modelName, temperature: this.temperature, maxTokens, prompt: attemptPrompt, responseSchema }, usage);
+
+			console.log(`📥 Raw LLM response length: ${result.length} characters`);
+			console.log(`📥 Raw LLM response preview:\n${result.trim().substring(0, 300)}...`);
+
+			const parsed = parseStructuredResponse(result, responseSchema);
+			if (parsed.value) {
+				return parsed.value;
+			}
+
+			errors = parsed.errors;
+			console.warn(`⚠️ Invalid ${responseSchema.name} response (attempt ${attempt}): ${errors.join('; ')}`);
+			attemptPrompt = buildRepairPrompt(prompt, result, errors);
+		}
+
+		throw new StructuredOutputError(responseSchema.name, errors, MAX_REPAIR_ATTEMPTS + 1);
+	}
+
+	/**
+	 * Asks for a free-text response, such as a summary. The call is recorded like any other.
+	 */
+	async complete(prompt: string, maxTokens: number): Promise<string> {
+		return this.send({ modelName: this.modelName, temperature: this.temperature, maxTokens, prompt });
+	}
+
+	/**
+	 * Sends a request, or answers it from the recorder when replaying, and records the response.
+	 * The call's usage is added to `usage` when given; a replayed call adds the usage it was recorded with.
+	 */
+	private async send(request: LlmRequest, usage?: TokenUsage): Promise<string> {
+		// Claimed before any await so identical prompts sent side by side keep a stable order
+		const claim = this.recorder?.claim(request);
+
+		if (this.recorder && claim && this.isReplaying()) {
+			const record = this.recorder.replay(claim);
+			console.log(`⏪ Replayed recorded response from ${this.modelName} (${claim.hash.substring(0, 12)}#${claim.occurrence})`);
+			if (usage) {
+				accumulateUsage(usage, usageOf(this.modelName, record.usage, this.providerConfig?.provider));
+			}
+			return record.completion;
+		}
+
+		const response = await this.requestCompletion(request);
+		if (this.recorder && claim) {
+			this.recorder.record(claim, request, response.content, response.usage);
+		}
+
+		// Only calls that reached the provider count towards the run's usage
+		const callUsage = this.usageTracker ? this.usageTracker.record(this.modelName, response.usage) : usageOf(this.modelName, response.usage, this.providerConfig?.provider);
+		if (usage) {
+			accumulateUsage(usage, callUsage);
+		}
+		return response.content;
+	}
+
+	private async requestCompletion(request: LlmRequest): Promise<LlmCompletion> {
+		// Created on first use so a replayed run never needs a reachable provider
+		const provider = this.provider = this.provider ?? createLlmProvider(this.providerConfig, this.openaiApiKey);
+		// Without a run's scheduler, calls still share the key's rate limits
+		const scheduler = this.scheduler = this.scheduler ?? new RequestScheduler(getRateLimiter(provider.name, this.openaiApiKey));
+
+		console.log(`\n🤖 Sending prompt to ${this.modelName} via ${provider.name}${this.openaiApiKey ? ` (API key: ${this.openaiApiKey.slice(0, 4)}...${this.openaiApiKey.slice(-4)})` : ''}`);
+		console.log(`📏 Prompt length: ${request.prompt.length} characters, Max tokens: ${request.maxTokens}`);
+		console.log(`📝 Prompt preview (first 500 chars):\n${request.prompt.substring(0, 500)}...`);
+
+		// Refuse the call up front if its worst-case cost would break the budget cap
+		const reservation = this.budget?.reserve(this.modelName, encode(request.prompt).length, request.maxTokens);
+
+		let response: LlmCompletion;
+		try {
+			response = await scheduler.run(() => provider.complete(request));
+		} catch (error) {
+			if (reservation) {
+				this.budget?.settle(reservation, null);
+			}
+			throw error;
+		}
+
+		if (reservation) {
+			this.budget?.settle(reservation, response.usage);
+		}
+
+		console.log(`✅ Received response from ${this.modelName}`);
+		return response;
+	}
+
+	isReplaying(): boolean {
+		return this.recorder?.mode === 'replay';
+	}
+
 	validateApiKey(): boolean {
-		return (
-			typeof this.openaiApiKey === 'string' &&
-			this.openaiApiKey.length > 20
-		);
+		return hasUsableApiKey(this.providerConfig?.provider ?? 'openai', this.openaiApiKey);
 	}
 
 	createErrorEvaluation(errorMessage: string): CriterionEvaluation {
@@ -115,7 +242,8 @@ export class CriterionEvaluator {
 			documentBAnalysis: `Error: ${errorMessage}`,
 			comparativeAnalysis: `Unable to compare due to error: ${errorMessage}`,
 			reasoning: `Error occurred: ${errorMessage}`,
-			winner: "N/A"
+			winner: "N/A",
+			error: errorMessage
 		};
 	}
 
@@ -35,7 +35,7 @@ export class ComparisonDataProcessor {
         for (const comp of comparisonResults) {
             const docA = comp.documentA || "";
             const docB = comp.documentB || "";
-            const winner = comp.winner || "N/A";
+            const winner = comp.error ? "Error" : comp.winner || "N/A";
 
             try {
                 const evalDetails = comp.evaluationDetails as NonNullable<ComparisonResult['evaluationDetails']>;
@@ -102,7 +102,8 @@ export class ComparisonDataProcessor {
                         "Document B Analysis": evalItem.documentBAnalysis || "No analysis provided",
                         "Comparative Analysis": evalItem.comparativeAnalysis || "No comparative analysis provided",
                         "Detailed Reasoning": reasoning,
-                        "Winner": criterionWinner === "A" ? docA :
+                        "Winner": evalItem.error ? "Error" :
+                            criterionWinner === "A" ? docA :
                             criterionWinner === "B" ? docB : "Tie"
                     };
                     criterionData.push(criterionEntry);
@@ -6,19 +6,52 @@
 
 // src/lib/comparison/documentComparator.ts
 import { encode } from 'gpt-tokenizer';
+import type { BlindReview } from './blindReview';
+import type { BudgetTracker } from './budgetTracker';
+import { hasUsableApiKey } from './llmProvider';
+import type { LlmRecorder } from './llmRecorder';
+import type { RequestScheduler } from './requestScheduler';
 import { CriterionEvaluator } from './criterionEvaluator';
+import { EnsembleEvaluator } from './ensembleEvaluator';
+import type { EvaluationCache } from './evaluationCache';
+import { EvidenceSummarizer } from './evidenceSummarizer';
+import { completionAllowance, promptTokenLimit } from './modelContext';
+import type { PiiRedactor } from './piiRedactor';
+import type { ProgressTracker } from './progressTracker';
 import { PromptGenerator } from './promptGenerator';
+import { criterionQuery, SectionRetriever } from './sectionRetriever';
+import { sumUsage, UsageTracker } from './usageTracker';
 import { 
 	ComparisonResult, 
 	CriterionEvaluation, 
-	Criterion 
+	Criterion,
+	EnsembleConfig,
+	LlmProviderConfig,
+	PositionBiasMode,
+	PromptTemplate
 } from './types';
 import { PDFProcessor } from './pdfProcessor';
 
+/** @type {number} Completion allowance of an evaluation call, kept free when sizing prompts */
+const MAX_COMPLETION_TOKENS = 1500;
+
+/** @type {PositionBiasMode[]} All supported position-bias modes */
+export const POSITION_BIAS_MODES: PositionBiasMode[] = ['off', 'consensus', 'average'];
+
+/**
+ * Type guard for position-bias mode identifiers received from clients.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value names a supported mode
+ */
+export function isPositionBiasMode(value: unknown): value is PositionBiasMode {
+	return typeof value === 'string' && (POSITION_BIAS_MODES as string[]).includes(value);
+}
+
 /**
  * Main class for comparing documents using AI-powered evaluation.
  * Handles pairwise document comparisons with support for multiple criteria
- * and custom prompt-based evaluations.
+ * and custom prompt-based evaluations. Can evaluate each pair in both
+ * presentation orders to detect and neutralise position bias.
  * 
  * @class DocumentComparator
  */
@@ -41,12 +74,45 @@ export class DocumentComparator {
 	/** @type {string} AI model name to use for evaluations */
 	modelName: string;
 	
-	/** @type {CriterionEvaluator} Component for evaluating individual criteria */
-	criterionEvaluator: CriterionEvaluator;
+	/** @type {PositionBiasMode} Whether and how to reconcile evaluations in both orders */
+	positionBias: PositionBiasMode;
+	
+	/** @type {LlmRecorder|undefined} Records every model call, or answers calls from earlier records */
+	recorder?: LlmRecorder;
+	
+	/** @type {LlmProviderConfig|undefined} Service that answers model calls */
+	providerConfig?: LlmProviderConfig;
+	
+	/** @type {CriterionEvaluator|EnsembleEvaluator} Component for evaluating individual criteria, alone or as a judge panel */
+	criterionEvaluator: CriterionEvaluator | EnsembleEvaluator;
 	
 	/** @type {PromptGenerator} Component for generating evaluation prompts */
 	promptGenerator: PromptGenerator;
 
+	/** @type {SectionRetriever} Cuts long documents down to the sections relevant to each criterion */
+	sectionRetriever: SectionRetriever;
+
+	/** @type {EvidenceSummarizer} Summarises documents that selected sections cannot cover */
+	evidenceSummarizer: EvidenceSummarizer;
+
+	/** @type {number} Most prompt tokens per evaluation call, for the smallest context window among the judges */
+	promptTokenLimit: number;
+
+	/** @type {EvaluationCache|undefined} Reuses criterion evaluations from earlier runs */
+	evaluationCache?: EvaluationCache;
+
+	/** @type {string} Judge and prompt-sizing settings that cached evaluations must match */
+	cacheSettings: string;
+
+	/** @type {ProgressTracker|undefined} Reports criterion results as they land */
+	progress?: ProgressTracker;
+
+	/** @type {BlindReview|undefined} Aliases the model sees instead of document names */
+	blind?: BlindReview;
+
+	/** @type {PiiRedactor|undefined} Restores redacted personal data in the model's analyses */
+	redactor?: PiiRedactor;
+
 	/**
 	 * Creates a new DocumentComparator instance.
 	 * 
@@ -56,6 +122,19 @@ export class DocumentComparator {
 	 * @param {PDFProcessor} pdfProcessor - PDF processor for text extraction (must be pre-configured)
 	 * @param {boolean} [useCustomPrompt=false] - Whether to use custom prompt evaluation
 	 * @param {string} [modelName='gpt-4.1-mini'] - AI model to use for evaluations
+	 * @param {PositionBiasMode} [positionBias='off'] - Both-order evaluation mode
+	 * @param {EnsembleConfig} [ensemble] - Judge panel to use instead of a single `modelName` judge
+	 * @param {BudgetTracker} [budget] - Spending cap checked before every model call
+	 * @param {LlmRecorder} [recorder] - Records every model call, or answers calls from earlier records
+	 * @param {LlmProviderConfig} [providerConfig] - Service that answers model calls (defaults to OpenAI)
+	 * @param {RequestScheduler} [scheduler] - Rate limits and retries model calls
+	 * @param {number} [contextBudget] - Cap on prompt tokens per call, below the model's context window
+	 * @param {EvaluationCache} [evaluationCache] - Reuses criterion evaluations from earlier runs
+	 * @param {UsageTracker} [usageTracker] - Counts the tokens and cost of every model call
+	 * @param {ProgressTracker} [progress] - Reports criterion results as they land
+	 * @param {PromptTemplate} [promptTemplate] - Pairwise prompt template used instead of the built-in one of its kind
+	 * @param {BlindReview} [blind] - Aliases the model sees instead of document names
+	 * @param {PiiRedactor} [redactor] - Restores redacted personal data in the model's analyses
 	 */
 	constructor(
 		documents: Record<string, string>,
@@ -63,7 +142,20 @@ export class DocumentComparator {
 		openaiApiKey: string,
 		pdfProcessor: PDFProcessor,
 		useCustomPrompt = false,
-		modelName = 'gpt-4.1-mini'
+		modelName = 'gpt-4.1-mini',
+		positionBias: PositionBiasMode = 'off',
+		ensemble?: EnsembleConfig,
+		budget?: BudgetTracker,
+		recorder?: LlmRecorder,
+		providerConfig?: LlmProviderConfig,
+		scheduler?: RequestScheduler,
+		contextBudget?: number,
+		evaluationCache?: EvaluationCache,
+		usageTracker?: UsageTracker,
+		progress?: ProgressTracker,
+		promptTemplate?: PromptTemplate,
+		blind?: BlindReview,
+		redactor?: PiiRedactor
 	) {
 		this.documents = documents;
 		this.criteria = criteria;
@@ -71,26 +163,49 @@ export class DocumentComparator {
 		this.pdfProcessor = pdfProcessor;
 		this.useCustomPrompt = useCustomPrompt;
 		this.modelName = modelName;
+		this.positionBias = positionBias;
+		this.recorder = recorder;
+		this.providerConfig = providerConfig;
 
 		// Validate API key
 		this.validateApiKey();
 
 		// Initialize components
-		this.criterionEvaluator = new CriterionEvaluator(openaiApiKey, modelName);
-		this.promptGenerator = new PromptGenerator();
+		this.criterionEvaluator = ensemble && ensemble.judges.length > 0
+			? new EnsembleEvaluator(openaiApiKey, ensemble, budget, recorder, providerConfig, scheduler, usageTracker)
+			: new CriterionEvaluator(openaiApiKey, modelName, 0, budget, recorder, providerConfig, scheduler, usageTracker);
+		this.promptGenerator = new PromptGenerator(promptTemplate);
+		this.sectionRetriever = new SectionRetriever();
+		// With a judge panel, the first judge writes the summaries every judge reads
+		const summaryEvaluator = this.criterionEvaluator instanceof EnsembleEvaluator ? this.criterionEvaluator.evaluators[0] : this.criterionEvaluator;
+		this.evidenceSummarizer = new EvidenceSummarizer(summaryEvaluator, this.sectionRetriever, contextBudget);
+		const judgeModels = ensemble && ensemble.judges.length > 0 ? ensemble.judges.map(judge => judge.modelName) : [modelName];
+		this.promptTokenLimit = promptTokenLimit(judgeModels, MAX_COMPLETION_TOKENS, contextBudget);
+		this.evaluationCache = evaluationCache;
+		this.progress = progress;
+		this.blind = blind;
+		this.redactor = redactor;
+		// Everything besides the documents and criterion that changes what the judges see or how they answer
+		this.cacheSettings = JSON.stringify({
+			provider: providerConfig?.provider ?? 'openai',
+			judges: ensemble && ensemble.judges.length > 0
+				? ensemble.judges.map(judge => [judge.modelName, judge.temperature ?? 0])
+				: [[modelName, 0]],
+			aggregation: ensemble && ensemble.judges.length > 0 ? ensemble.aggregation : null,
+			promptTokenLimit: this.promptTokenLimit,
+			// Evaluations made while the model could see document names are not reused by blind runs
+			blind: !!blind
+		});
 	}
 
 	/**
-	 * Validates the OpenAI API key format and length.
-	 * Checks if the provided API key meets basic requirements for validity.
+	 * Validates the API key for the configured provider.
+	 * Local OpenAI-compatible servers need no key; every other provider needs one.
 	 * 
 	 * @returns {boolean} True if the API key appears valid, false otherwise
 	 */
 	validateApiKey(): boolean {
-		const isValid = (
-			typeof this.openaiApiKey === 'string' &&
-			this.openaiApiKey.length > 20
-		);
+		const isValid = hasUsableApiKey(this.providerConfig?.provider ?? 'openai', this.openaiApiKey);
 
 		if (!isValid) {
 			console.warn(`WARNING: API key appears invalid in DocumentComparator (length: ${this.openaiApiKey.length})`);
@@ -101,20 +216,147 @@ export class DocumentComparator {
 
 	/**
 	 * Compares two documents using all configured criteria.
-	 * Performs a comprehensive comparison by evaluating each criterion
-	 * and computing weighted scores to determine the overall winner.
+	 * When position-bias mitigation is on, the pair is evaluated with each document
+	 * in the "Document A" slot and the two verdicts are reconciled.
 	 * 
 	 * @param {string} doc1Name - Name of the first document to compare
 	 * @param {string} doc2Name - Name of the second document to compare
+	 * @param {boolean} [fresh=false] - Skip cached evaluations so the pair gets a new verdict
 	 * @returns {Promise<ComparisonResult>} Promise resolving to detailed comparison results
 	 * @async
 	 */
-	async compare(doc1Name: string, doc2Name: string): Promise<ComparisonResult> {
+	async compare(doc1Name: string, doc2Name: string, fresh = false): Promise<ComparisonResult> {
+		if (this.positionBias === 'off') {
+			return this.compareInOrder(doc1Name, doc2Name, fresh);
+		}
+
+		console.log(`🔁 Evaluating ${doc1Name} vs ${doc2Name} in both orders (${this.positionBias})`);
+
+		const forward = await this.compareInOrder(doc1Name, doc2Name, fresh);
+		if (forward.error) {
+			return forward;
+		}
+
+		const reverse = await this.compareInOrder(doc2Name, doc1Name, fresh);
+		if (reverse.error) {
+			return { ...forward, winner: null, error: `Reverse-order evaluation failed: ${reverse.error}`, usage: sumUsage([forward.usage, reverse.usage]) };
+		}
+
+		return this.reconcileOrders(forward, reverse, this.positionBias);
+	}
+
+	/**
+	 * Combines the forward (doc1 first) and reverse (doc2 first) evaluations of a pair.
+	 * 'consensus' keeps the winner only if both orders agree and records a tie otherwise;
+	 * 'average' averages the weighted and per-criterion scores of both orders.
+	 * 
+	 * @param {ComparisonResult} forward - Evaluation with documentA in the first slot
+	 * @param {ComparisonResult} reverse - Evaluation with the documents swapped
+	 * @param {'consensus' | 'average'} mode - Reconciliation rule
+	 * @returns {ComparisonResult} Reconciled result expressed in forward order
+	 */
+	reconcileOrders(
+		forward: ComparisonResult,
+		reverse: ComparisonResult,
+		mode: Exclude<PositionBiasMode, 'off'>
+	): ComparisonResult {
+		const doc1Name = forward.documentA;
+		const doc2Name = forward.documentB;
+		const forwardOverall = forward.evaluationDetails?.overallScores || { documentA: 0, documentB: 0 };
+		const reverseOverall = reverse.evaluationDetails?.overallScores || { documentA: 0, documentB: 0 };
+		const forwardScores = { documentA: forwardOverall.documentA, documentB: forwardOverall.documentB };
+		// In the reverse run doc2 was "Document A", so swap back
+		const reverseScores = { documentA: reverseOverall.documentB, documentB: reverseOverall.documentA };
+		const consistent = forward.winner === reverse.winner;
+		const criterionEvaluations = forward.evaluationDetails?.criterionEvaluations || [];
+		const usage = sumUsage([forward.usage, reverse.usage]);
+
+		const positionCheck = {
+			mode,
+			consistent,
+			forwardWinner: forward.winner,
+			reverseWinner: reverse.winner,
+			forwardScores,
+			reverseScores
+		};
+
+		console.log(`  Position check: ${doc1Name} first → ${forward.winner || 'Tie'}, ${doc2Name} first → ${reverse.winner || 'Tie'} (${consistent ? 'consistent' : 'inconsistent'})`);
+
+		if (mode === 'average') {
+			const docAWeightedScore = (forwardScores.documentA + reverseScores.documentA) / 2;
+			const docBWeightedScore = (forwardScores.documentB + reverseScores.documentB) / 2;
+			const [overallWinner, winnerName, explanation] = this.determineWinner(
+				doc1Name,
+				doc2Name,
+				docAWeightedScore,
+				docBWeightedScore,
+				criterionEvaluations
+			);
+
+			const criterionScores = Object.fromEntries(
+				Object.entries(forward.criterionScores || {}).map(([name, scores]) => {
+					const swapped = reverse.criterionScores?.[name];
+					return [name, {
+						documentA: swapped ? (scores.documentA + swapped.documentB) / 2 : scores.documentA,
+						documentB: swapped ? (scores.documentB + swapped.documentA) / 2 : scores.documentB
+					}];
+				})
+			);
+
+			return {
+				...forward,
+				winner: winnerName !== "Tie" ? winnerName : null,
+				evaluationDetails: {
+					criterionEvaluations,
+					overallScores: {
+						documentA: docAWeightedScore,
+						documentB: docBWeightedScore
+					},
+					overallWinner,
+					explanation: `${explanation} Scores are averaged over both presentation orders.`
+				},
+				criterionScores,
+				positionCheck,
+				usage
+			};
+		}
+
+		const explanation = consistent
+			? `${forward.evaluationDetails?.explanation || ''} The verdict was the same with the documents presented in either order.`
+			: `The verdict changed when the presentation order was swapped (${forward.winner || 'Tie'} with ${doc1Name} first, ${reverse.winner || 'Tie'} with ${doc2Name} first), so the pair is recorded as a tie.`;
+
+		return {
+			...forward,
+			winner: consistent ? forward.winner : null,
+			evaluationDetails: {
+				criterionEvaluations,
+				overallScores: forwardScores,
+				overallWinner: consistent ? forward.evaluationDetails?.overallWinner || "Tie" : "Tie",
+				explanation: explanation.trim()
+			},
+			positionCheck,
+			usage
+		};
+	}
+
+	/**
+	 * Compares two documents using all configured criteria, with doc1 presented first.
+	 * Performs a comprehensive comparison by evaluating each criterion
+	 * and computing weighted scores to determine the overall winner.
+	 * 
+	 * @param {string} doc1Name - Name of the document shown as "Document A"
+	 * @param {string} doc2Name - Name of the document shown as "Document B"
+	 * @param {boolean} [fresh=false] - Skip cached evaluations; the new ones replace them in the cache
+	 * @returns {Promise<ComparisonResult>} Promise resolving to detailed comparison results
+	 * @async
+	 */
+	async compareInOrder(doc1Name: string, doc2Name: string, fresh = false): Promise<ComparisonResult> {
 		const allCriterionEvaluations: CriterionEvaluation[] = [];
 		let docAWeightedScore = 0;
 		let docBWeightedScore = 0;
 
-		if (!this.validateApiKey()) {
+		// Replayed calls never reach the API, so they need no key
+		if (this.recorder?.mode !== 'replay' && !this.validateApiKey()) {
 			const errorMsg = "Invalid OpenAI API key";
 			return {
 				documentA: doc1Name,
@@ -155,66 +397,78 @@ export class DocumentComparator {
 
 			if (doc1Content.length < 50 || doc2Content.length < 50) {
 				console.warn(`⚠️  Very short document content detected - possible extraction issue`);
-			}			// For criteria-based evaluation, use full document content
-			// For custom prompts, use full content
-			let doc1Section = doc1Content;
-			let doc2Section = doc2Content;
-
-			console.log(`📋 Using full document content for evaluation`);
-			console.log(`Content lengths: ${doc1Name}=${doc1Section.length} chars, ${doc2Name}=${doc2Section.length} chars`);
-
-			// Log content being sent to LLM (first 200 chars)
-			console.log(`📤 Content being sent to LLM:`);
-			console.log(`  ${doc1Name}: "${doc1Section.substring(0, 200)}..."`);
-			console.log(`  ${doc2Name}: "${doc2Section.substring(0, 200)}..."`);
-
-			// Add validation before sending to LLM
-			if (!doc1Section || doc1Section.trim().length === 0) {
-				console.warn(`⚠️  WARNING: Empty content for ${doc1Name}`);
 			}
-			if (!doc2Section || doc2Section.trim().length === 0) {
-				console.warn(`⚠️  WARNING: Empty content for ${doc2Name}`);
-			}
-
-			console.log(`📊 Content lengths - ${doc1Name}: ${doc1Section.length}, ${doc2Name}: ${doc2Section.length}`);
 
 			// Validate content quality before sending to LLM
-			if (doc1Section.trim().length < 20 || doc2Section.trim().length < 20) {
+			if (doc1Content.trim().length < 20 || doc2Content.trim().length < 20) {
 				console.error(`❌ Content too short for meaningful evaluation. Skipping criterion: ${criterionName}`);
-				console.log(`❌ ${doc1Name} content length: ${doc1Section.trim().length}`);
-				console.log(`❌ ${doc2Name} content length: ${doc2Section.trim().length}`);
+				console.log(`❌ ${doc1Name} content length: ${doc1Content.trim().length}`);
+				console.log(`❌ ${doc2Name} content length: ${doc2Content.trim().length}`);
 				continue;
 			}
 
-			let prompt: string;
-			if (this.useCustomPrompt || criterion.isCustomPrompt) {
-				console.log(`🔧 Using custom prompt generation for criterion: ${criterion.name}`);
-				prompt = this.promptGenerator.generateCustomPrompt(
-					doc1Name,
-					doc2Name,
-					doc1Section,
-					doc2Section,
-					criterion.description
-				);
+			// In blind mode the model only ever sees the documents' aliases
+			const doc1Label = this.blind ? this.blind.alias(doc1Name) : doc1Name;
+			const doc2Label = this.blind ? this.blind.alias(doc2Name) : doc2Name;
+			const useCustomPrompt = this.useCustomPrompt || criterion.isCustomPrompt;
+			const buildPrompt = (doc1Section: string, doc2Section: string) => useCustomPrompt
+				? this.promptGenerator.generateCustomPrompt(doc1Label, doc2Label, doc1Section, doc2Section, criterion.description)
+				: this.promptGenerator.generateCriterionPrompt(doc1Label, doc2Label, doc1Section, doc2Section, criterion);
+
+			const cacheParts = {
+				documentAText: doc1Content,
+				documentBText: doc2Content,
+				criterion,
+				useCustomPrompt: !!useCustomPrompt,
+				promptTemplate: this.promptGenerator.template(useCustomPrompt ? 'custom' : 'criterion').body,
+				settings: this.cacheSettings
+			};
+			// With position-bias checks each presentation order is a separate sample, so a pair cached in the other order is not reused
+			const cached = fresh ? null : await this.evaluationCache?.lookup(cacheParts, this.positionBias === 'off');
+
+			let criterionEval: CriterionEvaluation;
+			if (cached) {
+				console.log(`💾 Using cached evaluation of ${criterionName} for ${doc1Name} vs ${doc2Name}`);
+				criterionEval = { ...cached, criterionId: criterionId || cached.criterionId, criterionName };
+				// The cached evaluation was paid for by an earlier run, so it costs this one nothing
+				delete criterionEval.usage;
 			} else {
-				console.log(`🔧 Using criteria-based prompt generation for criterion: ${criterion.name}`);
-				prompt = this.promptGenerator.generateCriterionPrompt(
-					doc1Name,
-					doc2Name,
-					doc1Section,
-					doc2Section,
-					criterion
-				);
+				// Documents that do not fit the prompt together are cut down to the sections
+				// most relevant to this criterion, or summarised when those sections miss too
+				// much, each getting half of the room left
+				const sectionBudget = Math.floor((this.promptTokenLimit - encode(buildPrompt('', '')).length) / 2);
+				const query = useCustomPrompt ? criterion.description : criterionQuery(criterion);
+				const doc1Section = await this.evidenceSummarizer.fit(doc1Label, doc1Content, criterion, query, sectionBudget);
+				const doc2Section = await this.evidenceSummarizer.fit(doc2Label, doc2Content, criterion, query, sectionBudget);
+
+				console.log(`📋 Using ${doc1Section === doc1Content && doc2Section === doc2Content ? 'full document content' : 'relevant sections or summaries'} for evaluation`);
+				console.log(`Content lengths: ${doc1Name}=${doc1Section.length} chars, ${doc2Name}=${doc2Section.length} chars`);
+
+				// Log content being sent to LLM (first 200 chars)
+				console.log(`📤 Content being sent to LLM:`);
+				console.log(`  ${doc1Name}: "${doc1Section.substring(0, 200)}..."`);
+				console.log(`  ${doc2Name}: "${doc2Section.substring(0, 200)}..."`);
+
+				console.log(`🔧 Using ${useCustomPrompt ? 'custom' : 'criteria-based'} prompt generation for criterion: ${criterion.name}`);
+				const prompt = buildPrompt(doc1Section, doc2Section);
+
+				console.log(`📤 Generated prompt length: ${prompt.length} characters`);
+				console.log(`📤 Prompt preview (first 300 chars):\n${prompt.substring(0, 300)}...`);
+
+				const promptTokens = encode(prompt).length;
+				const maxTokens = completionAllowance(this.modelName, promptTokens, 1000, MAX_COMPLETION_TOKENS);
+
+				criterionEval = await this.criterionEvaluator.evaluate(prompt, maxTokens);
+				if (this.blind) {
+					// The analyses name aliases; what is kept names the documents
+					criterionEval = this.blind.restoreEvaluation(criterionEval);
+				}
+				if (this.redactor) {
+					criterionEval = this.redactor.restoreEvaluation(criterionEval);
+				}
+				await this.evaluationCache?.save(cacheParts, criterionEval);
 			}
 
-			console.log(`📤 Generated prompt length: ${prompt.length} characters`);
-			console.log(`📤 Prompt preview (first 300 chars):\n${prompt.substring(0, 300)}...`);
-
-			const promptTokens = encode(prompt).length;
-			const maxTokens = Math.max(1000, Math.min(4096 - promptTokens - 50, 1500));
-
-			const criterionEval = await this.criterionEvaluator.evaluate(prompt, maxTokens);
-
 			if (!criterionEval.criterionId) {
 				criterionEval.criterionId = criterionId;
 			}
@@ -233,11 +487,33 @@ export class DocumentComparator {
 			docBWeightedScore += weightedB;
 
 			allCriterionEvaluations.push(criterionEval);
+			this.progress?.criterionEvaluated(doc1Name, doc2Name, criterionEval);
 
 			const winner = criterionEval.winner;
 			console.log(`    Scores - A: ${docAScore}, B: ${docBScore}, Winner: ${winner}`);
 		}
 
+		// A criterion without a usable evaluation would silently score 0 for both documents
+		const failedEvaluations = allCriterionEvaluations.filter(criterionEval => criterionEval.error);
+		if (failedEvaluations.length > 0) {
+			const errorMsg = `Evaluation failed for ${failedEvaluations.map(criterionEval => criterionEval.criterionName).join(', ')}: ${failedEvaluations[0].error}`;
+			console.error(`❌ ${doc1Name} vs ${doc2Name}: ${errorMsg}`);
+			return {
+				documentA: doc1Name,
+				documentB: doc2Name,
+				winner: null,
+				error: errorMsg,
+				evaluationDetails: {
+					criterionEvaluations: allCriterionEvaluations,
+					overallScores: { documentA: 0, documentB: 0 },
+					overallWinner: "Error",
+					explanation: errorMsg
+				},
+				criterionScores: {},
+				usage: sumUsage(allCriterionEvaluations.map(criterionEval => criterionEval.usage))
+			};
+		}
+
 		const [overallWinner, winnerName, explanation] = this.determineWinner(
 			doc1Name,
 			doc2Name,
@@ -269,7 +545,8 @@ export class DocumentComparator {
 						documentB: allCriterionEvaluations.find(ce => ce.criterionName === criterion.name)?.documentBScore || 0
 					}
 				])
-			)
+			),
+			usage: sumUsage(allCriterionEvaluations.map(criterionEval => criterionEval.usage))
 		};
 
 		console.log(`Comparison complete: Winner is ${winnerName}`);
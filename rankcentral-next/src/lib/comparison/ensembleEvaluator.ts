@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Panel-of-judges criterion evaluation.
+ * Sends each criterion prompt to several judges (different models, or the same model
+ * at different temperatures) and combines their verdicts by majority vote or mean score,
+ * keeping every judge's verdict so a ranking can be checked for single-model quirks.
+ */
+
+// src/lib/comparison/ensembleEvaluator.ts
+import type { BudgetTracker } from './budgetTracker';
+import type { LlmRecorder } from './llmRecorder';
+import type { RequestScheduler } from './requestScheduler';
+import { CriterionEvaluator } from './criterionEvaluator';
+import { CriterionEvaluation, EnsembleAggregation, EnsembleConfig, JudgeConfig, JudgeVerdict, LlmProviderConfig } from './types';
+import { sumUsage, UsageTracker } from './usageTracker';
+
+/** @type {EnsembleAggregation[]} All supported aggregation rules */
+export const ENSEMBLE_AGGREGATIONS: EnsembleAggregation[] = ['majority', 'mean'];
+
+/** @type {number} Largest judge panel accepted from clients */
+export const MAX_JUDGES = 5;
+
+/** @type {number} Highest sampling temperature accepted for a judge */
+const MAX_TEMPERATURE = 2;
+
+/**
+ * Type guard for aggregation rules received from clients.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value names a supported aggregation rule
+ */
+export function isEnsembleAggregation(value: unknown): value is EnsembleAggregation {
+	return typeof value === 'string' && (ENSEMBLE_AGGREGATIONS as string[]).includes(value);
+}
+
+/**
+ * Cleans a judge list received from a client: drops entries without a model name,
+ * clamps temperatures to [0, 2] and keeps at most {@link MAX_JUDGES} judges.
+ * @param {unknown} value - Raw judge list
+ * @returns {JudgeConfig[]} Valid judges, possibly empty
+ */
+export function normalizeJudges(value: unknown): JudgeConfig[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+
+	return value
+		.filter((judge): judge is { modelName: string; temperature?: unknown } =>
+			!!judge && typeof judge.modelName === 'string' && judge.modelName.trim().length > 0
+		)
+		.slice(0, MAX_JUDGES)
+		.map(judge => {
+			const temperature = Number(judge.temperature);
+			return {
+				modelName: judge.modelName.trim(),
+				temperature: Number.isFinite(temperature) ? Math.max(0, Math.min(MAX_TEMPERATURE, temperature)) : 0
+			};
+		});
+}
+
+/**
+ * Short human-readable label for a judge, e.g. "gpt-4.1-mini (t=0.7)".
+ * @param {JudgeConfig} judge - Judge to describe
+ * @returns {string} Label
+ */
+export function describeJudge(judge: JudgeConfig): string {
+	return `${judge.modelName} (t=${judge.temperature ?? 0})`;
+}
+
+/**
+ * Evaluates criteria with a panel of judges and aggregates their verdicts.
+ * Exposes the same `evaluate` method as {@link CriterionEvaluator}, so it can be
+ * used wherever a single evaluator is expected.
+ *
+ * Judges that fail or give no usable verdict ("N/A") abstain. If every judge
+ * abstains, the first judge's evaluation is returned unchanged.
+ *
+ * @class EnsembleEvaluator
+ */
+export class EnsembleEvaluator {
+	/** @type {JudgeConfig[]} Judges on the panel */
+	judges: JudgeConfig[];
+
+	/** @type {EnsembleAggregation} How the judges' verdicts are combined */
+	aggregation: EnsembleAggregation;
+
+	/** @type {CriterionEvaluator[]} One evaluator per judge */
+	evaluators: CriterionEvaluator[];
+
+	/**
+	 * Creates a new EnsembleEvaluator instance.
+	 * @param {string} openaiApiKey - OpenAI API key shared by all judges
+	 * @param {EnsembleConfig} ensemble - Judge panel and aggregation rule
+	 * @param {BudgetTracker} [budget] - Spending cap shared by all judges
+	 * @param {LlmRecorder} [recorder] - Records or replays the calls of all judges
+	 * @param {LlmProviderConfig} [providerConfig] - Service that runs every judge's model
+	 * @param {RequestScheduler} [scheduler] - Rate limits and retries the calls of all judges
+	 * @param {UsageTracker} [usageTracker] - Counts the tokens and cost of the calls of all judges
+	 */
+	constructor(
+		openaiApiKey: string,
+		ensemble: EnsembleConfig,
+		budget?: BudgetTracker,
+		recorder?: LlmRecorder,
+		providerConfig?: LlmProviderConfig,
+		scheduler?: RequestScheduler,
+		usageTracker?: UsageTracker
+	) {
+		if (ensemble.judges.length === 0) {
+			throw new Error('A judge panel needs at least one judge');
+		}
+
+		this.judges = ensemble.judges;
+		this.aggregation = ensemble.aggregation;
+		this.evaluators = ensemble.judges.map(judge =>
+			new CriterionEvaluator(openaiApiKey, judge.modelName, judge.temperature ?? 0, budget, recorder, providerConfig, scheduler, usageTracker)
+		);
+	}
+
+	/**
+	 * Asks every judge to evaluate the prompt and aggregates the verdicts.
+	 * Judges are queried concurrently, so a panel multiplies the number of model
+	 * calls in flight for each comparison.
+	 * @param {string} prompt - Criterion evaluation prompt
+	 * @param {number} maxTokens - Maximum completion tokens per judge
+	 * @returns {Promise<CriterionEvaluation>} Aggregated evaluation with per-judge breakdown
+	 * @async
+	 */
+	async evaluate(prompt: string, maxTokens: number): Promise<CriterionEvaluation> {
+		console.log(`⚖️ Evaluating with ${this.judges.length} judges: ${this.judges.map(describeJudge).join(', ')}`);
+		const evaluations = await Promise.all(
+			this.evaluators.map(evaluator => evaluator.evaluate(prompt, maxTokens))
+		);
+		return this.aggregate(evaluations);
+	}
+
+	/**
+	 * Combines the judges' evaluations, given in panel order, into one evaluation.
+	 * @param {CriterionEvaluation[]} evaluations - One evaluation per judge
+	 * @returns {CriterionEvaluation} Aggregated evaluation with `judgeBreakdown` set
+	 */
+	aggregate(evaluations: CriterionEvaluation[]): CriterionEvaluation {
+		const judgeBreakdown: JudgeVerdict[] = evaluations.map((evaluation, index) => ({
+			modelName: this.evaluators[index].modelName,
+			temperature: this.evaluators[index].temperature,
+			documentAScore: evaluation.documentAScore,
+			documentBScore: evaluation.documentBScore,
+			winner: evaluation.winner,
+			reasoning: evaluation.reasoning
+		}));
+
+		// Every judge's calls were billed, whether or not its verdict counted
+		const usage = sumUsage(evaluations.map(evaluation => evaluation.usage));
+
+		const valid = evaluations.filter(evaluation => evaluation.winner !== 'N/A');
+		if (valid.length === 0) {
+			console.warn(`⚠️ All ${evaluations.length} judges failed to give a verdict`);
+			return { ...evaluations[0], judgeBreakdown, usage };
+		}
+
+		const aggregated = this.aggregation === 'mean'
+			? this.aggregateMean(valid)
+			: this.aggregateMajority(valid);
+
+		const agreeing = valid.filter(evaluation => evaluation.winner === aggregated.winner).length;
+		console.log(`⚖️ Panel verdict: ${aggregated.winner} (${agreeing}/${evaluations.length} judges agree, ${this.aggregation})`);
+
+		return { ...aggregated, judgeBreakdown, usage };
+	}
+
+	/**
+	 * Majority vote: the winner chosen by more judges than any other outcome, with
+	 * scores averaged over the judges who chose it. A split vote is a tie, with both
+	 * documents given the same averaged score so the weighted totals stay level.
+	 * @param {CriterionEvaluation[]} valid - Evaluations with a verdict
+	 * @returns {CriterionEvaluation} Aggregated evaluation
+	 * @private
+	 */
+	private aggregateMajority(valid: CriterionEvaluation[]): CriterionEvaluation {
+		const votes = new Map<CriterionEvaluation['winner'], number>();
+		valid.forEach(evaluation => votes.set(evaluation.winner, (votes.get(evaluation.winner) || 0) + 1));
+
+		const topCount = Math.max(...votes.values());
+		const leaders = [...votes.entries()].filter(([, count]) => count === topCount).map(([winner]) => winner);
+
+		if (leaders.length === 1 && leaders[0] !== 'Tie') {
+			const majority = valid.filter(evaluation => evaluation.winner === leaders[0]);
+			return {
+				...majority[0],
+				documentAScore: this.mean(majority.map(evaluation => evaluation.documentAScore)),
+				documentBScore: this.mean(majority.map(evaluation => evaluation.documentBScore)),
+				winner: leaders[0]
+			};
+		}
+
+		const tally = [...votes.entries()].map(([winner, count]) => `${winner}: ${count}`).join(', ');
+		const level = this.mean(valid.flatMap(evaluation => [evaluation.documentAScore, evaluation.documentBScore]));
+		return {
+			...valid[0],
+			documentAScore: level,
+			documentBScore: level,
+			reasoning: `Judges did not reach a majority (${tally}); treated as a tie. ${valid[0].reasoning || ''}`.trim(),
+			winner: 'Tie'
+		};
+	}
+
+	/**
+	 * Mean score: scores averaged over all judges with a verdict; the higher mean wins.
+	 * The analysis text comes from the first judge whose own verdict matches.
+	 * @param {CriterionEvaluation[]} valid - Evaluations with a verdict
+	 * @returns {CriterionEvaluation} Aggregated evaluation
+	 * @private
+	 */
+	private aggregateMean(valid: CriterionEvaluation[]): CriterionEvaluation {
+		const documentAScore = this.mean(valid.map(evaluation => evaluation.documentAScore));
+		const documentBScore = this.mean(valid.map(evaluation => evaluation.documentBScore));
+		const winner: CriterionEvaluation['winner'] = documentAScore > documentBScore
+			? 'A'
+			: documentAScore < documentBScore ? 'B' : 'Tie';
+
+		const representative = valid.find(evaluation => evaluation.winner === winner) || valid[0];
+		return { ...representative, documentAScore, documentBScore, winner };
+	}
+
+	/**
+	 * Arithmetic mean rounded to two decimals.
+	 * @param {number[]} values - Values to average
+	 * @returns {number} Mean, or 0 for an empty list
+	 * @private
+	 */
+	private mean(values: number[]): number {
+		if (values.length === 0) {
+			return 0;
+		}
+		const total = values.reduce((sum, value) => sum + (Number(value) || 0), 0);
+		return Math.round((total / values.length) * 100) / 100;
+	}
+}
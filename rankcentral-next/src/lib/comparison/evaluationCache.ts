@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Persistent cache of criterion evaluations.
+ * An evaluation is keyed by a hash of both documents' contents, the criterion definition,
+ * the prompt template and the model settings that produced it, so it is reused
+ * whenever the same pair is judged the same way again, in this report or any later one.
+ * An evaluation found for the pair in the other order is reused with the documents swapped.
+ */
+
+// src/lib/comparison/evaluationCache.ts
+import { createHash } from 'crypto';
+import { Criterion, CriterionEvaluation, EvaluationCacheStats, EvaluationStore } from './types';
+
+/**
+ * Everything that determines a criterion evaluation besides the model call itself.
+ * @interface EvaluationKeyParts
+ */
+export interface EvaluationKeyParts {
+	/** @type {string} Text of the document shown as "Document A" */
+	documentAText: string;
+	/** @type {string} Text of the document shown as "Document B" */
+	documentBText: string;
+	/** @type {Criterion} Criterion evaluated */
+	criterion: Criterion;
+	/** @type {boolean} Whether the custom prompt template is used */
+	useCustomPrompt: boolean;
+	/** @type {string} Body of the prompt template the evaluation is rendered from */
+	promptTemplate: string;
+	/** @type {string} Model, provider and prompt-sizing settings, serialised by the caller */
+	settings: string;
+}
+
+/**
+ * Hex SHA-256 of a string.
+ * @param {string} value - String to hash
+ * @returns {string} Hash
+ */
+function sha256(value: string): string {
+	return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Hashes the parts of a criterion that reach the prompt. The id is left out, so the
+ * same criterion defined again in a new report still matches.
+ * @param {Criterion} criterion - Criterion to hash
+ * @param {boolean} useCustomPrompt - Whether the custom prompt template is used
+ * @returns {string} Hash
+ */
+export function criterionHash(criterion: Criterion, useCustomPrompt: boolean): string {
+	const levels = Object.entries(criterion.scoringLevels || {}).sort(([a], [b]) => parseInt(a) - parseInt(b));
+	return sha256(JSON.stringify([criterion.name, criterion.description, criterion.weight, levels, useCustomPrompt]));
+}
+
+/**
+ * Turns an evaluation of (A, B) into the evaluation of (B, A). Free-text analysis that
+ * refers to "Document A" or "Document B" is kept as written.
+ * @param {CriterionEvaluation} evaluation - Evaluation to swap
+ * @returns {CriterionEvaluation} Evaluation with the documents swapped
+ */
+export function swapEvaluation(evaluation: CriterionEvaluation): CriterionEvaluation {
+	const swapWinner = (winner: CriterionEvaluation['winner']) => winner === 'A' ? 'B' : winner === 'B' ? 'A' : winner;
+	const swapped: CriterionEvaluation = {
+		...evaluation,
+		documentAScore: evaluation.documentBScore,
+		documentBScore: evaluation.documentAScore,
+		documentAAnalysis: evaluation.documentBAnalysis,
+		documentBAnalysis: evaluation.documentAAnalysis,
+		winner: swapWinner(evaluation.winner)
+	};
+
+	if (evaluation.judgeBreakdown) {
+		swapped.judgeBreakdown = evaluation.judgeBreakdown.map(verdict => ({
+			...verdict,
+			documentAScore: verdict.documentBScore,
+			documentBScore: verdict.documentAScore,
+			winner: swapWinner(verdict.winner)
+		}));
+	}
+
+	return swapped;
+}
+
+/**
+ * Looks up and stores criterion evaluations for a run, and counts hits and misses.
+ * A failing store never fails the run: the lookup counts as a miss and the write is skipped.
+ * @class EvaluationCache
+ */
+export class EvaluationCache {
+	/** @type {EvaluationStore} Where evaluations are kept between runs */
+	readonly store: EvaluationStore;
+	/** @type {EvaluationCacheStats} Cache activity so far */
+	private stats: EvaluationCacheStats = {
+		hits: 0,
+		swappedHits: 0,
+		misses: 0,
+		stored: 0,
+		errors: 0
+	};
+	/** @type {Map<string, string>} Content hashes by document or template text, so each text is hashed once */
+	private contentHashes = new Map<string, string>();
+
+	/**
+	 * Creates a new EvaluationCache instance.
+	 * @param {EvaluationStore} store - Where evaluations are kept between runs
+	 */
+	constructor(store: EvaluationStore) {
+		this.store = store;
+	}
+
+	/**
+	 * Finds a cached evaluation for a pair and criterion.
+	 * @param {EvaluationKeyParts} parts - What the evaluation depends on
+	 * @param {boolean} allowSwap - Whether an evaluation of the pair in the other order may be used
+	 * @returns {Promise<CriterionEvaluation|null>} Cached evaluation in the requested order, or null
+	 */
+	async lookup(parts: EvaluationKeyParts, allowSwap: boolean): Promise<CriterionEvaluation | null> {
+		const forwardKey = this.key(parts);
+		const reverseKey = allowSwap ? this.key({ ...parts, documentAText: parts.documentBText, documentBText: parts.documentAText }) : undefined;
+
+		try {
+			const found = await this.store.get(reverseKey ? [forwardKey, reverseKey] : [forwardKey]);
+
+			const forward = found.get(forwardKey);
+			if (forward) {
+				this.stats.hits++;
+				return forward;
+			}
+
+			const reverse = reverseKey ? found.get(reverseKey) : undefined;
+			if (reverse) {
+				this.stats.hits++;
+				this.stats.swappedHits++;
+				return swapEvaluation(reverse);
+			}
+		} catch (error) {
+			this.stats.errors++;
+			console.warn(`⚠️ Evaluation cache lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+
+		this.stats.misses++;
+		return null;
+	}
+
+	/**
+	 * Stores a new evaluation. Failed evaluations are not stored.
+	 * @param {EvaluationKeyParts} parts - What the evaluation depends on
+	 * @param {CriterionEvaluation} evaluation - Evaluation to store
+	 * @returns {Promise<void>}
+	 */
+	async save(parts: EvaluationKeyParts, evaluation: CriterionEvaluation): Promise<void> {
+		if (evaluation.error) {
+			return;
+		}
+
+		try {
+			await this.store.put(this.key(parts), evaluation);
+			this.stats.stored++;
+		} catch (error) {
+			this.stats.errors++;
+			console.warn(`⚠️ Evaluation cache write failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Cache activity so far.
+	 * @returns {EvaluationCacheStats} Copy of the counters
+	 */
+	summary(): EvaluationCacheStats {
+		return { ...this.stats };
+	}
+
+	/**
+	 * Key of an evaluation: a hash over everything that determines it, in presentation order.
+	 * The template is identified by its body rather than its name and version, so a new
+	 * version only misses the cache where its text actually differs.
+	 * @param {EvaluationKeyParts} parts - What the evaluation depends on
+	 * @returns {string} Key
+	 * @private
+	 */
+	private key(parts: EvaluationKeyParts): string {
+		return sha256(JSON.stringify([
+			this.contentHash(parts.promptTemplate),
+			parts.settings,
+			criterionHash(parts.criterion, parts.useCustomPrompt),
+			this.contentHash(parts.documentAText),
+			this.contentHash(parts.documentBText)
+		]));
+	}
+
+	/**
+	 * Hash of a document's or template's text, computed once per text.
+	 * @param {string} text - Text to hash
+	 * @returns {string} Hash
+	 * @private
+	 */
+	private contentHash(text: string): string {
+		let hash = this.contentHashes.get(text);
+		if (!hash) {
+			hash = sha256(text);
+			this.contentHashes.set(text, hash);
+		}
+		return hash;
+	}
+}
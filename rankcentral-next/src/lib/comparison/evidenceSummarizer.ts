@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Map-reduce summarisation for documents too long to evaluate from selected sections.
+ * When the sections that fit a prompt hold too little of a document's relevant material,
+ * the whole document is split into parts, each part is condensed into the evidence it
+ * holds for the criterion, and the part summaries are merged until they fit. Summaries
+ * are kept per document and criterion, so every comparison of a document reuses them.
+ */
+
+// src/lib/comparison/evidenceSummarizer.ts
+import { decode, encode } from 'gpt-tokenizer';
+import { BudgetExceededError } from './budgetTracker';
+import type { CriterionEvaluator } from './criterionEvaluator';
+import { ReplayMissError } from './llmRecorder';
+import { promptTokenLimit } from './modelContext';
+import { NO_RELEVANT_EVIDENCE, PromptGenerator } from './promptGenerator';
+import { SectionRetriever, splitIntoSections } from './sectionRetriever';
+import { Criterion } from './types';
+
+/** @type {number} Below this share of the relevant material kept by trimming, the document is summarised instead */
+export const MIN_RELEVANCE_COVERAGE = 0.5;
+
+/** @type {string} Placed before a summary so the evaluator knows it is not the document's own text */
+export const SUMMARY_HEADER = '[Condensed evidence: this document is too long to include in full, so the evidence below was extracted from it]';
+
+/** @type {number} Largest document part summarised in one call, in tokens */
+const MAX_CHUNK_TOKENS = 8000;
+
+/** @type {number} Completion allowance of a summarisation call */
+const MAX_SUMMARY_TOKENS = 1000;
+
+/** @type {number} Smallest summary asked for, in tokens */
+const MIN_SUMMARY_TOKENS = 150;
+
+/** @type {number} Most merge rounds before whatever is left is cut to fit */
+const MAX_REDUCE_ROUNDS = 4;
+
+/** @type {number} Share of the token budget a summary aims for, leaving slack for word counts running long */
+const SUMMARY_TARGET_SHARE = 0.9;
+
+/** @type {number} Rough words per token of English prose, to turn token targets into word limits */
+const WORDS_PER_TOKEN = 0.7;
+
+/** @type {number} Tokens taken by the heading placed before each note in a merge prompt */
+const NOTE_HEADING_TOKENS = 8;
+
+/**
+ * Model calls and tokens of summarising one document for one criterion.
+ * @interface SummaryCost
+ */
+export interface SummaryCost {
+	/** @type {number} Part and merge calls */
+	calls: number;
+	/** @type {number} Prompt tokens across the calls */
+	inputTokens: number;
+	/** @type {number} Completion allowance across the calls, which summaries aim to fill */
+	outputTokens: number;
+}
+
+/**
+ * Predicts the calls a map-reduce summary will take before any are made, following the
+ * same part sizes, summary shares and merge rounds as {@link EvidenceSummarizer}.
+ * Completions are counted at their full allowance, so the prediction errs high.
+ * @param {number} documentTokens - Tokens in the document
+ * @param {number} tokenBudget - Most tokens the summary should have
+ * @param {string} modelName - Model writing the summary
+ * @param {Criterion} criterion - Criterion the evidence is for
+ * @param {number} [contextBudget] - Cap on prompt tokens per call, below the model's context window
+ * @returns {SummaryCost} Calls and tokens of the summary
+ */
+export function estimateSummaryCost(
+	documentTokens: number,
+	tokenBudget: number,
+	modelName: string,
+	criterion: Criterion,
+	contextBudget?: number
+): SummaryCost {
+	const promptGenerator = new PromptGenerator();
+	const limit = promptTokenLimit([modelName], MAX_SUMMARY_TOKENS, contextBudget);
+	const target = Math.max(MIN_SUMMARY_TOKENS, Math.floor(tokenBudget * SUMMARY_TARGET_SHARE) - encode(SUMMARY_HEADER).length);
+	const shareOf = (parts: number) => Math.max(MIN_SUMMARY_TOKENS, Math.min(MAX_SUMMARY_TOKENS, Math.floor(target / parts)));
+
+	const mapOverhead = encode(promptGenerator.generateEvidenceSummaryPrompt('', '', 1, 1, criterion, 0)).length;
+	const chunks = Math.max(1, Math.ceil(documentTokens / Math.max(1, Math.min(MAX_CHUNK_TOKENS, limit - mapOverhead))));
+	let calls = chunks;
+	let inputTokens = documentTokens + chunks * mapOverhead;
+	let summaryTokens = chunks * shareOf(chunks);
+	let outputTokens = summaryTokens;
+
+	const mergeOverhead = encode(promptGenerator.generateEvidenceMergePrompt('', [], criterion, 0)).length;
+	for (let round = 1; round <= MAX_REDUCE_ROUNDS && summaryTokens > target; round++) {
+		const groups = Math.ceil(summaryTokens / Math.max(1, limit - mergeOverhead));
+		calls += groups;
+		inputTokens += summaryTokens + groups * mergeOverhead;
+		summaryTokens = groups * shareOf(groups);
+		outputTokens += summaryTokens;
+	}
+
+	return { calls, inputTokens, outputTokens };
+}
+
+/**
+ * Groups consecutive texts so that each group fits a token limit. A text larger
+ * than the limit gets a group of its own.
+ * @param {string[]} texts - Texts in order
+ * @param {number} maxTokens - Most tokens per group
+ * @param {number} [itemOverhead=0] - Tokens added per text when grouped
+ * @returns {string[][]} Groups in order
+ */
+function packTexts(texts: string[], maxTokens: number, itemOverhead = 0): string[][] {
+	const groups: string[][] = [];
+	let current: string[] = [];
+	let currentTokens = 0;
+
+	for (const text of texts) {
+		const tokens = encode(text).length + itemOverhead;
+		if (current.length > 0 && currentTokens + tokens > maxTokens) {
+			groups.push(current);
+			current = [];
+			currentTokens = 0;
+		}
+		current.push(text);
+		currentTokens += tokens;
+	}
+	if (current.length > 0) {
+		groups.push(current);
+	}
+
+	return groups;
+}
+
+/**
+ * Whether a summary holds any evidence, rather than the "nothing relevant" reply.
+ * @param {string} summary - Summary returned by the model
+ * @returns {boolean} True if the summary should be kept
+ */
+function hasEvidence(summary: string): boolean {
+	const letters = summary.replace(/[^a-z]/gi, '').toUpperCase();
+	return letters.length > 0 && letters !== NO_RELEVANT_EVIDENCE.replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Fits documents into a token budget per criterion: by selecting sections when they
+ * keep enough of the relevant material, and by map-reduce summarisation otherwise.
+ * @class EvidenceSummarizer
+ */
+export class EvidenceSummarizer {
+	/** @type {CriterionEvaluator} Makes the summarisation calls */
+	readonly evaluator: CriterionEvaluator;
+	/** @type {SectionRetriever} Selects sections, tried before summarising */
+	readonly sectionRetriever: SectionRetriever;
+	/** @type {number} Most prompt tokens per summarisation call */
+	readonly promptTokenLimit: number;
+	/** @type {PromptGenerator} Builds the summarisation prompts */
+	private promptGenerator = new PromptGenerator();
+	/** @type {Map<string, Promise<string>>} Summaries by document and criterion, shared by concurrent comparisons */
+	private summaries = new Map<string, Promise<string>>();
+
+	/**
+	 * Creates a new EvidenceSummarizer instance.
+	 * @param {CriterionEvaluator} evaluator - Makes the summarisation calls
+	 * @param {SectionRetriever} sectionRetriever - Selects sections, tried before summarising
+	 * @param {number} [contextBudget] - Cap on prompt tokens per call, below the model's context window
+	 */
+	constructor(evaluator: CriterionEvaluator, sectionRetriever: SectionRetriever, contextBudget?: number) {
+		this.evaluator = evaluator;
+		this.sectionRetriever = sectionRetriever;
+		this.promptTokenLimit = promptTokenLimit([evaluator.modelName], MAX_SUMMARY_TOKENS, contextBudget);
+	}
+
+	/**
+	 * Returns a document's text for a criterion within a token budget. Text that fits is
+	 * returned unchanged; otherwise the best sections are selected, and if they keep less
+	 * than {@link MIN_RELEVANCE_COVERAGE} of the relevant material the document is
+	 * summarised instead. A failed summary falls back to the selected sections.
+	 * @param {string} documentName - Document name
+	 * @param {string} text - Document text
+	 * @param {Criterion} criterion - Criterion being evaluated
+	 * @param {string} query - What the passages should be about
+	 * @param {number} tokenBudget - Most tokens the result may have
+	 * @returns {Promise<string>} Text, sections or summary to put in the prompt
+	 * @throws {BudgetExceededError|ReplayMissError} When a summarisation call is refused or has no record
+	 */
+	async fit(documentName: string, text: string, criterion: Criterion, query: string, tokenBudget: number): Promise<string> {
+		const selection = this.sectionRetriever.selectSections(documentName, text, query, tokenBudget);
+		if (!selection.trimmed || selection.coverage >= MIN_RELEVANCE_COVERAGE) {
+			return selection.text;
+		}
+
+		console.log(`🗜️ ${documentName}: selected sections keep ${Math.round(selection.coverage * 100)}% of the material relevant to ${criterion.name}, summarising instead`);
+
+		try {
+			const summary = await this.summarize(documentName, text, criterion, tokenBudget);
+			const tokens = encode(summary);
+			// A summary cached for a slightly larger budget is cut rather than redone
+			return tokens.length <= tokenBudget ? summary : decode(tokens.slice(0, tokenBudget));
+		} catch (error) {
+			if (error instanceof BudgetExceededError || error instanceof ReplayMissError) {
+				throw error;
+			}
+
+			console.warn(`⚠️ Summarising ${documentName} for ${criterion.name} failed (${error instanceof Error ? error.message : 'Unknown error'}), using selected sections`);
+			return selection.text;
+		}
+	}
+
+	/**
+	 * Returns the summary of a document for a criterion, summarising it on first use.
+	 * @param {string} documentName - Document name
+	 * @param {string} text - Document text
+	 * @param {Criterion} criterion - Criterion the evidence is for
+	 * @param {number} tokenBudget - Most tokens the summary should have
+	 * @returns {Promise<string>} Summary, starting with {@link SUMMARY_HEADER}
+	 */
+	summarize(documentName: string, text: string, criterion: Criterion, tokenBudget: number): Promise<string> {
+		const key = `${documentName}\u0000${criterion.id || criterion.name}`;
+		let summary = this.summaries.get(key);
+
+		if (!summary) {
+			summary = this.mapReduce(documentName, text, criterion, tokenBudget);
+			this.summaries.set(key, summary);
+			// A failed summary is forgotten so a later comparison can try again
+			summary.catch(() => this.summaries.delete(key));
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Summarises each part of a document, then merges the part summaries in rounds
+	 * until they fit the target size.
+	 * @param {string} documentName - Document name
+	 * @param {string} text - Document text
+	 * @param {Criterion} criterion - Criterion the evidence is for
+	 * @param {number} tokenBudget - Most tokens the summary should have
+	 * @returns {Promise<string>} Summary, starting with {@link SUMMARY_HEADER}
+	 * @private
+	 */
+	private async mapReduce(documentName: string, text: string, criterion: Criterion, tokenBudget: number): Promise<string> {
+		const target = Math.max(MIN_SUMMARY_TOKENS, Math.floor(tokenBudget * SUMMARY_TARGET_SHARE) - encode(SUMMARY_HEADER).length);
+		const shareOf = (parts: number) => Math.max(MIN_SUMMARY_TOKENS, Math.min(MAX_SUMMARY_TOKENS, Math.floor(target / parts)));
+		const wordLimit = (tokens: number) => Math.floor(tokens * WORDS_PER_TOKEN);
+		let calls = 0;
+
+		const request = async (prompt: string, maxTokens: number) => {
+			calls++;
+			return (await this.evaluator.complete(prompt, maxTokens)).trim();
+		};
+
+		// Map: each part is condensed to an even share of the target, so one merge usually suffices
+		const mapOverhead = encode(this.promptGenerator.generateEvidenceSummaryPrompt(documentName, '', 1, 1, criterion, 0)).length;
+		const chunks = packTexts(splitIntoSections(text), Math.min(MAX_CHUNK_TOKENS, this.promptTokenLimit - mapOverhead));
+		const mapTokens = shareOf(chunks.length);
+
+		console.log(`🗺️ Summarising ${documentName} for ${criterion.name}: ${chunks.length} parts, aiming for ~${target} tokens`);
+
+		let summaries = (await Promise.all(chunks.map((chunk, index) => request(
+			this.promptGenerator.generateEvidenceSummaryPrompt(documentName, chunk.join('\n\n'), index + 1, chunks.length, criterion, wordLimit(mapTokens)),
+			mapTokens
+		)))).filter(hasEvidence);
+
+		// Reduce: merge neighbouring summaries until the whole fits
+		const mergeOverhead = encode(this.promptGenerator.generateEvidenceMergePrompt(documentName, [], criterion, 0)).length;
+		for (let round = 1; round <= MAX_REDUCE_ROUNDS && summaries.length > 0 && encode(summaries.join('\n\n')).length > target; round++) {
+			const groups = packTexts(summaries, this.promptTokenLimit - mergeOverhead, NOTE_HEADING_TOKENS);
+			const mergeTokens = shareOf(groups.length);
+
+			summaries = (await Promise.all(groups.map(group => request(
+				this.promptGenerator.generateEvidenceMergePrompt(documentName, group, criterion, wordLimit(mergeTokens)),
+				mergeTokens
+			)))).filter(hasEvidence);
+		}
+
+		const evidence = summaries.length > 0
+			? summaries.join('\n\n')
+			: 'No evidence relevant to this criterion was found in the document.';
+		const summary = `${SUMMARY_HEADER}\n\n${evidence}`;
+
+		console.log(`📝 Summarised ${documentName} for ${criterion.name}: ${encode(text).length} → ${encode(summary).length} tokens in ${calls} calls`);
+		return summary;
+	}
+}
@@ -9,22 +9,58 @@
 
 import { ComparisonEngine } from './comparisonEngine';
 import { PDFProcessor } from './pdfProcessor';
+import { ComparisonEngineOptions } from './types';
 // Core types
 export * from './types';
 
 // Main components
-export { ComparisonEngine } from './comparisonEngine';
-export { DocumentComparator } from './documentComparator';
+export { ComparisonEngine, DEFAULT_REFINEMENT_ROUNDS } from './comparisonEngine';
+export { DocumentComparator, isPositionBiasMode, POSITION_BIAS_MODES } from './documentComparator';
 export { CriterionEvaluator } from './criterionEvaluator';
-export { PromptGenerator } from './promptGenerator';
+export { EnsembleEvaluator, ENSEMBLE_AGGREGATIONS, isEnsembleAggregation, MAX_JUDGES, normalizeJudges } from './ensembleEvaluator';
+export { DEFAULT_PROMPT_TEMPLATE_NAME, DEFAULT_PROMPT_TEMPLATES, PROMPT_TEMPLATE_VERSION, PromptGenerator, renderPromptTemplate } from './promptGenerator';
+export { isPromptTemplateKind, MAX_PROMPT_TEMPLATE_LENGTH, normalizePromptTemplate, PROMPT_TEMPLATE_KINDS, PROMPT_TEMPLATE_VARIABLES, PromptTemplateError, promptTemplateKind, REQUIRED_PROMPT_TEMPLATE_VARIABLES, resolvePromptTemplate, validatePromptTemplate } from './promptTemplates';
 export { CriteriaManager } from './criteriaManager';
 export { ReportGenerator } from './reportGenerator';
 export { ComparisonDataProcessor } from './dataProcessor';
+export { BradleyTerryEstimator } from './bradleyTerry';
+export { ConsistencyAnalyzer, DEFAULT_MAX_EXTRA_COMPARISONS } from './consistencyAnalyzer';
+export { PointwiseScorer } from './pointwiseScorer';
+export { anonymizeDocuments, anonymizeText, BLIND_ALIAS_PREFIX, BlindReview, normalizeBlindReview, rewriteEvaluationText, rewriteScoreText, WITHHELD_EMAIL, WITHHELD_NAME } from './blindReview';
+export { isPiiCategory, MAX_CUSTOM_PATTERN_LENGTH, MAX_CUSTOM_PATTERNS, mergeRedactionConfigs, normalizeRedactionSummary, parseRedactionConfig, PII_CATEGORIES, PiiRedactor, RedactionConfigError } from './piiRedactor';
+export { BudgetExceededError, BudgetTracker } from './budgetTracker';
+export { LlmRecorder, ReplayMissError } from './llmRecorder';
+export type { LlmProvider } from './llmProvider';
+export type { MockFixture } from './mockProvider';
+export { loadMockFixtures, MOCK_MODEL_NAME, MockProvider } from './mockProvider';
+export { AnthropicProvider, AzureOpenAIProvider, createLlmProvider, DEFAULT_PROVIDER_MODELS, getProviderApiKey, hasUsableApiKey, isLlmProviderName, LLM_PROVIDERS, LlmApiError, OpenAIProvider, parseRetryAfter, requiresApiKey, resolveProviderConfig } from './llmProvider';
+export { DEFAULT_RATE_LIMITS, DEFAULT_RETRY_POLICY, getRateLimiter, RateLimiter, rateLimitsFromEnv, RequestScheduler } from './requestScheduler';
+export type { LlmClaim } from './llmRecorder';
+export { buildRepairPrompt, extractJson, MAX_REPAIR_ATTEMPTS, PAIRWISE_EVALUATION_SCHEMA, parseStructuredResponse, POINTWISE_SCORE_SCHEMA, StructuredOutputError, validateJson } from './structuredOutput';
+export { CostEstimator } from './costEstimator';
+export { applyVerdictOverrides, MIN_JUSTIFICATION_LENGTH, parseVerdictOverride, VerdictOverrideError } from './verdictOverrides';
+export { costOf, getModelPricing, MODEL_PRICING } from './modelPricing';
+export { completionAllowance, getContextWindow, MIN_CONTEXT_BUDGET, MODEL_CONTEXT_WINDOWS, parseContextBudget, promptTokenLimit } from './modelContext';
+export type { DocumentSection, SectionSelection } from './sectionRetriever';
+export { criterionQuery, DEFAULT_SECTION_TOKENS, OMISSION_MARKER, SectionRetriever, splitIntoSections, tokenizeTerms } from './sectionRetriever';
+export type { EvaluationKeyParts } from './evaluationCache';
+export { criterionHash, EvaluationCache, swapEvaluation } from './evaluationCache';
+export { estimateSummaryCost, EvidenceSummarizer, MIN_RELEVANCE_COVERAGE, SUMMARY_HEADER } from './evidenceSummarizer';
+export { getProgress, isProgressId, MAX_PROGRESS_EVENTS, PROGRESS_RETENTION_MS, ProgressTracker, releaseProgress, startProgress } from './progressTracker';
+export { accumulateUsage, emptyUsage, roundCost, sumUsage, usageOf, UsageTracker } from './usageTracker';
 import ApiClient from './apiClient';
 export { ApiClient };
 
-// Utility functions
-export { mergesortWithComparator, mergeWithComparator, MergesortRanker } from './mergesortRanking';
+// Ranking strategies
+export type { AsyncComparator, RankingStrategy, RankingStrategyOptions } from './rankingStrategy';
+export { createRankingStrategy, estimateComparisonCount, isRankingStrategyName, recommendRankingStrategy, RANKING_STRATEGIES } from './rankingStrategy';
+export { binaryInsertWithComparator, mergesortWithComparator, mergeWithComparator, MergesortStrategy } from './mergesortRanking';
+export { RoundRobinStrategy } from './roundRobinRanking';
+export { SwissStrategy } from './swissRanking';
+export { TopKStrategy, DEFAULT_SHORTLIST_SIZE } from './topKRanking';
+export type { TierPosition } from './rankingTiers';
+export { flattenTiers, normalizeRankingTiers, tierPositions } from './rankingTiers';
+export { WorkerPool, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from './workerPool';
 
 // Factory function to create a comparison engine
 export function createComparisonEngine(
@@ -32,7 +68,8 @@ export function createComparisonEngine(
 	criteria: any[],
 	openaiApiKey: string,
 	useCustomPrompt = false,
-	modelName = 'gpt-4.1-mini'
+	modelName = 'gpt-4.1-mini',
+	options: ComparisonEngineOptions = {}
 ) {
 	// Create a new PDF processor instance for this comparison
 	const pdfProcessor = new PDFProcessor();
@@ -42,6 +79,7 @@ export function createComparisonEngine(
 		openaiApiKey,
 		pdfProcessor,
 		useCustomPrompt,
-		modelName
+		modelName,
+		options
 	);
 }
@@ -0,0 +1,403 @@
+/**
+ * @fileoverview Services that answer model calls.
+ * Every provider takes the same request (model, temperature, token allowance and a
+ * single user prompt) and returns the completion text with chat-completions style
+ * usage, so the evaluators do not depend on any one vendor's client. Providers that
+ * can constrain output to a JSON schema do so when the request carries one.
+ */
+
+// src/lib/comparison/llmProvider.ts
+import { AzureOpenAI, OpenAI } from 'openai';
+import { loadMockFixtures, MOCK_MODEL_NAME, MockProvider } from './mockProvider';
+import { LlmCompletion, LlmProviderConfig, LlmProviderName, LlmRequest } from './types';
+
+/** @type {LlmProviderName[]} Every supported provider */
+export const LLM_PROVIDERS: LlmProviderName[] = ['openai', 'azure', 'anthropic', 'openai-compatible', 'mock'];
+
+/** @type {Record<LlmProviderName, string>} Model used when a report does not name one */
+export const DEFAULT_PROVIDER_MODELS: Record<LlmProviderName, string> = {
+	openai: 'gpt-4.1-mini',
+	azure: 'gpt-4.1-mini',
+	anthropic: 'claude-3-5-haiku-latest',
+	'openai-compatible': 'llama3.1',
+	mock: MOCK_MODEL_NAME
+};
+
+/** @type {string} Azure OpenAI API version used when none is configured */
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/** @type {string} Anthropic Messages API version header */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * A model call the service rejected or that never reached it.
+ * @class LlmApiError
+ * @extends Error
+ */
+export class LlmApiError extends Error {
+	/** @type {number|undefined} HTTP status, or undefined when the service could not be reached */
+	status?: number;
+	/** @type {string|undefined} Service error code, such as 'insufficient_quota' */
+	code?: string;
+	/** @type {number|undefined} Wait the service asked for before the next call, in milliseconds */
+	retryAfterMs?: number;
+
+	/**
+	 * Creates a new LlmApiError instance.
+	 * @param {string} message - Error message
+	 * @param {number} [status] - HTTP status
+	 * @param {number} [retryAfterMs] - Wait the service asked for, in milliseconds
+	 * @param {string} [code] - Service error code
+	 */
+	constructor(message: string, status?: number, retryAfterMs?: number, code?: string) {
+		super(message);
+		this.name = 'LlmApiError';
+		this.status = status;
+		this.retryAfterMs = retryAfterMs;
+		this.code = code;
+	}
+
+	/**
+	 * Whether the same call may succeed later: connection failures, timeouts, rate
+	 * limits and server errors. An exhausted quota is reported as 429 but never clears.
+	 * @returns {boolean} True if the call is worth retrying
+	 */
+	get retryable(): boolean {
+		if (this.code === 'insufficient_quota') {
+			return false;
+		}
+		return this.status === undefined || this.status === 408 || this.status === 409 || this.status === 429 || this.status >= 500;
+	}
+}
+
+/**
+ * Reads the wait a service asked for from its response headers.
+ * Accepts `retry-after-ms`, and `retry-after` as seconds or an HTTP date.
+ * @param {(name: string) => string | null | undefined} header - Header lookup by lower-case name
+ * @returns {number|undefined} Wait in milliseconds, if the service gave one
+ */
+export function parseRetryAfter(header: (name: string) => string | null | undefined): number | undefined {
+	const milliseconds = parseFloat(header('retry-after-ms') || '');
+	if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+		return milliseconds;
+	}
+
+	const value = header('retry-after');
+	if (!value) {
+		return undefined;
+	}
+
+	const seconds = parseFloat(value);
+	if (Number.isFinite(seconds) && seconds >= 0) {
+		return seconds * 1000;
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Checks whether a value names a supported provider.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is an LlmProviderName
+ */
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+	return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Whether a provider refuses calls without an API key. Local OpenAI-compatible
+ * servers usually accept any key, so none is required for them, and the mock
+ * provider calls no service at all.
+ * @param {LlmProviderName} provider - Provider to check
+ * @returns {boolean} True if an API key must be configured
+ */
+export function requiresApiKey(provider: LlmProviderName): boolean {
+	return provider !== 'openai-compatible' && provider !== 'mock';
+}
+
+/**
+ * Checks an API key for a provider.
+ * @param {LlmProviderName} provider - Provider the key is for
+ * @param {string} apiKey - Key to check
+ * @returns {boolean} True if the key is present, or the provider needs none
+ */
+export function hasUsableApiKey(provider: LlmProviderName, apiKey: string): boolean {
+	return !requiresApiKey(provider) || (typeof apiKey === 'string' && apiKey.trim().length > 0);
+}
+
+/**
+ * Builds a provider configuration from the server environment. Endpoints are never
+ * taken from clients, so a report can only send documents where the operator allows.
+ * @param {LlmProviderName} provider - Provider selected for the report
+ * @returns {LlmProviderConfig} Configuration with endpoint and API version filled in
+ */
+export function resolveProviderConfig(provider: LlmProviderName): LlmProviderConfig {
+	switch (provider) {
+		case 'azure':
+			return {
+				provider,
+				baseUrl: process.env.AZURE_OPENAI_ENDPOINT || undefined,
+				apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION
+			};
+		case 'anthropic':
+			return { provider, baseUrl: process.env.ANTHROPIC_BASE_URL || undefined };
+		case 'openai-compatible':
+			return { provider, baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || undefined };
+		case 'mock':
+			return { provider, fixturesPath: process.env.MOCK_LLM_FIXTURES || undefined };
+		default:
+			return { provider };
+	}
+}
+
+/**
+ * Reads the API key for a provider from the server environment.
+ * @param {LlmProviderName} provider - Provider to look up
+ * @returns {string|undefined} Configured key, if any
+ */
+export function getProviderApiKey(provider: LlmProviderName): string | undefined {
+	switch (provider) {
+		case 'azure':
+			return process.env.AZURE_OPENAI_API_KEY;
+		case 'anthropic':
+			return process.env.ANTHROPIC_API_KEY;
+		case 'openai-compatible':
+			return process.env.OPENAI_COMPATIBLE_API_KEY;
+		default:
+			return process.env.OPENAI_API_KEY;
+	}
+}
+
+/**
+ * Sends a single-prompt request to a model service.
+ * @interface LlmProvider
+ */
+export interface LlmProvider {
+	/** @type {LlmProviderName} Provider identifier */
+	readonly name: LlmProviderName;
+
+	/**
+	 * Sends the prompt and waits for the completion.
+	 * @param {LlmRequest} request - Model, sampling settings and prompt
+	 * @returns {Promise<LlmCompletion>} Completion text and token usage
+	 * @throws {Error} When the service rejects the call
+	 */
+	complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * Sends a request through an OpenAI SDK client, which also drives Azure and compatible servers.
+ * @param {OpenAI} client - SDK client
+ * @param {LlmRequest} request - Model, sampling settings and prompt
+ * @param {boolean} enforceSchema - Whether to send the response schema as a strict response format
+ * @returns {Promise<LlmCompletion>} Completion text and token usage
+ */
+async function completeChat(client: OpenAI, request: LlmRequest, enforceSchema: boolean): Promise<LlmCompletion> {
+	let response: OpenAI.Chat.Completions.ChatCompletion;
+	try {
+		response = await client.chat.completions.create({
+			temperature: request.temperature,
+			max_tokens: request.maxTokens,
+			model: request.modelName,
+			seed: 42, // Fixed seed for deterministic results
+			messages: [
+				{ role: "user", content: request.prompt }
+			],
+			...(enforceSchema && request.responseSchema
+				? {
+					response_format: {
+						type: 'json_schema' as const,
+						json_schema: {
+							name: request.responseSchema.name,
+							schema: { ...request.responseSchema.schema },
+							strict: true
+						}
+					}
+				}
+				: {})
+		});
+	} catch (error) {
+		// Connection failures have no status and are retryable like server errors
+		if (error instanceof OpenAI.APIError) {
+			const headers = error.headers;
+			throw new LlmApiError(
+				error.message,
+				error.status,
+				parseRetryAfter(name => headers?.[name]),
+				typeof error.code === 'string' ? error.code : undefined
+			);
+		}
+		throw error;
+	}
+
+	return {
+		content: response.choices[0]?.message.content || "",
+		usage: response.usage
+	};
+}
+
+/**
+ * The OpenAI chat completions API, or any server that speaks it.
+ * @class OpenAIProvider
+ * @implements {LlmProvider}
+ */
+export class OpenAIProvider implements LlmProvider {
+	readonly name: LlmProviderName;
+	/** @type {OpenAI} SDK client */
+	private client: OpenAI;
+
+	/**
+	 * Creates a new OpenAIProvider instance.
+	 * @param {string} apiKey - API key
+	 * @param {string} [baseUrl] - Endpoint of an OpenAI-compatible server
+	 */
+	constructor(apiKey: string, baseUrl?: string) {
+		this.name = baseUrl ? 'openai-compatible' : 'openai';
+		// The SDK refuses an empty key even when the server ignores it. Retries are left
+		// to the request scheduler, which shares rate limits across calls
+		this.client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseUrl, maxRetries: 0 });
+	}
+
+	async complete(request: LlmRequest): Promise<LlmCompletion> {
+		// Compatible servers differ in how much of structured outputs they accept, so they get the prompt alone
+		return completeChat(this.client, request, this.name === 'openai');
+	}
+}
+
+/**
+ * An Azure OpenAI resource. The request's model name is used as the deployment name.
+ * @class AzureOpenAIProvider
+ * @implements {LlmProvider}
+ */
+export class AzureOpenAIProvider implements LlmProvider {
+	readonly name: LlmProviderName = 'azure';
+	/** @type {AzureOpenAI} SDK client */
+	private client: AzureOpenAI;
+
+	/**
+	 * Creates a new AzureOpenAIProvider instance.
+	 * @param {string} apiKey - Azure OpenAI key
+	 * @param {string} endpoint - Resource endpoint, e.g. https://my-resource.openai.azure.com
+	 * @param {string} [apiVersion] - API version
+	 */
+	constructor(apiKey: string, endpoint: string, apiVersion: string = DEFAULT_AZURE_API_VERSION) {
+		this.client = new AzureOpenAI({ apiKey, endpoint, apiVersion, maxRetries: 0 });
+	}
+
+	async complete(request: LlmRequest): Promise<LlmCompletion> {
+		return completeChat(this.client, request, true);
+	}
+}
+
+/**
+ * The Anthropic Messages API, called over HTTP.
+ * @class AnthropicProvider
+ * @implements {LlmProvider}
+ */
+export class AnthropicProvider implements LlmProvider {
+	readonly name: LlmProviderName = 'anthropic';
+	/** @type {string} API key */
+	private apiKey: string;
+	/** @type {string} API root */
+	private baseUrl: string;
+
+	/**
+	 * Creates a new AnthropicProvider instance.
+	 * @param {string} apiKey - Anthropic API key
+	 * @param {string} [baseUrl='https://api.anthropic.com'] - API root
+	 */
+	constructor(apiKey: string, baseUrl: string = 'https://api.anthropic.com') {
+		this.apiKey = apiKey;
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+	}
+
+	async complete(request: LlmRequest): Promise<LlmCompletion> {
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl}/v1/messages`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'x-api-key': this.apiKey,
+					'anthropic-version': ANTHROPIC_VERSION
+				},
+				body: JSON.stringify({
+					model: request.modelName,
+					max_tokens: request.maxTokens,
+					temperature: request.temperature,
+					messages: [
+						{ role: 'user', content: request.prompt }
+					],
+					// A forced tool call is how the Messages API constrains output to a schema
+					...(request.responseSchema
+						? {
+							tools: [{
+								name: request.responseSchema.name,
+								description: 'Record the evaluation.',
+								input_schema: request.responseSchema.schema
+							}],
+							tool_choice: { type: 'tool', name: request.responseSchema.name }
+						}
+						: {})
+				})
+			});
+		} catch (error) {
+			throw new LlmApiError(`Anthropic API unreachable: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		const data = await response.json().catch(() => null);
+		if (!response.ok) {
+			throw new LlmApiError(
+				`Anthropic API error ${response.status}: ${data?.error?.message || response.statusText}`,
+				response.status,
+				parseRetryAfter(name => response.headers.get(name)),
+				data?.error?.type
+			);
+		}
+
+		const blocks: Array<{ type: string; text?: string; input?: unknown }> = Array.isArray(data?.content) ? data.content : [];
+		const toolUse = blocks.find(block => block.type === 'tool_use');
+		const content = toolUse
+			? JSON.stringify(toolUse.input)
+			: blocks
+				.filter(block => block.type === 'text')
+				.map(block => block.text || '')
+				.join('');
+
+		return {
+			content,
+			usage: data?.usage
+				? { prompt_tokens: data.usage.input_tokens ?? 0, completion_tokens: data.usage.output_tokens ?? 0 }
+				: null
+		};
+	}
+}
+
+/**
+ * Creates the provider for a configuration.
+ * @param {LlmProviderConfig} [config] - Provider settings (defaults to OpenAI)
+ * @param {string} apiKey - API key for the provider
+ * @returns {LlmProvider} Provider instance
+ * @throws {Error} When a provider that needs an endpoint has none
+ */
+export function createLlmProvider(config: LlmProviderConfig | undefined, apiKey: string): LlmProvider {
+	switch (config?.provider) {
+		case 'azure':
+			if (!config.baseUrl) {
+				throw new Error('Azure OpenAI needs an endpoint (AZURE_OPENAI_ENDPOINT)');
+			}
+			return new AzureOpenAIProvider(apiKey, config.baseUrl, config.apiVersion);
+		case 'anthropic':
+			return new AnthropicProvider(apiKey, config.baseUrl);
+		case 'openai-compatible':
+			if (!config.baseUrl) {
+				throw new Error('An OpenAI-compatible provider needs a base URL (OPENAI_COMPATIBLE_BASE_URL)');
+			}
+			return new OpenAIProvider(apiKey, config.baseUrl);
+		case 'mock':
+			return new MockProvider(config.fixturesPath ? loadMockFixtures(config.fixturesPath) : []);
+		default:
+			return new OpenAIProvider(apiKey);
+	}
+}
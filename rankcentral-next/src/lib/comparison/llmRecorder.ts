@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Record-and-replay of model calls.
+ * In record mode every prompt and raw completion is kept under a hash of the request.
+ * In replay mode calls are answered from those records instead of the API, so a
+ * report's ranking can be rebuilt offline and audited or recomputed after a fix.
+ */
+
+// src/lib/comparison/llmRecorder.ts
+import { createHash } from 'crypto';
+import { LlmRecord, LlmRecorderMode, LlmRequest } from './types';
+
+/**
+ * Thrown in replay mode when a call has no recorded completion.
+ * @class ReplayMissError
+ * @extends Error
+ */
+export class ReplayMissError extends Error {
+	/** @type {string} Hash of the request that was not found */
+	hash: string;
+
+	/**
+	 * Creates a new ReplayMissError instance.
+	 * @param {string} hash - Hash of the request that was not found
+	 */
+	constructor(hash: string) {
+		super(`No recorded response for request ${hash.substring(0, 12)}`);
+		this.name = 'ReplayMissError';
+		this.hash = hash;
+	}
+}
+
+/**
+ * Position of a call among the calls with the same request in a run.
+ * @interface LlmClaim
+ */
+export interface LlmClaim {
+	/** @type {string} Hash of the request */
+	hash: string;
+	/** @type {number} 0 for the first call with this hash, 1 for the second, and so on */
+	occurrence: number;
+}
+
+/**
+ * Keeps model calls for later, or answers them from earlier records.
+ * @class LlmRecorder
+ */
+export class LlmRecorder {
+	/** @type {LlmRecorderMode} Whether calls are recorded or replayed */
+	readonly mode: LlmRecorderMode;
+	/** @type {Map<string, LlmRecord[]>} Records by request hash, in occurrence order */
+	private byHash = new Map<string, LlmRecord[]>();
+	/** @type {LlmRecord[]} Records in the order the calls were made */
+	private recorded: LlmRecord[] = [];
+	/** @type {Map<string, number>} Calls claimed so far per request hash */
+	private claimed = new Map<string, number>();
+	/** @type {number} Replayed calls that had no record */
+	private misses = 0;
+
+	/**
+	 * Creates a new LlmRecorder instance.
+	 * @param {LlmRecorderMode} [mode='record'] - Whether calls are recorded or replayed
+	 * @param {LlmRecord[]} [records=[]] - Earlier records to replay from
+	 */
+	constructor(mode: LlmRecorderMode = 'record', records: LlmRecord[] = []) {
+		this.mode = mode;
+
+		for (const record of records) {
+			const list = this.byHash.get(record.hash) || [];
+			list.push(record);
+			this.byHash.set(record.hash, list);
+		}
+		for (const list of this.byHash.values()) {
+			list.sort((a, b) => a.occurrence - b.occurrence);
+		}
+	}
+
+	/**
+	 * Hashes everything that determines a completion.
+	 * @param {LlmRequest} request - Model call
+	 * @returns {string} Hex SHA-256 digest
+	 */
+	static hashRequest(request: LlmRequest): string {
+		return createHash('sha256')
+			.update(JSON.stringify([request.modelName, request.temperature, request.maxTokens, request.prompt]))
+			.digest('hex');
+	}
+
+	/**
+	 * Reserves the next occurrence of a request.
+	 * Call this before any await, so identical prompts sent side by side (for example
+	 * by judges on the same model) keep the same order in the record and the replay.
+	 * @param {LlmRequest} request - Model call about to be made
+	 * @returns {LlmClaim} Hash and occurrence of the call
+	 */
+	claim(request: LlmRequest): LlmClaim {
+		const hash = LlmRecorder.hashRequest(request);
+		const occurrence = this.claimed.get(hash) || 0;
+		this.claimed.set(hash, occurrence + 1);
+		return { hash, occurrence };
+	}
+
+	/**
+	 * Looks up the recorded completion of a call.
+	 * A call made more often than it was recorded gets the first recorded answer.
+	 * @param {LlmClaim} claim - Claim made for the call
+	 * @returns {LlmRecord} Matching record
+	 * @throws {ReplayMissError} When the request was never recorded
+	 */
+	replay(claim: LlmClaim): LlmRecord {
+		const list = this.byHash.get(claim.hash);
+
+		if (!list || list.length === 0) {
+			this.misses++;
+			throw new ReplayMissError(claim.hash);
+		}
+
+		return list.find(record => record.occurrence === claim.occurrence) || list[0];
+	}
+
+	/**
+	 * Keeps a completed call.
+	 * @param {LlmClaim} claim - Claim made for the call
+	 * @param {LlmRequest} request - Model call
+	 * @param {string} completion - Raw completion text
+	 * @param {LlmRecord['usage']} [usage] - Token usage reported by the API
+	 */
+	record(claim: LlmClaim, request: LlmRequest, completion: string, usage?: LlmRecord['usage']): void {
+		// The response schema is fixed per kind of call, so it is neither hashed nor stored
+		const record: LlmRecord = {
+			modelName: request.modelName,
+			temperature: request.temperature,
+			maxTokens: request.maxTokens,
+			prompt: request.prompt,
+			hash: claim.hash,
+			occurrence: claim.occurrence,
+			completion,
+			usage: usage ? { prompt_tokens: usage.prompt_tokens, completion_tokens: usage.completion_tokens } : null,
+			timestamp: new Date().toISOString()
+		};
+
+		this.recorded.push(record);
+		const list = this.byHash.get(claim.hash) || [];
+		list.push(record);
+		this.byHash.set(claim.hash, list);
+	}
+
+	/**
+	 * Records made by this recorder, in call order.
+	 * @returns {LlmRecord[]} New records
+	 */
+	get records(): LlmRecord[] {
+		return [...this.recorded];
+	}
+
+	/**
+	 * Replayed calls that had no record.
+	 * @returns {number} Miss count
+	 */
+	get missCount(): number {
+		return this.misses;
+	}
+}
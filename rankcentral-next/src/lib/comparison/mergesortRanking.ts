@@ -1,58 +1,65 @@
 /**
- * @fileoverview Merge sort implementation with custom comparator support for document ranking.
- * Provides stable sorting algorithms and a ranking class for document comparison systems.
- * Used primarily in prompt-based evaluation systems for final ranking generation.
+ * @fileoverview Merge sort implementation with async comparator support for document ranking.
+ * Provides the stable merge sort used by the default ranking strategy, and the
+ * binary insertion used to add late documents to an existing ranking.
  */
 
 // src/lib/comparison/mergesortRanking.ts
+import type { AsyncComparator, RankingStrategy } from './rankingStrategy';
+import { RankingStrategyName } from './types';
 
 /**
- * Sorts a list of items using the merge sort algorithm with a custom comparator function.
- * Provides O(n log n) time complexity with stable sorting behavior, making it ideal
+ * Sorts a list of items using the merge sort algorithm with an async comparator function.
+ * Provides O(n log n) comparisons with stable sorting behavior, making it ideal
  * for document ranking where order consistency is important.
- * 
+ *
  * @template T - The type of items being sorted
  * @param {T[]} items - Array of items to sort
- * @param {(a: T, b: T) => number} comparator - Comparison function returning positive for a > b, negative for a < b, zero for equal
- * @returns {T[]} New sorted array with items in descending order (highest first)
+ * @param {AsyncComparator<T>} comparator - Comparison function resolving positive for a > b, negative for a < b, zero for equal
+ * @returns {Promise<T[]>} New sorted array with items in descending order (highest first)
+ * @async
  */
-export function mergesortWithComparator<T>(
+export async function mergesortWithComparator<T>(
 	items: T[],
-	comparator: (a: T, b: T) => number
-): T[] {
+	comparator: AsyncComparator<T>
+): Promise<T[]> {
 	if (items.length <= 1) {
 		return items;
 	}
 
 	const mid = Math.floor(items.length / 2);
-	const leftHalf = mergesortWithComparator(items.slice(0, mid), comparator);
-	const rightHalf = mergesortWithComparator(items.slice(mid), comparator);
+	// The halves share no comparisons, so sort them concurrently
+	const [leftHalf, rightHalf] = await Promise.all([
+		mergesortWithComparator(items.slice(0, mid), comparator),
+		mergesortWithComparator(items.slice(mid), comparator)
+	]);
 
 	return mergeWithComparator(leftHalf, rightHalf, comparator);
 }
 
 /**
- * Merges two sorted arrays using a custom comparator function.
+ * Merges two sorted arrays using an async comparator function.
  * Helper function for the merge sort algorithm that combines two pre-sorted
  * arrays while maintaining the sorting order defined by the comparator.
- * 
+ *
  * @template T - The type of items being merged
  * @param {T[]} left - First sorted array to merge
  * @param {T[]} right - Second sorted array to merge
- * @param {(a: T, b: T) => number} comparator - Comparison function for determining order
- * @returns {T[]} New merged array maintaining sorted order
+ * @param {AsyncComparator<T>} comparator - Comparison function for determining order
+ * @returns {Promise<T[]>} New merged array maintaining sorted order
+ * @async
  */
-export function mergeWithComparator<T>(
+export async function mergeWithComparator<T>(
 	left: T[],
 	right: T[],
-	comparator: (a: T, b: T) => number
-): T[] {
+	comparator: AsyncComparator<T>
+): Promise<T[]> {
 	const result: T[] = [];
 	let i = 0;
 	let j = 0;
 
 	while (i < left.length && j < right.length) {
-		const comparisonResult = comparator(left[i], right[j]);
+		const comparisonResult = await comparator(left[i], right[j]);
 
 		if (comparisonResult >= 0) {
 			result.push(left[i]);
@@ -67,38 +74,57 @@ export function mergeWithComparator<T>(
 }
 
 /**
- * Generic ranking class that uses merge sort with custom comparators.
- * Provides a reusable interface for ranking any type of items based on
- * custom comparison logic, particularly useful for document ranking systems.
- * 
- * @template T - The type of items to be ranked
- * @class MergesortRanker
+ * Inserts an item into an already sorted array using binary search.
+ * Needs at most ⌈log2(n + 1)⌉ comparisons. An item that ties with an existing one
+ * is placed after it, matching the stability of {@link mergeWithComparator}.
+ *
+ * @template T - The type of items being sorted
+ * @param {T[]} sorted - Array sorted in descending order (highest first)
+ * @param {T} item - Item to insert
+ * @param {AsyncComparator<T>} comparator - Comparison function resolving positive for a > b, negative for a < b, zero for equal
+ * @returns {Promise<T[]>} New sorted array containing the item
+ * @async
  */
-export class MergesortRanker<T> {
-	/**
-	 * @type {(a: T, b: T) => number} Comparison function for ranking items
-	 * @private
-	 */
-	private comparator: (a: T, b: T) => number;
+export async function binaryInsertWithComparator<T>(
+	sorted: T[],
+	item: T,
+	comparator: AsyncComparator<T>
+): Promise<T[]> {
+	let low = 0;
+	let high = sorted.length;
 
-	/**
-	 * Creates a new MergesortRanker instance with the specified comparator.
-	 * 
-	 * @param {(a: T, b: T) => number} comparator - Function that compares two items and returns a number
-	 */
-	constructor(comparator: (a: T, b: T) => number) {
-		this.comparator = comparator;
+	while (low < high) {
+		const mid = Math.floor((low + high) / 2);
+		if (await comparator(sorted[mid], item) >= 0) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
 	}
 
+	return [...sorted.slice(0, low), item, ...sorted.slice(low)];
+}
+
+/**
+ * Ranking strategy that orders documents with merge sort.
+ * Needs roughly n log n comparisons and never revisits a pair.
+ *
+ * @class MergesortStrategy
+ * @implements {RankingStrategy}
+ */
+export class MergesortStrategy implements RankingStrategy {
+	/** @type {RankingStrategyName} Identifier recorded in report metadata */
+	readonly name: RankingStrategyName = 'mergesort';
+
 	/**
-	 * Ranks items using merge sort with the configured comparator.
-	 * Returns a new array with items sorted according to the comparison function,
-	 * typically in descending order (highest ranked first).
-	 * 
-	 * @param {T[]} items - Array of items to rank
-	 * @returns {T[]} New array with items sorted by rank
+	 * Ranks documents using merge sort with the given comparator.
+	 *
+	 * @param {string[]} documents - Document names to rank
+	 * @param {AsyncComparator} comparator - Async pairwise comparator
+	 * @returns {Promise<string[]>} Document names ordered best to worst
+	 * @async
 	 */
-	rankItems(items: T[]): T[] {
-		return mergesortWithComparator(items, this.comparator);
+	async rank(documents: string[], comparator: AsyncComparator): Promise<string[]> {
+		return mergesortWithComparator(documents, comparator);
 	}
 }
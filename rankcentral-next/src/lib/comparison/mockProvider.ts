@@ -0,0 +1,325 @@
+/**
+ * @fileoverview Offline stand-in for a model service.
+ * Answers the prompts this library sends without any network access: pairwise and
+ * pointwise evaluations are scored from how much of the criterion's vocabulary a
+ * document covers and how long it is, and summaries are the sentences that mention
+ * the criterion. The same prompt always gets the same answer. Scripted verdicts can
+ * be supplied per document pair to stage particular rankings for demos and tests.
+ */
+
+// src/lib/comparison/mockProvider.ts
+import fs from 'fs';
+import { encode } from 'gpt-tokenizer';
+import type { LlmProvider } from './llmProvider';
+import { NO_RELEVANT_EVIDENCE } from './promptGenerator';
+import { tokenizeTerms } from './sectionRetriever';
+import { PAIRWISE_EVALUATION_SCHEMA, POINTWISE_SCORE_SCHEMA } from './structuredOutput';
+import { LlmCompletion, LlmProviderName, LlmRequest } from './types';
+
+/** @type {string} Model reported by the mock provider when none is named */
+export const MOCK_MODEL_NAME = 'mock-heuristic';
+
+/** @type {number} Length in words at which a document gets the full length credit */
+const FULL_LENGTH_WORDS = 2000;
+
+/** @type {number} Share of a heuristic score that comes from criterion coverage; the rest comes from length */
+const COVERAGE_WEIGHT = 0.7;
+
+/** @type {number} Most matched terms quoted in an analysis */
+const MAX_QUOTED_TERMS = 5;
+
+/** @type {number} Word limit of a summary when the prompt gives none */
+const DEFAULT_SUMMARY_WORDS = 200;
+
+/**
+ * A scripted verdict for a pair of documents, used instead of the heuristics.
+ * @interface MockFixture
+ */
+export interface MockFixture {
+	/** @type {string} Name of the first document */
+	documentA: string;
+	/** @type {string} Name of the second document */
+	documentB: string;
+	/** @type {string} [criterion] Criterion the verdict is for; any criterion when omitted */
+	criterion?: string;
+	/** @type {'A'|'B'|'Tie'} Winner, in terms of documentA and documentB */
+	winner: 'A' | 'B' | 'Tie';
+	/** @type {number} [documentAScore] Score of documentA, 1 to 5 */
+	documentAScore?: number;
+	/** @type {number} [documentBScore] Score of documentB, 1 to 5 */
+	documentBScore?: number;
+	/** @type {string} [reasoning] Reasoning to report */
+	reasoning?: string;
+}
+
+/**
+ * How well a document's text fits a criterion, by the heuristics.
+ * @interface HeuristicScore
+ */
+interface HeuristicScore {
+	/** @type {number} Score from 1 to 5, in half points */
+	score: number;
+	/** @type {string[]} Criterion terms found in the text */
+	matched: string[];
+	/** @type {number} Criterion terms looked for */
+	total: number;
+	/** @type {number} Indexed words in the text */
+	words: number;
+}
+
+/** @type {Map<string, MockFixture[]>} Fixture files already read, by path */
+const fixtureFiles = new Map<string, MockFixture[]>();
+
+/**
+ * Checks whether a value is a usable fixture.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is a MockFixture
+ */
+function isMockFixture(value: unknown): value is MockFixture {
+	const fixture = value as MockFixture;
+	const isScore = (score: unknown) => score === undefined || (typeof score === 'number' && score >= 1 && score <= 5);
+	return typeof fixture === 'object' && fixture !== null
+		&& typeof fixture.documentA === 'string'
+		&& typeof fixture.documentB === 'string'
+		&& ['A', 'B', 'Tie'].includes(fixture.winner)
+		&& isScore(fixture.documentAScore)
+		&& isScore(fixture.documentBScore);
+}
+
+/**
+ * Reads scripted verdicts from a JSON file holding an array of fixtures. Each file is
+ * read once per process; entries that are not valid fixtures are skipped.
+ * @param {string} path - Path of the fixture file
+ * @returns {MockFixture[]} Fixtures in file order
+ * @throws {Error} When the file cannot be read or is not a JSON array
+ */
+export function loadMockFixtures(path: string): MockFixture[] {
+	let fixtures = fixtureFiles.get(path);
+
+	if (!fixtures) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+		} catch (error) {
+			throw new Error(`Mock fixtures could not be read from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		if (!Array.isArray(parsed)) {
+			throw new Error(`Mock fixtures in ${path} must be a JSON array`);
+		}
+
+		fixtures = parsed.filter(isMockFixture);
+		if (fixtures.length < parsed.length) {
+			console.warn(`⚠️ Skipped ${parsed.length - fixtures.length} invalid mock fixtures in ${path}`);
+		}
+		fixtureFiles.set(path, fixtures);
+	}
+
+	return fixtures;
+}
+
+/**
+ * First capture of a pattern in a prompt, trimmed.
+ * @param {string} prompt - Prompt to search
+ * @param {RegExp} pattern - Pattern with one capture group
+ * @returns {string} Captured text, or an empty string
+ */
+function capture(prompt: string, pattern: RegExp): string {
+	return prompt.match(pattern)?.[1]?.trim() ?? '';
+}
+
+/**
+ * Scores a text against a criterion's vocabulary: mostly by the share of the
+ * criterion's terms it uses, partly by its length.
+ * @param {string} text - Document text
+ * @param {Set<string>} criterionTerms - Terms of the criterion name and description
+ * @returns {HeuristicScore} Score and what it was based on
+ */
+function scoreText(text: string, criterionTerms: Set<string>): HeuristicScore {
+	const terms = tokenizeTerms(text);
+	const present = new Set(terms);
+	const matched = [...criterionTerms].filter(term => present.has(term));
+	const coverage = criterionTerms.size > 0 ? matched.length / criterionTerms.size : 0;
+	const length = Math.min(1, Math.log10(1 + terms.length) / Math.log10(1 + FULL_LENGTH_WORDS));
+	const strength = COVERAGE_WEIGHT * coverage + (1 - COVERAGE_WEIGHT) * length;
+
+	return { score: 1 + Math.round(strength * 8) / 2, matched, total: criterionTerms.size, words: terms.length };
+}
+
+/**
+ * Describes a heuristic score in the words of an analysis.
+ * @param {string} documentName - Document the score is for
+ * @param {HeuristicScore} result - Score to describe
+ * @returns {string} Analysis text
+ */
+function describeScore(documentName: string, result: HeuristicScore): string {
+	const quoted = result.matched.slice(0, MAX_QUOTED_TERMS).join(', ');
+	return `${documentName} uses ${result.matched.length} of ${result.total} terms of the criterion`
+		+ `${quoted ? ` (${quoted}${result.matched.length > MAX_QUOTED_TERMS ? ', ...' : ''})` : ''}`
+		+ ` in about ${result.words} indexed words, so it scores ${result.score}.`;
+}
+
+/**
+ * Answers model calls offline from deterministic heuristics or scripted fixtures.
+ * @class MockProvider
+ * @implements {LlmProvider}
+ */
+export class MockProvider implements LlmProvider {
+	readonly name: LlmProviderName = 'mock';
+	/** @type {MockFixture[]} Scripted verdicts, checked before the heuristics */
+	readonly fixtures: MockFixture[];
+
+	/**
+	 * Creates a new MockProvider instance.
+	 * @param {MockFixture[]} [fixtures=[]] - Scripted verdicts per document pair
+	 */
+	constructor(fixtures: MockFixture[] = []) {
+		this.fixtures = fixtures;
+	}
+
+	async complete(request: LlmRequest): Promise<LlmCompletion> {
+		// A repair prompt repeats the original prompt before its complaint
+		const prompt = request.prompt.split('\n\nYour previous response could not be used:')[0];
+
+		let content: string;
+		if (request.responseSchema?.name === PAIRWISE_EVALUATION_SCHEMA.name) {
+			content = JSON.stringify(this.evaluatePair(prompt));
+		} else if (request.responseSchema?.name === POINTWISE_SCORE_SCHEMA.name) {
+			content = JSON.stringify(this.scoreDocument(prompt));
+		} else {
+			content = this.summarize(prompt);
+		}
+
+		return {
+			content,
+			usage: { prompt_tokens: encode(request.prompt).length, completion_tokens: encode(content).length }
+		};
+	}
+
+	/**
+	 * Answers a pairwise prompt, from a fixture for the pair when there is one.
+	 * @param {string} prompt - Criterion or custom pairwise prompt
+	 * @returns {Record<string, unknown>} Evaluation in the pairwise response schema
+	 * @private
+	 */
+	private evaluatePair(prompt: string): Record<string, unknown> {
+		const custom = prompt.includes('# Evaluation Instructions:');
+		const criterionName = custom ? 'Custom Evaluation' : capture(prompt, /Name: ([^\n]*)/);
+		const criterionText = custom
+			? capture(prompt, /# Evaluation Instructions:\n([\s\S]*?)\n\s*# Evaluation Guidelines:/)
+			: `${criterionName} ${capture(prompt, /Description: ([^\n]*)/)}`;
+		const documentAName = capture(prompt, /- Document A: ([^\n]*)/);
+		const documentBName = capture(prompt, /- Document B: ([^\n]*)/);
+
+		const fixture = this.findFixture(documentAName, documentBName, criterionName);
+		if (fixture) {
+			return { criterion_name: criterionName, ...fixture };
+		}
+
+		const sectionHeading = '(?:Relevant Section for [^\\n]*|Content):\\n';
+		const documentAText = capture(prompt, new RegExp(`# Document A ${sectionHeading}([\\s\\S]*?)\\n\\s*# Document B ${sectionHeading}`));
+		const documentBText = capture(prompt, new RegExp(`# Document B ${sectionHeading}([\\s\\S]*?)\\n\\s*(?:Perform a thorough evaluation|# Evaluation Instructions:)`));
+
+		const criterionTerms = new Set(tokenizeTerms(criterionText));
+		const a = scoreText(documentAText, criterionTerms);
+		const b = scoreText(documentBText, criterionTerms);
+		const winner = a.score > b.score ? 'A' : b.score > a.score ? 'B' : 'Tie';
+		const leader = winner === 'A' ? documentAName : documentBName;
+
+		return {
+			criterion_name: criterionName,
+			document_a_score: a.score,
+			document_a_analysis: describeScore(documentAName, a),
+			document_b_score: b.score,
+			document_b_analysis: describeScore(documentBName, b),
+			comparative_analysis: `${documentAName} matches ${a.matched.length} criterion terms and ${documentBName} matches ${b.matched.length}.`,
+			reasoning: winner === 'Tie'
+				? `Mock evaluation: ${documentAName} and ${documentBName} score the same on criterion coverage and length.`
+				: `Mock evaluation: ${leader} covers more of the criterion for its length.`,
+			winner
+		};
+	}
+
+	/**
+	 * Finds the scripted verdict for a pair and criterion, in the order the prompt shows them.
+	 * @param {string} documentAName - Document shown as "Document A"
+	 * @param {string} documentBName - Document shown as "Document B"
+	 * @param {string} criterionName - Criterion being evaluated
+	 * @returns {Record<string, unknown>|null} Response fields of the verdict, or null when none is scripted
+	 * @private
+	 */
+	private findFixture(documentAName: string, documentBName: string, criterionName: string): Record<string, unknown> | null {
+		const matchesCriterion = (fixture: MockFixture) => !fixture.criterion || fixture.criterion.toLowerCase() === criterionName.toLowerCase();
+		const forward = this.fixtures.find(fixture => fixture.documentA === documentAName && fixture.documentB === documentBName && matchesCriterion(fixture));
+		const reverse = forward ? undefined : this.fixtures.find(fixture => fixture.documentA === documentBName && fixture.documentB === documentAName && matchesCriterion(fixture));
+		const fixture = forward ?? reverse;
+
+		if (!fixture) {
+			return null;
+		}
+
+		const defaultScore = (side: 'A' | 'B') => fixture.winner === 'Tie' ? 3 : fixture.winner === side ? 4 : 2;
+		const scoreA = fixture.documentAScore ?? defaultScore('A');
+		const scoreB = fixture.documentBScore ?? defaultScore('B');
+		const winner = reverse && fixture.winner !== 'Tie' ? (fixture.winner === 'A' ? 'B' : 'A') : fixture.winner;
+		const reasoning = fixture.reasoning || 'Mock evaluation: verdict scripted by a fixture.';
+
+		return {
+			document_a_score: reverse ? scoreB : scoreA,
+			document_a_analysis: `Scripted score for ${documentAName}.`,
+			document_b_score: reverse ? scoreA : scoreB,
+			document_b_analysis: `Scripted score for ${documentBName}.`,
+			comparative_analysis: reasoning,
+			reasoning,
+			winner
+		};
+	}
+
+	/**
+	 * Answers a pointwise prompt from the heuristics.
+	 * @param {string} prompt - Pointwise scoring prompt
+	 * @returns {Record<string, unknown>} Score in the pointwise response schema
+	 * @private
+	 */
+	private scoreDocument(prompt: string): Record<string, unknown> {
+		const criterionName = capture(prompt, /Name: ([^\n]*)/);
+		const documentName = capture(prompt, /# Document: ([^\n]*)/);
+		const documentText = capture(prompt, /# Document Content:\n([\s\S]*?)\n\s*Assess the document strictly/);
+		const result = scoreText(documentText, new Set(tokenizeTerms(`${criterionName} ${capture(prompt, /Description: ([^\n]*)/)}`)));
+
+		return {
+			criterion_name: criterionName,
+			score: result.score,
+			analysis: `Mock evaluation: ${describeScore(documentName, result)}`
+		};
+	}
+
+	/**
+	 * Answers a summarisation prompt with the sentences that mention the criterion,
+	 * in document order, up to the word limit the prompt gives.
+	 * @param {string} prompt - Evidence summary or merge prompt
+	 * @returns {string} Extracted evidence, or the "nothing relevant" reply
+	 * @private
+	 */
+	private summarize(prompt: string): string {
+		const criterionTerms = new Set(tokenizeTerms(`${capture(prompt, /Name: ([^\n]*)/)} ${capture(prompt, /Description: ([^\n]*)/)}`));
+		const wordLimit = parseInt(capture(prompt, /in at most (\d+) words/), 10) || DEFAULT_SUMMARY_WORDS;
+		const text = capture(prompt, /(?:# Document Content \(part [^\n]*\)|# Evidence Notes):\n([\s\S]*?)\n\s*(?:Extract the evidence|Merge these notes)/);
+
+		const sentences = (text.match(/[^.!?\n]+[.!?]*/g) || [])
+			.map(sentence => sentence.trim())
+			.filter(sentence => !sentence.startsWith('## Notes') && tokenizeTerms(sentence).some(term => criterionTerms.has(term)));
+
+		const kept: string[] = [];
+		let words = 0;
+		for (const sentence of sentences) {
+			const count = sentence.split(/\s+/).length;
+			if (words + count > wordLimit) {
+				break;
+			}
+			kept.push(sentence);
+			words += count;
+		}
+
+		return kept.length > 0 ? kept.join(' ') : NO_RELEVANT_EVIDENCE;
+	}
+}
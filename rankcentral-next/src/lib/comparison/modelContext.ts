@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Per-model context windows, used to size prompts and completion allowances.
+ */
+
+// src/lib/comparison/modelContext.ts
+
+/**
+ * Context window in tokens (prompt and completion together), matched by model-name
+ * prefix (longest first). Update this table when models are added.
+ * @type {Record<string, number>}
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+	'gpt-4.1': 1047576,
+	'gpt-4o': 128000,
+	'o4-mini': 200000,
+	'claude-': 200000,
+	'llama3.1': 128000,
+	'llama3.2': 128000,
+	'mock-': 128000
+};
+
+/** @type {number} Window assumed for models missing from the table */
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+/** @type {number} Tokens kept free for message framing that the prompt count misses */
+const CONTEXT_MARGIN = 50;
+
+/** @type {number} Smallest context budget accepted, so every prompt keeps room for some document text */
+export const MIN_CONTEXT_BUDGET = 2000;
+
+/**
+ * Looks up the context window of a model.
+ * @param {string} modelName - Model to look up
+ * @returns {{ contextWindow: number, known: boolean }} Window in tokens and whether the model was in the table
+ */
+export function getContextWindow(modelName: string): { contextWindow: number; known: boolean } {
+	const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+		.sort((a, b) => b.length - a.length)
+		.find(key => modelName.startsWith(key));
+
+	return prefix
+		? { contextWindow: MODEL_CONTEXT_WINDOWS[prefix], known: true }
+		: { contextWindow: FALLBACK_CONTEXT_WINDOW, known: false };
+}
+
+/**
+ * Most prompt tokens a call can carry while leaving room for its completion.
+ * @param {string[]} modelNames - Models the prompt is sent to; the smallest window applies
+ * @param {number} completionTokens - Completion allowance to keep free
+ * @param {number} [contextBudget] - Configured cap on prompt tokens
+ * @returns {number} Prompt token limit
+ */
+export function promptTokenLimit(modelNames: string[], completionTokens: number, contextBudget?: number): number {
+	const smallestWindow = Math.min(...modelNames.map(modelName => getContextWindow(modelName).contextWindow));
+	const available = smallestWindow - completionTokens - CONTEXT_MARGIN;
+	return contextBudget !== undefined ? Math.min(available, contextBudget) : available;
+}
+
+/**
+ * Completion allowance for a prompt: as much of the remaining window as the call
+ * may use, between a floor and a ceiling.
+ * @param {string} modelName - Model the call goes to
+ * @param {number} promptTokens - Tokens in the prompt
+ * @param {number} minTokens - Floor
+ * @param {number} maxTokens - Ceiling
+ * @returns {number} Completion token allowance
+ */
+export function completionAllowance(modelName: string, promptTokens: number, minTokens: number, maxTokens: number): number {
+	const { contextWindow } = getContextWindow(modelName);
+	return Math.max(minTokens, Math.min(contextWindow - promptTokens - CONTEXT_MARGIN, maxTokens));
+}
+
+/**
+ * Parses a context budget received from a client or the environment.
+ * @param {unknown} value - Requested budget in prompt tokens
+ * @returns {number|undefined} Whole budget of at least MIN_CONTEXT_BUDGET, or undefined when no valid budget was given
+ */
+export function parseContextBudget(value: unknown): number | undefined {
+	const parsed = typeof value === 'string' ? parseInt(value, 10) : Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? Math.max(MIN_CONTEXT_BUDGET, Math.floor(parsed)) : undefined;
+}
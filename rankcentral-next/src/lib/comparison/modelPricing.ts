@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Per-model token prices used for cost estimates and budget caps.
+ */
+
+// src/lib/comparison/modelPricing.ts
+import type { LlmProviderName } from './types';
+
+/**
+ * Price of a model in US dollars per million tokens.
+ * @interface ModelPricing
+ */
+export interface ModelPricing {
+	/** @type {number} Price per million prompt tokens */
+	input: number;
+	/** @type {number} Price per million completion tokens */
+	output: number;
+}
+
+/**
+ * List prices per million tokens, matched by model-name prefix (longest first).
+ * Update this table when provider pricing changes.
+ * @type {Record<string, ModelPricing>}
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+	'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+	'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+	'gpt-4.1': { input: 2.00, output: 8.00 },
+	'gpt-4o-mini': { input: 0.15, output: 0.60 },
+	'gpt-4o': { input: 2.50, output: 10.00 },
+	'o4-mini': { input: 1.10, output: 4.40 },
+	'claude-3-haiku': { input: 0.25, output: 1.25 },
+	'claude-3-5-haiku': { input: 0.80, output: 4.00 },
+	'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
+	'claude-3-7-sonnet': { input: 3.00, output: 15.00 },
+	'claude-sonnet-4': { input: 3.00, output: 15.00 },
+	'claude-3-opus': { input: 15.00, output: 75.00 },
+	'claude-opus-4': { input: 15.00, output: 75.00 },
+	// The offline mock provider costs nothing
+	'mock-': { input: 0, output: 0 }
+};
+
+/** @type {LlmProviderName[]} Providers that are not billed per token: local servers and the mock */
+export const FREE_PROVIDERS: LlmProviderName[] = ['openai-compatible', 'mock'];
+
+/** @type {string} Model whose prices are used for models missing from the table */
+const FALLBACK_PRICING_MODEL = 'gpt-4.1-mini';
+
+/**
+ * Looks up the price of a model. Models served by a free provider cost nothing.
+ * Models missing from the table get the default model's prices. Estimates, budget
+ * charges and recorded usage all use them, and flag the result as an estimate
+ * (see usageOf in usageTracker.ts).
+ * @param {string} modelName - Model to price
+ * @param {LlmProviderName} [provider] - Provider serving the model
+ * @returns {{ pricing: ModelPricing, known: boolean }} Prices and whether they are the model's own
+ */
+export function getModelPricing(modelName: string, provider?: LlmProviderName): { pricing: ModelPricing; known: boolean } {
+	if (provider && FREE_PROVIDERS.includes(provider)) {
+		return { pricing: { input: 0, output: 0 }, known: true };
+	}
+
+	const prefix = Object.keys(MODEL_PRICING)
+		.sort((a, b) => b.length - a.length)
+		.find(key => modelName.startsWith(key));
+
+	return prefix
+		? { pricing: MODEL_PRICING[prefix], known: true }
+		: { pricing: MODEL_PRICING[FALLBACK_PRICING_MODEL], known: false };
+}
+
+/**
+ * Cost of a call or batch of calls in US dollars.
+ * @param {string} modelName - Model used
+ * @param {number} inputTokens - Prompt tokens
+ * @param {number} outputTokens - Completion tokens
+ * @param {LlmProviderName} [provider] - Provider serving the model
+ * @returns {number} Cost in US dollars
+ */
+export function costOf(modelName: string, inputTokens: number, outputTokens: number, provider?: LlmProviderName): number {
+	const { pricing } = getModelPricing(modelName, provider);
+	return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
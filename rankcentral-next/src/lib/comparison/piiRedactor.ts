@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Redaction of personal data before document text leaves the server.
+ * Runs between text extraction and prompt generation: each email address, phone
+ * number, national ID, address or custom pattern match is replaced by a numbered
+ * placeholder such as [EMAIL_1]. The original values never reach the model; they are
+ * put back only in the analyses kept with the report.
+ */
+
+// src/lib/comparison/piiRedactor.ts
+import { rewriteEvaluationText, rewriteScoreText } from './blindReview';
+import { CriterionEvaluation, PiiCategory, PointwiseCriterionScore, RedactionConfig, RedactionCounts, RedactionSummary } from './types';
+
+/** @type {PiiCategory[]} Kinds of personal data the redaction stage recognises */
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'phone', 'national_id', 'address'];
+
+/** @type {number} Most custom patterns a report can add */
+export const MAX_CUSTOM_PATTERNS = 10;
+
+/** @type {number} Longest custom pattern accepted, in characters */
+export const MAX_CUSTOM_PATTERN_LENGTH = 200;
+
+/**
+ * Placeholder label of each kind of redacted text.
+ * @type {Record<PiiCategory | 'custom', string>}
+ */
+const PLACEHOLDER_LABELS: Record<PiiCategory | 'custom', string> = {
+	email: 'EMAIL',
+	phone: 'PHONE',
+	national_id: 'NATIONAL_ID',
+	address: 'ADDRESS',
+	custom: 'REDACTED'
+};
+
+/** @type {RegExp} A placeholder as the model may write it back */
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|NATIONAL_ID|ADDRESS|REDACTED)_\d+\]/g;
+
+/** @type {RegExp} Splits text around placeholders, keeping them at odd indexes */
+const PLACEHOLDER_SPLIT_PATTERN = /(\[(?:EMAIL|PHONE|NATIONAL_ID|ADDRESS|REDACTED)_\d+\])/;
+
+/**
+ * Patterns of each kind of personal data. Phone matches are checked further by
+ * `isPhoneNumber`, since digit groups alone also match dates and lists of years.
+ * @type {Record<PiiCategory, RegExp[]>}
+ */
+const PII_PATTERNS: Record<PiiCategory, RegExp[]> = {
+	email: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g],
+	national_id: [
+		// US social security numbers
+		/\b\d{3}-\d{2}-\d{4}\b/g,
+		// UK national insurance numbers
+		/\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+		// Numbers given after a label such as "Passport No:" or "Tax ID #". A bare "ID" also
+		// labels order and project numbers, so generic IDs need a custom pattern
+		/(?<=\b(?:passport|national id|national insurance|social security|ssn|nin|tax id)(?: (?:no\.?|number|#))?[ \t]*[:#]?[ \t]*)(?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{5,}\b/gi
+	],
+	phone: [
+		/(?<![\w+])\+\d{9,15}(?!\w)/g,
+		/(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,5}(?:[ .-]\d{2,5}){1,4}(?!\w)/g
+	],
+	address: [
+		// House number, street name and street type, as in "221B Baker Street"
+		/\b\d{1,5}[A-Za-z]?(?:[ \t]+[A-Z][A-Za-z'.-]*){1,4}[ \t]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent|Square|Sq|Parkway|Pkwy|Highway|Hwy)\b\.?/g,
+		// UK postcodes
+		/\b(?:[A-Z]{1,2}\d[A-Z\d]?|GIR) ?\d[A-Z]{2}\b/g,
+		// US state and ZIP code, as in "CA 94105"
+		/\b[A-Z]{2} \d{5}(?:-\d{4})?\b/g
+	]
+};
+
+/**
+ * Order in which kinds are redacted: national IDs before phone numbers, whose
+ * digit groups they would otherwise match.
+ * @type {PiiCategory[]}
+ */
+const REDACTION_ORDER: PiiCategory[] = ['email', 'national_id', 'phone', 'address'];
+
+/**
+ * Error thrown when a redaction setting is invalid.
+ * @class RedactionConfigError
+ * @extends Error
+ */
+export class RedactionConfigError extends Error {
+	/**
+	 * Creates a new RedactionConfigError instance.
+	 * @param {string} message - What is wrong with the setting
+	 */
+	constructor(message: string) {
+		super(message);
+		this.name = 'RedactionConfigError';
+	}
+}
+
+/**
+ * Checks whether a value names a kind of personal data.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is a known kind
+ */
+export function isPiiCategory(value: unknown): value is PiiCategory {
+	return typeof value === 'string' && (PII_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Tells phone numbers from other runs of digit groups.
+ * @param {string} match - Text matched by a phone pattern
+ * @returns {boolean} True if the text looks like a phone number
+ */
+function isPhoneNumber(match: string): boolean {
+	const digits = match.replace(/\D/g, '').length;
+	if (digits < 9 || digits > 15) {
+		return false;
+	}
+	// Dates such as 2024-01-15 and lists of years such as "2019 2020 2021"
+	return !/^(?:\d{4}[.-]\d{2}[.-]\d{2}|(?:(?:19|20)\d{2}[ .-]?)+)$/.test(match);
+}
+
+/**
+ * Compiles the custom patterns of a redaction setting.
+ * @param {string[]} patterns - Regular expression sources
+ * @returns {RegExp[]} Global regular expressions
+ * @throws {RedactionConfigError} When there are too many patterns, or one is too long or invalid
+ */
+function compileCustomPatterns(patterns: string[]): RegExp[] {
+	if (patterns.length > MAX_CUSTOM_PATTERNS) {
+		throw new RedactionConfigError(`At most ${MAX_CUSTOM_PATTERNS} custom redaction patterns are allowed`);
+	}
+
+	return patterns.map(source => {
+		if (source.length > MAX_CUSTOM_PATTERN_LENGTH) {
+			throw new RedactionConfigError(`Custom redaction patterns must be at most ${MAX_CUSTOM_PATTERN_LENGTH} characters`);
+		}
+		try {
+			return new RegExp(source, 'g');
+		} catch (error) {
+			throw new RedactionConfigError(`Invalid custom redaction pattern "${source}": ${error instanceof Error ? error.message : error}`);
+		}
+	});
+}
+
+/**
+ * Parses a redaction setting received from a client or the environment. The
+ * environment gives a comma-separated list of kinds, such as "email,phone".
+ * @param {unknown} value - Requested setting
+ * @returns {RedactionConfig|undefined} The setting, or undefined when nothing is to be redacted
+ * @throws {RedactionConfigError} When a kind is unknown or a custom pattern is invalid
+ */
+export function parseRedactionConfig(value: unknown): RedactionConfig | undefined {
+	let categories: unknown[] = [];
+	let customPatterns: unknown[] = [];
+
+	if (typeof value === 'string') {
+		categories = value.split(',').map(category => category.trim()).filter(Boolean);
+	} else if (value && typeof value === 'object') {
+		const config = value as Partial<Record<keyof RedactionConfig, unknown>>;
+		categories = Array.isArray(config.categories) ? config.categories : [];
+		customPatterns = Array.isArray(config.customPatterns) ? config.customPatterns : [];
+	}
+
+	const unknown = categories.filter(category => !isPiiCategory(category));
+	if (unknown.length > 0) {
+		throw new RedactionConfigError(`Unknown kinds of personal data to redact: ${unknown.join(', ')}`);
+	}
+
+	const patterns = customPatterns
+		.filter((pattern): pattern is string => typeof pattern === 'string')
+		.map(pattern => pattern.trim())
+		.filter(Boolean);
+	compileCustomPatterns(patterns);
+
+	if (categories.length === 0 && patterns.length === 0) {
+		return undefined;
+	}
+
+	return {
+		// Kept in the built-in order, so equal settings redact identically
+		categories: PII_CATEGORIES.filter(category => categories.includes(category)),
+		customPatterns: patterns
+	};
+}
+
+/**
+ * Adds a requested redaction setting to the operator's. The operator's setting is a
+ * minimum: a request can add kinds and patterns to it but never remove any.
+ * @param {RedactionConfig} [minimum] - Setting from the server configuration
+ * @param {RedactionConfig} [requested] - Setting asked for by the client
+ * @returns {RedactionConfig|undefined} Combined setting, or undefined when neither redacts anything
+ */
+export function mergeRedactionConfigs(minimum?: RedactionConfig, requested?: RedactionConfig): RedactionConfig | undefined {
+	if (!minimum || !requested) {
+		return minimum ?? requested;
+	}
+
+	return {
+		categories: PII_CATEGORIES.filter(category => minimum.categories.includes(category) || requested.categories.includes(category)),
+		customPatterns: [...new Set([...minimum.customPatterns, ...requested.customPatterns])]
+	};
+}
+
+/**
+ * Replaces personal data in document text with numbered placeholders and puts it
+ * back in text the model wrote. The same value always gets the same placeholder, and
+ * documents redacted in the same order get the same placeholders, so a report's
+ * prompts can be rebuilt from its stored texts.
+ * @class PiiRedactor
+ */
+export class PiiRedactor {
+	/** @type {RedactionConfig} Personal data to replace */
+	config: RedactionConfig;
+
+	/** @type {Array<{category: PiiCategory|'custom', pattern: RegExp}>} Patterns in the order they are applied */
+	private patterns: Array<{ category: PiiCategory | 'custom'; pattern: RegExp }>;
+
+	/** @type {Map<string, string>} Placeholder given to each redacted value */
+	private placeholders = new Map<string, string>();
+
+	/** @type {Map<string, string>} Redacted value behind each placeholder */
+	private originals = new Map<string, string>();
+
+	/** @type {Record<string, number>} Placeholders given so far for each label */
+	private placeholderCounts: Record<string, number> = {};
+
+	/** @type {Record<string, RedactionCounts>} Replacements made in each document */
+	private counts: Record<string, RedactionCounts> = {};
+
+	/**
+	 * Creates a new PiiRedactor instance.
+	 * @param {RedactionConfig} config - Personal data to replace
+	 * @throws {RedactionConfigError} When a custom pattern is invalid
+	 */
+	constructor(config: RedactionConfig) {
+		this.config = { categories: [...config.categories], customPatterns: [...config.customPatterns] };
+		// Custom patterns go last, so a loose one cannot cut into data the built-in patterns recognise
+		this.patterns = [
+			...REDACTION_ORDER
+				.filter(category => this.config.categories.includes(category))
+				.flatMap(category => PII_PATTERNS[category].map(pattern => ({ category, pattern: new RegExp(pattern) }))),
+			...compileCustomPatterns(this.config.customPatterns).map(pattern => ({ category: 'custom' as const, pattern }))
+		];
+	}
+
+	/**
+	 * Replaces personal data in one document's text.
+	 * @param {string} documentName - Document the text belongs to, for the summary
+	 * @param {string} text - Document text
+	 * @returns {string} Redacted text
+	 */
+	redact(documentName: string, text: string): string {
+		const counts: RedactionCounts = this.counts[documentName] ?? {};
+		let redacted = text;
+
+		for (const { category, pattern } of this.patterns) {
+			// Placeholders put in by earlier patterns are left as they are
+			redacted = redacted
+				.split(PLACEHOLDER_SPLIT_PATTERN)
+				.map((part, index) => index % 2 === 1 ? part : part.replace(pattern, match => {
+					// Empty matches of custom patterns and digit runs that are not phone numbers stay
+					if (!match || (category === 'phone' && !isPhoneNumber(match))) {
+						return match;
+					}
+					counts[category] = (counts[category] ?? 0) + 1;
+					return this.placeholder(category, match);
+				}))
+				.join('');
+		}
+
+		this.counts[documentName] = counts;
+		return redacted;
+	}
+
+	/**
+	 * Replaces personal data in every document, in order.
+	 * @param {Record<string, string>} documents - Map of document names to text content
+	 * @returns {Record<string, string>} Map of document names to redacted text
+	 */
+	redactDocuments(documents: Record<string, string>): Record<string, string> {
+		const redacted: Record<string, string> = {};
+		for (const [name, text] of Object.entries(documents)) {
+			redacted[name] = this.redact(name, text);
+			const total = Object.values(this.counts[name]).reduce((sum, count) => sum + (count ?? 0), 0);
+			console.log(`🔒 ${name}: redacted ${total} item(s) of personal data`);
+		}
+		return redacted;
+	}
+
+	/**
+	 * Puts redacted values back in place of placeholders.
+	 * @param {string} text - Text that may contain placeholders
+	 * @returns {string} Text with the original values
+	 */
+	restore(text: string): string {
+		return text.replace(PLACEHOLDER_PATTERN, placeholder => this.originals.get(placeholder) ?? placeholder);
+	}
+
+	/**
+	 * Puts redacted values back in the analyses of a criterion evaluation.
+	 * @param {CriterionEvaluation} evaluation - Evaluation quoting placeholders
+	 * @returns {CriterionEvaluation} The evaluation quoting the original values
+	 */
+	restoreEvaluation(evaluation: CriterionEvaluation): CriterionEvaluation {
+		return rewriteEvaluationText(evaluation, text => this.restore(text));
+	}
+
+	/**
+	 * Puts redacted values back in the analysis of a rubric score.
+	 * @param {PointwiseCriterionScore} score - Score quoting placeholders
+	 * @returns {PointwiseCriterionScore} The score quoting the original values
+	 */
+	restoreScore(score: PointwiseCriterionScore): PointwiseCriterionScore {
+		return rewriteScoreText(score, text => this.restore(text));
+	}
+
+	/**
+	 * Redaction settings and replacement counts to store with a report. Holds no
+	 * redacted values.
+	 * @returns {RedactionSummary} Summary for the report
+	 */
+	summary(): RedactionSummary {
+		const total = Object.values(this.counts)
+			.flatMap(counts => Object.values(counts))
+			.reduce((sum, count) => sum + (count ?? 0), 0);
+		return { ...this.config, documents: { ...this.counts }, total };
+	}
+
+	/**
+	 * Placeholder for a value, given the first time the value is seen.
+	 * @param {PiiCategory|'custom'} category - Kind of data
+	 * @param {string} value - Redacted value
+	 * @returns {string} Its placeholder
+	 */
+	private placeholder(category: PiiCategory | 'custom', value: string): string {
+		let placeholder = this.placeholders.get(value);
+		if (!placeholder) {
+			const label = PLACEHOLDER_LABELS[category];
+			this.placeholderCounts[label] = (this.placeholderCounts[label] ?? 0) + 1;
+			placeholder = `[${label}_${this.placeholderCounts[label]}]`;
+			this.placeholders.set(value, placeholder);
+			this.originals.set(placeholder, value);
+		}
+		return placeholder;
+	}
+}
+
+/**
+ * Reads the redaction summary stored with a report.
+ * @param {unknown} value - Stored summary
+ * @returns {RedactionSummary|undefined} The summary, or undefined when nothing was redacted
+ */
+export function normalizeRedactionSummary(value: unknown): RedactionSummary | undefined {
+	if (!value || typeof value !== 'object') {
+		return undefined;
+	}
+
+	const summary = value as Partial<RedactionSummary>;
+	try {
+		const config = parseRedactionConfig({ categories: summary.categories, customPatterns: summary.customPatterns });
+		if (!config) {
+			return undefined;
+		}
+		return {
+			...config,
+			documents: summary.documents && typeof summary.documents === 'object' ? summary.documents : {},
+			total: typeof summary.total === 'number' ? summary.total : 0
+		};
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Pointwise (absolute) rubric scoring.
+ * Scores each document on its own against every criterion's rubric and ranks by the
+ * weighted total, which needs one model call per document and criterion instead of
+ * the n log n pairwise comparisons of a sort.
+ */
+
+// src/lib/comparison/pointwiseScorer.ts
+import { encode } from 'gpt-tokenizer';
+import type { BlindReview } from './blindReview';
+import { BudgetExceededError, BudgetTracker } from './budgetTracker';
+import { LlmRecorder, ReplayMissError } from './llmRecorder';
+import type { RequestScheduler } from './requestScheduler';
+import { CriterionEvaluator } from './criterionEvaluator';
+import { EvidenceSummarizer } from './evidenceSummarizer';
+import { completionAllowance, promptTokenLimit } from './modelContext';
+import { PromptGenerator } from './promptGenerator';
+import { criterionQuery, SectionRetriever } from './sectionRetriever';
+import { Criterion, LlmProviderConfig, PointwiseCriterionScore, PointwiseScore, RankingTiers } from './types';
+import type { PiiRedactor } from './piiRedactor';
+import type { ProgressTracker } from './progressTracker';
+import type { UsageTracker } from './usageTracker';
+import { WorkerPool } from './workerPool';
+
+/** @type {number} Completion allowance of a scoring call, kept free when sizing prompts */
+const MAX_COMPLETION_TOKENS = 1000;
+
+/**
+ * Scores documents independently against criterion rubrics.
+ * @class PointwiseScorer
+ */
+export class PointwiseScorer {
+	/** @type {Record<string, string>} Map of document names to their text content */
+	documents: Record<string, string>;
+
+	/** @type {Criterion[]} Criteria to score against */
+	criteria: Criterion[];
+
+	/** @type {CriterionEvaluator} Component that calls the model */
+	criterionEvaluator: CriterionEvaluator;
+
+	/** @type {PromptGenerator} Component for generating scoring prompts */
+	promptGenerator: PromptGenerator;
+
+	/** @type {BudgetTracker|undefined} Spending cap checked before every model call */
+	budget?: BudgetTracker;
+
+	/** @type {SectionRetriever} Cuts long documents down to the sections relevant to each criterion */
+	sectionRetriever: SectionRetriever;
+
+	/** @type {EvidenceSummarizer} Summarises documents that selected sections cannot cover */
+	evidenceSummarizer: EvidenceSummarizer;
+
+	/** @type {number} Most prompt tokens per scoring call */
+	promptTokenLimit: number;
+
+	/** @type {ProgressTracker|undefined} Reports each document as soon as it is scored */
+	progress?: ProgressTracker;
+
+	/** @type {BlindReview|undefined} Aliases the model sees instead of document names */
+	blind?: BlindReview;
+
+	/** @type {PiiRedactor|undefined} Restores redacted personal data in the model's analyses */
+	redactor?: PiiRedactor;
+
+	/**
+	 * Creates a new PointwiseScorer instance.
+	 * @param {Record<string, string>} documents - Map of document names to text content
+	 * @param {Criterion[]} criteria - Criteria to score against
+	 * @param {string} openaiApiKey - OpenAI API key
+	 * @param {string} [modelName='gpt-4.1-mini'] - AI model to use for scoring
+	 * @param {BudgetTracker} [budget] - Spending cap checked before every model call
+	 * @param {LlmRecorder} [recorder] - Records every model call, or answers calls from earlier records
+	 * @param {LlmProviderConfig} [providerConfig] - Service that answers model calls (defaults to OpenAI)
+	 * @param {RequestScheduler} [scheduler] - Rate limits and retries model calls
+	 * @param {number} [contextBudget] - Cap on prompt tokens per call, below the model's context window
+	 * @param {UsageTracker} [usageTracker] - Counts the tokens and cost of every model call
+	 * @param {ProgressTracker} [progress] - Reports each document as soon as it is scored
+	 * @param {BlindReview} [blind] - Aliases the model sees instead of document names
+	 * @param {PiiRedactor} [redactor] - Restores redacted personal data in the model's analyses
+	 */
+	constructor(
+		documents: Record<string, string>,
+		criteria: Criterion[],
+		openaiApiKey: string,
+		modelName = 'gpt-4.1-mini',
+		budget?: BudgetTracker,
+		recorder?: LlmRecorder,
+		providerConfig?: LlmProviderConfig,
+		scheduler?: RequestScheduler,
+		contextBudget?: number,
+		usageTracker?: UsageTracker,
+		progress?: ProgressTracker,
+		blind?: BlindReview,
+		redactor?: PiiRedactor
+	) {
+		this.documents = documents;
+		this.criteria = criteria;
+		this.budget = budget;
+		this.criterionEvaluator = new CriterionEvaluator(openaiApiKey, modelName, 0, budget, recorder, providerConfig, scheduler, usageTracker);
+		this.promptGenerator = new PromptGenerator();
+		this.sectionRetriever = new SectionRetriever();
+		this.evidenceSummarizer = new EvidenceSummarizer(this.criterionEvaluator, this.sectionRetriever, contextBudget);
+		this.promptTokenLimit = promptTokenLimit([modelName], MAX_COMPLETION_TOKENS, contextBudget);
+		this.progress = progress;
+		this.blind = blind;
+		this.redactor = redactor;
+	}
+
+	/**
+	 * Scores every document, running up to the pool's concurrency limit at once.
+	 * @param {string[]} documentNames - Documents to score
+	 * @param {WorkerPool} workerPool - Pool bounding concurrent documents
+	 * @returns {Promise<PointwiseScore[]>} Scores in input order
+	 * @async
+	 */
+	async scoreDocuments(documentNames: string[], workerPool: WorkerPool): Promise<PointwiseScore[]> {
+		console.log(`📏 Pointwise scoring ${documentNames.length} documents against ${this.criteria.length} criteria`);
+		return Promise.all(documentNames.map(name => workerPool.run(() => this.scoreDocument(name))));
+	}
+
+	/**
+	 * Scores one document against every criterion in turn.
+	 * A criterion that cannot be scored counts as 0 and is flagged with `error`.
+	 * @param {string} documentName - Document to score
+	 * @returns {Promise<PointwiseScore>} Per-criterion scores and weighted total
+	 * @throws {BudgetExceededError} When the budget cap is reached in 'abort' mode
+	 * @async
+	 */
+	async scoreDocument(documentName: string): Promise<PointwiseScore> {
+		const content = this.documents[documentName] || '';
+		const label = this.blind ? this.blind.alias(documentName) : documentName;
+		const criterionScores: PointwiseCriterionScore[] = [];
+		let weightedTotal = 0;
+
+		for (const criterion of this.criteria) {
+			let criterionScore: PointwiseCriterionScore;
+
+			if (content.trim().length < 20) {
+				console.error(`❌ Content too short for meaningful scoring: ${documentName}`);
+				criterionScore = { score: 0, analysis: 'Error: document content too short to score', error: true };
+			} else {
+				// A document too long for the prompt is cut down to the sections relevant to
+				// this criterion, or summarised when those sections miss too much
+				const sectionBudget = this.promptTokenLimit - encode(this.promptGenerator.generatePointwisePrompt(label, '', criterion)).length;
+				try {
+					const section = await this.evidenceSummarizer.fit(label, content, criterion, criterionQuery(criterion), sectionBudget);
+					const prompt = this.promptGenerator.generatePointwisePrompt(label, section, criterion);
+					const promptTokens = encode(prompt).length;
+					const maxTokens = completionAllowance(this.criterionEvaluator.modelName, promptTokens, 500, MAX_COMPLETION_TOKENS);
+					criterionScore = await this.criterionEvaluator.scorePointwise(prompt, maxTokens);
+					if (this.blind) {
+						criterionScore = this.blind.restoreScore(criterionScore);
+					}
+					if (this.redactor) {
+						criterionScore = this.redactor.restoreScore(criterionScore);
+					}
+				} catch (error) {
+					// A replayed run without a record for this criterion scores it like a failed call
+					if (error instanceof ReplayMissError) {
+						criterionScore = { score: 0, analysis: `Error: ${error.message}`, error: true };
+					} else if (error instanceof BudgetExceededError && this.budget?.mode !== 'abort') {
+						// In 'degrade' mode criteria left over when the budget runs out score 0
+						criterionScore = { score: 0, analysis: 'Skipped: budget cap reached', error: true };
+					} else {
+						throw error;
+					}
+				}
+			}
+
+			criterionScore.criterionId = criterion.id;
+			criterionScore.criterionName = criterion.name;
+			criterionScores.push(criterionScore);
+
+			weightedTotal += (criterionScore.score / 5) * criterion.weight;
+		}
+
+		weightedTotal = Math.round(weightedTotal * 100) / 100;
+		console.log(`  ${documentName}: weighted total ${weightedTotal}`);
+
+		const score: PointwiseScore = { document: documentName, criterionScores, weightedTotal };
+		this.progress?.documentScored(score);
+		return score;
+	}
+
+	/**
+	 * Orders documents by weighted total, highest first. Equal totals keep input order.
+	 * @param {PointwiseScore[]} scores - Document scores
+	 * @returns {string[]} Document names ordered best to worst
+	 */
+	static rankByTotal(scores: PointwiseScore[]): string[] {
+		return scores
+			.map((score, index) => ({ score, index }))
+			.sort((a, b) => b.score.weightedTotal - a.score.weightedTotal || a.index - b.index)
+			.map(({ score }) => score.document);
+	}
+
+	/**
+	 * Groups a ranking into tiers of documents with identical weighted totals.
+	 * @param {string[]} ranking - Documents ordered best to worst
+	 * @param {PointwiseScore[]} scores - Document scores
+	 * @returns {RankingTiers} Tiers, best first
+	 */
+	static tiersByTotal(ranking: string[], scores: PointwiseScore[]): RankingTiers {
+		const totals = new Map(scores.map(score => [score.document, score.weightedTotal]));
+		const tiers: RankingTiers = [];
+
+		ranking.forEach((doc, index) => {
+			const currentTier = tiers[tiers.length - 1];
+			if (currentTier && totals.get(doc) === totals.get(ranking[index - 1])) {
+				currentTier.push(doc);
+			} else {
+				tiers.push([doc]);
+			}
+		});
+
+		return tiers;
+	}
+}
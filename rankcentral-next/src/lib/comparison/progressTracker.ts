@@ -0,0 +1,274 @@
+/**
+ * @fileoverview Live progress of running comparisons.
+ * A run reports comparisons started and finished, criterion results and errors to its
+ * tracker as they happen; clients poll the tracker by an ID they chose when starting
+ * the run. Trackers are kept in memory per server process, shared by every request.
+ */
+
+// src/lib/comparison/progressTracker.ts
+import { ComparisonProgress, ComparisonResult, CriterionEvaluation, PointwiseScore, ProgressEvent, ProgressPhase } from './types';
+
+/** @type {number} Most recent events kept per run; older ones are dropped */
+export const MAX_PROGRESS_EVENTS = 500;
+
+/** @type {number} How long a finished run's progress stays readable, in milliseconds */
+export const PROGRESS_RETENTION_MS = 10 * 60 * 1000;
+
+/** @type {RegExp} Shape of a progress ID chosen by a client */
+const PROGRESS_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/**
+ * Key shared by a pair in either order.
+ * @param {string} documentA - One document
+ * @param {string} documentB - The other document
+ * @returns {string} Key
+ */
+function pairKey(documentA: string, documentB: string): string {
+	return JSON.stringify(documentA < documentB ? [documentA, documentB] : [documentB, documentA]);
+}
+
+/**
+ * Collects the progress of one comparison run.
+ * @class ProgressTracker
+ */
+export class ProgressTracker {
+	/** @type {string} Progress ID chosen by the client */
+	readonly id: string;
+	/** @type {number} Start of the run, in milliseconds since the epoch */
+	readonly startedAt = Date.now();
+	/** @type {ComparisonProgress['status']} Whether the run is still going */
+	status: ComparisonProgress['status'] = 'running';
+	/** @type {ProgressPhase} Stage reached */
+	phase: ProgressPhase = 'preparing';
+	/** @type {number} Pairwise comparisons expected in total */
+	private expectedComparisons = 0;
+	/** @type {number} Documents to score on their own in total */
+	private expectedDocuments = 0;
+	/** @type {number} Pairwise comparisons finished */
+	private completedComparisons = 0;
+	/** @type {number} Pairwise comparisons that ended in an error */
+	private failedComparisons = 0;
+	/** @type {number} Documents scored so far */
+	private scoredDocuments = 0;
+	/** @type {Map<string, [string, string]>} Pairs being compared right now, by unordered pair */
+	private currentPairs = new Map<string, [string, string]>();
+	/** @type {ProgressEvent[]} Most recent events, oldest first */
+	private events: ProgressEvent[] = [];
+	/** @type {number} Sequence number of the last event */
+	private sequence = 0;
+	/** @type {string|undefined} Why the run failed */
+	private error?: string;
+	/** @type {string|undefined} Report stored by the finished run */
+	private reportId?: string;
+
+	/**
+	 * Creates a new ProgressTracker instance.
+	 * @param {string} id - Progress ID chosen by the client
+	 */
+	constructor(id: string) {
+		this.id = id;
+	}
+
+	/**
+	 * Sets how much work the run is expected to take.
+	 * @param {number} comparisons - Pairwise comparisons expected
+	 * @param {number} [documents=0] - Documents to score on their own
+	 */
+	expect(comparisons: number, documents = 0): void {
+		this.expectedComparisons = Math.max(0, comparisons);
+		this.expectedDocuments = Math.max(0, documents);
+	}
+
+	/**
+	 * Moves the run to a new stage.
+	 * @param {ProgressPhase} phase - Stage reached
+	 */
+	setPhase(phase: ProgressPhase): void {
+		this.phase = phase;
+	}
+
+	/**
+	 * Records the start of a pairwise comparison.
+	 * @param {string} documentA - Document shown first
+	 * @param {string} documentB - Document shown second
+	 */
+	comparisonStarted(documentA: string, documentB: string): void {
+		this.currentPairs.set(pairKey(documentA, documentB), [documentA, documentB]);
+		this.push({ type: 'comparison-started', documentA, documentB });
+	}
+
+	/**
+	 * Records a criterion evaluation of a pair as soon as it is made.
+	 * @param {string} documentA - Document shown as "Document A"
+	 * @param {string} documentB - Document shown as "Document B"
+	 * @param {CriterionEvaluation} evaluation - Evaluation of the criterion
+	 */
+	criterionEvaluated(documentA: string, documentB: string, evaluation: CriterionEvaluation): void {
+		this.push({
+			type: 'criterion-evaluated',
+			documentA,
+			documentB,
+			criterionName: evaluation.criterionName,
+			documentAScore: evaluation.documentAScore,
+			documentBScore: evaluation.documentBScore,
+			winner: evaluation.winner === 'A' ? documentA : evaluation.winner === 'B' ? documentB : null,
+			message: evaluation.error
+		});
+	}
+
+	/**
+	 * Records the end of a pairwise comparison, successful or not.
+	 * @param {ComparisonResult} result - Result of the comparison
+	 */
+	comparisonFinished(result: ComparisonResult): void {
+		this.currentPairs.delete(pairKey(result.documentA, result.documentB));
+		this.completedComparisons++;
+
+		if (result.error) {
+			this.failedComparisons++;
+			this.push({ type: 'error', documentA: result.documentA, documentB: result.documentB, message: result.error });
+			return;
+		}
+
+		this.push({
+			type: 'comparison-completed',
+			documentA: result.documentA,
+			documentB: result.documentB,
+			documentAScore: result.evaluationDetails?.overallScores.documentA,
+			documentBScore: result.evaluationDetails?.overallScores.documentB,
+			winner: result.winner
+		});
+	}
+
+	/**
+	 * Records a document scored on its own.
+	 * @param {PointwiseScore} score - Scores of the document
+	 */
+	documentScored(score: PointwiseScore): void {
+		this.scoredDocuments++;
+		this.push({ type: 'document-scored', documentA: score.document, documentAScore: score.weightedTotal });
+	}
+
+	/**
+	 * Marks the run as finished.
+	 * @param {string} [reportId] - Report the run stored
+	 */
+	complete(reportId?: string): void {
+		this.status = 'completed';
+		this.reportId = reportId;
+		this.currentPairs.clear();
+	}
+
+	/**
+	 * Marks the run as failed.
+	 * @param {string} message - Why the run failed
+	 */
+	fail(message: string): void {
+		this.status = 'failed';
+		this.error = message;
+		this.currentPairs.clear();
+		this.push({ type: 'error', message });
+	}
+
+	/**
+	 * Progress so far, with the events after a given sequence number.
+	 * @param {number} [since=0] - Last event sequence number the client has seen
+	 * @returns {ComparisonProgress} Snapshot of the run
+	 */
+	snapshot(since = 0): ComparisonProgress {
+		// Strategies may stop early or add comparisons, so the expectation only bounds what is left
+		const expectedComparisons = Math.max(this.expectedComparisons, this.completedComparisons + this.currentPairs.size);
+		const done = this.completedComparisons + this.scoredDocuments;
+		const remaining = expectedComparisons - this.completedComparisons + Math.max(0, this.expectedDocuments - this.scoredDocuments);
+
+		return {
+			id: this.id,
+			status: this.status,
+			phase: this.phase,
+			startedAt: new Date(this.startedAt).toISOString(),
+			completedComparisons: this.completedComparisons,
+			expectedComparisons,
+			failedComparisons: this.failedComparisons,
+			scoredDocuments: this.scoredDocuments,
+			expectedDocuments: this.expectedDocuments,
+			currentPairs: [...this.currentPairs.values()],
+			estimatedRemainingMs: this.status !== 'running'
+				? 0
+				: done > 0 ? Math.round((Date.now() - this.startedAt) / done * remaining) : null,
+			events: this.events.filter(event => event.sequence > since),
+			error: this.error,
+			reportId: this.reportId
+		};
+	}
+
+	/**
+	 * Adds an event, dropping the oldest once {@link MAX_PROGRESS_EVENTS} are kept.
+	 * @param {Omit<ProgressEvent, 'sequence'|'timestamp'>} event - Event to add
+	 * @private
+	 */
+	private push(event: Omit<ProgressEvent, 'sequence' | 'timestamp'>): void {
+		this.events.push({ sequence: ++this.sequence, timestamp: new Date().toISOString(), ...event });
+		if (this.events.length > MAX_PROGRESS_EVENTS) {
+			this.events.shift();
+		}
+	}
+}
+
+// Kept on the global object so the progress route sees the trackers of the compare
+// route whichever server bundle each was built into, and across hot reloads
+const registry = globalThis as typeof globalThis & { comparisonProgress?: Map<string, { tracker: ProgressTracker; userId: string }> };
+
+/** @type {Map<string, { tracker: ProgressTracker, userId: string }>} Trackers by progress ID, with their owners */
+const trackers = registry.comparisonProgress ??= new Map<string, { tracker: ProgressTracker; userId: string }>();
+
+/**
+ * Checks whether a value can be used as a progress ID.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is a string of 8 to 64 letters, digits and hyphens
+ */
+export function isProgressId(value: unknown): value is string {
+	return typeof value === 'string' && PROGRESS_ID_PATTERN.test(value);
+}
+
+/**
+ * Starts tracking a run under a progress ID. A finished run's progress is forgotten
+ * after {@link PROGRESS_RETENTION_MS}.
+ * @param {string} id - Progress ID chosen by the client
+ * @param {string} userId - Owner of the run; only they can read its progress
+ * @returns {ProgressTracker|undefined} Tracker for the run, or undefined when the ID belongs to someone else
+ */
+export function startProgress(id: string, userId: string): ProgressTracker | undefined {
+	const existing = trackers.get(id);
+	if (existing && existing.userId !== userId) {
+		return undefined;
+	}
+
+	const tracker = new ProgressTracker(id);
+	trackers.set(id, { tracker, userId });
+	return tracker;
+}
+
+/**
+ * Finds the tracker of a run.
+ * @param {string} id - Progress ID chosen by the client
+ * @param {string} userId - User asking; other users' runs are not found
+ * @returns {ProgressTracker|undefined} Tracker, if the run is known and owned by the user
+ */
+export function getProgress(id: string, userId: string): ProgressTracker | undefined {
+	const entry = trackers.get(id);
+	return entry && entry.userId === userId ? entry.tracker : undefined;
+}
+
+/**
+ * Forgets a run's progress after the retention period, unless the ID was reused.
+ * @param {ProgressTracker} tracker - Tracker of a finished run
+ */
+export function releaseProgress(tracker: ProgressTracker): void {
+	const timer = setTimeout(() => {
+		if (trackers.get(tracker.id)?.tracker === tracker) {
+			trackers.delete(tracker.id);
+		}
+	}, PROGRESS_RETENTION_MS);
+	// A pending cleanup must not keep the process alive
+	timer.unref?.();
+}
@@ -4,74 +4,46 @@
  */
 
 // src/lib/comparison/promptGenerator.ts
-import { Criterion } from './types';
+import { Criterion, PromptTemplate, PromptTemplateKind } from './types';
 
 /**
- * Utility class for generating AI evaluation prompts.
- * Creates structured prompts for both criterion-based and custom document evaluations.
- * @class PromptGenerator
+ * Version of the built-in evaluation prompt templates, recorded with the reports that
+ * use them. Bump it whenever their text changes.
+ * @type {number}
  */
-export class PromptGenerator {
-	/**
-	 * Generates a structured prompt for evaluating documents against a specific criterion.
-	 * Creates detailed instructions with scoring rubrics and evaluation guidelines.
-	 * 
-	 * @param {string} doc1Name - Name of the first document
-	 * @param {string} doc2Name - Name of the second document
-	 * @param {string} doc1Section - Relevant content from the first document
-	 * @param {string} doc2Section - Relevant content from the second document
-	 * @param {Criterion} criterion - Evaluation criterion with scoring levels
-	 * @returns {string} Formatted prompt for AI evaluation
-	 */
-	generateCriterionPrompt(
-		doc1Name: string,
-		doc2Name: string,
-		doc1Section: string,
-		doc2Section: string,
-		criterion: Criterion
-	): string {
-		let prompt = `
-		Evaluate the following two documents specifically on this criterion: ${criterion.name}.
+export const PROMPT_TEMPLATE_VERSION = 1;
+
+/** @type {string} Reply a summarisation prompt asks for when a text holds no relevant evidence */
+export const NO_RELEVANT_EVIDENCE = 'NO RELEVANT EVIDENCE';
+
+/** @type {string} Name of the built-in templates, used when no stored template is active */
+export const DEFAULT_PROMPT_TEMPLATE_NAME = 'default';
+
+/** @type {RegExp} A `{{variable}}` placeholder in a template body */
+export const PROMPT_VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// The built-in bodies keep the indentation the prompts were always sent with, so they
+// render exactly the prompts of earlier reports and those reports still replay
+const DEFAULT_CRITERION_TEMPLATE = `
+		Evaluate the following two documents specifically on this criterion: {{criterion_name}}.
 		
 		# Documents:
-		- Document A: ${doc1Name}
-		- Document B: ${doc2Name}
+		- Document A: {{document_a_name}}
+		- Document B: {{document_b_name}}
 		
 		# Criterion Information:
-		Name: ${criterion.name}
-		Weight: ${criterion.weight}%
-		Description: ${criterion.description}
+		Name: {{criterion_name}}
+		Weight: {{criterion_weight}}%
+		Description: {{criterion_description}}
 		
 		# Scoring Rubric:
-		`;
-
-		if (criterion.scoringLevels && Object.keys(criterion.scoringLevels).length > 0) {
-			console.log(`Using custom scoring levels for criterion: ${criterion.name}`);
-			// Sort scoring levels numerically for consistent presentation
-			const sortedLevels = Object.entries(criterion.scoringLevels)
-				.sort(([a], [b]) => parseInt(a) - parseInt(b));
-			
-			for (const [level, desc] of sortedLevels) {
-				prompt += `  ${level}: ${desc}\n`;
-			}
-		} else {
-			console.log(`Using default scoring levels for criterion: ${criterion.name}`);
-			prompt += "  1: Poor - Does not meet the criterion requirements\n";
-			prompt += "  2: Fair - Meets some requirements with significant gaps\n";
-			prompt += "  3: Good - Meets most requirements\n";
-			prompt += "  4: Very Good - Meets all requirements\n";
-			prompt += "  5: Excellent - Exceeds requirements\n";
-		}
-
-		prompt += `
-		# Document A Relevant Section for ${criterion.name}:
-		${doc1Section}
+		{{rubric}}
+		# Document A Relevant Section for {{criterion_name}}:
+		{{document_a}}
+		
+		# Document B Relevant Section for {{criterion_name}}:
+		{{document_b}}
 		
-		# Document B Relevant Section for ${criterion.name}:
-		${doc2Section}
-		`;
-
-		prompt += `
 		Perform a thorough evaluation following these steps:
 		
 		1. Analyse Document A and Document B
@@ -94,7 +66,128 @@ export class PromptGenerator {
 		In your analyses, refer to the document names only, do not refer to them as Document A and Document B at all. 
 		
 		Respond with a JSON object containing these fields:
-		{
+		{{output_schema}}
+		`;
+
+const DEFAULT_CUSTOM_TEMPLATE = `
+		Compare and evaluate the following two documents based on the provided instructions.
+		
+		# Documents:
+		- Document A: {{document_a_name}}
+		- Document B: {{document_b_name}}
+		
+		# Document A Content:
+		{{document_a}}
+		
+		# Document B Content:
+		{{document_b}}
+		
+		# Evaluation Instructions:
+		{{instructions}}
+		
+		# Evaluation Guidelines:
+		- Thoroughly analyze both documents based on the given instructions
+		- Consider all aspects requested in the evaluation instructions
+		- Be objective and fair in your assessment
+		- Use specific examples from the text to support your evaluation
+		- Score each document on a scale of 1-5 (where 1 is poor and 5 is excellent)
+		- Determine a clear winner or declare a tie if truly equal
+		- Refer to the document names only, do not refer to them as Document A and Document B at all.
+		- Criterion Name is always Custom Evaluation
+		
+		Respond with a JSON object containing these fields:
+		{{output_schema}}
+		`;
+
+/**
+ * Built-in templates for each kind of pairwise evaluation.
+ * @type {Record<PromptTemplateKind, PromptTemplate>}
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, PromptTemplate> = {
+	criterion: {
+		name: DEFAULT_PROMPT_TEMPLATE_NAME,
+		kind: 'criterion',
+		version: PROMPT_TEMPLATE_VERSION,
+		body: DEFAULT_CRITERION_TEMPLATE,
+		description: 'Built-in criterion evaluation prompt'
+	},
+	custom: {
+		name: DEFAULT_PROMPT_TEMPLATE_NAME,
+		kind: 'custom',
+		version: PROMPT_TEMPLATE_VERSION,
+		body: DEFAULT_CUSTOM_TEMPLATE,
+		description: 'Built-in custom-instructions evaluation prompt'
+	}
+};
+
+/**
+ * Fills a template's `{{variable}}` placeholders. Placeholders without a value are left
+ * as written, and values are inserted as-is, so text inside a document is never
+ * treated as a placeholder.
+ * @param {string} body - Template body
+ * @param {Record<string, string>} variables - Values by variable name
+ * @returns {string} Rendered prompt
+ */
+export function renderPromptTemplate(body: string, variables: Record<string, string>): string {
+	return body.replace(PROMPT_VARIABLE_PATTERN, (placeholder, name: string) =>
+		Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+	);
+}
+
+/**
+ * Utility class for generating AI evaluation prompts.
+ * Creates structured prompts for both criterion-based and custom document evaluations.
+ * @class PromptGenerator
+ */
+export class PromptGenerator {
+	/** @type {PromptTemplate|undefined} Template used instead of the built-in one of its kind */
+	promptTemplate?: PromptTemplate;
+
+	/**
+	 * Creates a new PromptGenerator instance.
+	 * @param {PromptTemplate} [promptTemplate] - Template to use instead of the built-in one of its kind
+	 */
+	constructor(promptTemplate?: PromptTemplate) {
+		this.promptTemplate = promptTemplate;
+	}
+
+	/**
+	 * Template used for a kind of pairwise evaluation.
+	 * @param {PromptTemplateKind} kind - Kind of evaluation
+	 * @returns {PromptTemplate} The configured template if it is of this kind, otherwise the built-in one
+	 */
+	template(kind: PromptTemplateKind): PromptTemplate {
+		return this.promptTemplate?.kind === kind ? this.promptTemplate : DEFAULT_PROMPT_TEMPLATES[kind];
+	}
+
+	/**
+	 * Generates a structured prompt for evaluating documents against a specific criterion,
+	 * from the criterion template with its scoring rubric and evaluation guidelines.
+	 * 
+	 * @param {string} doc1Name - Name of the first document
+	 * @param {string} doc2Name - Name of the second document
+	 * @param {string} doc1Section - Relevant content from the first document
+	 * @param {string} doc2Section - Relevant content from the second document
+	 * @param {Criterion} criterion - Evaluation criterion with scoring levels
+	 * @returns {string} Formatted prompt for AI evaluation
+	 */
+	generateCriterionPrompt(
+		doc1Name: string,
+		doc2Name: string,
+		doc1Section: string,
+		doc2Section: string,
+		criterion: Criterion
+	): string {
+		return renderPromptTemplate(this.template('criterion').body, {
+			criterion_name: criterion.name,
+			criterion_weight: String(criterion.weight),
+			criterion_description: criterion.description,
+			rubric: this.formatScoringRubric(criterion),
+			document_a_name: doc1Name,
+			document_b_name: doc2Name,
+			document_a: doc1Section,
+			document_b: doc2Section,
+			output_schema: `{
 			"criterion_name": "${criterion.name}",
 			"document_a_score": [score between 1-5],
 			"document_a_analysis": [detailed analysis with specific examples],
@@ -103,15 +196,13 @@ export class PromptGenerator {
 			"comparative_analysis": [direct side-by-side comparison],
 			"reasoning": [detailed justification for your decision],
 			"winner": [either "A" or "B" or "Tie" if truly equal]
-		}
-		`;
-
-		return prompt;
+		}`
+		});
 	}
 
 	/**
-	 * Generates a custom evaluation prompt based on user-provided instructions.
-	 * Creates a flexible evaluation framework for custom comparison requirements.
+	 * Generates a custom evaluation prompt based on user-provided instructions,
+	 * from the custom template.
 	 * 
 	 * @param {string} doc1Name - Name of the first document
 	 * @param {string} doc2Name - Name of the second document
@@ -127,34 +218,13 @@ export class PromptGenerator {
 		doc2Section: string,
 		customPromptText: string
 	): string {
-		const prompt = `
-		Compare and evaluate the following two documents based on the provided instructions.
-		
-		# Documents:
-		- Document A: ${doc1Name}
-		- Document B: ${doc2Name}
-		
-		# Document A Content:
-		${doc1Section}
-		
-		# Document B Content:
-		${doc2Section}
-		
-		# Evaluation Instructions:
-		${customPromptText}
-		
-		# Evaluation Guidelines:
-		- Thoroughly analyze both documents based on the given instructions
-		- Consider all aspects requested in the evaluation instructions
-		- Be objective and fair in your assessment
-		- Use specific examples from the text to support your evaluation
-		- Score each document on a scale of 1-5 (where 1 is poor and 5 is excellent)
-		- Determine a clear winner or declare a tie if truly equal
-		- Refer to the document names only, do not refer to them as Document A and Document B at all.
-		- Criterion Name is always Custom Evaluation
-		
-		Respond with a JSON object containing these fields:
-		{
+		return renderPromptTemplate(this.template('custom').body, {
+			document_a_name: doc1Name,
+			document_b_name: doc2Name,
+			document_a: doc1Section,
+			document_b: doc2Section,
+			instructions: customPromptText,
+			output_schema: `{
 			"criterion_name": "Custom Evaluation",
 			"document_a_score": [score between 1-5],
 			"document_a_analysis": [detailed analysis with specific examples],
@@ -163,9 +233,158 @@ export class PromptGenerator {
 			"comparative_analysis": [direct side-by-side comparison based on the custom instructions],
 			"reasoning": [detailed justification for your decision],
 			"winner": [either "A" or "B" or "Tie" if truly equal]
+		}`
+		});
+	}
+
+	/**
+	 * Generates a prompt that scores a single document against a criterion's rubric,
+	 * without reference to any other document.
+	 * 
+	 * @param {string} docName - Name of the document
+	 * @param {string} docSection - Content of the document
+	 * @param {Criterion} criterion - Evaluation criterion with scoring levels
+	 * @returns {string} Formatted prompt for absolute rubric scoring
+	 */
+	generatePointwisePrompt(
+		docName: string,
+		docSection: string,
+		criterion: Criterion
+	): string {
+		let prompt = `
+		Score the following document on this criterion: ${criterion.name}.
+		Judge the document on its own merits against the rubric; do not assume any other documents exist.
+		
+		# Document: ${docName}
+		
+		# Criterion Information:
+		Name: ${criterion.name}
+		Description: ${criterion.description}
+		
+		# Scoring Rubric:
+		`;
+
+		prompt += this.formatScoringRubric(criterion);
+
+		prompt += `
+		# Document Content:
+		${docSection}
+		
+		Assess the document strictly against the rubric, citing specific content from the text,
+		and assign the single rubric level it best matches. Refer to the document by its name.
+		
+		Respond with a JSON object containing these fields:
+		{
+			"criterion_name": "${criterion.name}",
+			"score": [score between 1-5],
+			"analysis": [detailed justification with specific examples]
 		}
 		`;
 
 		return prompt;
 	}
+
+	/**
+	 * Generates a prompt that condenses one part of a long document into the evidence
+	 * it holds for a criterion (the "map" step of summarisation).
+	 * 
+	 * @param {string} docName - Name of the document
+	 * @param {string} chunk - Text of this part of the document
+	 * @param {number} part - Position of the part, from 1
+	 * @param {number} totalParts - Number of parts the document was split into
+	 * @param {Criterion} criterion - Criterion the evidence is for
+	 * @param {number} wordLimit - Longest summary wanted, in words
+	 * @returns {string} Formatted prompt for evidence extraction
+	 */
+	generateEvidenceSummaryPrompt(
+		docName: string,
+		chunk: string,
+		part: number,
+		totalParts: number,
+		criterion: Criterion,
+		wordLimit: number
+	): string {
+		return `
+		The following is part ${part} of ${totalParts} of the document "${docName}".
+		It will later be assessed on this criterion: ${criterion.name}.
+		
+		# Criterion Information:
+		Name: ${criterion.name}
+		Description: ${criterion.description}
+		
+		# Document Content (part ${part} of ${totalParts}):
+		${chunk}
+		
+		Extract the evidence in this part that bears on the criterion, in at most ${wordLimit} words.
+		Keep specific facts, figures, commitments and short quotations; keep gaps and weaknesses as
+		well as strengths; do not judge or score the document. If nothing in this part is relevant,
+		reply with exactly: ${NO_RELEVANT_EVIDENCE}
+		`;
+	}
+
+	/**
+	 * Generates a prompt that merges evidence summaries of parts of a document into
+	 * one shorter summary (the "reduce" step of summarisation).
+	 * 
+	 * @param {string} docName - Name of the document
+	 * @param {string[]} summaries - Evidence summaries, in document order
+	 * @param {Criterion} criterion - Criterion the evidence is for
+	 * @param {number} wordLimit - Longest merged summary wanted, in words
+	 * @returns {string} Formatted prompt for merging evidence
+	 */
+	generateEvidenceMergePrompt(
+		docName: string,
+		summaries: string[],
+		criterion: Criterion,
+		wordLimit: number
+	): string {
+		return `
+		The following notes were taken from consecutive parts of the document "${docName}"
+		as evidence for this criterion: ${criterion.name}.
+		
+		# Criterion Information:
+		Name: ${criterion.name}
+		Description: ${criterion.description}
+		
+		# Evidence Notes:
+		${summaries.map((summary, index) => `## Notes ${index + 1}\n${summary}`).join('\n\n')}
+		
+		Merge these notes into one account of the evidence, in at most ${wordLimit} words.
+		Remove repetition but keep every distinct fact, figure, commitment and weakness;
+		do not judge or score the document. If none of the notes hold relevant evidence,
+		reply with exactly: ${NO_RELEVANT_EVIDENCE}
+		`;
+	}
+
+	/**
+	 * Formats a criterion's scoring levels as rubric lines, falling back to the
+	 * default five-level rubric when the criterion defines none.
+	 * 
+	 * @param {Criterion} criterion - Evaluation criterion
+	 * @returns {string} One "level: description" line per scoring level
+	 * @private
+	 */
+	private formatScoringRubric(criterion: Criterion): string {
+		let rubric = '';
+
+		if (criterion.scoringLevels && Object.keys(criterion.scoringLevels).length > 0) {
+			console.log(`Using custom scoring levels for criterion: ${criterion.name}`);
+			// Sort scoring levels numerically for consistent presentation
+			const sortedLevels = Object.entries(criterion.scoringLevels)
+				.sort(([a], [b]) => parseInt(a) - parseInt(b));
+			
+			for (const [level, desc] of sortedLevels) {
+				rubric += `  ${level}: ${desc}\n`;
+			}
+		} else {
+			console.log(`Using default scoring levels for criterion: ${criterion.name}`);
+			rubric += "  1: Poor - Does not meet the criterion requirements\n";
+			rubric += "  2: Fair - Meets some requirements with significant gaps\n";
+			rubric += "  3: Good - Meets most requirements\n";
+			rubric += "  4: Very Good - Meets all requirements\n";
+			rubric += "  5: Excellent - Exceeds requirements\n";
+		}
+
+		return rubric;
+	}
 }
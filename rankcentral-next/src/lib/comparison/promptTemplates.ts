@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Library of versioned pairwise prompt templates.
+ * Admins save templates as named records whose every edit is a new version; a run uses
+ * the version it names, or the active version of its kind, or the built-in template.
+ * Bodies are checked against the variables each kind of evaluation can fill.
+ */
+
+// src/lib/comparison/promptTemplates.ts
+import { DEFAULT_PROMPT_TEMPLATE_NAME, DEFAULT_PROMPT_TEMPLATES, PROMPT_VARIABLE_PATTERN } from './promptGenerator';
+import { EvaluationMethod, PromptTemplate, PromptTemplateKind, PromptTemplateStore } from './types';
+
+/** @type {PromptTemplateKind[]} Kinds of pairwise evaluation a template can be written for */
+export const PROMPT_TEMPLATE_KINDS: PromptTemplateKind[] = ['criterion', 'custom'];
+
+/**
+ * Variables each kind of template can use.
+ * @type {Record<PromptTemplateKind, string[]>}
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, string[]> = {
+	criterion: [
+		'criterion_name',
+		'criterion_weight',
+		'criterion_description',
+		'rubric',
+		'document_a_name',
+		'document_b_name',
+		'document_a',
+		'document_b',
+		'output_schema'
+	],
+	custom: ['instructions', 'document_a_name', 'document_b_name', 'document_a', 'document_b', 'output_schema']
+};
+
+/** @type {string[]} Variables every template must use: both documents and the response format the parser expects */
+export const REQUIRED_PROMPT_TEMPLATE_VARIABLES = ['document_a', 'document_b', 'output_schema'];
+
+/** @type {number} Longest template body accepted, in characters */
+export const MAX_PROMPT_TEMPLATE_LENGTH = 20000;
+
+/** @type {RegExp} Shape of a template name */
+const PROMPT_TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{1,63}$/;
+
+/**
+ * Error thrown when a prompt template is invalid or cannot be found.
+ * @class PromptTemplateError
+ * @extends Error
+ */
+export class PromptTemplateError extends Error {
+	/**
+	 * Creates a new PromptTemplateError instance.
+	 * @param {string} message - What is wrong with the template
+	 */
+	constructor(message: string) {
+		super(message);
+		this.name = 'PromptTemplateError';
+	}
+}
+
+/**
+ * Checks whether a value names a kind of prompt template.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is a known template kind
+ */
+export function isPromptTemplateKind(value: unknown): value is PromptTemplateKind {
+	return typeof value === 'string' && (PROMPT_TEMPLATE_KINDS as string[]).includes(value);
+}
+
+/**
+ * Kind of template a run with an evaluation method uses for its pairwise prompts.
+ * Pointwise runs only compare pairs when refining, which uses criterion prompts.
+ * @param {EvaluationMethod} evaluationMethod - Evaluation method of the run
+ * @returns {PromptTemplateKind} Template kind
+ */
+export function promptTemplateKind(evaluationMethod: EvaluationMethod): PromptTemplateKind {
+	return evaluationMethod === 'prompt' ? 'custom' : 'criterion';
+}
+
+/**
+ * Problems that keep a template from being saved.
+ * @param {string} name - Template name
+ * @param {PromptTemplateKind} kind - Kind of evaluation the template is for
+ * @param {string} body - Template body
+ * @returns {string[]} One message per problem; empty when the template is valid
+ */
+export function validatePromptTemplate(name: string, kind: PromptTemplateKind, body: string): string[] {
+	const problems: string[] = [];
+
+	if (!PROMPT_TEMPLATE_NAME_PATTERN.test(name)) {
+		problems.push('Name must be 2 to 64 lowercase letters, digits or hyphens');
+	} else if (name === DEFAULT_PROMPT_TEMPLATE_NAME) {
+		problems.push(`"${DEFAULT_PROMPT_TEMPLATE_NAME}" is reserved for the built-in templates`);
+	}
+
+	if (!body.trim()) {
+		problems.push('Body must not be empty');
+	} else if (body.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+		problems.push(`Body must be at most ${MAX_PROMPT_TEMPLATE_LENGTH} characters`);
+	}
+
+	const used = new Set([...body.matchAll(PROMPT_VARIABLE_PATTERN)].map(match => match[1]));
+	const unknown = [...used].filter(variable => !PROMPT_TEMPLATE_VARIABLES[kind].includes(variable));
+	if (unknown.length > 0) {
+		problems.push(`Unknown variables for a ${kind} template: ${unknown.join(', ')}`);
+	}
+
+	const missing = REQUIRED_PROMPT_TEMPLATE_VARIABLES.filter(variable => !used.has(variable));
+	if (missing.length > 0) {
+		problems.push(`Missing required variables: ${missing.join(', ')}`);
+	}
+
+	return problems;
+}
+
+/**
+ * Finds the template a run uses for its kind of evaluation.
+ * @async
+ * @param {PromptTemplateStore} store - Stored templates
+ * @param {PromptTemplateKind} kind - Kind of evaluation of the run
+ * @param {string} [name] - Template the run asked for; the active one when omitted
+ * @param {number} [version] - Version the run asked for; the latest when omitted
+ * @returns {Promise<PromptTemplate>} Template to use
+ * @throws {PromptTemplateError} When the named template or version does not exist or is of another kind
+ */
+export async function resolvePromptTemplate(
+	store: PromptTemplateStore,
+	kind: PromptTemplateKind,
+	name?: string,
+	version?: number
+): Promise<PromptTemplate> {
+	if (!name) {
+		return (await store.findActive(kind)) ?? DEFAULT_PROMPT_TEMPLATES[kind];
+	}
+
+	if (name === DEFAULT_PROMPT_TEMPLATE_NAME) {
+		const builtIn = DEFAULT_PROMPT_TEMPLATES[kind];
+		if (version !== undefined && version !== builtIn.version) {
+			throw new PromptTemplateError(`The built-in template has no version ${version}`);
+		}
+		return builtIn;
+	}
+
+	const template = await store.find(name, version);
+	if (!template) {
+		throw new PromptTemplateError(`Prompt template "${name}"${version !== undefined ? ` version ${version}` : ''} not found`);
+	}
+	if (template.kind !== kind) {
+		throw new PromptTemplateError(`Prompt template "${name}" is for ${template.kind} evaluations, not ${kind} ones`);
+	}
+	return template;
+}
+
+/**
+ * Reads the template stored with a report. Reports made before templates were stored
+ * used the built-in ones.
+ * @param {unknown} value - Stored template
+ * @returns {PromptTemplate|undefined} The template, or undefined for the built-in ones
+ */
+export function normalizePromptTemplate(value: unknown): PromptTemplate | undefined {
+	if (!value || typeof value !== 'object') {
+		return undefined;
+	}
+
+	const template = value as Partial<PromptTemplate>;
+	if (typeof template.name !== 'string' || !isPromptTemplateKind(template.kind)
+		|| typeof template.version !== 'number' || typeof template.body !== 'string') {
+		return undefined;
+	}
+
+	return { name: template.name, kind: template.kind, version: template.version, body: template.body };
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Common interface and factory for pairwise ranking strategies.
+ * Every strategy turns an async pairwise comparator into an ordered list of documents,
+ * trading off the number of comparisons against how exhaustively pairs are examined.
+ */
+
+// src/lib/comparison/rankingStrategy.ts
+import { MergesortStrategy } from './mergesortRanking';
+import { RoundRobinStrategy } from './roundRobinRanking';
+import { SwissStrategy } from './swissRanking';
+import { DEFAULT_SHORTLIST_SIZE, TopKStrategy } from './topKRanking';
+import { RankingStrategyName } from './types';
+
+/**
+ * Async comparison function used by ranking strategies.
+ * Resolves positive when `a` ranks above `b`, negative when below, zero for a tie.
+ * @typedef {Function} AsyncComparator
+ */
+export type AsyncComparator<T = string> = (a: T, b: T) => Promise<number>;
+
+/**
+ * A ranking algorithm driven by pairwise comparisons.
+ * @interface RankingStrategy
+ */
+export interface RankingStrategy {
+	/** @type {RankingStrategyName} Identifier recorded in report metadata */
+	readonly name: RankingStrategyName;
+
+	/**
+	 * When set, only the first `shortlistSize` entries of the ranking are ordered;
+	 * the remaining documents were not shortlisted and are not ranked among themselves.
+	 * @type {number|undefined}
+	 */
+	readonly shortlistSize?: number;
+
+	/**
+	 * Orders documents from best to worst.
+	 * @param {string[]} documents - Document names to rank
+	 * @param {AsyncComparator} comparator - Async pairwise comparator
+	 * @returns {Promise<string[]>} Document names ordered best to worst
+	 */
+	rank(documents: string[], comparator: AsyncComparator): Promise<string[]>;
+}
+
+/**
+ * Options accepted by {@link createRankingStrategy}.
+ * @interface RankingStrategyOptions
+ */
+export interface RankingStrategyOptions {
+	/** @type {number} [swissRounds] Number of Swiss-system rounds (defaults to ⌈log2 n⌉ + 1) */
+	swissRounds?: number;
+	/** @type {number} [topK] Number of documents to shortlist with the top-K strategy (defaults to 5) */
+	topK?: number;
+}
+
+/** @type {RankingStrategyName[]} All selectable ranking strategies */
+export const RANKING_STRATEGIES: RankingStrategyName[] = ['mergesort', 'round-robin', 'swiss', 'top-k'];
+
+/** @type {number} Largest batch for which an exhaustive round-robin is recommended */
+export const ROUND_ROBIN_MAX_DOCUMENTS = 8;
+
+/**
+ * Checks whether a value names a known ranking strategy.
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value is a valid strategy name
+ */
+export function isRankingStrategyName(value: unknown): value is RankingStrategyName {
+	return typeof value === 'string' && (RANKING_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Suggests a strategy for a batch size: exhaustive round-robin for small batches,
+ * Swiss rounds to keep the comparison count bounded for large ones.
+ * @param {number} documentCount - Number of documents to rank
+ * @returns {RankingStrategyName} Recommended strategy
+ */
+export function recommendRankingStrategy(documentCount: number): RankingStrategyName {
+	return documentCount <= ROUND_ROBIN_MAX_DOCUMENTS ? 'round-robin' : 'swiss';
+}
+
+/**
+ * Upper bound on the pairwise comparisons a strategy makes for a batch.
+ * Merge sort uses its worst case; the other strategies make a fixed number.
+ * @param {RankingStrategyName} name - Strategy to estimate
+ * @param {number} documentCount - Number of documents to rank
+ * @param {RankingStrategyOptions} [options={}] - Strategy-specific options
+ * @returns {number} Number of comparisons
+ */
+export function estimateComparisonCount(
+	name: RankingStrategyName,
+	documentCount: number,
+	options: RankingStrategyOptions = {}
+): number {
+	const n = documentCount;
+	if (n <= 1) {
+		return 0;
+	}
+
+	const depth = Math.ceil(Math.log2(n));
+	switch (name) {
+		case 'round-robin':
+			return (n * (n - 1)) / 2;
+		case 'swiss':
+			return new SwissStrategy(options.swissRounds).roundsFor(n) * Math.floor(n / 2);
+		case 'top-k':
+			return n - 1 + (Math.min(options.topK ?? DEFAULT_SHORTLIST_SIZE, n) - 1) * depth;
+		case 'mergesort':
+		default:
+			return n * depth - 2 ** depth + 1;
+	}
+}
+
+/**
+ * Creates a ranking strategy instance by name.
+ * @param {RankingStrategyName} name - Strategy to create
+ * @param {RankingStrategyOptions} [options={}] - Strategy-specific options
+ * @returns {RankingStrategy} Strategy instance
+ */
+export function createRankingStrategy(
+	name: RankingStrategyName,
+	options: RankingStrategyOptions = {}
+): RankingStrategy {
+	switch (name) {
+		case 'round-robin':
+			return new RoundRobinStrategy();
+		case 'swiss':
+			return new SwissStrategy(options.swissRounds);
+		case 'top-k':
+			return new TopKStrategy(options.topK);
+		case 'mergesort':
+		default:
+			return new MergesortStrategy();
+	}
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Helpers for rankings expressed as tiers of tied documents.
+ * A tier list such as [["A"], ["B", "C"], ["D"]] means A is first, B and C share
+ * second place and D is fourth. Older reports store a flat list, one document per place.
+ */
+
+// src/lib/comparison/rankingTiers.ts
+import { RankingTiers } from './types';
+
+/**
+ * Position of a single document within a tiered ranking.
+ * @interface TierPosition
+ */
+export interface TierPosition {
+	/** @type {string} Document name */
+	document: string;
+	/** @type {number} Competition rank (1, =2, =2, 4, ...) */
+	rank: number;
+	/** @type {boolean} Whether the rank is shared with other documents */
+	shared: boolean;
+	/** @type {string} Display label, e.g. "2" or "=2" */
+	label: string;
+}
+
+/**
+ * Converts a stored ranking into tiers, accepting both tiered and legacy flat rankings.
+ * @param {unknown} ranking - Stored ranking value
+ * @returns {RankingTiers} Tiers, best first; empty when the value is not a ranking
+ */
+export function normalizeRankingTiers(ranking: unknown): RankingTiers {
+	if (!Array.isArray(ranking)) {
+		return [];
+	}
+
+	return ranking
+		.map(entry => (Array.isArray(entry) ? entry : [entry]))
+		.map(tier => tier.filter((doc): doc is string => typeof doc === 'string'))
+		.filter(tier => tier.length > 0);
+}
+
+/**
+ * Flattens tiers into a single best-to-worst list, keeping the order within each tier.
+ * @param {RankingTiers} tiers - Ranking tiers
+ * @returns {string[]} Document names
+ */
+export function flattenTiers(tiers: RankingTiers): string[] {
+	return tiers.flat();
+}
+
+/**
+ * Assigns competition ranks to every document in a tiered ranking.
+ * Documents in the same tier share a rank, shown with a leading "=".
+ * @param {RankingTiers} tiers - Ranking tiers
+ * @returns {TierPosition[]} One entry per document, best first
+ */
+export function tierPositions(tiers: RankingTiers): TierPosition[] {
+	const positions: TierPosition[] = [];
+	let rank = 1;
+
+	for (const tier of tiers) {
+		const shared = tier.length > 1;
+		for (const document of tier) {
+			positions.push({ document, rank, shared, label: shared ? `=${rank}` : `${rank}` });
+		}
+		rank += tier.length;
+	}
+
+	return positions;
+}
@@ -6,9 +6,11 @@
  */
 
 // src/lib/comparison/reportGenerator.ts
-import { ComparisonResult, ReportData } from './types';
+import { ComparisonResult, ConsistencyAnalysis, DocumentScore, PointwiseScore, RankingTiers, ReportData, TokenUsage } from './types';
+import { flattenTiers, normalizeRankingTiers, tierPositions } from './rankingTiers';
 import { ComparisonDataProcessor } from './dataProcessor';
 import { SHEET_NAMES } from './report_constants';
+import { roundCost, sumUsage } from './usageTracker';
 import { v4 as uuidv4 } from 'uuid';
 import { sanitizeString } from '@/lib/utils/string-utils';
 
@@ -38,7 +40,11 @@ export class ReportGenerator {
    * @param {string[]} pdfList - List of PDF document names being compared
    * @param {ComparisonResult[]} comparisonResults - Array of comparison results to process
    * @param {string} [folderName="Report"] - Name for the report folder/category
-   * @param {string[]} [documentsOrder] - Optional ordered list of documents from merge sort ranking
+   * @param {string[]|RankingTiers} [documentsOrder] - Optional ranking, either a flat list or tiers of tied documents
+   * @param {DocumentScore[]} [scores] - Optional Bradley–Terry strength estimates per document
+   * @param {ConsistencyAnalysis} [consistency] - Optional cycle and intransitivity analysis
+   * @param {number} [shortlistSize] - In top-K mode, how many leading documents were ordered
+   * @param {PointwiseScore[]} [pointwiseScores] - Rubric scores per document (pointwise evaluation)
    * @returns {Promise<ReportData>} Promise resolving to structured report data
    * @async
    */
@@ -46,7 +52,11 @@ export class ReportGenerator {
     pdfList: string[],
     comparisonResults: ComparisonResult[],
     folderName: string = "Report",
-    documentsOrder?: string[] // Add parameter for merge sort results
+    documentsOrder?: string[] | RankingTiers, // Add parameter for merge sort results
+    scores?: DocumentScore[],
+    consistency?: ConsistencyAnalysis,
+    shortlistSize?: number,
+    pointwiseScores?: PointwiseScore[]
   ): Promise<ReportData> {
     console.log(`Generating report with folder name: '${folderName}'`);
     const startTime = Date.now();
@@ -54,10 +64,17 @@ export class ReportGenerator {
     const reportData = ComparisonDataProcessor.prepareReportData(pdfList, comparisonResults);
     const criterionData = ComparisonDataProcessor.prepareCriterionData(comparisonResults);
     
+    const tiers = documentsOrder ? normalizeRankingTiers(documentsOrder) : undefined;
+
     const report: ReportData = {
       overview: reportData,
       criterionDetails: criterionData,
-      ranking: documentsOrder || pdfList // Use documentsOrder if provided, otherwise fall back to original list
+      ranking: tiers ? flattenTiers(tiers) : pdfList, // Use documentsOrder if provided, otherwise fall back to original list
+      tiers,
+      scores,
+      consistency,
+      shortlistSize,
+      pointwiseScores
     };
 
     const endTime = Date.now();
@@ -73,10 +90,10 @@ export class ReportGenerator {
    * 
    * @param {ReportData} reportData - Report data to convert to CSV files
    * @param {string} [folderName="csv_reports"] - Optional name for the virtual folder
-   * @param {string[]} [documentsOrder] - Order of documents from merge sort for unified ranking
+   * @param {string[]|RankingTiers} [documentsOrder] - Order of documents (flat or tiered) for unified ranking
    * @returns {CsvFile[]} Array of objects containing filename and CSV content
    */
-  createCsvFiles(reportData: ReportData, folderName: string = "csv_reports", documentsOrder?: string[], comparisonResults?: ComparisonResult[]): CsvFile[] {
+  createCsvFiles(reportData: ReportData, folderName: string = "csv_reports", documentsOrder?: string[] | RankingTiers, comparisonResults?: ComparisonResult[]): CsvFile[] {
     try {
       // Input validation
       if (!reportData) {
@@ -127,6 +144,57 @@ export class ReportGenerator {
         console.error('Error generating overall winners CSV:', error);
       }
       
+      // Generate Consistency Analysis CSV when the comparison graph was analysed
+      if (reportData.consistency) {
+        try {
+          const consistencyCsvContent = this.exportConsistencyAnalysisToCSV(reportData.consistency);
+          csvFiles.push({ [`${SHEET_NAMES.consistency}.csv`]: consistencyCsvContent });
+        } catch (error) {
+          console.error('Error generating consistency analysis CSV:', error);
+        }
+      }
+      
+      // Generate Pointwise Scores CSV when documents were scored on their own
+      if (reportData.pointwiseScores && reportData.pointwiseScores.length > 0) {
+        try {
+          const pointwiseCsvContent = this.exportPointwiseScoresToCSV(reportData.pointwiseScores, reportData.ranking);
+          csvFiles.push({ [`${SHEET_NAMES.pointwise}.csv`]: pointwiseCsvContent });
+        } catch (error) {
+          console.error('Error generating pointwise scores CSV:', error);
+        }
+      }
+
+      // Generate Judge Breakdown CSV when a judge panel evaluated the criteria
+      if (comparisonResults?.some(result => result.evaluationDetails?.criterionEvaluations?.some(evaluation => evaluation.judgeBreakdown?.length))) {
+        try {
+          const judgesCsvContent = this.exportJudgeBreakdownToCSV(comparisonResults);
+          csvFiles.push({ [`${SHEET_NAMES.judges}.csv`]: judgesCsvContent });
+        } catch (error) {
+          console.error('Error generating judge breakdown CSV:', error);
+        }
+      }
+
+      // Generate Verdict Overrides CSV when reviewers changed any verdict
+      if (comparisonResults?.some(result => result.override)) {
+        try {
+          const overridesCsvContent = this.exportVerdictOverridesToCSV(comparisonResults);
+          csvFiles.push({ [`${SHEET_NAMES.overrides}.csv`]: overridesCsvContent });
+        } catch (error) {
+          console.error('Error generating verdict overrides CSV:', error);
+        }
+      }
+
+      // Generate Token Usage CSV when the model calls behind the results were counted
+      const pointwiseScores = reportData.pointwiseScores || [];
+      if (comparisonResults?.some(result => result.usage) || pointwiseScores.some(score => score.criterionScores.some(criterionScore => criterionScore.usage))) {
+        try {
+          const usageCsvContent = this.exportTokenUsageToCSV(comparisonResults || [], pointwiseScores);
+          csvFiles.push({ [`${SHEET_NAMES.usage}.csv`]: usageCsvContent });
+        } catch (error) {
+          console.error('Error generating token usage CSV:', error);
+        }
+      }
+      
       // JSON export disabled as per requirements
       
       console.log(`Generated ${csvFiles.length} CSV export files`);
@@ -152,28 +220,49 @@ export class ReportGenerator {
   /**
    * Exports report summary to CSV format showing final document rankings.
    * Creates a ranked list of documents based on merge sort results or fallback methods.
+   * Tied documents share a rank shown as "=2". When Bradley–Terry scores are present,
+   * each row also carries the strength score, its standard error and the document's
+   * win/loss/tie record.
    * 
    * @param {ReportData} reportData - Report data containing ranking information
-   * @param {string[]} [documentsOrder] - Optional explicit document order from merge sort
+   * @param {string[]|RankingTiers} [documentsOrder] - Optional explicit document order, flat or tiered
    * @returns {string} CSV string with ranked document list
    */
-  exportReportSummaryToCSV(reportData: ReportData, documentsOrder?: string[]): string {
-    let csv = 'Rank,Document\n';
+  exportReportSummaryToCSV(reportData: ReportData, documentsOrder?: string[] | RankingTiers): string {
+    const scoresByName = new Map((reportData.scores || []).map(score => [score.name, score]));
+    const hasScores = scoresByName.size > 0;
+
+    let csv = hasScores
+      ? 'Rank,Document,Score,Std. Error,Wins,Losses,Ties\n'
+      : 'Rank,Document\n';
+
+    const formatRow = (document: string, label: string, index: number): string => {
+      const docValue = this.formatCsvValue(document);
+      const score = scoresByName.get(document);
+      // In top-K mode only the shortlist is ranked
+      const rank = reportData.shortlistSize !== undefined && index >= reportData.shortlistSize
+        ? 'Not in shortlist'
+        : label;
+      if (!hasScores) {
+        return `${rank},${docValue}\n`;
+      }
+      if (!score) {
+        return `${rank},${docValue},,,,,\n`;
+      }
+      return `${rank},${docValue},${score.score.toFixed(3)},${score.standardError.toFixed(3)},${score.wins},${score.losses},${score.ties}\n`;
+    };
 
     // Priority 1: Use explicit documentsOrder if provided (from function parameter)
-    if (documentsOrder && documentsOrder.length > 0) {
-      documentsOrder.forEach((document, index) => {
-        const docValue = this.formatCsvValue(document);
-        csv += `${index + 1},${docValue}\n`;
-      });
-      return csv;
-    }
-    
-    // Priority 2: Use ranking from report data (from merge sort)
-    if (reportData.ranking && reportData.ranking.length > 0) {
-      reportData.ranking.forEach((document, index) => {
-        const docValue = this.formatCsvValue(document);
-        csv += `${index + 1},${docValue}\n`;
+    // Priority 2: Use ranking tiers, then the flat ranking, from report data
+    const tiers = documentsOrder && documentsOrder.length > 0
+      ? normalizeRankingTiers(documentsOrder)
+      : reportData.tiers && reportData.tiers.length > 0
+        ? reportData.tiers
+        : normalizeRankingTiers(reportData.ranking);
+
+    if (tiers.length > 0) {
+      tierPositions(tiers).forEach((position, index) => {
+        csv += formatRow(position.document, position.label, index);
       });
       return csv;
     }
@@ -182,6 +271,170 @@ export class ReportGenerator {
     return 'Rank,Document\n1,No ranking data available\n';
   }
 
+  /**
+   * Exports the consistency analysis to CSV format.
+   * Lists every preference cycle and intransitive triple, or a single row
+   * confirming that the verdicts are transitive.
+   * 
+   * @param {ConsistencyAnalysis} consistency - Analysis of the comparison graph
+   * @returns {string} CSV string with one row per cycle or triple
+   */
+  exportConsistencyAnalysisToCSV(consistency: ConsistencyAnalysis): string {
+    let csv = 'Type,Documents,Details\n';
+
+    if (consistency.consistent) {
+      csv += `Summary,,${this.formatCsvValue(`No cycles across ${consistency.decisivePairs} decisive comparisons`)}\n`;
+    }
+
+    consistency.cycles.forEach((members, index) => {
+      csv += `Cycle ${index + 1},${this.formatCsvValue(members.join('; '))},${this.formatCsvValue(`${members.length} documents with circular verdicts`)}\n`;
+    });
+
+    consistency.intransitiveTriples.forEach(([a, b, c]) => {
+      csv += `Intransitive triple,${this.formatCsvValue([a, b, c].join('; '))},${this.formatCsvValue(`${a} > ${b}, ${b} > ${c}, ${c} > ${a}`)}\n`;
+    });
+
+    if (consistency.extraComparisons > 0) {
+      const outcome = consistency.rankingAdjusted ? 'ranking adjusted' : 'ranking unchanged';
+      const reevaluated = consistency.reevaluatedComparisons ? ` (${consistency.reevaluatedComparisons} re-evaluations)` : '';
+      csv += `Resolution,,${this.formatCsvValue(`${consistency.extraComparisons} extra comparisons run${reevaluated}; ${outcome}`)}\n`;
+    } else if (consistency.resolutionSkipped) {
+      csv += `Resolution,,${this.formatCsvValue('No extra comparisons possible; ranking unchanged')}\n`;
+    }
+
+    return csv;
+  }
+
+  /**
+   * Exports pointwise rubric scores to CSV format.
+   * One row per document in ranking order, with a score column per criterion
+   * followed by the weighted total.
+   * 
+   * @param {PointwiseScore[]} pointwiseScores - Rubric scores per document
+   * @param {string[]} [ranking] - Final ranking used to order the rows
+   * @returns {string} CSV string with one row per document
+   */
+  exportPointwiseScoresToCSV(pointwiseScores: PointwiseScore[], ranking?: string[]): string {
+    const criterionNames = pointwiseScores[0]?.criterionScores.map(score => score.criterionName || '') || [];
+    const byDocument = new Map(pointwiseScores.map(score => [score.document, score]));
+    const order = ranking && ranking.length > 0 ? ranking : pointwiseScores.map(score => score.document);
+
+    let csv = ['Rank', 'Document', ...criterionNames, 'Weighted Total'].map(value => this.formatCsvValue(value)).join(',') + '\n';
+
+    order.forEach((document, index) => {
+      const score = byDocument.get(document);
+      if (!score) {
+        return;
+      }
+      const criterionCells = criterionNames.map(name => {
+        const criterionScore = score.criterionScores.find(entry => entry.criterionName === name);
+        return criterionScore?.error ? 'Error' : criterionScore?.score ?? '';
+      });
+      csv += [index + 1, document, ...criterionCells, score.weightedTotal.toFixed(2)]
+        .map(value => this.formatCsvValue(value)).join(',') + '\n';
+    });
+
+    return csv;
+  }
+
+  /**
+   * Exports every judge's verdict on every criterion to CSV format.
+   * Shows, for each comparison and criterion, how each judge on the panel scored
+   * the two documents next to the verdict the panel settled on.
+   * 
+   * @param {ComparisonResult[]} comparisonResults - Comparison results with judge breakdowns
+   * @returns {string} CSV string with one row per judge verdict
+   */
+  exportJudgeBreakdownToCSV(comparisonResults: ComparisonResult[]): string {
+    let csv = 'Document A,Document B,Criterion,Judge,Temperature,Document A Score,Document B Score,Judge Verdict,Panel Verdict\n';
+
+    comparisonResults.forEach(result => {
+      result.evaluationDetails?.criterionEvaluations?.forEach(evaluation => {
+        evaluation.judgeBreakdown?.forEach(verdict => {
+          csv += [
+            result.documentA,
+            result.documentB,
+            evaluation.criterionName || '',
+            verdict.modelName,
+            verdict.temperature,
+            verdict.documentAScore,
+            verdict.documentBScore,
+            verdict.winner,
+            evaluation.winner
+          ].map(value => this.formatCsvValue(value)).join(',') + '\n';
+        });
+      });
+    });
+
+    return csv;
+  }
+
+  /**
+   * Exports the verdicts reviewers changed to CSV format.
+   * One row per overridden comparison, with the model's original verdict, the
+   * reviewer's verdict and the justification given.
+   * 
+   * @param {ComparisonResult[]} comparisonResults - Comparison results, some with overrides
+   * @returns {string} CSV string with one row per override
+   */
+  exportVerdictOverridesToCSV(comparisonResults: ComparisonResult[]): string {
+    let csv = 'Document A,Document B,Original Winner,New Winner,Justification,Overridden By,Timestamp\n';
+
+    comparisonResults.forEach(result => {
+      const override = result.override;
+      if (!override) {
+        return;
+      }
+      csv += [
+        result.documentA,
+        result.documentB,
+        override.originalWinner ?? 'Tie',
+        override.winner ?? 'Tie',
+        override.justification,
+        override.overriddenBy,
+        override.timestamp
+      ].map(value => this.formatCsvValue(value)).join(',') + '\n';
+    });
+
+    return csv;
+  }
+
+  /**
+   * Exports the model usage behind the results to CSV format.
+   * One row per pairwise comparison and per pointwise-scored document, with the
+   * calls, tokens and cost it took. Costs of models without a known price use the
+   * fallback prices and are marked as estimated. Results reused from the evaluation
+   * cache or an earlier version cost nothing and are left out.
+   * 
+   * @param {ComparisonResult[]} comparisonResults - Comparison results, with usage where counted
+   * @param {PointwiseScore[]} pointwiseScores - Pointwise scores, with usage per criterion where counted
+   * @returns {string} CSV string with one row per result that made model calls
+   */
+  exportTokenUsageToCSV(comparisonResults: ComparisonResult[], pointwiseScores: PointwiseScore[]): string {
+    let csv = 'Evaluation,Document A,Document B,Model Calls,Input Tokens,Output Tokens,Cost (USD),Cost Basis\n';
+
+    const addRow = (evaluation: string, documentA: string, documentB: string, usage?: TokenUsage) => {
+      if (!usage) {
+        return;
+      }
+      csv += [
+        evaluation,
+        documentA,
+        documentB,
+        usage.calls,
+        usage.inputTokens,
+        usage.outputTokens,
+        roundCost(usage.costUsd),
+        usage.known === false ? 'estimated' : 'list price'
+      ].map(value => this.formatCsvValue(value)).join(',') + '\n';
+    };
+
+    comparisonResults.forEach(result => addRow('Pairwise', result.documentA, result.documentB, result.usage));
+    pointwiseScores.forEach(score => addRow('Pointwise', score.document, '', sumUsage(score.criterionScores.map(criterionScore => criterionScore.usage))));
+
+    return csv;
+  }
+
   /**
    * Exports detailed pairwise comparison results to CSV format.
    * Creates a comprehensive table showing all criterion evaluations,
@@ -264,9 +517,11 @@ export class ReportGenerator {
       // Get the detailed reasoning (may be in different fields depending on data structure)
       const detailedReasoning = row['Detailed Reasoning'] || row['Reasoning'] || row['Comparative Analysis'] || 'No reasoning provided';
 
-      // Determine criterion winner based on scores
+      // Determine criterion winner based on scores; a failed evaluation has none
       let criterionWinner = 'Tie';
-      if (docAScore && docBScore) {
+      if (row['Winner'] === 'Error') {
+        criterionWinner = 'Error';
+      } else if (docAScore && docBScore) {
         const scoreA = parseFloat(docAScore.toString());
         const scoreB = parseFloat(docBScore.toString());
         if (scoreA > scoreB) {
@@ -369,7 +624,7 @@ export class ReportGenerator {
       comparisonResults.forEach((result, index) => {
         const documentA = result.documentA;
         const documentB = result.documentB;
-        const winner = result.winner || 'Tie';
+        const winner = result.error ? 'Error' : result.winner || 'Tie';
         
         // Get weighted scores from evaluation details
         let totalScoreA = 0;
@@ -381,7 +636,7 @@ export class ReportGenerator {
           totalScoreB = result.evaluationDetails.overallScores.documentB;
           explanation = result.evaluationDetails.explanation || '';
         } else {
-          explanation = 'No detailed evaluation available';
+          explanation = result.error || 'No detailed evaluation available';
         }
         
         const scoreDiff = Math.abs(totalScoreA - totalScoreB);
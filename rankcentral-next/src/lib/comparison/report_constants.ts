@@ -6,5 +6,10 @@
 
 export const SHEET_NAMES = {
   summary: 'Report Summary',
-  pairwise: 'Pairwise Comparisons'
+  pairwise: 'Pairwise Comparisons',
+  consistency: 'Consistency Analysis',
+  judges: 'Judge Breakdown',
+  pointwise: 'Pointwise Scores',
+  overrides: 'Verdict Overrides',
+  usage: 'Token Usage'
 };
\ No newline at end of file
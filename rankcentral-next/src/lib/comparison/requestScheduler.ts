@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Rate limiting and retries for model calls.
+ * Calls that share an API key share one rate limiter, which caps calls in flight and
+ * calls started per minute across every run in the process. Each run's scheduler
+ * retries rate-limited, failed and unreachable calls with jittered exponential
+ * backoff, never sooner than a Retry-After header allows, and counts what it did.
+ */
+
+// src/lib/comparison/requestScheduler.ts
+import { createHash } from 'crypto';
+import { LlmApiError } from './llmProvider';
+import { LlmProviderName, RateLimits, RetryPolicy, RetryStats } from './types';
+
+/** @type {RateLimits} Limits used when the environment sets none */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+	maxConcurrent: 8,
+	requestsPerMinute: 500
+};
+
+/** @type {RetryPolicy} Retry policy used when a run sets none */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 5,
+	baseDelayMs: 1000,
+	maxDelayMs: 60000
+};
+
+/** @type {number} Length of the per-minute window, in milliseconds */
+const MINUTE_MS = 60000;
+
+/**
+ * Reads rate limits from the server environment
+ * (LLM_MAX_CONCURRENT_REQUESTS and LLM_REQUESTS_PER_MINUTE).
+ * @returns {RateLimits} Configured limits, with defaults for anything unset or invalid
+ */
+export function rateLimitsFromEnv(): RateLimits {
+	const parse = (value: string | undefined, fallback: number) => {
+		const parsed = parseInt(value || '', 10);
+		return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+	};
+
+	return {
+		maxConcurrent: parse(process.env.LLM_MAX_CONCURRENT_REQUESTS, DEFAULT_RATE_LIMITS.maxConcurrent),
+		requestsPerMinute: parse(process.env.LLM_REQUESTS_PER_MINUTE, DEFAULT_RATE_LIMITS.requestsPerMinute)
+	};
+}
+
+/**
+ * Admits calls for one API key within its concurrency and per-minute limits.
+ * @class RateLimiter
+ */
+export class RateLimiter {
+	/** @type {RateLimits} Limits enforced */
+	readonly limits: RateLimits;
+	/** @type {number} Calls admitted and not yet released */
+	private active = 0;
+	/** @type {number[]} Start times of calls admitted in the last minute */
+	private started: number[] = [];
+	/** @type {number} No call is admitted before this time */
+	private pausedUntil = 0;
+	/** @type {Array<() => void>} Calls waiting to be admitted, oldest first */
+	private waiting: Array<() => void> = [];
+	/** @type {ReturnType<typeof setTimeout>|undefined} Pending wake-up while the window or a pause blocks */
+	private timer?: ReturnType<typeof setTimeout>;
+
+	/**
+	 * Creates a new RateLimiter instance.
+	 * @param {RateLimits} [limits=DEFAULT_RATE_LIMITS] - Limits to enforce
+	 */
+	constructor(limits: RateLimits = DEFAULT_RATE_LIMITS) {
+		this.limits = limits;
+	}
+
+	/**
+	 * Waits until a call may start. Every acquire must be followed by a release.
+	 * @returns {Promise<void>} Resolves when the call is admitted
+	 */
+	acquire(): Promise<void> {
+		return new Promise(resolve => {
+			this.waiting.push(resolve);
+			this.admit();
+		});
+	}
+
+	/**
+	 * Frees the slot of a finished call.
+	 */
+	release(): void {
+		this.active--;
+		this.admit();
+	}
+
+	/**
+	 * Holds back every call on this key, for example after the service rate-limited one.
+	 * @param {number} delayMs - Time to hold calls back, in milliseconds
+	 */
+	pause(delayMs: number): void {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+	}
+
+	/**
+	 * Admits waiting calls while the limits allow, and schedules a wake-up when only
+	 * the per-minute window or a pause is holding them back.
+	 * @private
+	 */
+	private admit(): void {
+		const now = Date.now();
+		this.started = this.started.filter(time => now - time < MINUTE_MS);
+
+		while (
+			this.waiting.length > 0 &&
+			this.active < this.limits.maxConcurrent &&
+			this.started.length < this.limits.requestsPerMinute &&
+			now >= this.pausedUntil
+		) {
+			this.active++;
+			this.started.push(now);
+			this.waiting.shift()!();
+		}
+
+		// A full concurrency slot frees itself on release; the window and pauses need a timer
+		if (this.waiting.length > 0 && this.active < this.limits.maxConcurrent && !this.timer) {
+			const windowWait = this.started.length >= this.limits.requestsPerMinute ? this.started[0] + MINUTE_MS - now : 0;
+			const wait = Math.max(this.pausedUntil - now, windowWait, 1);
+			this.timer = setTimeout(() => {
+				this.timer = undefined;
+				this.admit();
+			}, wait);
+		}
+	}
+}
+
+/** @type {Map<string, RateLimiter>} Rate limiters by provider and API key, shared by every run */
+const rateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Returns the rate limiter shared by every call made with a provider and API key.
+ * The key is hashed so it is not kept in memory as a map key.
+ * @param {LlmProviderName} provider - Provider the calls go to
+ * @param {string} apiKey - API key the calls use
+ * @param {RateLimits} [limits] - Limits for a limiter created by this call (defaults to the environment's)
+ * @returns {RateLimiter} Shared rate limiter
+ */
+export function getRateLimiter(provider: LlmProviderName, apiKey: string, limits?: RateLimits): RateLimiter {
+	const id = createHash('sha256').update(`${provider}\u0000${apiKey}`).digest('hex');
+	let limiter = rateLimiters.get(id);
+
+	if (!limiter) {
+		limiter = new RateLimiter(limits ?? rateLimitsFromEnv());
+		rateLimiters.set(id, limiter);
+	}
+
+	return limiter;
+}
+
+/**
+ * Waits for a number of milliseconds.
+ * @param {number} ms - Time to wait
+ * @returns {Promise<void>} Resolves after the wait
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a run's model calls through a shared rate limiter and retries the ones that fail transiently.
+ * @class RequestScheduler
+ */
+export class RequestScheduler {
+	/** @type {RateLimiter} Limiter shared with other runs on the same API key */
+	readonly limiter: RateLimiter;
+	/** @type {RetryPolicy} How failed calls are retried */
+	readonly policy: RetryPolicy;
+	/** @type {RetryStats} Retry activity so far */
+	private stats: RetryStats = {
+		attempts: 0,
+		retries: 0,
+		rateLimited: 0,
+		serverErrors: 0,
+		connectionErrors: 0,
+		failedCalls: 0,
+		backoffMs: 0
+	};
+
+	/**
+	 * Creates a new RequestScheduler instance.
+	 * @param {RateLimiter} limiter - Limiter for the API key the run uses
+	 * @param {RetryPolicy} [policy=DEFAULT_RETRY_POLICY] - How failed calls are retried
+	 */
+	constructor(limiter: RateLimiter, policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+		this.limiter = limiter;
+		this.policy = policy;
+	}
+
+	/**
+	 * Runs a model call once the rate limiter admits it, retrying transient failures.
+	 * Errors that are not an {@link LlmApiError} are not retried.
+	 * @template T
+	 * @param {() => Promise<T>} task - Sends the call
+	 * @returns {Promise<T>} Result of the first successful attempt
+	 * @throws {LlmApiError} When the call fails permanently or runs out of retries
+	 */
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			await this.limiter.acquire();
+			this.stats.attempts++;
+
+			let delayMs: number;
+			try {
+				return await task();
+			} catch (error) {
+				if (!(error instanceof LlmApiError) || !error.retryable) {
+					throw error;
+				}
+
+				this.countFailure(error);
+				delayMs = this.backoffDelay(attempt, error.retryAfterMs);
+
+				// A wait longer than the policy allows would stall the run, so the call fails instead
+				if (attempt >= this.policy.maxRetries || delayMs > this.policy.maxDelayMs) {
+					this.stats.failedCalls++;
+					throw error;
+				}
+
+				// Every call on the key backs off from a rate limit, not just this one
+				if (error.status === 429) {
+					this.limiter.pause(delayMs);
+				}
+
+				console.warn(`⏳ Model call failed (${error.status ?? 'no response'}: ${error.message}), retry ${attempt + 1}/${this.policy.maxRetries} in ${Math.round(delayMs)}ms`);
+			} finally {
+				this.limiter.release();
+			}
+
+			this.stats.retries++;
+			this.stats.backoffMs += Math.round(delayMs);
+			await sleep(delayMs);
+		}
+	}
+
+	/**
+	 * Time to wait before the next attempt: what the service asked for if it said,
+	 * otherwise exponential backoff with jitter so parallel calls do not retry in step.
+	 * @param {number} attempt - Attempts already failed, minus one
+	 * @param {number} [retryAfterMs] - Wait the service asked for
+	 * @returns {number} Delay in milliseconds
+	 * @private
+	 */
+	private backoffDelay(attempt: number, retryAfterMs?: number): number {
+		if (retryAfterMs !== undefined) {
+			return retryAfterMs;
+		}
+
+		const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+		return ceiling / 2 + Math.random() * ceiling / 2;
+	}
+
+	/**
+	 * Counts a failed attempt by cause.
+	 * @param {LlmApiError} error - Failure
+	 * @private
+	 */
+	private countFailure(error: LlmApiError): void {
+		if (error.status === undefined) {
+			this.stats.connectionErrors++;
+		} else if (error.status === 429) {
+			this.stats.rateLimited++;
+		} else {
+			this.stats.serverErrors++;
+		}
+	}
+
+	/**
+	 * Retry activity so far.
+	 * @returns {RetryStats} Copy of the counters
+	 */
+	summary(): RetryStats {
+		return { ...this.stats };
+	}
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Full round-robin ranking strategy.
+ * Compares every pair of documents once and orders them by Copeland score.
+ */
+
+// src/lib/comparison/roundRobinRanking.ts
+import type { AsyncComparator, RankingStrategy } from './rankingStrategy';
+import { RankingStrategyName } from './types';
+
+/**
+ * Ranking strategy that plays every document against every other document.
+ *
+ * Each document scores +1 for a win, −1 for a loss and 0 for a tie (Copeland). With
+ * exactly one comparison per pair this yields the same order as a Borda count, since
+ * wins − losses = 2·wins + ties − (n − 1). Equal scores keep their input order.
+ * Requires n(n − 1)/2 comparisons, so it is intended for small batches.
+ *
+ * @class RoundRobinStrategy
+ * @implements {RankingStrategy}
+ */
+export class RoundRobinStrategy implements RankingStrategy {
+	/** @type {RankingStrategyName} Identifier recorded in report metadata */
+	readonly name: RankingStrategyName = 'round-robin';
+
+	/**
+	 * Ranks documents by their Copeland score over all pairwise comparisons.
+	 *
+	 * @param {string[]} documents - Document names to rank
+	 * @param {AsyncComparator} comparator - Async pairwise comparator
+	 * @returns {Promise<string[]>} Document names ordered best to worst
+	 * @async
+	 */
+	async rank(documents: string[], comparator: AsyncComparator): Promise<string[]> {
+		if (documents.length <= 1) {
+			return documents;
+		}
+
+		const pairs: Array<[string, string]> = [];
+		for (let i = 0; i < documents.length; i++) {
+			for (let j = i + 1; j < documents.length; j++) {
+				pairs.push([documents[i], documents[j]]);
+			}
+		}
+
+		// Every pair is independent, so all comparisons can be in flight together
+		const outcomes = await Promise.all(pairs.map(([a, b]) => comparator(a, b)));
+
+		const scores = new Map(documents.map(doc => [doc, 0]));
+		pairs.forEach(([a, b], index) => {
+			const outcome = Math.sign(outcomes[index]);
+			scores.set(a, (scores.get(a) || 0) + outcome);
+			scores.set(b, (scores.get(b) || 0) - outcome);
+		});
+
+		console.log(`Round-robin Copeland scores: ${JSON.stringify(Object.fromEntries(scores))}`);
+
+		return documents
+			.map((doc, index) => ({ doc, index, score: scores.get(doc) || 0 }))
+			.sort((a, b) => b.score - a.score || a.index - b.index)
+			.map(entry => entry.doc);
+	}
+}
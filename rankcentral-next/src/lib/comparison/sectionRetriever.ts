@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Per-criterion passage selection for documents too long to send whole.
+ * Documents are split into sections at headings and paragraph breaks, and the sections
+ * are ranked against each criterion with BM25 over their words. The best sections are
+ * kept, in document order, until the token budget for the document is used up.
+ * Documents that fit their budget are passed through unchanged.
+ */
+
+// src/lib/comparison/sectionRetriever.ts
+import { encode } from 'gpt-tokenizer';
+import { Criterion } from './types';
+
+/** @type {number} Largest section, in tokens; longer paragraphs are split at sentence ends */
+export const DEFAULT_SECTION_TOKENS = 400;
+
+/** @type {string} Placed where sections were left out between two selected ones */
+export const OMISSION_MARKER = '[...]';
+
+/** @type {number} BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+
+/** @type {number} BM25 length normalisation */
+const BM25_B = 0.75;
+
+/** @type {Set<string>} Words too common to say anything about relevance */
+const STOPWORDS = new Set([
+	'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'these', 'those', 'from',
+	'has', 'have', 'had', 'not', 'but', 'all', 'any', 'can', 'will', 'shall', 'should', 'would',
+	'may', 'must', 'its', 'their', 'they', 'them', 'there', 'than', 'then', 'into', 'onto', 'upon',
+	'such', 'each', 'which', 'who', 'whom', 'what', 'when', 'where', 'how', 'why', 'our', 'your',
+	'been', 'being', 'also', 'more', 'most', 'other', 'some', 'very', 'only', 'over', 'under',
+	'about', 'between', 'both', 'does', 'did', 'doing', 'out', 'off', 'per', 'via', 'well'
+]);
+
+/**
+ * A run of consecutive paragraphs, indexed for retrieval.
+ * @interface DocumentSection
+ */
+export interface DocumentSection {
+	/** @type {number} Position in the document, from 0 */
+	index: number;
+	/** @type {string} Section text */
+	text: string;
+	/** @type {number} Tokens in the text */
+	tokens: number;
+	/** @type {Map<string, number>} Occurrences of each indexed term */
+	termCounts: Map<string, number>;
+	/** @type {number} Indexed terms in the section */
+	length: number;
+}
+
+/**
+ * Text selected from a document, with how much of the relevant material it kept.
+ * @interface SectionSelection
+ */
+export interface SectionSelection {
+	/** @type {string} Selected text, with gaps marked */
+	text: string;
+	/** @type {boolean} Whether any sections were left out */
+	trimmed: boolean;
+	/** @type {number} Share of the document's relevance score (by token count if nothing matched) kept, 0 to 1 */
+	coverage: number;
+}
+
+/**
+ * A document split into sections, with the statistics BM25 needs.
+ * @interface SectionIndex
+ */
+interface SectionIndex {
+	/** @type {DocumentSection[]} Sections in document order */
+	sections: DocumentSection[];
+	/** @type {Map<string, number>} Sections containing each term */
+	documentFrequency: Map<string, number>;
+	/** @type {number} Average indexed terms per section */
+	averageLength: number;
+	/** @type {number} Tokens in the whole document */
+	totalTokens: number;
+}
+
+/**
+ * Reduces text to lower-case, lightly stemmed terms without stopwords.
+ * @param {string} text - Text to split
+ * @returns {string[]} Terms in order
+ */
+export function tokenizeTerms(text: string): string[] {
+	return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+		.filter(word => word.length > 2 && !STOPWORDS.has(word))
+		.map(word => word.length > 5 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+}
+
+/**
+ * Whether a paragraph looks like a heading: short, and numbered, marked up or in capitals.
+ * @param {string} paragraph - Paragraph to check
+ * @returns {boolean} True if a new section should start here
+ */
+function isHeading(paragraph: string): boolean {
+	if (paragraph.length > 120 || paragraph.includes('\n')) {
+		return false;
+	}
+	return /^(#{1,6}\s|\d+(\.\d+)*\.?\s+\S|(section|part|chapter|annex|appendix|schedule)\b)/i.test(paragraph)
+		|| (/[A-Z]/.test(paragraph) && paragraph === paragraph.toUpperCase());
+}
+
+/**
+ * Splits a paragraph longer than the section size at sentence ends.
+ * @param {string} paragraph - Paragraph to split
+ * @param {number} maxTokens - Largest piece, in tokens
+ * @returns {string[]} Pieces in order
+ */
+function splitParagraph(paragraph: string, maxTokens: number): string[] {
+	const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+	const pieces: string[] = [];
+	let current = '';
+
+	for (const sentence of sentences) {
+		if (current && encode(current + sentence).length > maxTokens) {
+			pieces.push(current.trim());
+			current = '';
+		}
+		current += sentence;
+	}
+	if (current.trim()) {
+		pieces.push(current.trim());
+	}
+
+	return pieces;
+}
+
+/**
+ * Splits a document into sections of up to `maxTokens` tokens. A heading always
+ * starts a new section, so sections tend to follow the document's own structure.
+ * @param {string} text - Document text
+ * @param {number} [maxTokens=DEFAULT_SECTION_TOKENS] - Largest section, in tokens
+ * @returns {string[]} Section texts in order
+ */
+export function splitIntoSections(text: string, maxTokens: number = DEFAULT_SECTION_TOKENS): string[] {
+	const paragraphs = text
+		.split(/\n\s*\n/)
+		.map(paragraph => paragraph.trim())
+		.filter(paragraph => paragraph.length > 0);
+
+	const sections: string[] = [];
+	let current: string[] = [];
+	let currentTokens = 0;
+
+	const flush = () => {
+		if (current.length > 0) {
+			sections.push(current.join('\n\n'));
+			current = [];
+			currentTokens = 0;
+		}
+	};
+
+	for (const paragraph of paragraphs) {
+		const pieces = encode(paragraph).length > maxTokens ? splitParagraph(paragraph, maxTokens) : [paragraph];
+
+		for (const piece of pieces) {
+			const pieceTokens = encode(piece).length;
+			if (isHeading(piece) || currentTokens + pieceTokens > maxTokens) {
+				flush();
+			}
+			current.push(piece);
+			currentTokens += pieceTokens;
+		}
+	}
+	flush();
+
+	return sections;
+}
+
+/**
+ * Builds the retrieval query for a criterion from its name, description and rubric.
+ * @param {Criterion} criterion - Criterion being evaluated
+ * @returns {string} Query text
+ */
+export function criterionQuery(criterion: Criterion): string {
+	const levels = criterion.scoringLevels ? Object.values(criterion.scoringLevels).join(' ') : '';
+	return `${criterion.name} ${criterion.name} ${criterion.description} ${levels}`;
+}
+
+/**
+ * Selects the passages of long documents most relevant to a criterion.
+ * Section indexes are kept per document, so each document is split only once per run.
+ * @class SectionRetriever
+ */
+export class SectionRetriever {
+	/** @type {number} Largest section, in tokens */
+	readonly sectionTokens: number;
+	/** @type {Map<string, SectionIndex>} Indexes by document name */
+	private indexes = new Map<string, SectionIndex>();
+
+	/**
+	 * Creates a new SectionRetriever instance.
+	 * @param {number} [sectionTokens=DEFAULT_SECTION_TOKENS] - Largest section, in tokens
+	 */
+	constructor(sectionTokens: number = DEFAULT_SECTION_TOKENS) {
+		this.sectionTokens = sectionTokens;
+	}
+
+	/**
+	 * Returns a document's text cut down to fit a token budget, keeping the sections
+	 * that best match the query in their original order. Gaps are marked with
+	 * {@link OMISSION_MARKER}. Text within the budget is returned unchanged.
+	 * @param {string} documentName - Document name, used to reuse the section index
+	 * @param {string} text - Document text
+	 * @param {string} query - What the passages should be about
+	 * @param {number} tokenBudget - Most tokens the result may have
+	 * @returns {string} Selected text
+	 */
+	select(documentName: string, text: string, query: string, tokenBudget: number): string {
+		return this.selectSections(documentName, text, query, tokenBudget).text;
+	}
+
+	/**
+	 * Like {@link SectionRetriever.select}, but also reports how much of the document's
+	 * relevant material the selection kept, so callers can tell when trimming lost too much.
+	 * @param {string} documentName - Document name, used to reuse the section index
+	 * @param {string} text - Document text
+	 * @param {string} query - What the passages should be about
+	 * @param {number} tokenBudget - Most tokens the result may have
+	 * @returns {SectionSelection} Selected text and its coverage
+	 */
+	selectSections(documentName: string, text: string, query: string, tokenBudget: number): SectionSelection {
+		const index = this.getIndex(documentName, text);
+		if (index.totalTokens <= tokenBudget) {
+			return { text, trimmed: false, coverage: 1 };
+		}
+
+		const markerTokens = encode(`\n\n${OMISSION_MARKER}\n\n`).length;
+		const ranked = this.rank(index, query);
+		const totalScore = ranked.reduce((sum, { score }) => sum + score, 0);
+		const chosen: DocumentSection[] = [];
+		let used = 0;
+		let keptScore = 0;
+		let keptTokens = 0;
+
+		for (const { section, score } of ranked) {
+			const cost = section.tokens + markerTokens;
+			if (used + cost <= tokenBudget) {
+				chosen.push(section);
+				used += cost;
+				keptScore += score;
+				keptTokens += section.tokens;
+			}
+		}
+
+		chosen.sort((a, b) => a.index - b.index);
+		console.log(`✂️ ${documentName}: kept ${chosen.length} of ${index.sections.length} sections (~${used} of ${index.totalTokens} tokens)`);
+
+		let result = chosen[0] && chosen[0].index > 0 ? `${OMISSION_MARKER}\n\n` : '';
+		chosen.forEach((section, position) => {
+			if (position > 0) {
+				result += section.index === chosen[position - 1].index + 1 ? '\n\n' : `\n\n${OMISSION_MARKER}\n\n`;
+			}
+			result += section.text;
+		});
+		if (chosen.length > 0 && chosen[chosen.length - 1].index < index.sections.length - 1) {
+			result += `\n\n${OMISSION_MARKER}`;
+		}
+
+		return {
+			text: result,
+			trimmed: true,
+			coverage: totalScore > 0 ? keptScore / totalScore : keptTokens / index.totalTokens
+		};
+	}
+
+	/**
+	 * Orders sections by BM25 score against a query, best first. Equal scores keep
+	 * document order, so a query with no matching terms keeps the opening sections.
+	 * @param {SectionIndex} index - Document index
+	 * @param {string} query - Query text
+	 * @returns {Array<{ section: DocumentSection, score: number }>} Sections with their scores, best first
+	 * @private
+	 */
+	private rank(index: SectionIndex, query: string): Array<{ section: DocumentSection; score: number }> {
+		const queryTerms = [...new Set(tokenizeTerms(query))];
+		const sectionCount = index.sections.length;
+
+		const scored = index.sections.map(section => {
+			let score = 0;
+			for (const term of queryTerms) {
+				const frequency = section.termCounts.get(term) || 0;
+				if (frequency === 0) {
+					continue;
+				}
+				const containing = index.documentFrequency.get(term) || 0;
+				const idf = Math.log(1 + (sectionCount - containing + 0.5) / (containing + 0.5));
+				const lengthNorm = 1 - BM25_B + BM25_B * (section.length / (index.averageLength || 1));
+				score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+			}
+			return { section, score };
+		});
+
+		return scored.sort((a, b) => b.score - a.score || a.section.index - b.section.index);
+	}
+
+	/**
+	 * Returns the section index of a document, building it on first use.
+	 * @param {string} documentName - Document name
+	 * @param {string} text - Document text
+	 * @returns {SectionIndex} Index
+	 * @private
+	 */
+	private getIndex(documentName: string, text: string): SectionIndex {
+		const cached = this.indexes.get(documentName);
+		if (cached) {
+			return cached;
+		}
+
+		const totalTokens = encode(text).length;
+		const sections: DocumentSection[] = splitIntoSections(text, this.sectionTokens).map((sectionText, index) => {
+			const terms = tokenizeTerms(sectionText);
+			const termCounts = new Map<string, number>();
+			terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+			return { index, text: sectionText, tokens: encode(sectionText).length, termCounts, length: terms.length };
+		});
+
+		const documentFrequency = new Map<string, number>();
+		sections.forEach(section => {
+			section.termCounts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+		});
+
+		const index: SectionIndex = {
+			sections,
+			documentFrequency,
+			averageLength: sections.length > 0 ? sections.reduce((sum, section) => sum + section.length, 0) / sections.length : 0,
+			totalTokens
+		};
+		this.indexes.set(documentName, index);
+		return index;
+	}
+}
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview JSON schemas for model responses and the checks applied to them.
+ * Providers that support it are asked to answer in the schema directly; every
+ * response is validated again here, and a response that fails is re-asked with
+ * the validation errors a bounded number of times before the call is reported
+ * as failed.
+ */
+
+// src/lib/comparison/structuredOutput.ts
+import { JsonSchema, ResponseSchema } from './types';
+
+/** @type {number} Re-asks allowed after the first malformed response */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/** @type {number} Characters of a rejected response quoted back in a repair prompt */
+const MAX_QUOTED_RESPONSE_LENGTH = 2000;
+
+/**
+ * Thrown when a model keeps answering with a response that does not match its schema.
+ * @class StructuredOutputError
+ * @extends Error
+ */
+export class StructuredOutputError extends Error {
+	/** @type {string[]} Problems found in the last response */
+	validationErrors: string[];
+	/** @type {number} Model calls made, including re-asks */
+	attempts: number;
+
+	/**
+	 * Creates a new StructuredOutputError instance.
+	 * @param {string} schemaName - Schema the response had to match
+	 * @param {string[]} validationErrors - Problems found in the last response
+	 * @param {number} attempts - Model calls made, including re-asks
+	 */
+	constructor(schemaName: string, validationErrors: string[], attempts: number) {
+		super(`Invalid ${schemaName} response after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${validationErrors.join('; ')}`);
+		this.name = 'StructuredOutputError';
+		this.validationErrors = validationErrors;
+		this.attempts = attempts;
+	}
+}
+
+/**
+ * Schema of a pairwise criterion evaluation, matching the fields the comparison prompts ask for.
+ * @type {ResponseSchema}
+ */
+export const PAIRWISE_EVALUATION_SCHEMA: ResponseSchema = {
+	name: 'pairwise_evaluation',
+	schema: {
+		type: 'object',
+		properties: {
+			criterion_name: { type: 'string' },
+			document_a_score: { type: 'number', minimum: 1, maximum: 5 },
+			document_a_analysis: { type: 'string' },
+			document_b_score: { type: 'number', minimum: 1, maximum: 5 },
+			document_b_analysis: { type: 'string' },
+			comparative_analysis: { type: 'string' },
+			reasoning: { type: 'string' },
+			winner: { type: 'string', enum: ['A', 'B', 'Tie'] }
+		},
+		required: [
+			'criterion_name',
+			'document_a_score',
+			'document_a_analysis',
+			'document_b_score',
+			'document_b_analysis',
+			'comparative_analysis',
+			'reasoning',
+			'winner'
+		],
+		additionalProperties: false
+	}
+};
+
+/**
+ * Schema of a pointwise rubric score, matching the fields the pointwise prompt asks for.
+ * @type {ResponseSchema}
+ */
+export const POINTWISE_SCORE_SCHEMA: ResponseSchema = {
+	name: 'pointwise_score',
+	schema: {
+		type: 'object',
+		properties: {
+			criterion_name: { type: 'string' },
+			score: { type: 'number', minimum: 1, maximum: 5 },
+			analysis: { type: 'string' }
+		},
+		required: ['criterion_name', 'score', 'analysis'],
+		additionalProperties: false
+	}
+};
+
+/**
+ * Checks a value against a schema. Supports the subset used by the response schemas:
+ * object, string, number, integer and boolean types, required properties, enums and
+ * numeric bounds. Extra properties are tolerated, since they do no harm once parsed.
+ * @param {unknown} value - Value to check
+ * @param {JsonSchema} schema - Schema to check against
+ * @param {string} [path='$'] - Location of the value, used in messages
+ * @returns {string[]} Problems found; empty when the value is valid
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+	switch (schema.type) {
+		case 'object': {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				return [`${path} must be an object`];
+			}
+			const record = value as Record<string, unknown>;
+			const errors = (schema.required || [])
+				.filter(key => record[key] === undefined || record[key] === null)
+				.map(key => `${path}.${key} is required`);
+			for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+				if (record[key] !== undefined && record[key] !== null) {
+					errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+				}
+			}
+			return errors;
+		}
+		case 'number':
+		case 'integer': {
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				return [`${path} must be a number`];
+			}
+			if (schema.type === 'integer' && !Number.isInteger(value)) {
+				return [`${path} must be a whole number`];
+			}
+			if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+				return [`${path} must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}, got ${value}`];
+			}
+			return [];
+		}
+		case 'string': {
+			if (typeof value !== 'string') {
+				return [`${path} must be a string`];
+			}
+			if (schema.enum && !schema.enum.includes(value)) {
+				return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`];
+			}
+			return [];
+		}
+		case 'boolean':
+			return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Pulls the JSON object out of a completion that may wrap it in prose or a code fence.
+ * @param {string} completion - Raw completion text
+ * @returns {string} Text most likely to be the JSON object
+ */
+export function extractJson(completion: string): string {
+	let result = completion.trim();
+
+	if (result.includes("```json")) {
+		result = result.split("```json")[1].split("```")[0].trim();
+		console.log(`🔧 Extracted JSON from code block`);
+	} else if (result.includes("```")) {
+		result = result.split("```")[1].split("```")[0].trim();
+		console.log(`🔧 Extracted content from code block`);
+	}
+
+	const jsonStart = result.indexOf('{');
+	const jsonEnd = result.lastIndexOf('}') + 1;
+	if (jsonStart >= 0 && jsonEnd > jsonStart) {
+		result = result.substring(jsonStart, jsonEnd);
+		console.log(`🔧 Extracted JSON object from response`);
+	}
+
+	return result;
+}
+
+/**
+ * Parses and validates a completion.
+ * @param {string} completion - Raw completion text
+ * @param {ResponseSchema} responseSchema - Schema the response must match
+ * @returns {{value?: Record<string, unknown>, errors: string[]}} Parsed object, or the problems found
+ */
+export function parseStructuredResponse(
+	completion: string,
+	responseSchema: ResponseSchema
+): { value?: Record<string, unknown>; errors: string[] } {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(extractJson(completion));
+	} catch (error) {
+		return { errors: [`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+	}
+
+	const errors = validateJson(parsed, responseSchema.schema);
+	return errors.length > 0 ? { errors } : { value: parsed as Record<string, unknown>, errors };
+}
+
+/**
+ * Builds the prompt for a re-ask after a malformed response.
+ * @param {string} prompt - Original prompt
+ * @param {string} completion - Rejected completion
+ * @param {string[]} errors - Problems found in it
+ * @returns {string} Prompt asking for a corrected response
+ */
+export function buildRepairPrompt(prompt: string, completion: string, errors: string[]): string {
+	const quoted = completion.length > MAX_QUOTED_RESPONSE_LENGTH
+		? `${completion.substring(0, MAX_QUOTED_RESPONSE_LENGTH)}...`
+		: completion;
+
+	return `${prompt}
+
+Your previous response could not be used:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${quoted}
+
+Respond again with only the JSON object, with every field present and every value valid.`;
+}
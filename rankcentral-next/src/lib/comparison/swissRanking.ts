@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Swiss-system ranking strategy.
+ * Runs a fixed number of rounds in which documents with similar scores meet,
+ * keeping the comparison count linear in the number of documents per round.
+ */
+
+// src/lib/comparison/swissRanking.ts
+import type { AsyncComparator, RankingStrategy } from './rankingStrategy';
+import { RankingStrategyName } from './types';
+
+/**
+ * Per-document standing during a Swiss tournament.
+ * @interface SwissStanding
+ */
+interface SwissStanding {
+	/** @type {string} Document name */
+	doc: string;
+	/** @type {number} Position in the input list, used as the final tie-breaker */
+	index: number;
+	/** @type {number} Points scored (win = 1, tie or bye = 0.5, loss = 0) */
+	score: number;
+	/** @type {Set<string>} Documents already played */
+	opponents: Set<string>;
+	/** @type {boolean} Whether the document has already received a bye */
+	hadBye: boolean;
+}
+
+/**
+ * Ranking strategy based on the Swiss tournament system.
+ *
+ * Each round pairs documents with equal or adjacent scores that have not met before.
+ * With an odd field the lowest-placed document without a bye sits out and is credited
+ * half a point, the same as a tie, so a bye neither rewards nor punishes it. The final
+ * order is by points, then Buchholz score (sum of opponents' points), then input order.
+ * Uses at most rounds × ⌊n/2⌋ comparisons.
+ *
+ * @class SwissStrategy
+ * @implements {RankingStrategy}
+ */
+export class SwissStrategy implements RankingStrategy {
+	/** @type {RankingStrategyName} Identifier recorded in report metadata */
+	readonly name: RankingStrategyName = 'swiss';
+
+	/** @type {number|undefined} Fixed number of rounds, or undefined to derive from the field size */
+	rounds?: number;
+
+	/**
+	 * Creates a new SwissStrategy instance.
+	 * @param {number} [rounds] - Number of rounds to play (defaults to ⌈log2 n⌉ + 1, at most n − 1)
+	 */
+	constructor(rounds?: number) {
+		this.rounds = rounds;
+	}
+
+	/**
+	 * Determines how many rounds to play for a field of the given size.
+	 * @param {number} documentCount - Number of documents
+	 * @returns {number} Number of rounds
+	 */
+	roundsFor(documentCount: number): number {
+		const maxRounds = Math.max(1, documentCount - 1);
+		const rounds = this.rounds ?? Math.ceil(Math.log2(documentCount)) + 1;
+		return Math.max(1, Math.min(rounds, maxRounds));
+	}
+
+	/**
+	 * Ranks documents by playing Swiss-system rounds.
+	 *
+	 * @param {string[]} documents - Document names to rank
+	 * @param {AsyncComparator} comparator - Async pairwise comparator
+	 * @returns {Promise<string[]>} Document names ordered best to worst
+	 * @async
+	 */
+	async rank(documents: string[], comparator: AsyncComparator): Promise<string[]> {
+		if (documents.length <= 1) {
+			return documents;
+		}
+
+		const standings: SwissStanding[] = documents.map((doc, index) => ({
+			doc,
+			index,
+			score: 0,
+			opponents: new Set<string>(),
+			hadBye: false
+		}));
+
+		const rounds = this.roundsFor(documents.length);
+		console.log(`Running ${rounds} Swiss rounds over ${documents.length} documents`);
+
+		for (let round = 1; round <= rounds; round++) {
+			const pairings = this.pairRound(this.order(standings));
+
+			// Pairings within a round are disjoint, so they run concurrently;
+			// scores are applied only once the whole round has finished
+			const outcomes = await Promise.all(
+				pairings.map(([first, second]) => comparator(first.doc, second.doc))
+			);
+
+			pairings.forEach(([first, second], index) => {
+				const outcome = Math.sign(outcomes[index]);
+				first.score += (outcome + 1) / 2;
+				second.score += (1 - outcome) / 2;
+				first.opponents.add(second.doc);
+				second.opponents.add(first.doc);
+			});
+
+			console.log(`Swiss round ${round}/${rounds} complete: ${pairings.length} comparisons`);
+		}
+
+		return this.order(standings).map(standing => standing.doc);
+	}
+
+	/**
+	 * Sorts standings by points, Buchholz score and input order.
+	 * @param {SwissStanding[]} standings - Current standings
+	 * @returns {SwissStanding[]} Sorted copy of the standings
+	 * @private
+	 */
+	private order(standings: SwissStanding[]): SwissStanding[] {
+		const scoreOf = new Map(standings.map(s => [s.doc, s.score]));
+		const buchholz = (standing: SwissStanding): number =>
+			[...standing.opponents].reduce((sum, opponent) => sum + (scoreOf.get(opponent) || 0), 0);
+
+		return [...standings].sort((a, b) =>
+			b.score - a.score ||
+			buchholz(b) - buchholz(a) ||
+			a.index - b.index
+		);
+	}
+
+	/**
+	 * Pairs documents for one round, avoiding rematches where possible.
+	 * Awards a bye to the lowest-placed eligible document when the field is odd.
+	 * @param {SwissStanding[]} ordered - Standings sorted best first
+	 * @returns {Array<[SwissStanding, SwissStanding]>} Pairings for the round
+	 * @private
+	 */
+	private pairRound(ordered: SwissStanding[]): Array<[SwissStanding, SwissStanding]> {
+		const unpaired = [...ordered];
+
+		if (unpaired.length % 2 === 1) {
+			let byeIndex = unpaired.length - 1;
+			for (let i = unpaired.length - 1; i >= 0; i--) {
+				if (!unpaired[i].hadBye) {
+					byeIndex = i;
+					break;
+				}
+			}
+			const [bye] = unpaired.splice(byeIndex, 1);
+			bye.hadBye = true;
+			bye.score += 0.5;
+		}
+
+		const pairings: Array<[SwissStanding, SwissStanding]> = [];
+		while (unpaired.length > 1) {
+			const first = unpaired.shift() as SwissStanding;
+			let opponentIndex = unpaired.findIndex(candidate => !first.opponents.has(candidate.doc));
+			if (opponentIndex === -1) {
+				// Everyone left has already met this document; accept a rematch
+				opponentIndex = 0;
+			}
+			const [second] = unpaired.splice(opponentIndex, 1);
+			pairings.push([first, second]);
+		}
+
+		return pairings;
+	}
+}
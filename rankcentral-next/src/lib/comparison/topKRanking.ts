@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Top-K tournament selection strategy.
+ * Establishes and orders only the best K documents, leaving the rest unranked,
+ * which needs far fewer comparisons than a full sort when K is small.
+ */
+
+// src/lib/comparison/topKRanking.ts
+import type { AsyncComparator, RankingStrategy } from './rankingStrategy';
+import { RankingStrategyName } from './types';
+
+/** @type {number} Default number of documents to shortlist */
+export const DEFAULT_SHORTLIST_SIZE = 5;
+
+/**
+ * Ranking strategy that selects the top K documents with a knockout tournament.
+ *
+ * A single-elimination bracket finds the best document in n − 1 comparisons. Each
+ * further place is found by removing the previous winner and replaying only the
+ * matches on its path to the root, at most ⌈log2 n⌉ comparisons each, so the total
+ * is about n − 1 + (K − 1)·⌈log2 n⌉. Matches in the same bracket round are
+ * independent and run concurrently. A tie goes to the document earlier in the input.
+ *
+ * The returned ranking lists the top K in order followed by every other document
+ * in input order; those are not ranked among themselves.
+ *
+ * @class TopKStrategy
+ * @implements {RankingStrategy}
+ */
+export class TopKStrategy implements RankingStrategy {
+	/** @type {RankingStrategyName} Identifier recorded in report metadata */
+	readonly name: RankingStrategyName = 'top-k';
+
+	/** @type {number} Number of documents to select and order */
+	readonly shortlistSize: number;
+
+	/**
+	 * Creates a new TopKStrategy instance.
+	 * @param {number} [shortlistSize=DEFAULT_SHORTLIST_SIZE] - Number of top documents to establish
+	 */
+	constructor(shortlistSize: number = DEFAULT_SHORTLIST_SIZE) {
+		this.shortlistSize = Number.isFinite(shortlistSize) && shortlistSize >= 1
+			? Math.floor(shortlistSize)
+			: DEFAULT_SHORTLIST_SIZE;
+	}
+
+	/**
+	 * Selects and orders the top documents.
+	 *
+	 * @param {string[]} documents - Document names to rank
+	 * @param {AsyncComparator} comparator - Async pairwise comparator
+	 * @returns {Promise<string[]>} Top documents best first, then the rest in input order
+	 * @async
+	 */
+	async rank(documents: string[], comparator: AsyncComparator): Promise<string[]> {
+		if (documents.length <= 1) {
+			return documents;
+		}
+
+		const k = Math.min(this.shortlistSize, documents.length);
+		console.log(`Selecting the top ${k} of ${documents.length} documents by tournament`);
+
+		// Complete binary tree over a power-of-two number of leaves; each node holds
+		// the input index of the document that won there, or -1 for an empty slot
+		let leafCount = 1;
+		while (leafCount < documents.length) {
+			leafCount *= 2;
+		}
+		const tree = new Array<number>(2 * leafCount).fill(-1);
+		documents.forEach((_, index) => {
+			tree[leafCount + index] = index;
+		});
+
+		const play = async (node: number): Promise<number> => {
+			const left = tree[2 * node];
+			const right = tree[2 * node + 1];
+			if (left === -1 || right === -1) {
+				return left === -1 ? right : left;
+			}
+			return (await comparator(documents[left], documents[right])) >= 0 ? left : right;
+		};
+
+		// Build the bracket one round at a time, playing each round's matches concurrently
+		for (let levelStart = leafCount / 2; levelStart >= 1; levelStart /= 2) {
+			const nodes = Array.from({ length: levelStart }, (_, i) => levelStart + i);
+			const winners = await Promise.all(nodes.map(play));
+			nodes.forEach((node, i) => {
+				tree[node] = winners[i];
+			});
+		}
+
+		const selected: number[] = [];
+		while (selected.length < k) {
+			const winner = tree[1];
+			selected.push(winner);
+
+			if (selected.length === k) {
+				break;
+			}
+
+			// Remove the winner and replay the matches on its path to the root
+			let node = leafCount + winner;
+			tree[node] = -1;
+			for (node = Math.floor(node / 2); node >= 1; node = Math.floor(node / 2)) {
+				tree[node] = await play(node);
+			}
+		}
+
+		const shortlisted = new Set(selected);
+		const ranking = [
+			...selected.map(index => documents[index]),
+			...documents.filter((_, index) => !shortlisted.has(index))
+		];
+
+		console.log(`Shortlist: ${ranking.slice(0, k).join(', ')}`);
+		return ranking;
+	}
+}
@@ -4,6 +4,14 @@
  */
 
 // src/lib/comparison/types.ts
+import type { BlindReview } from './blindReview';
+import type { BudgetTracker } from './budgetTracker';
+import type { EvaluationCache } from './evaluationCache';
+import type { LlmRecorder } from './llmRecorder';
+import type { PiiRedactor } from './piiRedactor';
+import type { ProgressTracker } from './progressTracker';
+import type { RequestScheduler } from './requestScheduler';
+import type { UsageTracker } from './usageTracker';
 
 /**
  * Represents a document in the comparison system.
@@ -72,6 +80,121 @@ export interface CriterionEvaluation {
 	reasoning?: string;
 	/** @type {"A" | "B" | "Tie" | "N/A"} Which document wins for this criterion */
 	winner: "A" | "B" | "Tie" | "N/A";
+	/** @type {JudgeVerdict[]} [judgeBreakdown] Individual verdicts when a judge panel evaluated the criterion */
+	judgeBreakdown?: JudgeVerdict[];
+	/** @type {string} [error] Why the criterion could not be evaluated; scores are meaningless when set */
+	error?: string;
+	/** @type {TokenUsage} [usage] Tokens and cost of the model calls behind this evaluation, including every judge and repair */
+	usage?: TokenUsage;
+}
+
+/**
+ * Absolute rubric score for one document on one criterion.
+ * @interface PointwiseCriterionScore
+ */
+export interface PointwiseCriterionScore {
+	/** @type {string} [criterionId] ID of the scored criterion */
+	criterionId?: string;
+	/** @type {string} [criterionName] Name of the scored criterion */
+	criterionName?: string;
+	/** @type {number} Rubric score from 1 to 5 (0 when scoring failed) */
+	score: number;
+	/** @type {string} [analysis] Justification for the score */
+	analysis?: string;
+	/** @type {boolean} [error] Whether the model call or its parsing failed */
+	error?: boolean;
+	/** @type {TokenUsage} [usage] Tokens and cost of the model calls behind this score */
+	usage?: TokenUsage;
+}
+
+/**
+ * All rubric scores for one document, scored on its own.
+ * @interface PointwiseScore
+ */
+export interface PointwiseScore {
+	/** @type {string} Name of the document */
+	document: string;
+	/** @type {PointwiseCriterionScore[]} One score per criterion */
+	criterionScores: PointwiseCriterionScore[];
+	/** @type {number} Weighted total on the same 0–100 scale as pairwise weighted scores */
+	weightedTotal: number;
+}
+
+/**
+ * Outcome of the pairwise pass that refines a pointwise ordering.
+ * @interface PointwiseRefinement
+ */
+export interface PointwiseRefinement {
+	/** @type {number} Rounds of adjacent-pair comparisons run */
+	rounds: number;
+	/** @type {number} Pairwise comparisons made */
+	comparisons: number;
+	/** @type {number} Adjacent documents swapped because the pairwise verdict disagreed */
+	swaps: number;
+}
+
+/**
+ * Ranking produced by pointwise scoring, optionally refined pairwise.
+ * @interface PointwiseRanking
+ */
+export interface PointwiseRanking {
+	/** @type {string[]} Documents ordered best to worst */
+	ranking: string[];
+	/** @type {RankingTiers} Ranking grouped into tiers of tied documents */
+	tiers: RankingTiers;
+	/** @type {PointwiseScore[]} Rubric scores per document, in input order */
+	scores: PointwiseScore[];
+	/** @type {PointwiseRefinement} [refinement] Adjacent-pair refinement, when the hybrid option was used */
+	refinement?: PointwiseRefinement;
+}
+
+/**
+ * A single judge on an evaluation panel.
+ * @interface JudgeConfig
+ */
+export interface JudgeConfig {
+	/** @type {string} AI model the judge calls */
+	modelName: string;
+	/** @type {number} [temperature] Sampling temperature (defaults to 0) */
+	temperature?: number;
+}
+
+/**
+ * How the verdicts of a judge panel are combined.
+ * - majority: the winner most judges chose; scores averaged over the judges in that majority
+ * - mean: scores averaged over all judges; the higher mean wins
+ * @typedef {'majority' | 'mean'} EnsembleAggregation
+ */
+export type EnsembleAggregation = 'majority' | 'mean';
+
+/**
+ * Panel of judges that evaluate every criterion independently.
+ * @interface EnsembleConfig
+ */
+export interface EnsembleConfig {
+	/** @type {JudgeConfig[]} Judges on the panel */
+	judges: JudgeConfig[];
+	/** @type {EnsembleAggregation} How the judges' verdicts are combined */
+	aggregation: EnsembleAggregation;
+}
+
+/**
+ * One judge's verdict on a criterion, kept alongside the aggregated evaluation.
+ * @interface JudgeVerdict
+ */
+export interface JudgeVerdict {
+	/** @type {string} AI model the judge called */
+	modelName: string;
+	/** @type {number} Sampling temperature the judge used */
+	temperature: number;
+	/** @type {number} Score the judge assigned to document A */
+	documentAScore: number;
+	/** @type {number} Score the judge assigned to document B */
+	documentBScore: number;
+	/** @type {"A" | "B" | "Tie" | "N/A"} Which document the judge preferred */
+	winner: "A" | "B" | "Tie" | "N/A";
+	/** @type {string} [reasoning] The judge's reasoning */
+	reasoning?: string;
 }
 
 /**
@@ -106,6 +229,12 @@ export interface ComparisonResult {
 		documentA: number;
 		documentB: number;
 	}>;
+	/** @type {PositionCheck} [positionCheck] Both-order verdicts when position-bias mitigation is on */
+	positionCheck?: PositionCheck;
+	/** @type {VerdictOverride} [override] Reviewer correction that replaced the model's winner */
+	override?: VerdictOverride;
+	/** @type {TokenUsage} [usage] Tokens and cost of the model calls behind this comparison, in both orders when both were evaluated */
+	usage?: TokenUsage;
 	// Support for legacy snake_case properties from database
 	document_a?: string;
 	document_b?: string;
@@ -120,6 +249,119 @@ export interface ComparisonResult {
 	};
 }
 
+/**
+ * A reviewer's request to change one pairwise verdict.
+ * @interface VerdictOverrideInput
+ */
+export interface VerdictOverrideInput {
+	/** @type {string} One document of the pair */
+	documentA: string;
+	/** @type {string} The other document of the pair */
+	documentB: string;
+	/** @type {string|null} Document that should win, or null for a tie */
+	winner: string | null;
+	/** @type {string} Why the model's verdict is wrong (required) */
+	justification: string;
+}
+
+/**
+ * Audit record of a pairwise verdict changed by a reviewer.
+ * @interface VerdictOverride
+ */
+export interface VerdictOverride extends VerdictOverrideInput {
+	/** @type {string|null} Winner before the override, or null for a tie or failed comparison */
+	originalWinner: string | null;
+	/** @type {string} ID of the user who made the change */
+	overriddenBy: string;
+	/** @type {string} ISO timestamp of the change */
+	timestamp: string;
+}
+
+/**
+ * Verdicts from evaluating a pair with the documents presented in both orders.
+ * Scores are always expressed for the result's documentA and documentB.
+ * @interface PositionCheck
+ */
+export interface PositionCheck {
+	/** @type {PositionBiasMode} Reconciliation rule applied to the two verdicts */
+	mode: Exclude<PositionBiasMode, 'off'>;
+	/** @type {boolean} Whether both orders produced the same winner */
+	consistent: boolean;
+	/** @type {string|null} Winner with documentA shown first, or null for tie */
+	forwardWinner: string | null;
+	/** @type {string|null} Winner with documentB shown first, or null for tie */
+	reverseWinner: string | null;
+	/** @type {Object} Weighted scores with documentA shown first */
+	forwardScores: {
+		documentA: number;
+		documentB: number;
+	};
+	/** @type {Object} Weighted scores with documentB shown first */
+	reverseScores: {
+		documentA: number;
+		documentB: number;
+	};
+}
+
+/**
+ * Share of pairs whose verdict survived swapping the presentation order.
+ * @interface PositionConsistency
+ */
+export interface PositionConsistency {
+	/** @type {number} Number of pairs evaluated in both orders */
+	checkedPairs: number;
+	/** @type {number} Number of those pairs with the same winner in both orders */
+	consistentPairs: number;
+	/** @type {number|null} consistentPairs / checkedPairs, or null when nothing was checked */
+	rate: number | null;
+}
+
+/**
+ * Contradictions found in the win graph of a report's comparisons.
+ * @interface ConsistencyAnalysis
+ */
+export interface ConsistencyAnalysis {
+	/** @type {number} Number of distinct pairs with an error-free comparison */
+	comparedPairs: number;
+	/** @type {number} Number of those comparisons that produced a winner */
+	decisivePairs: number;
+	/** @type {string[][]} Groups of documents whose verdicts form at least one cycle */
+	cycles: string[][];
+	/** @type {Array<[string, string, string]>} Triples [a, b, c] with a > b, b > c and c > a */
+	intransitiveTriples: Array<[string, string, string]>;
+	/** @type {boolean} Whether the verdicts are free of cycles */
+	consistent: boolean;
+	/** @type {number} Extra comparisons run to resolve cycles */
+	extraComparisons: number;
+	/** @type {boolean} Whether cycle members were reordered after the extra comparisons */
+	rankingAdjusted: boolean;
+	/** @type {number} [reevaluatedComparisons] How many of the extra comparisons re-evaluated an existing verdict */
+	reevaluatedComparisons?: number;
+	/** @type {boolean} [resolutionSkipped] Whether cycles were found but no extra comparison could be run */
+	resolutionSkipped?: boolean;
+}
+
+/**
+ * Bradley–Terry strength estimate for a single document.
+ * @interface DocumentScore
+ */
+export interface DocumentScore {
+	/** @type {string} Name of the document */
+	name: string;
+	/** @type {number} Estimated log-strength (zero-mean across the report) */
+	score: number;
+	/** @type {number} Standard error of the log-strength estimate */
+	standardError: number;
+	/** @type {number} Number of comparisons the document won */
+	wins: number;
+	/** @type {number} Number of comparisons the document lost */
+	losses: number;
+	/** @type {number} Number of comparisons that ended in a tie */
+	ties: number;
+	/** @type {number} Number of successful comparisons involving the document */
+	comparisons: number;
+}
+
 /**
  * API response format for comparison results.
  * @interface ComparisonResultResponse
@@ -150,6 +392,16 @@ export interface ReportData {
 	criterionSummary?: any[];
 	/** @type {string[]} [ranking] Document ranking from merge sort results */
 	ranking?: string[]; // Document ranking from merge sort results
+	/** @type {RankingTiers} [tiers] The same ranking grouped into tiers of tied documents */
+	tiers?: RankingTiers;
+	/** @type {DocumentScore[]} [scores] Bradley–Terry strength estimates per document */
+	scores?: DocumentScore[];
+	/** @type {ConsistencyAnalysis} [consistency] Cycles and intransitive triples among the verdicts */
+	consistency?: ConsistencyAnalysis;
+	/** @type {number} [shortlistSize] Number of leading ranking entries that were ordered (top-K mode) */
+	shortlistSize?: number;
+	/** @type {PointwiseScore[]} [pointwiseScores] Rubric scores per document (pointwise evaluation) */
+	pointwiseScores?: PointwiseScore[];
 }
 
 /**
@@ -169,14 +421,41 @@ export interface Report {
 	criteria: Criterion[];
 	/** @type {ComparisonResult[]} Results of all pairwise comparisons */
 	results: ComparisonResult[];
-	/** @type {string[]} Final ranking of documents */
-	ranking: string[];
+	/** @type {RankingTiers|string[]} Final ranking as tiers of tied documents (flat list in older reports) */
+	ranking: RankingTiers | string[];
+	/** @type {DocumentScore[]} [scores] Bradley–Terry strength estimates per document */
+	scores?: DocumentScore[];
 	/** @type {Object} [metadata] Additional report metadata */
 	metadata?: {
 		evaluationMethod: EvaluationMethod;
 		modelName?: string;
 		customPrompt?: string;
+		rankingStrategy?: RankingStrategyName;
+		positionBias?: PositionBiasMode;
+		ensemble?: EnsembleConfig;
 	};
+	// Stored as snake_case in the reports collection
+	position_consistency?: PositionConsistency;
+	consistency_analysis?: ConsistencyAnalysis;
+	shortlist_size?: number | null;
+	ensemble?: EnsembleConfig | null;
+	pointwise_scores?: PointwiseScore[];
+	pointwise_refinement?: PointwiseRefinement | null;
+	cost_estimate?: CostEstimate | null;
+	budget?: BudgetSummary | null;
+	retry_stats?: RetryStats;
+	context_budget?: number | null;
+	evaluation_cache?: EvaluationCacheStats | null;
+	token_usage?: UsageSummary | null;
+	prompt_template?: PromptTemplate | null;
+	blind_review?: BlindReviewSummary | null;
+	pii_redaction?: RedactionSummary | null;
+	verdict_overrides?: VerdictOverride[];
+	llm_record_count?: number;
+	swiss_rounds?: number | null;
+	resolve_inconsistencies?: boolean;
+	max_extra_comparisons?: number | null;
+	llm_provider?: LlmProviderName;
 }
 
 /**
@@ -198,9 +477,32 @@ export interface ReportSummary {
 
 /**
  * Method used for document evaluation.
- * @typedef {'criteria' | 'prompt'} EvaluationMethod
+ * - criteria: pairwise comparison against each criterion's rubric
+ * - prompt: pairwise comparison against a custom prompt
+ * - pointwise: each document scored on its own against each rubric, ranked by weighted total
+ * @typedef {'criteria' | 'prompt' | 'pointwise'} EvaluationMethod
+ */
+export type EvaluationMethod = 'criteria' | 'prompt' | 'pointwise';
+
+/**
+ * Algorithm used to turn pairwise comparisons into a ranking.
+ * @typedef {'mergesort' | 'round-robin' | 'swiss' | 'top-k'} RankingStrategyName
+ */
+export type RankingStrategyName = 'mergesort' | 'round-robin' | 'swiss' | 'top-k';
+
+/**
+ * Ranking expressed as tiers, best first; documents in the same tier are tied.
+ * @typedef {string[][]} RankingTiers
+ */
+export type RankingTiers = string[][];
+
+/**
+ * How each pair is presented to the model to counter position bias.
+ * 'off' evaluates once; 'consensus' and 'average' evaluate both orders and keep the
+ * verdict only when they agree (otherwise tie), or average the two sets of scores.
+ * @typedef {'off' | 'consensus' | 'average'} PositionBiasMode
  */
-export type EvaluationMethod = 'criteria' | 'prompt';
+export type PositionBiasMode = 'off' | 'consensus' | 'average';
 
 /**
  * Configuration options for running a comparison.
@@ -217,4 +519,597 @@ export interface ComparisonOptions {
 	reportName?: string;
 	/** @type {string} [modelName] AI model to use for evaluation */
 	modelName?: string;
+	/** @type {LlmProviderName} [provider] Service that runs the model (defaults to the server's configured provider) */
+	provider?: LlmProviderName;
+	/** @type {RankingStrategyName} [rankingStrategy] Ranking algorithm to use (defaults to merge sort) */
+	rankingStrategy?: RankingStrategyName;
+	/** @type {number} [topK] Shortlist size when using the top-K strategy */
+	topK?: number;
+	/** @type {number} [concurrency] Maximum number of comparisons run in parallel */
+	concurrency?: number;
+	/** @type {PositionBiasMode} [positionBias] Whether to evaluate each pair in both orders */
+	positionBias?: PositionBiasMode;
+	/** @type {boolean} [resolveInconsistencies] Whether to run extra comparisons to settle preference cycles */
+	resolveInconsistencies?: boolean;
+	/** @type {boolean} [useEvaluationCache] Whether to reuse criterion evaluations from earlier runs (defaults to true) */
+	useEvaluationCache?: boolean;
+	/** @type {string} [progressId] ID under which the run's live progress can be polled */
+	progressId?: string;
+	/** @type {string} [promptTemplate] Name of the prompt template to use (defaults to the active one) */
+	promptTemplate?: string;
+	/** @type {number} [promptTemplateVersion] Version of `promptTemplate` to use (defaults to its latest) */
+	promptTemplateVersion?: number;
+	/** @type {boolean} [blindMode] Show the model neutral aliases and texts stripped of author names and emails */
+	blindMode?: boolean;
+	/** @type {RedactionConfig} [redaction] Personal data replaced before document text is sent to the model (defaults to the server's setting) */
+	redaction?: RedactionConfig;
+	/** @type {JudgeConfig[]} [judges] Judge panel; when omitted a single judge uses `modelName` */
+	judges?: JudgeConfig[];
+	/** @type {EnsembleAggregation} [judgeAggregation] How panel verdicts are combined (defaults to majority) */
+	judgeAggregation?: EnsembleAggregation;
+	/** @type {boolean} [hybrid] With pointwise evaluation, re-check adjacent documents pairwise */
+	hybrid?: boolean;
+	/** @type {number} [budgetUsd] Hard spending cap for the run, in US dollars */
+	budgetUsd?: number;
+	/** @type {BudgetMode} [budgetMode] What happens when the cap is reached (defaults to 'degrade') */
+	budgetMode?: BudgetMode;
+}
+
+/**
+ * Tuning options for the comparison engine.
+ * @interface ComparisonEngineOptions
+ */
+export interface ComparisonEngineOptions {
+	/** @type {number} [concurrency] Maximum number of model calls in flight at once (defaults to 4) */
+	concurrency?: number;
+	/** @type {PositionBiasMode} [positionBias] Both-order evaluation mode (defaults to 'off') */
+	positionBias?: PositionBiasMode;
+	/** @type {EnsembleConfig} [ensemble] Judge panel; when omitted a single judge evaluates each criterion */
+	ensemble?: EnsembleConfig;
+	/** @type {BudgetTracker} [budget] Spending cap checked before every model call */
+	budget?: BudgetTracker;
+	/** @type {LlmRecorder} [recorder] Keeps every prompt and raw completion, or answers calls from earlier records */
+	recorder?: LlmRecorder;
+	/** @type {LlmProviderConfig} [provider] Service that answers model calls (defaults to OpenAI) */
+	provider?: LlmProviderConfig;
+	/** @type {RequestScheduler} [scheduler] Rate limits and retries model calls, and counts the retries */
+	scheduler?: RequestScheduler;
+	/** @type {number} [contextBudget] Cap on prompt tokens per call; longer documents are cut down to their most relevant sections */
+	contextBudget?: number;
+	/** @type {EvaluationCache} [evaluationCache] Reuses criterion evaluations from earlier runs on the same documents and settings */
+	evaluationCache?: EvaluationCache;
+	/** @type {UsageTracker} [usageTracker] Counts the tokens and cost of every model call of the run */
+	usageTracker?: UsageTracker;
+	/** @type {ProgressTracker} [progress] Reports comparisons, criterion results and errors as they happen */
+	progress?: ProgressTracker;
+	/** @type {PromptTemplate} [promptTemplate] Pairwise prompt template used instead of the built-in one of its kind */
+	promptTemplate?: PromptTemplate;
+	/** @type {BlindReview} [blind] Aliases shown to the model instead of document names (blind evaluation) */
+	blind?: BlindReview;
+	/** @type {PiiRedactor} [redactor] Restores redacted personal data in the model's analyses */
+	redactor?: PiiRedactor;
+}
+
+/**
+ * Service a model call is sent to.
+ * - openai: the OpenAI API
+ * - azure: an Azure OpenAI resource, with the model name used as the deployment
+ * - anthropic: the Anthropic Messages API
+ * - openai-compatible: any server speaking the OpenAI chat completions protocol, such as Ollama or llama.cpp
+ * - mock: built-in deterministic heuristics and scripted fixtures, for offline demos and tests
+ * @typedef {'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'mock'} LlmProviderName
+ */
+export type LlmProviderName = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'mock';
+
+/**
+ * Where and how model calls are sent.
+ * @interface LlmProviderConfig
+ */
+export interface LlmProviderConfig {
+	/** @type {LlmProviderName} Service to call */
+	provider: LlmProviderName;
+	/** @type {string} [baseUrl] Endpoint of the service, when it is not the public default */
+	baseUrl?: string;
+	/** @type {string} [apiVersion] API version sent to Azure OpenAI */
+	apiVersion?: string;
+	/** @type {string} [fixturesPath] JSON file of scripted verdicts for the mock provider */
+	fixturesPath?: string;
+}
+
+/**
+ * Completion text and token usage returned by a provider.
+ * @interface LlmCompletion
+ */
+export interface LlmCompletion {
+	/** @type {string} Completion text */
+	content: string;
+	/** @type {Object|null} [usage] Tokens billed, in chat completions terms */
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+	} | null;
+}
+
+/**
+ * What happens when a run reaches its budget cap.
+ * - abort: stop the run and report the spend so far
+ * - degrade: skip the remaining model calls; unfinished comparisons count as unresolved
+ * @typedef {'abort' | 'degrade'} BudgetMode
+ */
+export type BudgetMode = 'abort' | 'degrade';
+
+/**
+ * Predicted size and cost of a run, computed before it starts.
+ * @interface CostEstimate
+ */
+export interface CostEstimate {
+	/** @type {string} Model the prices are taken from */
+	modelName: string;
+	/** @type {boolean} Whether the model is in the pricing table (otherwise default prices are used) */
+	pricingKnown: boolean;
+	/** @type {number} Pairwise comparisons the ranking is expected to need (upper bound) */
+	comparisons: number;
+	/** @type {number} Model calls, counting every criterion, judge and presentation order */
+	calls: number;
+	/** @type {number} Of those calls, the ones summarising documents too long to evaluate from selected sections */
+	summaryCalls: number;
+	/** @type {number} Prompt tokens across all calls */
+	inputTokens: number;
+	/** @type {number} Expected completion tokens across all calls */
+	outputTokens: number;
+	/** @type {number} Expected cost in US dollars */
+	estimatedCost: number;
+	/** @type {number} Cost in US dollars if every completion used its full token allowance */
+	maxCost: number;
+}
+
+/**
+ * Spend recorded against a run's budget cap.
+ * @interface BudgetSummary
+ */
+export interface BudgetSummary {
+	/** @type {number} Cap in US dollars */
+	limitUsd: number;
+	/** @type {BudgetMode} What happens when the cap is reached */
+	mode: BudgetMode;
+	/** @type {number} Spent so far in US dollars, from reported token usage */
+	spentUsd: number;
+	/** @type {number} Model calls made */
+	calls: number;
+	/** @type {number} Prompt tokens used */
+	inputTokens: number;
+	/** @type {number} Completion tokens used */
+	outputTokens: number;
+	/** @type {boolean} Whether any call was refused because of the cap */
+	exhausted: boolean;
+	/** @type {number} Model calls refused because of the cap */
+	refusedCalls: number;
+}
+
+/**
+ * Tokens and cost of a set of model calls.
+ * @interface TokenUsage
+ */
+export interface TokenUsage {
+	/** @type {number} Model calls made */
+	calls: number;
+	/** @type {number} Prompt tokens billed */
+	inputTokens: number;
+	/** @type {number} Completion tokens billed */
+	outputTokens: number;
+	/** @type {number} Cost in US dollars at list prices */
+	costUsd: number;
+	/** @type {boolean} [known] False when some calls went to a model without a known price; costUsd then includes them at the fallback prices and is an estimate */
+	known?: boolean;
+}
+
+/**
+ * Tokens and cost of the calls to one model.
+ * @interface ModelUsage
+ */
+export interface ModelUsage extends TokenUsage {
+	/** @type {string} Model called */
+	modelName: string;
+}
+
+/**
+ * Tokens and cost of every model call of a run, stored with its report.
+ * @interface UsageSummary
+ */
+export interface UsageSummary extends TokenUsage {
+	/** @type {ModelUsage[]} Breakdown by model, most expensive first */
+	models: ModelUsage[];
+}
+
+/**
+ * Stage a running comparison has reached.
+ * - preparing: reading documents and checking settings
+ * - scoring: scoring documents on their own (pointwise evaluation)
+ * - ranking: running pairwise comparisons for the ranking strategy
+ * - resolving: running extra comparisons to settle preference cycles
+ * - reporting: building and storing the report
+ * @typedef {'preparing' | 'scoring' | 'ranking' | 'resolving' | 'reporting'} ProgressPhase
+ */
+export type ProgressPhase = 'preparing' | 'scoring' | 'ranking' | 'resolving' | 'reporting';
+
+/**
+ * Something that happened during a running comparison.
+ * @interface ProgressEvent
+ */
+export interface ProgressEvent {
+	/** @type {number} Position of the event in the run, starting at 1 */
+	sequence: number;
+	/** @type {'comparison-started'|'criterion-evaluated'|'comparison-completed'|'document-scored'|'error'} What happened */
+	type: 'comparison-started' | 'criterion-evaluated' | 'comparison-completed' | 'document-scored' | 'error';
+	/** @type {string} ISO timestamp of the event */
+	timestamp: string;
+	/** @type {string} [documentA] Document shown as "Document A", or the document scored */
+	documentA?: string;
+	/** @type {string} [documentB] Document shown as "Document B" */
+	documentB?: string;
+	/** @type {string} [criterionName] Criterion evaluated */
+	criterionName?: string;
+	/** @type {number} [documentAScore] Score of documentA: criterion score, or weighted total when a document was scored */
+	documentAScore?: number;
+	/** @type {number} [documentBScore] Score of documentB */
+	documentBScore?: number;
+	/** @type {string|null} [winner] 'A', 'B' or 'Tie' for a criterion; winning document name, or null for a tie, for a comparison */
+	winner?: string | null;
+	/** @type {string} [message] Error message */
+	message?: string;
+}
+
+/**
+ * Snapshot of a running or finished comparison, as returned to the client.
+ * @interface ComparisonProgress
+ */
+export interface ComparisonProgress {
+	/** @type {string} Progress ID chosen by the client */
+	id: string;
+	/** @type {'running'|'completed'|'failed'} Whether the run is still going */
+	status: 'running' | 'completed' | 'failed';
+	/** @type {ProgressPhase} Stage reached */
+	phase: ProgressPhase;
+	/** @type {string} ISO timestamp of the start of the run */
+	startedAt: string;
+	/** @type {number} Pairwise comparisons finished, including failed ones */
+	completedComparisons: number;
+	/** @type {number} Pairwise comparisons expected in total; an upper bound for most strategies */
+	expectedComparisons: number;
+	/** @type {number} Pairwise comparisons that ended in an error */
+	failedComparisons: number;
+	/** @type {number} Documents scored on their own so far */
+	scoredDocuments: number;
+	/** @type {number} Documents to score on their own in total */
+	expectedDocuments: number;
+	/** @type {Array<[string, string]>} Pairs being compared right now */
+	currentPairs: Array<[string, string]>;
+	/** @type {number|null} Rough time left in milliseconds, from the pace so far; null before anything finished */
+	estimatedRemainingMs: number | null;
+	/** @type {ProgressEvent[]} Events after the sequence number the client asked from, oldest first */
+	events: ProgressEvent[];
+	/** @type {string} [error] Why the run failed */
+	error?: string;
+	/** @type {string} [reportId] Report stored by the finished run */
+	reportId?: string;
+}
+
+/**
+ * Limits on model calls sharing one API key.
+ * @interface RateLimits
+ */
+export interface RateLimits {
+	/** @type {number} Calls in flight at once */
+	maxConcurrent: number;
+	/** @type {number} Calls started in any 60-second window */
+	requestsPerMinute: number;
+}
+
+/**
+ * How failed model calls are retried.
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+	/** @type {number} Retries after the first attempt */
+	maxRetries: number;
+	/** @type {number} Backoff before the first retry, doubled for each one after */
+	baseDelayMs: number;
+	/** @type {number} Longest wait before a retry, including one the service asks for */
+	maxDelayMs: number;
+}
+
+/**
+ * Retry activity of a run, stored with its report.
+ * @interface RetryStats
+ */
+export interface RetryStats {
+	/** @type {number} Attempts sent, including retries */
+	attempts: number;
+	/** @type {number} Attempts that were retries */
+	retries: number;
+	/** @type {number} Attempts rejected with 429 */
+	rateLimited: number;
+	/** @type {number} Attempts rejected with a server error or timeout */
+	serverErrors: number;
+	/** @type {number} Attempts that never reached the service */
+	connectionErrors: number;
+	/** @type {number} Calls that still failed after their last retry */
+	failedCalls: number;
+	/** @type {number} Total time spent waiting before retries, in milliseconds */
+	backoffMs: number;
+}
+
+/**
+ * Kind of pairwise evaluation a prompt template is written for.
+ * - criterion: one criterion with its scoring rubric
+ * - custom: the user's own evaluation instructions
+ * @typedef {'criterion' | 'custom'} PromptTemplateKind
+ */
+export type PromptTemplateKind = 'criterion' | 'custom';
+
+/**
+ * One version of a named pairwise prompt template. Versions are never changed once
+ * saved; editing a template saves its next version.
+ * @interface PromptTemplate
+ */
+export interface PromptTemplate {
+	/** @type {string} Template name, shared by all its versions */
+	name: string;
+	/** @type {PromptTemplateKind} Kind of evaluation the template is for */
+	kind: PromptTemplateKind;
+	/** @type {number} Version number, from 1 */
+	version: number;
+	/** @type {string} Prompt text with `{{variable}}` placeholders */
+	body: string;
+	/** @type {string} [description] What changed in this version, or what the template is for */
+	description?: string;
+	/** @type {boolean} [active] Whether runs of this kind use this version unless they name another */
+	active?: boolean;
+	/** @type {string} [createdBy] User who saved this version */
+	createdBy?: string;
+	/** @type {string} [createdAt] When this version was saved (ISO string) */
+	createdAt?: string;
+}
+
+/**
+ * Persistent storage for prompt template versions.
+ * @interface PromptTemplateStore
+ */
+export interface PromptTemplateStore {
+	/**
+	 * Lists every stored version.
+	 * @returns {Promise<PromptTemplate[]>} Versions by name, newest first
+	 */
+	list(): Promise<PromptTemplate[]>;
+	/**
+	 * Finds a version of a template.
+	 * @param {string} name - Template name
+	 * @param {number} [version] - Version to find; the latest when omitted
+	 * @returns {Promise<PromptTemplate|null>} The version, or null if there is none
+	 */
+	find(name: string, version?: number): Promise<PromptTemplate | null>;
+	/**
+	 * Finds the active version for a kind of evaluation.
+	 * @param {PromptTemplateKind} kind - Kind of evaluation
+	 * @returns {Promise<PromptTemplate|null>} The active version, or null when the built-in template is used
+	 */
+	findActive(kind: PromptTemplateKind): Promise<PromptTemplate | null>;
+	/**
+	 * Saves the next version of a template.
+	 * @param {Omit<PromptTemplate, 'version'|'active'|'createdAt'>} template - Template to save
+	 * @returns {Promise<PromptTemplate>} The saved version
+	 */
+	add(template: Omit<PromptTemplate, 'version' | 'active' | 'createdAt'>): Promise<PromptTemplate>;
+	/**
+	 * Makes a version the active one for its kind, or goes back to the built-in template.
+	 * @param {PromptTemplateKind} kind - Kind of evaluation
+	 * @param {{name: string, version: number}|null} template - Version to activate, or null for the built-in template
+	 * @returns {Promise<void>}
+	 */
+	activate(kind: PromptTemplateKind, template: { name: string; version: number } | null): Promise<void>;
+}
+
+/**
+ * Author details stripped from one document's text for blind evaluation.
+ * @interface BlindRedactionCounts
+ */
+export interface BlindRedactionCounts {
+	/** @type {number} Author name occurrences replaced */
+	names: number;
+	/** @type {number} Email addresses replaced */
+	emails: number;
+}
+
+/**
+ * How a report was anonymised for blind evaluation.
+ * @interface BlindReviewSummary
+ */
+export interface BlindReviewSummary {
+	/** @type {Record<string, string>} Alias the model saw for each document name */
+	aliases: Record<string, string>;
+	/** @type {Record<string, BlindRedactionCounts>} Author details stripped from each document */
+	redactions: Record<string, BlindRedactionCounts>;
+}
+
+/**
+ * Kind of personal data the redaction stage recognises.
+ * - email: email addresses
+ * - phone: phone numbers
+ * - national_id: social security, national insurance, passport and similar numbers
+ * - address: street addresses and postcodes
+ * @typedef {'email' | 'phone' | 'national_id' | 'address'} PiiCategory
+ */
+export type PiiCategory = 'email' | 'phone' | 'national_id' | 'address';
+
+/**
+ * Replacements made in one document, by kind of personal data; `custom` counts
+ * matches of the report's own patterns.
+ * @typedef {Partial<Record<PiiCategory | 'custom', number>>} RedactionCounts
+ */
+export type RedactionCounts = Partial<Record<PiiCategory | 'custom', number>>;
+
+/**
+ * Which personal data is replaced before document text leaves the server.
+ * @interface RedactionConfig
+ */
+export interface RedactionConfig {
+	/** @type {PiiCategory[]} Kinds of personal data to replace */
+	categories: PiiCategory[];
+	/** @type {string[]} Regular expressions of further text to replace */
+	customPatterns: string[];
+}
+
+/**
+ * Redaction settings of a report and the replacements they made.
+ * @interface RedactionSummary
+ */
+export interface RedactionSummary extends RedactionConfig {
+	/** @type {Record<string, RedactionCounts>} Replacements made in each document */
+	documents: Record<string, RedactionCounts>;
+	/** @type {number} Replacements made across all documents */
+	total: number;
+}
+
+/**
+ * Persistent storage for criterion evaluations, keyed by a hash of everything that determines them.
+ * @interface EvaluationStore
+ */
+export interface EvaluationStore {
+	/**
+	 * Looks up stored evaluations.
+	 * @param {string[]} keys - Keys to look up
+	 * @returns {Promise<Map<string, CriterionEvaluation>>} Evaluations by key; keys with none are left out
+	 */
+	get(keys: string[]): Promise<Map<string, CriterionEvaluation>>;
+	/**
+	 * Stores an evaluation, keeping the one already stored under the key if there is one.
+	 * @param {string} key - Key to store under
+	 * @param {CriterionEvaluation} evaluation - Evaluation to store
+	 * @returns {Promise<void>}
+	 */
+	put(key: string, evaluation: CriterionEvaluation): Promise<void>;
+}
+
+/**
+ * Evaluation cache activity of a run, stored with its report.
+ * @interface EvaluationCacheStats
+ */
+export interface EvaluationCacheStats {
+	/** @type {number} Criterion evaluations taken from the cache */
+	hits: number;
+	/** @type {number} Hits found under the pair in the other order, with the documents swapped back */
+	swappedHits: number;
+	/** @type {number} Criterion evaluations not in the cache */
+	misses: number;
+	/** @type {number} New evaluations added to the cache */
+	stored: number;
+	/** @type {number} Lookups or writes that failed; the run carried on without the cache */
+	errors: number;
+}
+
+/**
+ * How an LLM recorder treats model calls.
+ * - record: send every call and keep the prompt and raw completion
+ * - replay: answer every call from earlier records without contacting the model
+ * @typedef {'record' | 'replay'} LlmRecorderMode
+ */
+export type LlmRecorderMode = 'record' | 'replay';
+
+/**
+ * The parts of a model call that determine its completion.
+ * @interface LlmRequest
+ */
+export interface LlmRequest {
+	/** @type {string} Model the call goes to */
+	modelName: string;
+	/** @type {number} Sampling temperature */
+	temperature: number;
+	/** @type {number} Completion token allowance */
+	maxTokens: number;
+	/** @type {string} Full prompt text */
+	prompt: string;
+	/** @type {ResponseSchema} [responseSchema] Shape the response must take, for providers that can enforce it */
+	responseSchema?: ResponseSchema;
+}
+
+/**
+ * The subset of JSON Schema used to describe model responses.
+ * @interface JsonSchema
+ */
+export interface JsonSchema {
+	/** @type {'object' | 'string' | 'number' | 'integer' | 'boolean'} Value type */
+	type: 'object' | 'string' | 'number' | 'integer' | 'boolean';
+	/** @type {Record<string, JsonSchema>} [properties] Schemas of an object's properties */
+	properties?: Record<string, JsonSchema>;
+	/** @type {string[]} [required] Properties an object must have */
+	required?: string[];
+	/** @type {boolean} [additionalProperties] Whether an object may have other properties */
+	additionalProperties?: boolean;
+	/** @type {string[]} [enum] Allowed string values */
+	enum?: string[];
+	/** @type {number} [minimum] Smallest allowed number */
+	minimum?: number;
+	/** @type {number} [maximum] Largest allowed number */
+	maximum?: number;
+}
+
+/**
+ * A named schema for a structured model response.
+ * @interface ResponseSchema
+ */
+export interface ResponseSchema {
+	/** @type {string} Identifier sent to providers, letters, digits and underscores only */
+	name: string;
+	/** @type {JsonSchema} Schema of the JSON object */
+	schema: JsonSchema;
+}
+
+/**
+ * A model call and its raw completion, as persisted in the llm_records collection.
+ * @interface LlmRecord
+ */
+export interface LlmRecord extends LlmRequest {
+	/** @type {string} SHA-256 of the request (model, temperature, token allowance and prompt) */
+	hash: string;
+	/** @type {number} 0 for the first call with this hash in a run, 1 for the second, and so on */
+	occurrence: number;
+	/** @type {string} Completion text exactly as returned, before any JSON extraction */
+	completion: string;
+	/** @type {Object|null} [usage] Token usage reported by the API */
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+	} | null;
+	/** @type {string} ISO timestamp of the call */
+	timestamp: string;
+}
+
+/**
+ * Outcome of rebuilding a report's ranking from its recorded model calls.
+ * @interface ReplayResult
+ */
+export interface ReplayResult {
+	/** @type {string} Report that was replayed */
+	report_id: string;
+	/** @type {string[]} Replayed ranking, best first */
+	ranked_documents: string[];
+	/** @type {RankingTiers} Replayed ranking as tiers of tied documents */
+	ranking_tiers: RankingTiers;
+	/** @type {DocumentScore[]} Bradley–Terry strengths from the replayed verdicts */
+	scores: DocumentScore[];
+	/** @type {ConsistencyAnalysis} Cycles found among the replayed verdicts */
+	consistency_analysis: ConsistencyAnalysis;
+	/** @type {PointwiseScore[]} [pointwise_scores] Replayed rubric scores for pointwise reports */
+	pointwise_scores?: PointwiseScore[];
+	/** @type {boolean} Whether the replayed tiers equal the stored ones */
+	matches_original: boolean;
+	/** @type {Object[]} Comparisons whose replayed winner differs from the stored one */
+	changed_verdicts: Array<{
+		documentA: string;
+		documentB: string;
+		storedWinner: string | null;
+		replayedWinner: string | null;
+	}>;
+	/** @type {number} Model calls the replay needed that were never recorded */
+	missing_records: number;
 }
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Token and cost accounting for model calls.
+ * Every call's reported usage is priced and counted per model for the run, and the
+ * same figures are attached to the evaluations they paid for, so usage can be rolled
+ * up per comparison, report, project and user.
+ */
+
+// src/lib/comparison/usageTracker.ts
+import { costOf, getModelPricing } from './modelPricing';
+import { LlmCompletion, LlmProviderName, ModelUsage, TokenUsage, UsageSummary } from './types';
+
+/**
+ * Usage of no calls.
+ * @returns {TokenUsage} Zero usage
+ */
+export function emptyUsage(): TokenUsage {
+	return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Prices one call. A call whose provider reported no usage still counts as a call.
+ * A call to a model without a known price is charged at the fallback prices, the same
+ * as the budget charges it, and marked `known: false` so its cost reads as an estimate.
+ * @param {string} modelName - Model called
+ * @param {LlmCompletion['usage']} [reported] - Usage reported by the provider
+ * @param {LlmProviderName} [provider] - Provider serving the model
+ * @returns {TokenUsage} Usage of the call
+ */
+export function usageOf(modelName: string, reported?: LlmCompletion['usage'], provider?: LlmProviderName): TokenUsage {
+	const inputTokens = reported?.prompt_tokens ?? 0;
+	const outputTokens = reported?.completion_tokens ?? 0;
+	const costUsd = costOf(modelName, inputTokens, outputTokens, provider);
+
+	return getModelPricing(modelName, provider).known
+		? { calls: 1, inputTokens, outputTokens, costUsd }
+		: { calls: 1, inputTokens, outputTokens, costUsd, known: false };
+}
+
+/**
+ * Adds usage into a running total.
+ * @param {TokenUsage} total - Total to add to; changed in place
+ * @param {TokenUsage} [usage] - Usage to add
+ * @returns {TokenUsage} The total
+ */
+export function accumulateUsage(total: TokenUsage, usage?: TokenUsage): TokenUsage {
+	if (usage) {
+		total.calls += usage.calls;
+		total.inputTokens += usage.inputTokens;
+		total.outputTokens += usage.outputTokens;
+		total.costUsd += usage.costUsd;
+		if (usage.known === false) {
+			total.known = false;
+		}
+	}
+	return total;
+}
+
+/**
+ * Sums usages, for example of the criteria of one comparison.
+ * @param {Array<TokenUsage|undefined>} usages - Usages to sum; missing ones are skipped
+ * @returns {TokenUsage|undefined} Sum, or undefined when none of the usages is known
+ */
+export function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+	const known = usages.filter((usage): usage is TokenUsage => !!usage);
+	return known.length > 0 ? known.reduce(accumulateUsage, emptyUsage()) : undefined;
+}
+
+/**
+ * Rounds a cost to a millionth of a dollar, so sums of many small calls stay readable.
+ * @param {number} costUsd - Cost in US dollars
+ * @returns {number} Rounded cost
+ */
+export function roundCost(costUsd: number): number {
+	return Math.round(costUsd * 1000000) / 1000000;
+}
+
+/**
+ * Counts the tokens and cost of every model call of a run, by model.
+ * @class UsageTracker
+ */
+export class UsageTracker {
+	/** @type {Map<string, TokenUsage>} Usage so far by model */
+	private byModel = new Map<string, TokenUsage>();
+	/** @type {LlmProviderName} [provider] Provider every call of the run goes to */
+	private provider?: LlmProviderName;
+
+	/**
+	 * Creates a new UsageTracker instance.
+	 * @param {LlmProviderName} [provider] - Provider the run calls, so models of free providers cost nothing
+	 */
+	constructor(provider?: LlmProviderName) {
+		this.provider = provider;
+	}
+
+	/**
+	 * Counts a call that reached the provider. Replayed and cached answers are not counted.
+	 * @param {string} modelName - Model called
+	 * @param {LlmCompletion['usage']} [reported] - Usage reported by the provider
+	 * @returns {TokenUsage} Usage of the call
+	 */
+	record(modelName: string, reported?: LlmCompletion['usage']): TokenUsage {
+		const usage = usageOf(modelName, reported, this.provider);
+		let total = this.byModel.get(modelName);
+
+		if (!total) {
+			total = emptyUsage();
+			this.byModel.set(modelName, total);
+		}
+
+		accumulateUsage(total, usage);
+		return usage;
+	}
+
+	/**
+	 * Usage so far, in total and by model.
+	 * @returns {UsageSummary} Snapshot of the counters
+	 */
+	summary(): UsageSummary {
+		const models: ModelUsage[] = [...this.byModel.entries()]
+			.map(([modelName, usage]) => ({ modelName, ...usage, costUsd: roundCost(usage.costUsd) }))
+			.sort((a, b) => b.costUsd - a.costUsd);
+		const total = models.reduce<TokenUsage>(accumulateUsage, emptyUsage());
+
+		return { ...total, costUsd: roundCost(total.costUsd), models };
+	}
+}
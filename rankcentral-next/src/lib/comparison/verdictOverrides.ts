@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Reviewer overrides of individual pairwise verdicts.
+ * Replaces the winner of cached comparison results and records who changed what and
+ * why, so a report can be re-ranked from the corrected verdicts without calling the
+ * model again for pairs it has already judged.
+ */
+
+// src/lib/comparison/verdictOverrides.ts
+import { ComparisonResult, VerdictOverride, VerdictOverrideInput } from './types';
+
+/** @type {number} Shortest justification accepted for an override */
+export const MIN_JUSTIFICATION_LENGTH = 10;
+
+/** @type {number} Longest justification stored for an override */
+export const MAX_JUSTIFICATION_LENGTH = 1000;
+
+/**
+ * Thrown when an override request cannot be applied to a report.
+ * @class VerdictOverrideError
+ * @extends Error
+ */
+export class VerdictOverrideError extends Error {
+	/**
+	 * Creates a new VerdictOverrideError instance.
+	 * @param {string} message - What is wrong with the request
+	 */
+	constructor(message: string) {
+		super(message);
+		this.name = 'VerdictOverrideError';
+	}
+}
+
+/**
+ * Checks an override request received from a client.
+ * @param {unknown} value - Raw override request
+ * @returns {VerdictOverrideInput} Cleaned request with a trimmed justification
+ * @throws {VerdictOverrideError} When a field is missing or the justification is too short
+ */
+export function parseVerdictOverride(value: unknown): VerdictOverrideInput {
+	const raw = (value ?? {}) as Record<string, unknown>;
+	const { documentA, documentB } = raw;
+
+	if (typeof documentA !== 'string' || typeof documentB !== 'string' || documentA === documentB) {
+		throw new VerdictOverrideError('Each override needs two different documents');
+	}
+
+	const winner = raw.winner === documentA || raw.winner === documentB ? raw.winner as string : null;
+	if (raw.winner !== null && winner === null) {
+		throw new VerdictOverrideError(`The winner of ${documentA} vs ${documentB} must be one of the two documents, or null for a tie`);
+	}
+
+	const justification = typeof raw.justification === 'string' ? raw.justification.trim() : '';
+	if (justification.length < MIN_JUSTIFICATION_LENGTH) {
+		throw new VerdictOverrideError(`Explain why ${documentA} vs ${documentB} should change (at least ${MIN_JUSTIFICATION_LENGTH} characters)`);
+	}
+
+	return {
+		documentA,
+		documentB,
+		winner,
+		justification: justification.substring(0, MAX_JUSTIFICATION_LENGTH)
+	};
+}
+
+/**
+ * Applies overrides to a set of comparison results.
+ * A matching result (in either document order) keeps the model's evaluation details
+ * but takes the reviewer's winner; an overridden failed comparison stops being an error.
+ * @param {ComparisonResult[]} results - Stored comparison results
+ * @param {VerdictOverrideInput[]} requests - Overrides to apply, in order
+ * @param {string} overriddenBy - ID of the reviewer
+ * @param {string} [timestamp] - ISO timestamp recorded on every override
+ * @returns {{results: ComparisonResult[], overrides: VerdictOverride[]}} Updated results and the audit records
+ * @throws {VerdictOverrideError} When a pair was never compared or the override changes nothing
+ */
+export function applyVerdictOverrides(
+	results: ComparisonResult[],
+	requests: VerdictOverrideInput[],
+	overriddenBy: string,
+	timestamp: string = new Date().toISOString()
+): { results: ComparisonResult[]; overrides: VerdictOverride[] } {
+	const updated = [...results];
+	const overrides: VerdictOverride[] = [];
+
+	for (const request of requests) {
+		const index = updated.findIndex(result =>
+			(result.documentA === request.documentA && result.documentB === request.documentB) ||
+			(result.documentA === request.documentB && result.documentB === request.documentA)
+		);
+
+		if (index === -1) {
+			throw new VerdictOverrideError(`${request.documentA} and ${request.documentB} were never compared in this report`);
+		}
+
+		const result = updated[index];
+		if (!result.error && result.winner === request.winner) {
+			throw new VerdictOverrideError(`${request.documentA} vs ${request.documentB} already has that verdict`);
+		}
+
+		const override: VerdictOverride = {
+			...request,
+			originalWinner: result.winner,
+			overriddenBy,
+			timestamp
+		};
+
+		console.log(`✍️ Override: ${request.documentA} vs ${request.documentB} now ${request.winner ?? 'Tie'} (was ${result.error ? 'an error' : result.winner ?? 'Tie'})`);
+
+		const corrected: ComparisonResult = { ...result, winner: request.winner, override };
+		delete corrected.error;
+		updated[index] = corrected;
+		overrides.push(override);
+	}
+
+	return { results: updated, overrides };
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Bounded worker pool for running async tasks with limited concurrency.
+ * Used to run independent pairwise comparisons in parallel without flooding the model API.
+ */
+
+// src/lib/comparison/workerPool.ts
+
+/** @type {number} Default number of comparisons allowed to run at the same time */
+export const DEFAULT_CONCURRENCY = 4;
+
+/** @type {number} Upper bound on the configurable concurrency */
+export const MAX_CONCURRENCY = 16;
+
+/**
+ * Runs async tasks with at most `concurrency` of them in flight.
+ * Tasks beyond the limit wait in a FIFO queue and start as earlier ones settle.
+ *
+ * @class WorkerPool
+ */
+export class WorkerPool {
+	/** @type {number} Maximum number of tasks running at once */
+	readonly concurrency: number;
+	/** @type {number} Number of tasks currently running */
+	private active = 0;
+	/** @type {Array<() => void>} Tasks waiting for a free slot */
+	private queue: Array<() => void> = [];
+
+	/**
+	 * Creates a new WorkerPool instance.
+	 * @param {number} [concurrency=DEFAULT_CONCURRENCY] - Maximum number of concurrent tasks
+	 */
+	constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+		this.concurrency = WorkerPool.normalizeConcurrency(concurrency);
+	}
+
+	/**
+	 * Clamps a requested concurrency to the supported range, falling back to the default.
+	 * @param {unknown} value - Requested concurrency
+	 * @returns {number} Integer between 1 and MAX_CONCURRENCY
+	 */
+	static normalizeConcurrency(value: unknown): number {
+		const parsed = typeof value === 'string' ? parseInt(value, 10) : Number(value);
+		if (!Number.isFinite(parsed) || parsed < 1) {
+			return DEFAULT_CONCURRENCY;
+		}
+		return Math.min(Math.floor(parsed), MAX_CONCURRENCY);
+	}
+
+	/**
+	 * Runs a task as soon as a slot is free.
+	 * @template T
+	 * @param {() => Promise<T>} task - Task to run
+	 * @returns {Promise<T>} Resolves or rejects with the task's outcome
+	 * @async
+	 */
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		if (this.active >= this.concurrency) {
+			// The finishing task hands its slot straight to us, so `active` is unchanged
+			await new Promise<void>(resolve => this.queue.push(resolve));
+		} else {
+			this.active++;
+		}
+
+		try {
+			return await task();
+		} finally {
+			const next = this.queue.shift();
+			if (next) {
+				next();
+			} else {
+				this.active--;
+			}
+		}
+	}
+
+	/**
+	 * Number of tasks currently running.
+	 * @returns {number} Active task count
+	 */
+	get activeCount(): number {
+		return this.active;
+	}
+
+	/**
+	 * Number of tasks waiting for a slot.
+	 * @returns {number} Queued task count
+	 */
+	get pendingCount(): number {
+		return this.queue.length;
+	}
+}
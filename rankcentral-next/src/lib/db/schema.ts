@@ -40,6 +40,14 @@ export interface User {
 		lastActivity: string;
 		/** @type {number} [totalReports] Total number of reports generated */
 		totalReports?: number;
+		/** @type {number} [totalModelCalls] Total number of model calls made */
+		totalModelCalls?: number;
+		/** @type {number} [totalInputTokens] Total prompt tokens sent to models */
+		totalInputTokens?: number;
+		/** @type {number} [totalOutputTokens] Total completion tokens received from models */
+		totalOutputTokens?: number;
+		/** @type {number} [totalCostUsd] Total model cost in US dollars */
+		totalCostUsd?: number;
 	};
 }
 
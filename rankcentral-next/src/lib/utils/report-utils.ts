@@ -2,6 +2,14 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import JSZip from 'jszip';
+import { ObjectId } from 'mongodb';
+import type { Db, Document } from 'mongodb';
+import type { CriterionEvaluation, EvaluationStore, LlmRecord, PromptTemplate, PromptTemplateKind, PromptTemplateStore, UsageSummary } from '@/lib/comparison/types';
+
+/**
+ * Number of reports kept per user; older ones are pruned on save
+ */
+export const MAX_REPORTS_PER_USER = 5;
 
 /**
  * Generate a unique report ID
@@ -11,6 +19,195 @@ export function getReportId(): string {
 	return uuidv4();
 }
 
+/**
+ * Store a report and prune the user's history to the newest MAX_REPORTS_PER_USER
+ * @param db Database to write to
+ * @param reportDocument Report document, including user_id and timestamp
+ */
+export async function storeReport(db: Db, reportDocument: Document): Promise<void> {
+	const reportsCollection = db.collection('reports');
+	await reportsCollection.insertOne(reportDocument);
+
+	const allReports = await reportsCollection
+		.find({ user_id: reportDocument.user_id }, { projection: { _id: 1, report_id: 1 } })
+		.sort({ timestamp: -1 })
+		.toArray();
+
+	if (allReports.length > MAX_REPORTS_PER_USER) {
+		const reportsToDelete = allReports.slice(MAX_REPORTS_PER_USER);
+		const reportIds = reportsToDelete.map(report => report._id);
+		await reportsCollection.deleteMany({ _id: { $in: reportIds } });
+		await db.collection('llm_records').deleteMany({
+			report_id: { $in: reportsToDelete.map(report => report.report_id) }
+		});
+	}
+}
+
+/**
+ * Store the model calls behind a report, one document per call
+ * @param db Database to write to
+ * @param reportId Report the calls belong to
+ * @param userId Owner of the report
+ * @param records Prompts and raw completions, in call order
+ */
+export async function storeLlmRecords(db: Db, reportId: string, userId: string, records: LlmRecord[]): Promise<void> {
+	if (records.length === 0) {
+		return;
+	}
+
+	await db.collection('llm_records').insertMany(
+		records.map(record => ({ ...record, report_id: reportId, user_id: userId }))
+	);
+}
+
+/**
+ * Load the model calls stored for a report
+ * @param db Database to read from
+ * @param reportId Report the calls belong to
+ * @returns Prompts and raw completions, in call order
+ */
+export async function loadLlmRecords(db: Db, reportId: string): Promise<LlmRecord[]> {
+	const documents = await db.collection('llm_records')
+		.find({ report_id: reportId }, { projection: { _id: 0, report_id: 0, user_id: 0 } })
+		.toArray();
+
+	return documents as unknown as LlmRecord[];
+}
+
+/**
+ * Evaluation cache backed by the evaluation_cache collection, scoped to one user so
+ * cached evaluations are never shared between accounts
+ * @param db Database to read from and write to
+ * @param userId Owner of the cached evaluations
+ * @returns Store for an EvaluationCache
+ */
+export function createEvaluationStore(db: Db, userId: string): EvaluationStore {
+	const collection = db.collection('evaluation_cache');
+
+	return {
+		async get(keys: string[]): Promise<Map<string, CriterionEvaluation>> {
+			const documents = await collection
+				.find({ user_id: userId, key: { $in: keys } }, { projection: { _id: 0, key: 1, evaluation: 1 } })
+				.toArray();
+
+			return new Map(documents.map(document => [document.key as string, document.evaluation as CriterionEvaluation]));
+		},
+
+		async put(key: string, evaluation: CriterionEvaluation): Promise<void> {
+			// The first evaluation stored under a key is kept, so reports that used it stay reproducible
+			await collection.updateOne(
+				{ user_id: userId, key },
+				{ $setOnInsert: { user_id: userId, key, evaluation, created_at: new Date().toISOString() } },
+				{ upsert: true }
+			);
+		}
+	};
+}
+
+/**
+ * Convert a stored prompt template version into a PromptTemplate
+ * @param document Stored template version
+ * @returns The template version
+ */
+function toPromptTemplate(document: Document): PromptTemplate {
+	return {
+		name: document.name,
+		kind: document.kind,
+		version: document.version,
+		body: document.body,
+		description: document.description || undefined,
+		active: document.active === true,
+		createdBy: document.created_by,
+		createdAt: document.created_at
+	};
+}
+
+/**
+ * Create the MongoDB-backed store of prompt template versions. Templates are shared by
+ * all users; only admins save or activate them
+ * @param db Database to read from and write to
+ * @returns Store for the prompt template library
+ */
+export function createPromptTemplateStore(db: Db): PromptTemplateStore {
+	const collection = db.collection('prompt_templates');
+
+	return {
+		async list(): Promise<PromptTemplate[]> {
+			const documents = await collection.find({}).sort({ name: 1, version: -1 }).toArray();
+			return documents.map(toPromptTemplate);
+		},
+
+		async find(name: string, version?: number): Promise<PromptTemplate | null> {
+			const document = version !== undefined
+				? await collection.findOne({ name, version })
+				: await collection.findOne({ name }, { sort: { version: -1 } });
+			return document ? toPromptTemplate(document) : null;
+		},
+
+		async findActive(kind: PromptTemplateKind): Promise<PromptTemplate | null> {
+			const document = await collection.findOne({ kind, active: true });
+			return document ? toPromptTemplate(document) : null;
+		},
+
+		async add(template): Promise<PromptTemplate> {
+			// Versions are numbered per name and never rewritten, so reports that used one stay reproducible
+			const latest = await collection.findOne({ name: template.name }, { sort: { version: -1 } });
+			const stored = {
+				name: template.name,
+				kind: template.kind,
+				version: (latest?.version ?? 0) + 1,
+				body: template.body,
+				description: template.description || null,
+				active: false,
+				created_by: template.createdBy,
+				created_at: new Date().toISOString()
+			};
+			await collection.insertOne(stored);
+			return toPromptTemplate(stored);
+		},
+
+		async activate(kind: PromptTemplateKind, template: { name: string; version: number } | null): Promise<void> {
+			await collection.updateMany({ kind, active: true }, { $set: { active: false } });
+			if (template) {
+				await collection.updateOne({ kind, name: template.name, version: template.version }, { $set: { active: true } });
+			}
+		}
+	};
+}
+
+/**
+ * Add a run to its owner's lifetime usage counters, which are kept for chargeback and
+ * outlive the pruned report history
+ * @param db Database to write to
+ * @param userId Owner of the run
+ * @param activity Comparisons made, documents processed, reports saved and model usage of the run
+ */
+export async function recordUserUsage(
+	db: Db,
+	userId: string,
+	activity: { comparisons: number; documents: number; reports: number; usage: UsageSummary }
+): Promise<void> {
+	if (!ObjectId.isValid(userId)) {
+		return;
+	}
+
+	await db.collection('users').updateOne(
+		{ _id: new ObjectId(userId) },
+		{
+			$inc: {
+				'usage.total_comparisons': activity.comparisons,
+				'usage.total_documents': activity.documents,
+				'usage.total_reports': activity.reports,
+				'usage.total_model_calls': activity.usage.calls,
+				'usage.total_input_tokens': activity.usage.inputTokens,
+				'usage.total_output_tokens': activity.usage.outputTokens,
+				'usage.total_cost_usd': activity.usage.costUsd
+			},
+			$set: { 'usage.last_activity': new Date().toISOString() }
+		}
+	);
+}
+
 /**
  * Format a timestamp for display or file names
  * @param timestamp ISO timestamp string
@@ -50,8 +247,27 @@ export async function createZipFromReportData(reportData: any): Promise<Blob | n
 			top_ranked: reportData.top_ranked,
 			criteria_count: reportData.criteria_count,
 			evaluation_method: reportData.evaluation_method,
+			ranking_strategy: reportData.ranking_strategy,
+			shortlist_size: reportData.shortlist_size ?? null,
+			position_bias: reportData.position_bias,
+			position_consistency: reportData.position_consistency,
+			consistency_analysis: reportData.consistency_analysis,
+			ensemble: reportData.ensemble ?? null,
+			llm_provider: reportData.llm_provider || 'openai',
+			model_name: reportData.model_name || null,
+			pointwise_refinement: reportData.pointwise_refinement ?? null,
+			cost_estimate: reportData.cost_estimate ?? null,
+			budget: reportData.budget ?? null,
+			retry_stats: reportData.retry_stats ?? null,
+			context_budget: reportData.context_budget ?? null,
+			evaluation_cache: reportData.evaluation_cache ?? null,
+			token_usage: reportData.token_usage ?? null,
+			verdict_overrides: reportData.verdict_overrides || [],
+			llm_record_count: reportData.llm_record_count ?? 0,
 			custom_prompt: reportData.custom_prompt,
-			report_name: reportData.report_name
+			report_name: reportData.report_name,
+			version: reportData.version || 1,
+			parent_report_id: reportData.parent_report_id || null
 		};
 
 		zip.file('metadata.json', JSON.stringify(metadata, null, 2));
@@ -32,6 +32,17 @@ const ProjectSchema = new mongoose.Schema({
     documents: [{ type: String }], // References to document paths
     /** @type {mongoose.Schema.Types.ObjectId[]} Array of Report references */
     reports: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Report' }],
+    /** @type {Object} Running model usage of the project's reports, kept for chargeback after reports are pruned */
+    usage: {
+        total_model_calls: { type: Number, default: 0 },
+        total_input_tokens: { type: Number, default: 0 },
+        total_output_tokens: { type: Number, default: 0 },
+        total_cost_usd: { type: Number, default: 0 },
+        /** @type {boolean} False once a report used a model without a known price */
+        cost_known: { type: Boolean, default: true },
+        /** @type {boolean} True once the totals include the reports the project held before they were kept */
+        seeded: { type: Boolean },
+    },
 });
 
 /**
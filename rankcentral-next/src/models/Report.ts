@@ -34,12 +34,82 @@ const ReportSchema = new mongoose.Schema({
     csv_files: { type: [mongoose.Schema.Types.Mixed], required: true },
     /** @type {number} Number of criteria used in the evaluation */
     criteria_count: { type: Number, required: true },
-    /** @type {string} Method used for evaluation - either 'prompt' or 'criteria' */
+    /** @type {string} Method used for evaluation - 'prompt', 'criteria' or 'pointwise' */
     evaluation_method: {
         type: String,
         required: true,
-        enum: ['prompt', 'criteria']
+        enum: ['prompt', 'criteria', 'pointwise']
     },
+    /** @type {string} Ranking algorithm used - 'mergesort', 'round-robin', 'swiss' or 'top-k' */
+    ranking_strategy: {
+        type: String,
+        enum: ['mergesort', 'round-robin', 'swiss', 'top-k'],
+        default: 'mergesort'
+    },
+    /** @type {number} In top-K mode, how many leading ranking entries are ordered */
+    shortlist_size: { type: Number, default: null },
+    /** @type {string} Position-bias mitigation - 'off', 'consensus' or 'average' */
+    position_bias: {
+        type: String,
+        enum: ['off', 'consensus', 'average'],
+        default: 'off'
+    },
+    /** @type {Object} Share of pairs with the same verdict in both presentation orders */
+    position_consistency: {
+        checkedPairs: { type: Number, default: 0 },
+        consistentPairs: { type: Number, default: 0 },
+        rate: { type: Number, default: null }
+    },
+    /** @type {Object} Preference cycles and intransitive triples found among the verdicts */
+    consistency_analysis: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object[]} Criteria used for evaluation, kept so the report can be extended */
+    criteria: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    /** @type {string} AI model used for the comparisons */
+    model_name: { type: String },
+    /** @type {string} Service that ran the model - 'openai', 'azure', 'anthropic', 'openai-compatible' or 'mock' */
+    llm_provider: {
+        type: String,
+        enum: ['openai', 'azure', 'anthropic', 'openai-compatible', 'mock'],
+        default: 'openai'
+    },
+    /** @type {Object[]} Rubric scores per document when documents were scored pointwise */
+    pointwise_scores: { type: [mongoose.Schema.Types.Mixed], default: undefined },
+    /** @type {Object} Rounds, comparisons and swaps of the hybrid adjacent-pair refinement */
+    pointwise_refinement: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Calls, tokens and cost predicted before the run */
+    cost_estimate: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Budget cap, mode and actual spend when the run was capped */
+    budget: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Retries, rate-limit responses and backoff time of the run's model calls */
+    retry_stats: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {number} Cap on prompt tokens per model call; longer documents were cut to their most relevant sections */
+    context_budget: { type: Number, default: null },
+    /** @type {Object} Criterion evaluations reused from or added to the evaluation cache; null when the cache was off */
+    evaluation_cache: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Model calls, tokens and cost the run actually used, in total and by model */
+    token_usage: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Judge panel ({ judges, aggregation }) when several judges evaluated each criterion */
+    ensemble: { type: mongoose.Schema.Types.Mixed, default: null },
+    /** @type {Object} Map of document names to the text that was evaluated */
+    document_texts: { type: mongoose.Schema.Types.Mixed, default: {} },
+    /** @type {Object[]} Every pairwise comparison result behind the ranking */
+    comparison_details: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    /** @type {number} Report version, incremented each time late documents are inserted or verdicts overridden */
+    version: { type: Number, default: 1 },
+    /** @type {string} report_id of the version this report was derived from */
+    parent_report_id: { type: String, default: null },
+    /** @type {string[]} Documents added to the parent version to produce this one */
+    inserted_documents: { type: [String], default: [] },
+    /** @type {Object[]} Audit trail of pairwise verdicts changed by reviewers, across all versions */
+    verdict_overrides: { type: [mongoose.Schema.Types.Mixed], default: [] },
+    /** @type {number} Model calls recorded in the llm_records collection for offline replay */
+    llm_record_count: { type: Number, default: 0 },
+    /** @type {number} Swiss rounds requested for the run, when not the default */
+    swiss_rounds: { type: Number, default: null },
+    /** @type {boolean} Whether a cycle-resolution pass ran after the ranking */
+    resolve_inconsistencies: { type: Boolean, default: undefined },
+    /** @type {number} Cap on the comparisons the cycle-resolution pass could add */
+    max_extra_comparisons: { type: Number, default: null },
     /** @type {string} Custom prompt text used for evaluation (if applicable) */
     custom_prompt: { type: String, default: '' },
     /** @type {string} User-provided name for the report */
@@ -21,6 +21,17 @@ const UserSchema = new mongoose.Schema({
     created_at: { type: Date, default: Date.now },
     /** @type {Date} Last login timestamp */
     last_login: { type: Date, default: Date.now },
+    /** @type {Object} Lifetime activity and model usage, kept for chargeback */
+    usage: {
+        total_comparisons: { type: Number, default: 0 },
+        total_documents: { type: Number, default: 0 },
+        total_reports: { type: Number, default: 0 },
+        total_model_calls: { type: Number, default: 0 },
+        total_input_tokens: { type: Number, default: 0 },
+        total_output_tokens: { type: Number, default: 0 },
+        total_cost_usd: { type: Number, default: 0 },
+        last_activity: { type: Date, default: Date.now },
+    },
 })
 
 /**